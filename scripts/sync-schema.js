@@ -134,6 +134,79 @@ for (const [key, prop] of Object.entries(globalConfigProps)) {
 }
 tsGlobalConfig += `}\n`;
 
+// Step 3a: Collect what hovers and completions show for each key: its
+// description, a TOML-flavoured type name, default and allowed values.
+// Properties that point at a definition via $ref (e.g. flavor ->
+// MarkdownFlavor) take whatever they don't declare themselves from it.
+function resolveProperty(prop) {
+  if (!prop.$ref) {
+    return prop;
+  }
+  const def = defs[prop.$ref.split('/').pop()] || {};
+  return { ...def, ...prop, description: prop.description || def.description };
+}
+
+function tomlTypeName(prop) {
+  if (prop.enum) {
+    return 'string';
+  }
+  const types = (Array.isArray(prop.type) ? prop.type : [prop.type]).filter(
+    type => type && type !== 'null'
+  );
+  return (
+    types
+      .map(type => {
+        if (type === 'array') {
+          return `${prop.items?.type || 'any'}[]`;
+        }
+        return type === 'object' ? 'table' : type;
+      })
+      .join(' | ') || 'any'
+  );
+}
+
+function propertyDoc(prop, fallbackDefault) {
+  const resolved = resolveProperty(prop);
+  const doc = { description: resolved.description || '', type: tomlTypeName(resolved) };
+  const defaultValue = resolved.default !== undefined ? resolved.default : fallbackDefault;
+  if (defaultValue !== undefined && (typeof defaultValue !== 'object' || Array.isArray(defaultValue))) {
+    doc.default = defaultValue;
+  }
+  if (resolved.enum) {
+    doc.enum = resolved.enum;
+  }
+  if (resolved.deprecated) {
+    doc.deprecated = true;
+  }
+  return doc;
+}
+
+const globalDefaults = schema.properties?.global?.default || {};
+const globalPropertyDocs = {};
+for (const [key, prop] of Object.entries(globalConfigProps)) {
+  globalPropertyDocs[key] = propertyDoc(prop, globalDefaults[key]);
+}
+
+const sectionDocs = {};
+for (const [key, prop] of Object.entries(schema.properties || {})) {
+  sectionDocs[key] = propertyDoc(prop);
+}
+
+const markdownFlavors = defs.MarkdownFlavor?.enum || [];
+const severityLevels = defs.Severity?.enum || [];
+
+// [code-block-tools] is made of closed objects, and its enums are declared
+// as oneOf lists of documented constants rather than as enum
+function enumValues(def) {
+  return def?.enum || (def?.oneOf || []).map(option => option.const).filter(Boolean);
+}
+const onErrorValues = enumValues(defs.OnError);
+const onMissingValues = enumValues(defs.OnMissing);
+const normalizeLanguageValues = enumValues(defs.NormalizeLanguage);
+const codeBlockToolsProperties = Object.keys(defs.CodeBlockToolsConfig?.properties || {});
+const languageToolProperties = Object.keys(defs.LanguageToolConfig?.properties || {});
+const toolDefinitionProperties = Object.keys(defs.ToolDefinition?.properties || {});
+
 // Per-rule property schemas are deliberately not generated. rumdl models rule
 // sections as `additionalProperties: { $ref: RuleConfig }` with RuleConfig
 // itself `additionalProperties: true`, so the schema carries no list of the
@@ -148,6 +221,7 @@ tsGlobalConfig += `}\n`;
 console.log('\n📋 Step 3b: Extracting rule names and aliases from rumdl...');
 let ruleNames = [];
 let ruleAliases = {};
+let ruleDocs = {};
 try {
   const rulesJson = execSync(`${rumdlPath} rule -o json`, { encoding: 'utf-8' });
   const rules = JSON.parse(rulesJson);
@@ -159,12 +233,18 @@ try {
     for (const alias of rule.aliases || []) {
       ruleAliases[alias.toLowerCase()] = rule.code;
     }
+    ruleDocs[rule.code] = {
+      name: rule.name || '',
+      summary: rule.summary || '',
+      aliases: rule.aliases || [],
+      ...(rule.url ? { url: rule.url } : {}),
+    };
   }
   console.log(`   ✅ Found ${ruleNames.length} rules, ${Object.keys(ruleAliases).length} alias entries`);
 } catch (error) {
   console.error('   ⚠️  Failed to extract rule names:');
   console.error(`   ${error.message}`);
-  console.error('   Continuing with empty RULE_NAMES/RULE_ALIASES');
+  console.error('   Continuing with empty RULE_NAMES/RULE_ALIASES/RULE_DOCS');
 }
 
 // Build the full TypeScript file
@@ -179,6 +259,40 @@ ${tsGlobalConfig}
 
 export const GLOBAL_PROPERTIES = ${JSON.stringify(Object.keys(globalConfigProps), null, 2)};
 
+// Documentation shown for a config key: the schema description, the value's
+// TOML type, and its default and allowed values where the schema has them.
+export interface PropertyDoc {
+  description: string;
+  type: string;
+  default?: unknown;
+  enum?: string[];
+  deprecated?: boolean;
+}
+
+// [global] keys (also the keys of [tool.rumdl] in pyproject.toml)
+export const GLOBAL_PROPERTY_DOCS: Record<string, PropertyDoc> = ${JSON.stringify(globalPropertyDocs, null, 2)};
+
+// Top-level keys and sections: extends, [global], [per-file-ignores], ...
+export const SECTION_DOCS: Record<string, PropertyDoc> = ${JSON.stringify(sectionDocs, null, 2)};
+
+// Values accepted for flavor and per-file-flavor entries, aliases included
+export const MARKDOWN_FLAVORS = ${JSON.stringify(markdownFlavors, null, 2)};
+
+// Values accepted for a rule's severity option
+export const SEVERITY_LEVELS = ${JSON.stringify(severityLevels, null, 2)};
+
+// Values of the OnError, OnMissing and NormalizeLanguage enums that
+// [code-block-tools] settings reference
+export const ON_ERROR_VALUES = ${JSON.stringify(onErrorValues, null, 2)};
+export const ON_MISSING_VALUES = ${JSON.stringify(onMissingValues, null, 2)};
+export const NORMALIZE_LANGUAGE_VALUES = ${JSON.stringify(normalizeLanguageValues, null, 2)};
+
+// Properties of the CodeBlockToolsConfig, LanguageToolConfig and
+// ToolDefinition objects; anything else in them is a typo
+export const CODE_BLOCK_TOOLS_PROPERTIES = ${JSON.stringify(codeBlockToolsProperties, null, 2)};
+export const LANGUAGE_TOOL_PROPERTIES = ${JSON.stringify(languageToolProperties, null, 2)};
+export const TOOL_DEFINITION_PROPERTIES = ${JSON.stringify(toolDefinitionProperties, null, 2)};
+
 export const RULE_NAMES = ${JSON.stringify(ruleNames, null, 2)};
 
 // Maps a rule's canonical kebab-case name or extra alias (lowercased) to its
@@ -186,6 +300,16 @@ export const RULE_NAMES = ${JSON.stringify(ruleNames, null, 2)};
 // of the code, e.g. [line-length] / [rules.line-length] / [tool.rumdl.line-length]
 // are all equivalent to [MD013] / [rules.MD013] / [tool.rumdl.MD013].
 export const RULE_ALIASES: Record<string, string> = ${JSON.stringify(ruleAliases, null, 2)};
+
+export interface RuleDoc {
+  name: string;
+  summary: string;
+  aliases: string[];
+  url?: string;
+}
+
+// Name, one-line summary and documentation URL of each rule, keyed by MD### code
+export const RULE_DOCS: Record<string, RuleDoc> = ${JSON.stringify(ruleDocs, null, 2)};
 `;
 
 // Step 4: Write TypeScript file
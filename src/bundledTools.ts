@@ -2,7 +2,9 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as vscode from 'vscode';
+import { ConfigurationManager } from './configuration';
 import { Logger } from './utils';
+import { owningFolder } from './utils/workspace';
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 import which = require('which');
 
@@ -238,10 +240,10 @@ export class BundledToolsManager {
 
   /**
    * Find rumdl binary in workspace virtual environments.
-   * Checks .venv and venv directories in all workspace folders.
+   * Checks .venv and venv directories in `folder`, or in all workspace folders.
    */
-  private static getWorkspaceVenvRumdlPath(): string | null {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
+  private static getWorkspaceVenvRumdlPath(folder?: vscode.WorkspaceFolder): string | null {
+    const workspaceFolders = folder ? [folder] : vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
       return null;
     }
@@ -316,15 +318,15 @@ export class BundledToolsManager {
   /**
    * Find rumdl binary installed via npm, yarn, or pnpm in workspace node_modules.
    *
-   * Walks workspace folders in order and returns the first candidate that is
+   * Walks `folder`, or the workspace folders in order, and returns the first candidate that is
    * runnable (exists and is, or can be made, executable via {@link runnableCandidate}).
    * Non-executable candidates that cannot be chmod-ed (e.g. read-only filesystems)
    * are skipped so resolution falls through to the next candidate and ultimately
    * the self-healing bundled binary. See {@link buildNodeModulesCandidates} for the
    * per-platform probe order.
    */
-  private static getWorkspaceNodeModulesRumdlPath(): string | null {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
+  private static getWorkspaceNodeModulesRumdlPath(folder?: vscode.WorkspaceFolder): string | null {
+    const workspaceFolders = folder ? [folder] : vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
       return null;
     }
@@ -352,10 +354,13 @@ export class BundledToolsManager {
    * Plain command names such as `rumdl` are left untouched so users can opt into
    * PATH resolution. A leading `~` is expanded to the home directory. Path-like
    * relative values such as `.venv/bin/rumdl` or `tools/rumdl` are resolved
-   * against the first workspace folder, matching the working directory used for
-   * the language server.
+   * against `folder`, or the first workspace folder, matching the working
+   * directory used for the language server.
    */
-  private static resolveConfiguredRumdlPath(configuredPath: string): string {
+  private static resolveConfiguredRumdlPath(
+    configuredPath: string,
+    folder?: vscode.WorkspaceFolder
+  ): string {
     let trimmedPath = configuredPath.trim();
 
     // Expand a leading ~ (home directory) before any path resolution.
@@ -380,7 +385,7 @@ export class BundledToolsManager {
       return trimmedPath;
     }
 
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = folder ?? vscode.workspace.workspaceFolders?.[0];
     const basePath = workspaceFolder?.uri.fsPath || process.cwd();
     return path.resolve(basePath, trimmedPath);
   }
@@ -405,8 +410,15 @@ export class BundledToolsManager {
    * 5. Bundled binary (guaranteed fallback)
    *
    * For untrusted workspaces, only bundled binary is used (security).
+   *
+   * With `folder`, the relative paths and workspace installs are those of that
+   * folder, for the language server that serves it; without, they are those of
+   * the first folder that has one.
    */
-  public static async getBestRumdlPath(configuredPath?: string): Promise<string> {
+  public static async getBestRumdlPath(
+    configuredPath?: string,
+    folder?: vscode.WorkspaceFolder
+  ): Promise<string> {
     // Security: In untrusted workspaces, only use bundled binary
     if (!vscode.workspace.isTrusted) {
       const bundledPath = this.getBundledRumdlPath();
@@ -424,20 +436,20 @@ export class BundledToolsManager {
     // 1. Explicit path setting (user always wins). A blank or whitespace-only
     // value is treated as unset so resolution falls through to auto-detection.
     if (configuredPath && configuredPath.trim() !== '') {
-      const resolvedPath = this.resolveConfiguredRumdlPath(configuredPath);
+      const resolvedPath = this.resolveConfiguredRumdlPath(configuredPath, folder);
       Logger.info(`Using configured rumdl: ${resolvedPath}`);
       return resolvedPath;
     }
 
     // 2. Workspace virtual environment
-    const venvPath = this.getWorkspaceVenvRumdlPath();
+    const venvPath = this.getWorkspaceVenvRumdlPath(folder);
     if (venvPath) {
       Logger.info(`Using workspace venv rumdl: ${venvPath}`);
       return venvPath;
     }
 
     // 3. Workspace node_modules (npm/yarn/pnpm install rumdl)
-    const nodeModulesPath = this.getWorkspaceNodeModulesRumdlPath();
+    const nodeModulesPath = this.getWorkspaceNodeModulesRumdlPath(folder);
     if (nodeModulesPath) {
       Logger.info(`Using workspace node_modules rumdl: ${nodeModulesPath}`);
       return nodeModulesPath;
@@ -463,6 +475,22 @@ export class BundledToolsManager {
     return 'rumdl';
   }
 
+  /**
+   * The binary the language server serving `resource` runs, chosen with the
+   * settings and workspace installs of the folder that owns it, and that
+   * folder. Without `resource`, or for one outside every folder, the binary
+   * of the server for other files.
+   */
+  public static async getRumdlPathFor(
+    resource?: vscode.Uri
+  ): Promise<{ rumdlPath: string; folder?: vscode.WorkspaceFolder }> {
+    const folder = resource
+      ? owningFolder(resource, vscode.workspace.workspaceFolders ?? [])
+      : undefined;
+    const config = ConfigurationManager.getConfiguration(folder?.uri);
+    return { rumdlPath: await this.getBestRumdlPath(config.server.path, folder), folder };
+  }
+
   /**
    * Log information about available rumdl sources.
    */
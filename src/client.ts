@@ -1,26 +1,44 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import {
   LanguageClient,
   LanguageClientOptions,
   ServerOptions,
   State,
   RevealOutputChannelOn,
+  DocumentFilter,
   ErrorAction,
   CloseAction,
+  DidChangeConfigurationNotification,
+  DidChangeConfigurationParams,
+  vsdiag,
 } from 'vscode-languageclient/node';
 import { ConfigurationManager, RumdlConfig, shouldRunLanguageServer } from './configuration';
 import {
   Logger,
   checkRumdlInstallation,
   getRumdlVersion,
+  isRumdlVersionAtLeast,
   showErrorMessage,
   ALL_SUPPORTED_LANGUAGE_IDS,
 } from './utils';
-import { StatusBarManager } from './statusBar';
+import { ServerStatusSink, StatusBarManager } from './statusBar';
 import { BundledToolsManager } from './bundledTools';
 import { DiagnosticLike, deduplicate } from './diagnosticDedup';
+import { linkRuleDocumentation } from './ruleDocs';
+import {
+  RuleLists,
+  applicableCodeActions,
+  applyDocumentRules,
+  documentRuleLists,
+  fixWithRuleLists,
+  ownRuleLists,
+  serverRuleLists,
+} from './ruleSettings';
+import { NOTEBOOK_CELL_SCHEME, cellFindings } from './notebookCells';
 import { DiagnosticPullGate } from './diagnosticPullGate';
 import { ServerRestartPolicy } from './restartPolicy';
+import { LOCAL_SCHEMES, isLocalFile, outermostFolders, owningFolder } from './utils/workspace';
 
 /**
  * LSP initialization options sent to the rumdl server.
@@ -64,6 +82,19 @@ export function buildInitializationOptions(config: RumdlConfig): RumdlInitializa
   };
 }
 
+/**
+ * The didChangeConfiguration params that apply `options` to a running
+ * server: rumdl reads the same camelCase fields as its initialization
+ * options, at the top of `settings`.
+ *
+ * Exported so tests can pin the payload without launching a server.
+ */
+export function buildSettingsNotification(
+  options: RumdlInitializationOptions
+): DidChangeConfigurationParams {
+  return { settings: options };
+}
+
 /** When the client asks the server for diagnostics. */
 export interface DiagnosticPullOptions {
   onChange: boolean;
@@ -85,9 +116,129 @@ export function buildDiagnosticPullOptions(config: RumdlConfig): DiagnosticPullO
   return { onChange: !onSave, onSave };
 }
 
-export class RumdlLanguageClient implements vscode.Disposable {
+/**
+ * Fixes a document with its own rule lists, for the fix-all action of
+ * documents whose language overrides the rules its server runs.
+ */
+export const FIX_ALL_COMMAND = 'rumdl.fixAllWithDocumentRules';
+
+/**
+ * Settings applied only by a restart: the binary and its logging are fixed
+ * when the server process starts, and the diagnostic pull schedule when the
+ * client is created.
+ */
+const RESTART_SETTINGS = [
+  'rumdl.server.path',
+  'rumdl.server.logLevel',
+  'rumdl.trace.server',
+  'rumdl.lint.run',
+];
+
+/** Settings the server applies live; they make up its initialization options */
+const LIVE_SETTINGS = [
+  'rumdl.configPath',
+  'rumdl.fixOnSave',
+  'rumdl.rules',
+  'rumdl.linkCompletions',
+  'rumdl.linkNavigation',
+];
+
+// The earliest release seen to apply these options from didChangeConfiguration:
+// 0.1.86 does, 0.1.12 reads config file keys there instead, and none between
+// them is published
+const LIVE_SETTINGS_MIN_VERSION = '0.1.86';
+
+/**
+ * How a server takes a settings change: a restart, the new settings sent
+ * through `workspace/didChangeConfiguration`, or nothing because only
+ * extension-side settings changed.
+ */
+export type SettingsChange = 'restart' | 'live' | 'none';
+
+/**
+ * Classify a settings change by the sections it `affects`.
+ *
+ * Exported so tests can verify the classification without a server.
+ */
+export function classifySettingsChange(affects: (section: string) => boolean): SettingsChange {
+  if (RESTART_SETTINGS.some(affects)) {
+    return 'restart';
+  }
+  return LIVE_SETTINGS.some(affects) ? 'live' : 'none';
+}
+
+// Config files whose changes the server is told about
+const CONFIG_FILE_GLOBS = [
+  '**/.rumdl.toml',
+  '**/rumdl.toml',
+  '**/.config/rumdl.toml',
+  '**/pyproject.toml',
+  '**/.markdownlint.json',
+  '**/.markdownlint.jsonc',
+  '**/.markdownlint.yaml',
+  '**/.markdownlint.yml',
+];
+
+/** What one language server serves */
+interface ServerScope {
+  /** The workspace folder; undefined for the fallback server */
+  folder?: vscode.WorkspaceFolder;
+  /** Name in logs, the status bar and the output channel, in multi-root workspaces */
+  label?: string;
+  /** Glob of the files it serves; all files when undefined */
+  pattern?: vscode.GlobPattern;
+  /**
+   * Whether it serves only the files outside every workspace folder: its
+   * filters match every file, and the files of folders are passed over
+   */
+  outside?: boolean;
+  /** Whether it serves untitled documents */
+  untitled: boolean;
+  /** URI schemes of the files it serves */
+  schemes: string[];
+  /**
+   * Whether it serves documents without a local path, from their text alone:
+   * no config files, and no features that read other files
+   */
+  virtual?: boolean;
+}
+
+/**
+ * The documents of a server: the supported languages in files of `schemes`
+ * matching `pattern`, or in every such file without one, the Markdown cells
+ * of notebooks there, and untitled documents when `untitled` is set.
+ *
+ * Exported so tests can verify the routing without launching a server.
+ */
+export function buildDocumentSelector(
+  pattern: vscode.GlobPattern | undefined,
+  untitled: boolean,
+  schemes: string[] = LOCAL_SCHEMES
+): vscode.DocumentFilter[] {
+  const files = (scheme: string, language: string) =>
+    pattern ? [{ scheme, language, pattern }] : [{ scheme, language }];
+  return [
+    ...ALL_SUPPORTED_LANGUAGE_IDS.flatMap(language => [
+      ...schemes
+        .filter(scheme => scheme !== NOTEBOOK_CELL_SCHEME)
+        .flatMap(scheme => files(scheme, language)),
+      ...(untitled ? [{ scheme: 'untitled', language }] : []),
+    ]),
+    ...(schemes.includes(NOTEBOOK_CELL_SCHEME) ? files(NOTEBOOK_CELL_SCHEME, 'markdown') : []),
+  ];
+}
+
+/**
+ * One rumdl language server process and its client: for one workspace
+ * folder, with the folder's binary, cwd and settings, or the fallback for
+ * files outside every folder. Recovers from crashes on its own.
+ */
+class RumdlServer implements vscode.Disposable {
   private client: LanguageClient | undefined;
-  private statusBar: StatusBarManager;
+  private version: string | null = null;
+  private rumdlPath = '';
+  private workingDirectory: string | undefined;
+  private serverRules: RuleLists = { enable: [], disable: [] };
   private isDisposed = false;
   private stopRequested = false;
   private lifecycleGeneration = 0;
@@ -95,9 +246,10 @@ export class RumdlLanguageClient implements vscode.Disposable {
   private diagnosticPullGate: DiagnosticPullGate | undefined;
   private diagnosticCacheCloseWatcher: vscode.Disposable | undefined;
 
-  constructor(statusBar: StatusBarManager) {
-    this.statusBar = statusBar;
-  }
+  constructor(
+    readonly scope: ServerScope,
+    private readonly status: ServerStatusSink
+  ) {}
 
   public async start(): Promise<void> {
     if (this.isDisposed) {
@@ -111,31 +263,30 @@ export class RumdlLanguageClient implements vscode.Disposable {
     }
 
     try {
-      Logger.info('Starting rumdl language client...');
+      Logger.info(`Starting rumdl language client${this.describe()}...`);
 
-      // Log bundled tools information
-      BundledToolsManager.logBundledToolsInfo();
-
-      const config = ConfigurationManager.getConfiguration();
+      const config = ConfigurationManager.getConfiguration(this.scope.folder?.uri);
       if (!shouldRunLanguageServer(config.enable, vscode.workspace.isTrusted)) {
         const reason = config.enable ? 'Workspace is not trusted' : 'Disabled in settings';
         Logger.info(`Not starting rumdl language server: ${reason}`);
-        this.statusBar.setDisconnected(reason);
+        this.status.setDisconnected(reason);
         return;
       }
 
       this.stopRequested = false;
 
       // Get the best available rumdl path (bundled first, then configured/system)
-      const rumdlPath = await BundledToolsManager.getBestRumdlPath(config.server.path);
+      const rumdlPath = await BundledToolsManager.getBestRumdlPath(
+        config.server.path,
+        this.scope.folder
+      );
 
-      // Determine working directory (workspace root or current directory).
+      // Determine working directory (the server's folder or current directory).
       // Computed before the install check so it can be used as the spawn cwd:
       // the server is launched with this cwd, so the check must use it too or a
       // version-manager shim (mise, asdf, …) can't resolve the project-pinned
       // tool and the check fails even though the server would work.
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      const workingDirectory = workspaceFolder?.uri.fsPath || process.cwd();
+      const workingDirectory = this.scope.folder?.uri.fsPath || process.cwd();
 
       // Check if rumdl is available
       const isInstalled = await checkRumdlInstallation(rumdlPath, workingDirectory);
@@ -146,7 +297,7 @@ export class RumdlLanguageClient implements vscode.Disposable {
           : `rumdl not found: ${rumdlPath}. Please install rumdl or configure the correct path in settings.`;
 
         Logger.error(errorMessage);
-        this.statusBar.setError('rumdl not found');
+        this.status.setError('rumdl not found');
         showErrorMessage(errorMessage);
         return;
       }
@@ -156,8 +307,11 @@ export class RumdlLanguageClient implements vscode.Disposable {
       if (version) {
         Logger.info(`Using rumdl version: ${version}`);
       }
+      this.version = version;
+      this.rumdlPath = rumdlPath;
+      this.workingDirectory = workingDirectory;
 
-      this.statusBar.setStarting();
+      this.status.setStarting();
 
       Logger.info(`Using working directory: ${workingDirectory}`);
 
@@ -176,27 +330,26 @@ export class RumdlLanguageClient implements vscode.Disposable {
         },
       };
 
-      const initializationOptions = buildInitializationOptions(config);
+      const initializationOptions = this.serverSettings(config);
       this.prepareDiagnosticPullGate(config);
 
       const clientOptions: LanguageClientOptions = {
-        documentSelector: ALL_SUPPORTED_LANGUAGE_IDS.flatMap(language => [
-          { scheme: 'file', language },
-          { scheme: 'untitled', language },
-        ]),
+        // The client hands the filters to VS Code as they are, relative patterns included
+        documentSelector: buildDocumentSelector(
+          this.scope.pattern,
+          this.scope.untitled,
+          this.scope.schemes
+        ) as DocumentFilter[],
+        // The server sees only its own folder as the workspace
+        workspaceFolder: this.scope.folder,
         synchronize: {
-          fileEvents: [
-            vscode.workspace.createFileSystemWatcher('**/.rumdl.toml'),
-            vscode.workspace.createFileSystemWatcher('**/rumdl.toml'),
-            vscode.workspace.createFileSystemWatcher('**/.config/rumdl.toml'),
-            vscode.workspace.createFileSystemWatcher('**/pyproject.toml'),
-            vscode.workspace.createFileSystemWatcher('**/.markdownlint.json'),
-            vscode.workspace.createFileSystemWatcher('**/.markdownlint.jsonc'),
-            vscode.workspace.createFileSystemWatcher('**/.markdownlint.yaml'),
-            vscode.workspace.createFileSystemWatcher('**/.markdownlint.yml'),
-          ],
+          fileEvents: (this.scope.virtual ? [] : CONFIG_FILE_GLOBS).map(glob =>
+            vscode.workspace.createFileSystemWatcher(
+              this.scope.folder ? new vscode.RelativePattern(this.scope.folder, glob) : glob
+            )
+          ),
         },
-        outputChannelName: 'rumdl Language Server',
+        outputChannelName: this.name,
         revealOutputChannelOn: RevealOutputChannelOn.Never,
         errorHandler: {
           error: (_error, _message, count) => ({
@@ -209,7 +362,7 @@ export class RumdlLanguageClient implements vscode.Disposable {
         },
         traceOutputChannel:
           ConfigurationManager.getTraceLevel() !== 'off'
-            ? vscode.window.createOutputChannel('rumdl Language Server Trace')
+            ? vscode.window.createOutputChannel(`${this.name} Trace`)
             : undefined,
         diagnosticCollectionName: 'rumdl',
         diagnosticPullOptions: buildDiagnosticPullOptions(config),
@@ -218,12 +371,16 @@ export class RumdlLanguageClient implements vscode.Disposable {
           // pulled by the client - and each has its own collection, so both are
           // deduplicated here. These hooks wrap the client's own handlers and
           // pass the result on through `next`, leaving delivery to the library.
+          // The code of each finding is linked to the rule's documentation.
           handleDiagnostics: (uri, diagnostics, next) => {
             Logger.debug(`Received pushed diagnostics for ${uri}: ${diagnostics.length} issues`);
-            next(uri, this.dedupeDiagnostics(diagnostics, `push ${uri}`));
+            next(uri, this.acceptDiagnostics(uri, diagnostics, `push ${uri}`));
           },
           provideDiagnostics: async (document, previousResultId, token, next) => {
             const uri = document instanceof vscode.Uri ? document : document.uri;
+            if (!this.serves(uri)) {
+              return { kind: vsdiag.DocumentDiagnosticReportKind.full, items: [] };
+            }
             const heldReport = this.diagnosticPullGate?.heldReport(
               uri.toString(),
               this.isDirty(document)
@@ -238,23 +395,70 @@ export class RumdlLanguageClient implements vscode.Disposable {
               Logger.debug(`Pulled diagnostics for ${uri}: ${report.items.length} issues`);
               const acceptedReport = {
                 ...report,
-                items: this.dedupeDiagnostics(report.items, `pull ${uri}`),
+                items: this.acceptDiagnostics(uri, report.items, `pull ${uri}`),
               };
               this.diagnosticPullGate?.remember(uri.toString(), acceptedReport);
               return acceptedReport;
             }
             return report;
           },
+          // The server for other files matches every file, and passes over
+          // those of workspace folders: their own servers answer for them
+          didOpen: (document, next) =>
+            this.serves(document.uri) ? next(document) : Promise.resolve(),
+          didChange: (event, next) =>
+            this.serves(event.document.uri) ? next(event) : Promise.resolve(),
+          didSave: (document, next) =>
+            this.serves(document.uri) ? next(document) : Promise.resolve(),
+          didClose: (document, next) =>
+            this.serves(document.uri) ? next(document) : Promise.resolve(),
+          // A document whose language turns off rules the server runs is
+          // fixed by the CLI with its own rules, and the quick fixes of
+          // those rules are dropped
+          willSaveWaitUntil: async (event, next) =>
+            this.serves(event.document.uri)
+              ? ((await this.ownRuleFixes(event.document, await next(event))) ?? [])
+              : [],
+          provideHover: (document, position, token, next) =>
+            this.serves(document.uri) ? next(document, position, token) : undefined,
+          provideCompletionItem: (document, position, context, token, next) =>
+            this.serves(document.uri) ? next(document, position, context, token) : undefined,
+          provideDefinition: (document, position, token, next) =>
+            this.serves(document.uri) ? next(document, position, token) : undefined,
+          provideReferences: (document, position, options, token, next) =>
+            this.serves(document.uri) ? next(document, position, options, token) : undefined,
+          provideDocumentSymbols: (document, token, next) =>
+            this.serves(document.uri) ? next(document, token) : undefined,
+          provideCodeActions: async (document, range, context, token, next) => {
+            if (!this.serves(document.uri)) {
+              return undefined;
+            }
+            const actions = await next(document, range, context, token);
+            const lists = this.ownRules(document);
+            return lists && actions
+              ? applicableCodeActions(actions, lists).map(action =>
+                  this.deferFixAll(document, action)
+                )
+              : actions;
+          },
+          provideDocumentFormattingEdits: async (document, options, token, next) =>
+            this.serves(document.uri)
+              ? this.ownRuleFixes(document, await next(document, options, token))
+              : undefined,
+          // rumdl formats a range as it does the whole document
+          provideDocumentRangeFormattingEdits: async (document, range, options, token, next) =>
+            this.serves(document.uri)
+              ? this.ownRuleFixes(document, await next(document, range, options, token))
+              : undefined,
+          prepareRename: (document, position, token, next) =>
+            this.serves(document.uri) ? next(document, position, token) : undefined,
+          provideRenameEdits: (document, position, newName, token, next) =>
+            this.serves(document.uri) ? next(document, position, newName, token) : undefined,
         },
         initializationOptions,
       };
 
-      this.client = new LanguageClient(
-        'rumdl',
-        'rumdl Language Server',
-        serverOptions,
-        clientOptions
-      );
+      this.client = new LanguageClient('rumdl', this.name, serverOptions, clientOptions);
 
       // Set up event handlers
       this.client.onDidChangeState(event => {
@@ -262,14 +466,14 @@ export class RumdlLanguageClient implements vscode.Disposable {
 
         switch (event.newState) {
           case State.Starting:
-            this.statusBar.setStarting();
+            this.status.setStarting();
             break;
           case State.Running:
-            this.statusBar.setConnected();
+            this.status.setConnected();
             break;
           case State.Stopped:
             if (!this.isDisposed) {
-              this.statusBar.setDisconnected();
+              this.status.setDisconnected();
               if (!this.stopRequested) {
                 void this.handleServerStop();
               }
@@ -280,7 +484,7 @@ export class RumdlLanguageClient implements vscode.Disposable {
 
       // Start the client
       await this.client.start();
-      Logger.info('rumdl language server started successfully');
+      Logger.info(`rumdl language server${this.describe()} started successfully`);
     } catch (error) {
       // Invalidate any recovery scheduled by a failed LanguageClient start and
       // release the reference so a settings change or manual restart can retry.
@@ -296,8 +500,8 @@ export class RumdlLanguageClient implements vscode.Disposable {
         }
       }
       this.clearDiagnosticPullGate();
-      Logger.error('Failed to start rumdl language server', error as Error);
-      this.statusBar.setError('Failed to start');
+      Logger.error(`Failed to start rumdl language server${this.describe()}`, error as Error);
+      this.status.setError('Failed to start');
       throw error;
     }
   }
@@ -310,7 +514,7 @@ export class RumdlLanguageClient implements vscode.Disposable {
     const decision = this.restartPolicy.next();
     if (!decision) {
       Logger.error('Server stopped after 5 restart attempts in 3 minutes');
-      this.statusBar.setError('Too many restarts');
+      this.status.setError('Too many restarts');
       void showErrorMessage(
         'rumdl has stopped after repeated crashes. Review the server logs, then use “rumdl: Restart Server” to try again.',
         'Show Logs'
@@ -329,7 +533,7 @@ export class RumdlLanguageClient implements vscode.Disposable {
 
     await new Promise(resolve => setTimeout(resolve, decision.delayMs));
 
-    const config = ConfigurationManager.getConfiguration();
+    const config = ConfigurationManager.getConfiguration(this.scope.folder?.uri);
     if (
       this.isDisposed ||
       this.stopRequested ||
@@ -348,12 +552,139 @@ export class RumdlLanguageClient implements vscode.Disposable {
   }
 
   public async restart(): Promise<void> {
-    Logger.info('Restarting rumdl language server');
+    Logger.info(`Restarting rumdl language server${this.describe()}`);
     this.restartPolicy.reset();
 
     await this.restartClient();
   }
 
+  /**
+   * Send the current settings to the running server, which re-lints open
+   * documents with them. Servers too old to apply them, or not running, are
+   * restarted instead.
+   */
+  public async applySettings(): Promise<void> {
+    if (!this.client || !this.isRunning()) {
+      await this.restart();
+      return;
+    }
+    if (!isRumdlVersionAtLeast(this.version, LIVE_SETTINGS_MIN_VERSION)) {
+      Logger.info(
+        `rumdl ${this.version ?? '(unknown version)'} can't apply settings live; restarting`
+      );
+      await this.restart();
+      return;
+    }
+
+    const config = ConfigurationManager.getConfiguration(this.scope.folder?.uri);
+    await this.client.sendNotification(
+      DidChangeConfigurationNotification.type,
+      buildSettingsNotification(this.serverSettings(config))
+    );
+    Logger.info(`Sent updated settings to rumdl language server${this.describe()}`);
+  }
+
+  /**
+   * Fix `document` with the rule lists of its language, as the fix-all
+   * action of a document that has its own does. Edits made meanwhile win.
+   */
+  public async fixAll(uri: vscode.Uri): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const version = document.version;
+    const edits = await this.fixWithOwnRules(
+      document,
+      documentRuleLists(document.uri, document.languageId)
+    );
+    if (!edits || edits.length === 0 || document.version !== version) {
+      return;
+    }
+    const edit = new vscode.WorkspaceEdit();
+    edit.set(document.uri, edits);
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  // The rule lists of `document` when they are not the server's
+  private ownRules(document: vscode.TextDocument): RuleLists | undefined {
+    return ownRuleLists(document.uri, document.languageId, this.serverRules);
+  }
+
+  /**
+   * The server's fixes of `document`, or when they may fix rules its
+   * language turns off, the CLI's. Nothing the server leaves alone needs
+   * fixing under rules it runs a subset of.
+   */
+  private async ownRuleFixes(
+    document: vscode.TextDocument,
+    edits: vscode.TextEdit[] | null | undefined
+  ): Promise<vscode.TextEdit[] | null | undefined> {
+    const lists = this.ownRules(document);
+    if (!lists || !edits || edits.length === 0) {
+      return edits;
+    }
+    return (await this.fixWithOwnRules(document, lists)) ?? [];
+  }
+
+  private fixWithOwnRules(
+    document: vscode.TextDocument,
+    lists: RuleLists
+  ): Promise<vscode.TextEdit[] | undefined> {
+    const { configPath } = buildInitializationOptions(
+      ConfigurationManager.getConfiguration(this.scope.folder?.uri)
+    );
+    return fixWithRuleLists(this.rumdlPath, document, lists, {
+      cwd: this.workingDirectory,
+      // The CLI runs in the document's directory, the server in its folder
+      configPath:
+        configPath && this.workingDirectory
+          ? path.resolve(this.workingDirectory, configPath)
+          : configPath,
+      noConfig: this.scope.virtual,
+    });
+  }
+
+  // The fix-all action runs the CLI when it is taken, not whenever it's listed
+  private deferFixAll<T extends vscode.Command | vscode.CodeAction>(
+    document: vscode.TextDocument,
+    action: T
+  ): T {
+    if (
+      action instanceof vscode.CodeAction &&
+      action.kind &&
+      vscode.CodeActionKind.SourceFixAll.contains(action.kind)
+    ) {
+      action.edit = undefined;
+      action.command = { title: action.title, command: FIX_ALL_COMMAND, arguments: [document.uri] };
+    }
+    return action;
+  }
+
+  // Whether the server answers for a document its filters match
+  private serves(uri: vscode.Uri): boolean {
+    return !this.scope.outside || !owningFolder(uri, vscode.workspace.workspaceFolders ?? []);
+  }
+
+  /**
+   * The settings the server runs with: those of its folder, with rule lists
+   * that cover every language's `[language]` overrides. The middleware then
+   * applies each document's own lists. Virtual documents get no config file
+   * and no cross-file link features.
+   */
+  private serverSettings(config: RumdlConfig): RumdlInitializationOptions {
+    this.serverRules = serverRuleLists(this.scope.folder?.uri);
+    const settings = buildInitializationOptions({ ...config, rules: this.serverRules });
+    if (!this.scope.virtual) {
+      return settings;
+    }
+    // Links to other files can't be completed or followed without a filesystem
+    return {
+      ...settings,
+      configPath: undefined,
+      enableLinkCompletions: false,
+      linkCompletionContentRoots: undefined,
+      enableLinkNavigation: false,
+    };
+  }
+
   private async restartClient(): Promise<void> {
     try {
       if (this.client) {
@@ -364,7 +695,7 @@ export class RumdlLanguageClient implements vscode.Disposable {
       Logger.info('rumdl language server restarted successfully');
     } catch (error) {
       Logger.error('Failed to restart rumdl language server', error as Error);
-      this.statusBar.setError('Restart failed');
+      this.status.setError('Restart failed');
       throw error;
     }
   }
@@ -378,7 +709,7 @@ export class RumdlLanguageClient implements vscode.Disposable {
       return;
     }
 
-    Logger.info('Stopping rumdl language server');
+    Logger.info(`Stopping rumdl language server${this.describe()}`);
 
     const client = this.client;
     this.client = undefined; // Clear reference immediately to prevent multiple stops
@@ -397,7 +728,7 @@ export class RumdlLanguageClient implements vscode.Disposable {
     } finally {
       this.clearDiagnosticPullGate();
       if (!this.isDisposed) {
-        this.statusBar.setDisconnected();
+        this.status.setDisconnected();
       }
     }
   }
@@ -406,6 +737,17 @@ export class RumdlLanguageClient implements vscode.Disposable {
     return this.client?.state === State.Running;
   }
 
+  /** Name of the client and its output channel */
+  public get name(): string {
+    return this.scope.label
+      ? `rumdl Language Server (${this.scope.label})`
+      : 'rumdl Language Server';
+  }
+
+  private describe(): string {
+    return this.scope.label ? ` for ${this.scope.label}` : '';
+  }
+
   public getClient(): LanguageClient | undefined {
     return this.client;
   }
@@ -456,6 +798,17 @@ export class RumdlLanguageClient implements vscode.Disposable {
     );
   }
 
+  // The findings shown for `uri`, linked to their rule's documentation
+  private acceptDiagnostics(
+    uri: vscode.Uri,
+    diagnostics: vscode.Diagnostic[],
+    label: string
+  ): vscode.Diagnostic[] {
+    const unique = this.dedupeDiagnostics(diagnostics, label);
+    const applicable = cellFindings(uri, applyDocumentRules(uri, unique, this.serverRules));
+    return linkRuleDocumentation(applicable);
+  }
+
   /**
    * Drop diagnostics that repeat an earlier one, logging what was found.
    *
@@ -495,3 +848,335 @@ export class RumdlLanguageClient implements vscode.Disposable {
     }
   }
 }
+
+// Key of the server for files outside every workspace folder
+const FALLBACK_SERVER = '';
+
+// Key of the server for documents without a local path
+const VIRTUAL_SERVER = 'virtual';
+
+/**
+ * The language servers of the window: one per outermost workspace folder,
+ * serving the files in that folder with the folder's binary and settings,
+ * and a fallback for files outside every folder, or for all files when no
+ * folder is open.
+ */
+export class RumdlLanguageClient implements vscode.Disposable {
+  private readonly servers = new Map<string, RumdlServer>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private statusBar: StatusBarManager;
+  private shouldRun = false;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(statusBar: StatusBarManager) {
+    this.statusBar = statusBar;
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => this.updateActiveScope()),
+      vscode.commands.registerCommand(FIX_ALL_COMMAND, (uri: vscode.Uri) =>
+        this.serverFor(uri)?.fixAll(uri)
+      ),
+      vscode.workspace.onDidOpenTextDocument(document => {
+        // A file outside every folder needs the fallback to cover its directory
+        if (
+          this.shouldRun &&
+          ALL_SUPPORTED_LANGUAGE_IDS.includes(document.languageId) &&
+          !this.isServed(document.uri)
+        ) {
+          this.syncWorkspaceFolders().catch(error => {
+            Logger.error('Failed to start the language server for other files', error as Error);
+          });
+        }
+      })
+    );
+  }
+
+  public async start(): Promise<void> {
+    this.shouldRun = true;
+
+    // Log bundled tools information
+    BundledToolsManager.logBundledToolsInfo();
+
+    await this.enqueueSync();
+  }
+
+  public async restart(): Promise<void> {
+    Logger.info('Restarting rumdl language servers');
+    await this.stop();
+    await this.start();
+  }
+
+  public async stop(): Promise<void> {
+    this.shouldRun = false;
+    await this.enqueueSync();
+  }
+
+  /**
+   * Start the servers of added workspace folders and stop those of removed
+   * ones, leaving the others running.
+   */
+  public async syncWorkspaceFolders(): Promise<void> {
+    if (this.shouldRun) {
+      await this.enqueueSync();
+    }
+  }
+
+  /**
+   * Apply a change of rumdl settings to each server, as
+   * {@link classifySettingsChange} decides from the settings of its folder.
+   * Starts the servers when they were stopped, and starts or stops servers
+   * when the linted schemes change.
+   */
+  public async applySettingsChange(event: vscode.ConfigurationChangeEvent): Promise<void> {
+    if (!this.shouldRun) {
+      await this.start();
+      return;
+    }
+
+    await this.enqueue(async () => {
+      if (event.affectsConfiguration('rumdl.lint.schemes')) {
+        await this.syncServers();
+      }
+      const failures: unknown[] = [];
+      for (const server of this.servers.values()) {
+        const uri = server.scope.folder?.uri;
+        // A `[language]` block counts too: the server covers every language's rules
+        const change = classifySettingsChange(
+          section =>
+            event.affectsConfiguration(section, uri) ||
+            ALL_SUPPORTED_LANGUAGE_IDS.some(languageId =>
+              event.affectsConfiguration(section, { uri, languageId })
+            )
+        );
+        try {
+          if (change === 'restart') {
+            await server.restart();
+          } else if (change === 'live') {
+            await server.applySettings();
+          }
+        } catch (error) {
+          failures.push(error);
+        }
+      }
+      if (failures.length > 0) {
+        throw failures[0];
+      }
+    });
+  }
+
+  /** Whether a server is running; the one of `uri` when given */
+  public isRunning(uri?: vscode.Uri): boolean {
+    if (uri) {
+      return this.servers.get(this.serverKeyFor(uri))?.isRunning() ?? false;
+    }
+    return [...this.servers.values()].some(server => server.isRunning());
+  }
+
+  /**
+   * The client of the server of `uri`, or of the active document when no
+   * URI is given, or else of the first server.
+   */
+  public getClient(uri?: vscode.Uri): LanguageClient | undefined {
+    return this.serverFor(uri)?.getClient();
+  }
+
+  /** The clients of all servers, e.g. to report each server's state */
+  public getClients(): LanguageClient[] {
+    return [...this.servers.values()].flatMap(server => {
+      const client = server.getClient();
+      return client ? [client] : [];
+    });
+  }
+
+  /** Run a workspace command on the server of the active document */
+  public async executeCommand(command: string, ...args: unknown[]): Promise<unknown> {
+    const server = this.serverFor();
+    if (!server) {
+      throw new Error('Language server is not running');
+    }
+    return server.executeCommand(command, ...args);
+  }
+
+  private serverFor(uri?: vscode.Uri): RumdlServer | undefined {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    const owner = target ? this.servers.get(this.serverKeyFor(target)) : undefined;
+    return owner ?? this.servers.values().next().value;
+  }
+
+  private serverKeyFor(uri: vscode.Uri): string {
+    if (!isLocalFile(uri) && uri.scheme !== 'untitled') {
+      return VIRTUAL_SERVER;
+    }
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const owner = owningFolder(uri, folders);
+    if (owner) {
+      return owner.uri.toString();
+    }
+    // Untitled documents go to the first folder's server
+    if (uri.scheme === 'untitled' && folders.length > 0) {
+      return outermostFolders(folders)[0]?.uri.toString() ?? FALLBACK_SERVER;
+    }
+    return FALLBACK_SERVER;
+  }
+
+  // Whether a server's document selector already covers `uri`
+  private isServed(uri: vscode.Uri): boolean {
+    if (virtualSchemes().includes(uri.scheme)) {
+      return this.servers.has(VIRTUAL_SERVER);
+    }
+    if (!isLocalFile(uri) || (vscode.workspace.workspaceFolders ?? []).length === 0) {
+      return true;
+    }
+    if (owningFolder(uri, vscode.workspace.workspaceFolders ?? [])) {
+      return true;
+    }
+    return this.servers.has(FALLBACK_SERVER);
+  }
+
+  private enqueueSync(): Promise<void> {
+    return this.enqueue(() => this.syncServers());
+  }
+
+  // Changes run one at a time so overlapping events cannot start a server twice
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Bring the running servers in line with the workspace folders and with
+   * the open files outside them. Every server is started even when one
+   * fails; the first failure is rethrown afterwards.
+   */
+  private async syncServers(): Promise<void> {
+    const wanted = this.shouldRun ? this.desiredScopes() : new Map<string, ServerScope>();
+
+    for (const [key, server] of [...this.servers]) {
+      const scope = wanted.get(key);
+      if (!scope || !sameScope(scope, server.scope)) {
+        this.servers.delete(key);
+        this.statusBar.removeScope(key);
+        await server.stop();
+        server.dispose();
+      }
+    }
+
+    const failures: unknown[] = [];
+    for (const [key, scope] of wanted) {
+      if (this.servers.has(key)) {
+        continue;
+      }
+      const server = new RumdlServer(scope, this.statusBar.forScope(key, scope.label));
+      this.servers.set(key, server);
+      try {
+        await server.start();
+      } catch (error) {
+        failures.push(error);
+      }
+    }
+
+    this.updateActiveScope();
+
+    if (failures.length > 0) {
+      throw failures[0];
+    }
+  }
+
+  // Show the status of the active document's server in the status bar
+  private updateActiveScope(): void {
+    const active = vscode.window.activeTextEditor?.document.uri;
+    const key = active ? this.serverKeyFor(active) : undefined;
+    this.statusBar.setActiveScope(
+      this.servers.size > 1 && key !== undefined && this.servers.has(key) ? key : undefined
+    );
+  }
+
+  private desiredScopes(): Map<string, ServerScope> {
+    const folders = outermostFolders(vscode.workspace.workspaceFolders ?? []);
+    const multiRoot = folders.length > 1;
+    const linted = ConfigurationManager.getConfiguration().lint.schemes;
+    const schemes = LOCAL_SCHEMES.filter(scheme => linted.includes(scheme));
+    const untitled = linted.includes('untitled');
+    const scopes = new Map<string, ServerScope>();
+
+    folders.forEach((folder, index) => {
+      scopes.set(folder.uri.toString(), {
+        folder,
+        label: multiRoot ? folder.name : undefined,
+        // Relative, so glob characters in the folder's path match themselves
+        pattern: new vscode.RelativePattern(folder, '**/*'),
+        untitled: untitled && index === 0,
+        schemes,
+      });
+    });
+
+    // Documents without a local path, once one is open
+    const virtual = virtualSchemes();
+    const openVirtual = vscode.workspace.textDocuments.some(
+      document =>
+        virtual.includes(document.uri.scheme) &&
+        ALL_SUPPORTED_LANGUAGE_IDS.includes(document.languageId)
+    );
+    if (virtual.length > 0 && (openVirtual || this.servers.has(VIRTUAL_SERVER))) {
+      scopes.set(VIRTUAL_SERVER, {
+        label: 'Virtual files',
+        untitled: false,
+        schemes: [...virtual].sort(),
+        virtual: true,
+      });
+    }
+
+    if (folders.length === 0) {
+      scopes.set(FALLBACK_SERVER, { untitled, schemes });
+      return scopes;
+    }
+
+    // Files outside every folder, once one is open. The server stays up when
+    // they close, and one filter covers them all, so files opening and
+    // closing in other directories don't restart it.
+    const openOutside = vscode.workspace.textDocuments.some(
+      document =>
+        schemes.includes(document.uri.scheme) &&
+        ALL_SUPPORTED_LANGUAGE_IDS.includes(document.languageId) &&
+        !owningFolder(document.uri, folders)
+    );
+    if (openOutside || this.servers.has(FALLBACK_SERVER)) {
+      scopes.set(FALLBACK_SERVER, {
+        label: 'Other files',
+        outside: true,
+        untitled: false,
+        schemes,
+      });
+    }
+    return scopes;
+  }
+
+  public dispose(): void {
+    this.shouldRun = false;
+    this.disposables.forEach(disposable => disposable.dispose());
+    for (const [key, server] of this.servers) {
+      this.statusBar.removeScope(key);
+      server.dispose();
+    }
+    this.servers.clear();
+  }
+}
+
+// The linted schemes of documents without a local path
+function virtualSchemes(): string[] {
+  return ConfigurationManager.getConfiguration().lint.schemes.filter(
+    scheme => !LOCAL_SCHEMES.includes(scheme) && scheme !== 'untitled'
+  );
+}
+
+// Whether two scopes serve the same documents with the same folder
+function sameScope(a: ServerScope, b: ServerScope): boolean {
+  return (
+    a.folder?.uri.toString() === b.folder?.uri.toString() &&
+    a.label === b.label &&
+    a.untitled === b.untitled &&
+    a.virtual === b.virtual &&
+    a.outside === b.outside &&
+    JSON.stringify(a.schemes) === JSON.stringify(b.schemes)
+  );
+}
@@ -9,12 +9,24 @@ import {
   showErrorMessage,
   getRumdlVersion,
   isSupportedDocument,
+  applyTextEdits,
 } from './utils';
 import { ConfigurationManager } from './configuration';
 import { WorkspaceUtils } from './utils/workspace';
 import { ProgressUtils } from './utils/progress';
 import { BundledToolsManager } from './bundledTools';
 import { findDuplicates } from './diagnosticDedup';
+import { normalizeConfigEdits } from './configNormalizer';
+import { EffectiveConfigProvider, configFileFor } from './effectiveConfig';
+import { ConfigValidator } from './configValidator';
+import { RULE_DOCS, RULE_NAMES } from './configSchema';
+import {
+  DISABLE_RULE_FOR_WORKSPACE_COMMAND,
+  IGNORE_RULE_IN_CONFIG_COMMAND,
+  ignoreRuleInConfig,
+} from './ruleSuppression';
+import { EXPLAIN_RULE_COMMAND, RuleDocsViewer } from './ruleDocs';
+import { NOTEBOOK_CELL_SCHEME, fixNotebook } from './notebookCells';
 
 export const RUMDL_FIX_ALL_KIND = vscode.CodeActionKind.SourceFixAll.append('rumdl');
 
@@ -63,8 +75,13 @@ export class CommandManager implements vscode.Disposable {
   constructor(private client: RumdlLanguageClient) {}
 
   public register(context: vscode.ExtensionContext): void {
+    const effectiveConfig = new EffectiveConfigProvider();
+    const ruleDocs = new RuleDocsViewer(context.globalStorageUri);
+
     // Register all commands
     this.disposables.push(
+      effectiveConfig,
+      ruleDocs,
       vscode.commands.registerCommand('rumdl.fixAll', () => this.fixAll()),
       vscode.commands.registerCommand('rumdl.fixAllWorkspace', () => this.fixAllWorkspace()),
       vscode.commands.registerCommand('rumdl.restartServer', () => this.restartServer()),
@@ -78,7 +95,23 @@ export class CommandManager implements vscode.Disposable {
       vscode.commands.registerCommand('rumdl.testConfigDiscovery', () =>
         this.testConfigDiscovery()
       ),
-      vscode.commands.registerCommand('rumdl.openConfigFile', () => this.openConfigFile())
+      vscode.commands.registerCommand('rumdl.openConfigFile', () => this.openConfigFile()),
+      vscode.commands.registerCommand('rumdl.normalizeConfig', () => this.normalizeConfig()),
+      vscode.commands.registerCommand('rumdl.showEffectiveConfig', () =>
+        this.showEffectiveConfig(effectiveConfig)
+      ),
+      vscode.commands.registerCommand(
+        DISABLE_RULE_FOR_WORKSPACE_COMMAND,
+        (ruleCode?: string, resource?: vscode.Uri) =>
+          this.disableRuleForWorkspace(ruleCode, resource)
+      ),
+      vscode.commands.registerCommand(
+        IGNORE_RULE_IN_CONFIG_COMMAND,
+        (ruleCode: string, resource: vscode.Uri) => ignoreRuleInConfig(ruleCode, resource)
+      ),
+      vscode.commands.registerCommand(EXPLAIN_RULE_COMMAND, (ruleName?: string) =>
+        this.explainRule(ruleDocs, ruleName)
+      )
     );
 
     // Add disposables to context
@@ -97,6 +130,13 @@ export class CommandManager implements vscode.Disposable {
       return;
     }
 
+    // In a notebook, fix all its Markdown cells as one document
+    const notebook = vscode.window.activeNotebookEditor?.notebook;
+    if (editor.document.uri.scheme === NOTEBOOK_CELL_SCHEME && notebook) {
+      await this.fixNotebook(notebook);
+      return;
+    }
+
     if (!this.client.isRunning()) {
       showErrorMessage('rumdl server is not running');
       return;
@@ -149,6 +189,18 @@ export class CommandManager implements vscode.Disposable {
     }
   }
 
+  private async fixNotebook(notebook: vscode.NotebookDocument): Promise<void> {
+    try {
+      const applied = await fixNotebook(notebook);
+      if (applied === 0) {
+        showInformationMessage('No auto-fixable issues found');
+      }
+    } catch (error) {
+      Logger.error('Error fixing notebook', error as Error);
+      showErrorMessage(`Failed to fix issues: ${(error as Error).message}`);
+    }
+  }
+
   private async fixAllWorkspace(): Promise<void> {
     if (!this.client.isRunning()) {
       showErrorMessage('rumdl server is not running');
@@ -301,13 +353,17 @@ export class CommandManager implements vscode.Disposable {
   private async printDebugInfo(): Promise<void> {
     Logger.info('Print debug info command executed');
 
-    const config = ConfigurationManager.getConfiguration();
+    const activeEditor = vscode.window.activeTextEditor;
+    // The binary and settings of the folder of the active file
+    const { rumdlPath, folder } = await BundledToolsManager.getRumdlPathFor(
+      activeEditor?.document.uri
+    );
+    const config = ConfigurationManager.getConfiguration(folder?.uri);
     const isRunning = this.client.isRunning();
     const workspaceFolders = vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath) || [];
-    const activeEditor = vscode.window.activeTextEditor;
+    const workingDirectory = folder?.uri.fsPath || workspaceFolders[0] || process.cwd();
 
-    const rumdlPath = await BundledToolsManager.getBestRumdlPath(config.server.path);
-    const rumdlVersion = await getRumdlVersion(rumdlPath);
+    const rumdlVersion = await getRumdlVersion(rumdlPath, workingDirectory);
 
     const debugInfo = {
       timestamp: new Date().toISOString(),
@@ -320,6 +376,10 @@ export class CommandManager implements vscode.Disposable {
         configuredPath: config.server.path,
         version: rumdlVersion || 'unknown',
         logLevel: config.server.logLevel,
+        instances: this.client.getClients().map(client => ({
+          name: client.name,
+          running: client.isRunning(),
+        })),
       },
       configuration: {
         ...config,
@@ -328,7 +388,7 @@ export class CommandManager implements vscode.Disposable {
       workspace: {
         folders: workspaceFolders,
         activeFile: activeEditor?.document.uri.fsPath || 'none',
-        workingDirectory: workspaceFolders[0] || process.cwd(),
+        workingDirectory,
       },
       vscode: {
         version: vscode.version,
@@ -413,11 +473,13 @@ export class CommandManager implements vscode.Disposable {
   private async checkStatus(): Promise<void> {
     Logger.info('Check status command executed');
 
-    const config = ConfigurationManager.getConfiguration();
+    const { rumdlPath, folder } = await BundledToolsManager.getRumdlPathFor(
+      vscode.window.activeTextEditor?.document.uri
+    );
+    const config = ConfigurationManager.getConfiguration(folder?.uri);
     const isRunning = this.client.isRunning();
 
-    const rumdlPath = await BundledToolsManager.getBestRumdlPath(config.server.path);
-    const rumdlVersion = await getRumdlVersion(rumdlPath);
+    const rumdlVersion = await getRumdlVersion(rumdlPath, folder?.uri.fsPath);
 
     // Check bundled tools
     const hasBundled = BundledToolsManager.hasBundledTools();
@@ -486,9 +548,12 @@ export class CommandManager implements vscode.Disposable {
   private async testConfigDiscovery(): Promise<void> {
     Logger.info('Test configuration discovery command executed');
 
-    const config = ConfigurationManager.getConfiguration();
+    const { rumdlPath, folder } = await BundledToolsManager.getRumdlPathFor(
+      vscode.window.activeTextEditor?.document.uri
+    );
+    const config = ConfigurationManager.getConfiguration(folder?.uri);
     const workspaceFolders = vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath) || [];
-    const workingDirectory = workspaceFolders[0] || process.cwd();
+    const workingDirectory = folder?.uri.fsPath || workspaceFolders[0] || process.cwd();
 
     let discoveryReport = '🔍 Configuration Discovery Test\n\n';
 
@@ -511,16 +576,16 @@ export class CommandManager implements vscode.Disposable {
 
     for (const configFile of configFiles) {
       const configPath = path.join(workingDirectory, configFile);
-      const exists = fs.existsSync(configPath);
-      discoveryReport += `  ${exists ? '✅' : '❌'} ${configFile}\n`;
-      if (exists) {
+      let stats: fs.Stats | undefined;
+      try {
+        stats = await fs.promises.stat(configPath);
+      } catch {
+        stats = undefined;
+      }
+      discoveryReport += `  ${stats ? '✅' : '❌'} ${configFile}\n`;
+      if (stats) {
         foundFiles.push(configFile);
-        try {
-          const stats = fs.statSync(configPath);
-          discoveryReport += `     📄 Size: ${stats.size} bytes, Modified: ${stats.mtime.toISOString()}\n`;
-        } catch (error) {
-          discoveryReport += `     ⚠️ Error reading file stats: ${error}\n`;
-        }
+        discoveryReport += `     📄 Size: ${stats.size} bytes, Modified: ${stats.mtime.toISOString()}\n`;
       }
     }
 
@@ -534,9 +599,6 @@ export class CommandManager implements vscode.Disposable {
     discoveryReport += `\n🔧 Testing rumdl Configuration Discovery:\n`;
 
     try {
-      const { BundledToolsManager } = await import('./bundledTools');
-      const rumdlPath = await BundledToolsManager.getBestRumdlPath(config.server.path);
-
       discoveryReport += `  • rumdl Path: ${rumdlPath}\n`;
       discoveryReport += `  • Working Dir: ${workingDirectory}\n`;
 
@@ -618,7 +680,7 @@ export class CommandManager implements vscode.Disposable {
 
         discoveryReport += `\n📖 Reading Configuration File: ${firstConfigFile}\n`;
         try {
-          const configContent = fs.readFileSync(configPath, 'utf8');
+          const configContent = await fs.promises.readFile(configPath, 'utf8');
           const truncatedContent =
             configContent.length > 500
               ? configContent.substring(0, 500) + '\n... (truncated)'
@@ -677,7 +739,7 @@ export class CommandManager implements vscode.Disposable {
     const configPath = path.join(workingDirectory, '.rumdl.toml');
 
     try {
-      fs.writeFileSync(configPath, DEFAULT_CONFIG_CONTENT);
+      await fs.promises.writeFile(configPath, DEFAULT_CONFIG_CONTENT);
       vscode.window
         .showInformationMessage(
           `Created .rumdl.toml configuration file at ${configPath}. Restart the rumdl server to apply changes.`,
@@ -693,6 +755,203 @@ export class CommandManager implements vscode.Disposable {
     }
   }
 
+  private async normalizeConfig(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      showErrorMessage('No active editor found');
+      return;
+    }
+
+    const fileName = path.basename(editor.document.fileName);
+    if (!['.rumdl.toml', 'rumdl.toml', 'pyproject.toml'].includes(fileName)) {
+      showErrorMessage('Current file is not a rumdl configuration file');
+      return;
+    }
+
+    const edits = normalizeConfigEdits(editor.document);
+    if (edits.length === 0) {
+      showInformationMessage('Configuration is already normalized');
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.set(editor.document.uri, edits);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      showErrorMessage('Failed to normalize configuration');
+    }
+  }
+
+  private async showEffectiveConfig(effectiveConfig: EffectiveConfigProvider): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      showErrorMessage('No active editor found');
+      return;
+    }
+
+    if (!isSupportedDocument(editor.document)) {
+      showErrorMessage('Current file is not a Markdown file');
+      return;
+    }
+
+    if (editor.document.uri.scheme !== 'file') {
+      showErrorMessage('The effective configuration is only available for files on disk');
+      return;
+    }
+
+    await effectiveConfig.show(editor.document.uri);
+  }
+
+  /**
+   * Open the documentation of a rule, accepting its code or an alias, with
+   * the option values in effect for the active document.
+   */
+  private async explainRule(viewer: RuleDocsViewer, ruleName?: string): Promise<void> {
+    const code = ruleName
+      ? ConfigValidator.resolveRuleName(ruleName)
+      : await this.pickRule('Explain Rule', 'Select the rule to explain');
+    if (!code) {
+      if (ruleName) {
+        showErrorMessage(`Unknown rule '${ruleName}'`);
+      }
+      return;
+    }
+    await viewer.show(code, vscode.window.activeTextEditor?.document.uri);
+  }
+
+  /**
+   * Turn a rule off for the whole project: in the `disable` list of the
+   * config file rumdl uses, created from the default template when there is
+   * none, or in the `rumdl.rules.disable` workspace setting. The change is
+   * shown for review before it is saved.
+   */
+  private async disableRuleForWorkspace(ruleCode?: string, resource?: vscode.Uri): Promise<void> {
+    const code =
+      ruleCode ?? (await this.pickRule('Disable Rule for Workspace', 'Select the rule to disable'));
+    if (!code) {
+      return;
+    }
+
+    const target = resource ?? vscode.window.activeTextEditor?.document.uri;
+    const folder =
+      (target && vscode.workspace.getWorkspaceFolder(target)) ??
+      vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      showErrorMessage('Open a workspace folder to disable a rule for it');
+      return;
+    }
+
+    const dir = target?.scheme === 'file' ? path.dirname(target.fsPath) : folder.uri.fsPath;
+    const configFile = await configFileFor(dir);
+    const choices: (vscode.QuickPickItem & { file?: string })[] = [];
+    if (!configFile) {
+      choices.push({
+        label: 'Create .rumdl.toml',
+        description: '[global].disable',
+        file: path.join(folder.uri.fsPath, '.rumdl.toml'),
+      });
+    } else if (path.extname(configFile) === '.toml') {
+      choices.push({
+        label: `Add to ${path.basename(configFile)}`,
+        description:
+          path.basename(configFile) === 'pyproject.toml'
+            ? '[tool.rumdl].disable'
+            : '[global].disable',
+        detail: vscode.workspace.asRelativePath(configFile),
+        file: configFile,
+      });
+    }
+    choices.push({ label: 'Add to workspace settings', description: 'rumdl.rules.disable' });
+
+    const choice = await vscode.window.showQuickPick(choices, {
+      title: `Disable ${code} for the workspace`,
+      placeHolder: 'Where should the rule be disabled?',
+    });
+    if (!choice) {
+      return;
+    }
+    if (choice.file) {
+      await this.disableRuleInConfig(code, choice.file, !configFile);
+    } else {
+      await this.disableRuleInSettings(code, folder);
+    }
+  }
+
+  private async pickRule(title: string, placeHolder: string): Promise<string | undefined> {
+    const picked = await vscode.window.showQuickPick(
+      RULE_NAMES.map(code => ({ label: code, description: RULE_DOCS[code]?.name })),
+      { title, placeHolder }
+    );
+    return picked?.label;
+  }
+
+  /**
+   * Add the rule to the `disable` list of a config file, through the
+   * refactor preview, and save the file once the change is accepted.
+   */
+  private async disableRuleInConfig(code: string, file: string, create: boolean): Promise<void> {
+    const uri = vscode.Uri.file(file);
+    const name = path.basename(file);
+    let content = DEFAULT_CONFIG_CONTENT;
+    if (!create) {
+      try {
+        content = (await vscode.workspace.openTextDocument(uri)).getText();
+      } catch (error) {
+        showErrorMessage(`Failed to read ${name}: ${error}`);
+        return;
+      }
+    }
+
+    const textEdit = ConfigValidator.addDisabledRule(content, name === 'pyproject.toml', code);
+    if (!textEdit) {
+      showInformationMessage(
+        `${code} was not added to ${name}: it is already disabled there, or the file can't be edited automatically`
+      );
+      return;
+    }
+
+    const metadata = { label: `Disable ${code}`, needsConfirmation: true };
+    const edit = new vscode.WorkspaceEdit();
+    if (create) {
+      edit.createFile(uri, { ignoreIfExists: true }, metadata);
+      edit.insert(uri, new vscode.Position(0, 0), applyTextEdits(content, [textEdit]), metadata);
+    } else {
+      edit.replace(uri, textEdit.range, textEdit.newText, metadata);
+    }
+    // Declined in the preview
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      return;
+    }
+    await (await vscode.workspace.openTextDocument(uri)).save();
+    showInformationMessage(`Disabled ${code} in ${name}`);
+  }
+
+  /**
+   * Add the rule to the `rumdl.rules.disable` workspace setting, once the
+   * change to the list is confirmed.
+   */
+  private async disableRuleInSettings(code: string, folder: vscode.WorkspaceFolder): Promise<void> {
+    const config = vscode.workspace.getConfiguration('rumdl', folder.uri);
+    const current = config.inspect<string[]>('rules.disable')?.workspaceValue ?? [];
+    if (current.some(rule => ConfigValidator.resolveRuleName(rule) === code)) {
+      showInformationMessage(`${code} is already disabled in workspace settings`);
+      return;
+    }
+
+    const updated = [...current, code];
+    const answer = await vscode.window.showInformationMessage(
+      `Disable ${code} in workspace settings?`,
+      {
+        modal: true,
+        detail: `rumdl.rules.disable\n- ${JSON.stringify(current)}\n+ ${JSON.stringify(updated)}`,
+      },
+      'Save'
+    );
+    if (answer !== 'Save') {
+      return;
+    }
+    await config.update('rules.disable', updated, vscode.ConfigurationTarget.Workspace);
+  }
+
   private async openConfigFile(): Promise<void> {
     Logger.info('Open config file command executed');
 
@@ -712,8 +971,11 @@ export class CommandManager implements vscode.Disposable {
 
     for (const configFile of configFiles) {
       const configPath = path.join(workingDirectory, configFile);
-      if (fs.existsSync(configPath)) {
+      try {
+        await fs.promises.access(configPath);
         foundFiles.push(configPath);
+      } catch {
+        // Not in this directory
       }
     }
 
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigSection, ConfigValidator, RuleOptionSource } from './configValidator';
+import {
+  GLOBAL_PROPERTIES,
+  GLOBAL_PROPERTY_DOCS,
+  MARKDOWN_FLAVORS,
+  RULE_ALIASES,
+  RULE_DOCS,
+  RULE_NAMES,
+  SECTION_DOCS,
+  SEVERITY_LEVELS,
+} from './configSchema';
+import { formatPropertyDoc, formatRuleDoc } from './configHover';
+
+// [global] keys whose value is a list of rule IDs
+const RULE_LIST_KEYS = new Set([
+  'enable',
+  'disable',
+  'fixable',
+  'unfixable',
+  'extend-enable',
+  'extend-disable',
+]);
+
+// Tables a header can open besides rule sections, in the order offered
+const SECTION_TABLES = ['global', 'per-file-ignores', 'per-file-flavor', 'code-block-tools'];
+
+/**
+ * Completions in rumdl config files: section headers, keys of the section
+ * the cursor is in, enum values, and rule IDs inside rule lists.
+ */
+export class ConfigCompletionProvider implements vscode.CompletionItemProvider {
+  static readonly triggerCharacters = ['[', '"', "'", '.'];
+
+  /**
+   * @param getRuleOptions Returns the options each rule accepts for a config
+   * file, when known, to complete keys inside rule sections.
+   */
+  constructor(
+    private readonly getRuleOptions: (uri: vscode.Uri) => RuleOptionSource | undefined = () =>
+      undefined
+  ) {}
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.CompletionItem[]> {
+    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    const lines = document.getText().split('\n');
+    const before = lines[position.line].substring(0, position.character);
+
+    const header = before.match(/^\s*\[([^\]]*)$/);
+    if (header) {
+      return this.completeHeader(header[1], position, lines[position.line], isPyproject);
+    }
+
+    const section = ConfigValidator.findSection(lines, position.line, isPyproject);
+    if (section.kind === 'foreign' || section.kind === 'unknown') {
+      return undefined;
+    }
+
+    const arrayKey = this.findEnclosingArrayKey(lines, position);
+    if (arrayKey !== undefined) {
+      const listsRules =
+        section.kind === 'per-file-ignores' ||
+        (section.kind === 'global' && RULE_LIST_KEYS.has(arrayKey.replace(/_/g, '-')));
+      return listsRules ? this.completeRuleIds(before) : undefined;
+    }
+
+    const value = before.match(/^\s*(?:"([^"]*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*=\s*(["']?)[^"']*$/);
+    if (value) {
+      const key = value[1] ?? value[2] ?? value[3];
+      return this.completeValue(key, section, value[4] !== '');
+    }
+
+    if (/^\s*[A-Za-z0-9_-]*$/.test(before)) {
+      return this.completeKey(section, document.uri);
+    }
+    return undefined;
+  }
+
+  private completeHeader(
+    typed: string,
+    position: vscode.Position,
+    line: string,
+    isPyproject: boolean
+  ): vscode.CompletionItem[] {
+    // Replace everything between the brackets, and close the header if needed
+    const start = position.character - typed.length;
+    const closing = line.indexOf(']', position.character);
+    const range = new vscode.Range(
+      position.line,
+      start,
+      position.line,
+      closing >= 0 ? closing : line.length
+    );
+    const suffix = closing >= 0 ? '' : ']';
+    const prefix = isPyproject ? 'tool.rumdl.' : '';
+
+    const items: vscode.CompletionItem[] = [];
+    const add = (
+      name: string,
+      sortGroup: number,
+      documentation: vscode.MarkdownString,
+      detail?: string
+    ) => {
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Module);
+      item.insertText = `${name}${suffix}`;
+      item.range = range;
+      item.sortText = `${sortGroup}-${name}`;
+      item.documentation = documentation;
+      item.detail = detail;
+      items.push(item);
+    };
+
+    if (isPyproject) {
+      add('tool.rumdl', 0, formatPropertyDoc('[tool.rumdl]', SECTION_DOCS.global));
+    }
+    for (const table of SECTION_TABLES) {
+      add(`${prefix}${table}`, 0, formatPropertyDoc(`[${prefix}${table}]`, SECTION_DOCS[table]));
+    }
+
+    // pyproject.toml has plenty of other tables; only offer the many rule
+    // sections once the header is clearly rumdl's
+    if (!isPyproject || typed.startsWith(prefix)) {
+      for (const code of RULE_NAMES) {
+        add(`${prefix}${code}`, 1, formatRuleDoc(code), RULE_DOCS[code]?.name);
+      }
+      for (const [alias, code] of Object.entries(RULE_ALIASES)) {
+        add(`${prefix}${alias}`, 2, formatRuleDoc(code), code);
+      }
+    }
+    return items;
+  }
+
+  private completeKey(section: ConfigSection, uri: vscode.Uri): vscode.CompletionItem[] {
+    const items: vscode.CompletionItem[] = [];
+    const add = (key: string, documentation: vscode.MarkdownString, detail?: string) => {
+      const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+      item.insertText = `${key} = `;
+      item.documentation = documentation;
+      item.detail = detail;
+      items.push(item);
+    };
+
+    if (section.kind === 'root' || section.header === 'tool.rumdl') {
+      add('extends', formatPropertyDoc('extends', SECTION_DOCS.extends), SECTION_DOCS.extends.type);
+    }
+    if (section.kind === 'global') {
+      for (const key of GLOBAL_PROPERTIES) {
+        const doc = GLOBAL_PROPERTY_DOCS[key];
+        if (doc) {
+          add(key, formatPropertyDoc(key, doc), doc.type);
+        }
+      }
+    }
+    if (section.kind === 'rule' && section.ruleCode) {
+      const options = this.getRuleOptions(uri)?.getRuleOptions(section.ruleCode) ?? {};
+      for (const [option, defaultValue] of Object.entries(options)) {
+        add(
+          option,
+          new vscode.MarkdownString(`Default: \`${JSON.stringify(defaultValue)}\``),
+          `${section.ruleCode} option`
+        );
+      }
+      add(
+        'severity',
+        new vscode.MarkdownString(
+          `Severity reported for ${section.ruleCode}: ${SEVERITY_LEVELS.map(l => `\`${l}\``).join(', ')}`
+        ),
+        `${section.ruleCode} option`
+      );
+    }
+    return items;
+  }
+
+  private completeValue(
+    key: string,
+    section: ConfigSection,
+    inString: boolean
+  ): vscode.CompletionItem[] | undefined {
+    const canonical = key.replace(/_/g, '-');
+    let values: string[] | undefined;
+    if (
+      section.kind === 'per-file-flavor' ||
+      (section.kind === 'global' && canonical === 'flavor')
+    ) {
+      values = MARKDOWN_FLAVORS;
+    } else if (section.kind === 'rule' && canonical === 'severity') {
+      values = SEVERITY_LEVELS;
+    } else if (section.kind === 'global' && GLOBAL_PROPERTY_DOCS[canonical]?.type === 'boolean') {
+      return inString
+        ? undefined
+        : ['true', 'false'].map(v => new vscode.CompletionItem(v, vscode.CompletionItemKind.Value));
+    }
+
+    return values?.map(v => {
+      const item = new vscode.CompletionItem(v, vscode.CompletionItemKind.EnumMember);
+      item.insertText = inString ? v : `"${v}"`;
+      return item;
+    });
+  }
+
+  private completeRuleIds(before: string): vscode.CompletionItem[] {
+    const inString = (before.match(/["']/g) ?? []).length % 2 === 1;
+    return RULE_NAMES.map(code => {
+      const name = RULE_DOCS[code]?.name ?? '';
+      const item = new vscode.CompletionItem(code, vscode.CompletionItemKind.Value);
+      item.insertText = inString ? code : `"${code}"`;
+      item.filterText = inString ? `${code} ${name}` : `"${code}" ${name}`;
+      item.detail = name;
+      item.documentation = formatRuleDoc(code);
+      return item;
+    });
+  }
+
+  /**
+   * The key of the array the cursor is inside, if any, looking back across
+   * lines for a `key = [` whose bracket is still open.
+   */
+  private findEnclosingArrayKey(lines: string[], position: vscode.Position): string | undefined {
+    let depth = 0;
+    for (let lineNum = position.line; lineNum >= 0; lineNum--) {
+      const text =
+        lineNum === position.line
+          ? lines[lineNum].substring(0, position.character)
+          : lines[lineNum];
+      if (lineNum !== position.line && /^\s*\[[^\]]*\]\s*(?:#.*)?$/.test(text)) {
+        return undefined;
+      }
+      const code = text.replace(/"(?:[^"\\]|\\.)*"|'[^']*'|#.*$/g, match =>
+        match.startsWith('#') ? '' : ' '.repeat(match.length)
+      );
+      for (let i = code.length - 1; i >= 0; i--) {
+        if (code[i] === ']') {
+          depth++;
+        } else if (code[i] === '[') {
+          if (depth === 0) {
+            const key = text
+              .substring(0, i)
+              .match(/^\s*(?:"([^"]*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*=\s*$/);
+            return key ? (key[1] ?? key[2] ?? key[3]) : undefined;
+          }
+          depth--;
+        }
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parse as parseToml } from 'smol-toml';
+import { ConfigSection, ConfigValidator, RuleOptionSource } from './configValidator';
+import { GLOBAL_PROPERTY_DOCS } from './configSchema';
+import { bracketDepthChange } from './configNormalizer';
+import { lastContentLine } from './configSymbols';
+import { formatTomlValue } from './effectiveConfig';
+import { ConfigurationManager } from './configuration';
+
+/**
+ * Inlay hints in rumdl config files: after each [global] key or rule option
+ * whose value differs from the default, the default; and, with
+ * `rumdl.config.showUnsetDefaults`, the defaults of the keys a section does
+ * not set, at its end. Global defaults come from the schema, rule option
+ * defaults from the rumdl binary.
+ */
+export class ConfigDefaultsInlayHintProvider
+  implements vscode.InlayHintsProvider, vscode.Disposable
+{
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChangeInlayHints = this.changeEmitter.event;
+
+  constructor(private readonly ruleOptions: (uri: vscode.Uri) => RuleOptionSource | undefined) {}
+
+  /**
+   * Recompute the hints, when rule option defaults or the settings change.
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  provideInlayHints(document: vscode.TextDocument, range: vscode.Range): vscode.InlayHint[] {
+    const content = document.getText();
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = parseToml(content) as Record<string, unknown>;
+    } catch {
+      return [];
+    }
+
+    const lines = content.split('\n');
+    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    const showUnset = ConfigurationManager.getConfiguration().config.showUnsetDefaults;
+    const sections = ConfigValidator.findSections(content, isPyproject);
+
+    const hints: vscode.InlayHint[] = [];
+    sections.forEach((section, index) => {
+      const defaults = this.sectionDefaults(section, document.uri);
+      const table = tableAt(parsed, section.header);
+      if (!defaults || !table) {
+        return;
+      }
+
+      const end = lastContentLine(lines, section.line, sections[index + 1]?.line ?? lines.length);
+      const set = new Set<string>();
+      for (const { key, line } of sectionKeys(lines, section.line + 1, end)) {
+        const name = canonicalKey(section, key);
+        set.add(name);
+        const fallback = defaults[name];
+        if (!hasDefault(fallback) || isEqual(table[key], fallback)) {
+          continue;
+        }
+        const hint = new vscode.InlayHint(
+          new vscode.Position(line, valueEnd(lines[line])),
+          `default: ${formatTomlValue(fallback)}`
+        );
+        hint.paddingLeft = true;
+        hints.push(hint);
+      }
+
+      if (!showUnset) {
+        return;
+      }
+      const unset = Object.entries(defaults)
+        .filter(([name, value]) => !set.has(name) && hasDefault(value))
+        .map(([name, value]) => `${name} = ${formatTomlValue(value)}`);
+      if (unset.length > 0) {
+        const hint = new vscode.InlayHint(
+          new vscode.Position(end, valueEnd(lines[end])),
+          `defaults: ${unset.join(', ')}`
+        );
+        hint.tooltip = new vscode.MarkdownString().appendCodeblock(unset.join('\n'), 'toml');
+        hint.paddingLeft = true;
+        hints.push(hint);
+      }
+    });
+    return hints.filter(hint => range.contains(hint.position));
+  }
+
+  /**
+   * The default of every key a section accepts, or undefined for sections
+   * whose keys have no defaults.
+   */
+  private sectionDefaults(
+    section: ConfigSection,
+    uri: vscode.Uri
+  ): Record<string, unknown> | undefined {
+    if (section.kind === 'global') {
+      return Object.fromEntries(
+        Object.entries(GLOBAL_PROPERTY_DOCS)
+          .filter(([, doc]) => !doc.deprecated)
+          .map(([key, doc]) => [key, doc.default])
+      );
+    }
+    if (section.kind === 'rule' && section.ruleCode) {
+      return this.ruleOptions(uri)?.getRuleOptions(section.ruleCode);
+    }
+    return undefined;
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+function canonicalKey(section: ConfigSection, key: string): string {
+  return section.kind === 'global'
+    ? (ConfigValidator.canonicalGlobalKey(key) ?? key)
+    : key.replace(/_/g, '-');
+}
+
+// Options rumdl leaves unset by default have nothing to compare against
+function hasDefault(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+function isEqual(value: unknown, fallback: unknown): boolean {
+  return formatTomlValue(value) === formatTomlValue(fallback);
+}
+
+/**
+ * The parsed table of a section header such as `tool.rumdl.MD013`.
+ */
+function tableAt(
+  parsed: Record<string, unknown>,
+  header: string
+): Record<string, unknown> | undefined {
+  let table: unknown = parsed;
+  for (const part of header.trim().match(/"(?:[^"\\]|\\.)*"|'[^']*'|[^.\s]+/g) ?? []) {
+    const name = /^["']/.test(part) ? part.slice(1, -1) : part;
+    table =
+      table && typeof table === 'object' ? (table as Record<string, unknown>)[name] : undefined;
+  }
+  return table && typeof table === 'object' && !Array.isArray(table)
+    ? (table as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * The keys set in the lines of a section, with the line its value ends on.
+ */
+function sectionKeys(lines: string[], start: number, end: number): { key: string; line: number }[] {
+  const keys: { key: string; line: number }[] = [];
+  let depth = 0;
+  for (let line = start; line <= end; line++) {
+    const key =
+      depth === 0
+        ? lines[line].match(/^\s*(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*=/)
+        : null;
+    depth += bracketDepthChange(lines[line]);
+    if (!key) {
+      continue;
+    }
+    // A multi-line value ends where its brackets close
+    while (depth > 0 && line < end) {
+      depth += bracketDepthChange(lines[++line]);
+    }
+    keys.push({ key: key[1] ?? key[2] ?? key[3], line });
+  }
+  return keys;
+}
+
+/**
+ * Where the value on a line ends, before any trailing comment.
+ */
+function valueEnd(text: string): number {
+  const code = text.replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, match => ' '.repeat(match.length));
+  const comment = code.indexOf('#');
+  return (comment >= 0 ? text.substring(0, comment) : text).trimEnd().length;
+}
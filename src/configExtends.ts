@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseToml } from 'smol-toml';
+import { ValidationError } from './configValidator';
+import { locateTomlKeys, rumdlKeyPath } from './tomlKeys';
+
+/**
+ * Where the `extends` value sits in a config file: the line, and the columns
+ * of the path between its quotes.
+ */
+export interface ExtendsReference {
+  value: string;
+  line: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Result of expanding an `extends` value: the resolved path, or the name of
+ * the environment variable that is not set.
+ */
+export type ExtendsTarget = { path: string } | { unsetVariable: string };
+
+/**
+ * Find the `extends` key of a config file: top level in .rumdl.toml, or
+ * under `tool.rumdl` in pyproject.toml, however that table is spelled. Only
+ * single-line string values are located; anything else is left to the
+ * validator's type check.
+ */
+export function findExtendsReference(
+  content: string,
+  isPyproject: boolean
+): ExtendsReference | undefined {
+  const location = locateTomlKeys(content).find(key => {
+    const keyPath = rumdlKeyPath(key.path, isPyproject);
+    return keyPath?.length === 1 && keyPath[0] === 'extends';
+  });
+  if (!location) {
+    return undefined;
+  }
+
+  const line = location.valueLine;
+  const value = content.split('\n')[line].substring(location.valueColumn);
+  const match = value.match(/^("((?:[^"\\]|\\.)*)"|'([^']*)')/);
+  if (!match || value.startsWith('"""') || value.startsWith("'''")) {
+    return undefined;
+  }
+  const start = location.valueColumn + 1;
+  const raw = match[2] ?? match[3];
+  return { value: unescapeBasicString(match[1], raw), line, start, end: start + raw.length };
+}
+
+/**
+ * The value of a TOML string literal: escapes in a basic (double-quoted)
+ * string are left to the TOML parser, and kept as written if they're invalid.
+ */
+function unescapeBasicString(literal: string, raw: string): string {
+  if (!literal.startsWith('"') || !raw.includes('\\')) {
+    return raw;
+  }
+  try {
+    return parseToml(`value = ${literal}`).value as string;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Expand an `extends` value the way the rumdl CLI does: a leading `~/` is
+ * the home directory, `$VAR` and `${VAR}` are environment variables, `$$` is
+ * a literal `$`, and a relative result is resolved against `baseDir`, the
+ * directory of the file that declares it.
+ */
+export function expandExtendsPath(
+  value: string,
+  baseDir: string,
+  env: NodeJS.ProcessEnv = process.env,
+  homeDir: string = os.homedir()
+): ExtendsTarget {
+  let expanded = '';
+  let i = 0;
+  while (i < value.length) {
+    const char = value[i];
+    if (char !== '$') {
+      expanded += char;
+      i++;
+      continue;
+    }
+
+    const rest = value.substring(i + 1);
+    const braced = rest.match(/^\{([A-Za-z_][A-Za-z0-9_]*)\}/);
+    const bare = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    const name = braced ? braced[1] : bare?.[0];
+    if (rest.startsWith('$')) {
+      expanded += '$';
+      i += 2;
+    } else if (name !== undefined) {
+      const variable = env[name];
+      if (variable === undefined) {
+        return { unsetVariable: name };
+      }
+      expanded += variable;
+      i += 1 + (braced ? braced[0].length : name.length);
+    } else {
+      // A `$` that starts no variable reference is kept as written
+      expanded += '$';
+      i++;
+    }
+  }
+
+  if (expanded === '~' || expanded.startsWith('~/')) {
+    expanded = path.join(homeDir, expanded.substring(1));
+  }
+  return { path: path.resolve(baseDir, expanded) };
+}
+
+/**
+ * The `extends` value of a config file on disk, or undefined when it has none.
+ * A pyproject.toml in the chain keeps it under [tool.rumdl].
+ */
+async function readExtendsValue(filePath: string): Promise<unknown> {
+  const parsed = parseToml(await fs.promises.readFile(filePath, 'utf8')) as Record<string, unknown>;
+  if (path.basename(filePath) === 'pyproject.toml') {
+    const tool = parsed.tool as Record<string, unknown> | undefined;
+    return (tool?.rumdl as Record<string, unknown> | undefined)?.extends;
+  }
+  return parsed.extends;
+}
+
+/**
+ * Follow the `extends` chain of a config file and report the first link
+ * that would stop the rumdl server from loading it: an unset environment
+ * variable, a missing or unreadable base file, or a cycle. Problems further
+ * down the chain are reported on the document's own `extends` line, naming
+ * the file they occur in.
+ */
+export async function validateExtendsChain(
+  content: string,
+  configPath: string,
+  isPyproject: boolean,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ValidationError[]> {
+  const reference = findExtendsReference(content, isPyproject);
+  if (!reference) {
+    return [];
+  }
+
+  const error = (message: string): ValidationError[] => [
+    {
+      line: reference.line,
+      column: reference.start,
+      message,
+      severity: vscode.DiagnosticSeverity.Error,
+    },
+  ];
+
+  const configDir = path.dirname(configPath);
+  const display = (file: string) => path.relative(configDir, file) || path.basename(file);
+  const chain = [path.resolve(configPath)];
+  let value: unknown = reference.value;
+  let declaredIn = chain[0];
+
+  while (typeof value === 'string') {
+    const via = declaredIn === chain[0] ? '' : ` (extended by '${display(declaredIn)}')`;
+    const target = expandExtendsPath(value, path.dirname(declaredIn), env);
+    if ('unsetVariable' in target) {
+      return error(
+        `Extends path references undefined environment variable $${target.unsetVariable}${via}`
+      );
+    }
+
+    if (chain.includes(target.path)) {
+      const cycle = [...chain, target.path].map(display).join(' → ');
+      return error(`Circular extends: ${cycle}`);
+    }
+
+    let stat: fs.Stats | undefined;
+    try {
+      stat = await fs.promises.stat(target.path);
+    } catch {
+      stat = undefined;
+    }
+    if (!stat) {
+      return error(`Extends target not found: '${value}'${via}`);
+    }
+    if (!stat.isFile()) {
+      return error(`Extends target '${value}' is not a file${via}`);
+    }
+
+    try {
+      value = await readExtendsValue(target.path);
+    } catch (e) {
+      const reason = (e as Error).message.split('\n')[0];
+      return error(`Cannot load base config '${display(target.path)}': ${reason}`);
+    }
+    chain.push(target.path);
+    declaredIn = target.path;
+  }
+
+  return [];
+}
+
+/**
+ * Makes the `extends` path a link to the base config, so Ctrl+click opens it.
+ */
+export class ConfigExtendsLinkProvider implements vscode.DocumentLinkProvider {
+  async provideDocumentLinks(document: vscode.TextDocument): Promise<vscode.DocumentLink[]> {
+    if (document.uri.scheme !== 'file') {
+      return [];
+    }
+
+    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    const reference = findExtendsReference(document.getText(), isPyproject);
+    if (!reference) {
+      return [];
+    }
+
+    const target = expandExtendsPath(reference.value, path.dirname(document.fileName));
+    if (!('path' in target)) {
+      return [];
+    }
+    try {
+      await fs.promises.access(target.path);
+    } catch {
+      return [];
+    }
+
+    const link = new vscode.DocumentLink(
+      new vscode.Range(reference.line, reference.start, reference.line, reference.end),
+      vscode.Uri.file(target.path)
+    );
+    link.tooltip = 'Open base configuration';
+    return [link];
+  }
+}
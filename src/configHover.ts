@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigSection, ConfigValidator } from './configValidator';
+import { GLOBAL_PROPERTY_DOCS, PropertyDoc, RULE_DOCS, SECTION_DOCS } from './configSchema';
+
+/**
+ * Markdown for a config key documented by the schema.
+ */
+export function formatPropertyDoc(key: string, doc: PropertyDoc): vscode.MarkdownString {
+  const heading = [`**${key}**`, `\`${doc.type}\``];
+  if (doc.default !== undefined) {
+    heading.push(`default \`${JSON.stringify(doc.default)}\``);
+  }
+
+  const markdown = new vscode.MarkdownString(heading.join(' · '));
+  if (doc.deprecated) {
+    markdown.appendMarkdown('\n\n*Deprecated.*');
+  }
+  if (doc.description) {
+    markdown.appendMarkdown(`\n\n${doc.description}`);
+  }
+  if (doc.enum) {
+    markdown.appendMarkdown(`\n\nAllowed values: ${doc.enum.map(v => `\`${v}\``).join(', ')}`);
+  }
+  return markdown;
+}
+
+/**
+ * Markdown for a rule: its code, name and summary, with a link to its docs.
+ */
+export function formatRuleDoc(ruleCode: string): vscode.MarkdownString {
+  const doc = RULE_DOCS[ruleCode];
+  if (!doc) {
+    return new vscode.MarkdownString(`**${ruleCode}**`);
+  }
+
+  const markdown = new vscode.MarkdownString(`**${ruleCode}** · ${doc.name}`);
+  if (doc.summary) {
+    markdown.appendMarkdown(`\n\n${doc.summary}`);
+  }
+  if (doc.aliases.length > 0) {
+    markdown.appendMarkdown(`\n\nAliases: ${doc.aliases.map(a => `\`${a}\``).join(', ')}`);
+  }
+  if (doc.url) {
+    markdown.appendMarkdown(`\n\n[Documentation](${doc.url})`);
+  }
+  return markdown;
+}
+
+/**
+ * Hover documentation in rumdl config files: schema docs for section headers,
+ * `extends` and [global] keys, and the name and summary of a rule for rule
+ * section headers and rule IDs in values.
+ */
+export class ConfigHoverProvider implements vscode.HoverProvider {
+  provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Hover> {
+    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    const text = document.lineAt(position.line).text;
+
+    const header = text.match(/^(\s*\[)([^\]]+)\]/);
+    if (header) {
+      const start = header[1].length;
+      const end = start + header[2].length;
+      if (position.character < start || position.character > end) {
+        return undefined;
+      }
+      const contents = this.describeHeader(header[2].trim(), isPyproject);
+      return contents
+        ? new vscode.Hover(contents, new vscode.Range(position.line, start, position.line, end))
+        : undefined;
+    }
+
+    const section = ConfigValidator.findSection(
+      document.getText().split('\n'),
+      position.line,
+      isPyproject
+    );
+    if (section.kind === 'foreign' || section.kind === 'unknown') {
+      return undefined;
+    }
+
+    const keyMatch = text.match(/^(\s*)(["']?)([A-Za-z0-9_-]+)\2\s*=/);
+    if (keyMatch) {
+      const start = keyMatch[1].length + keyMatch[2].length;
+      const end = start + keyMatch[3].length;
+      if (position.character >= start && position.character <= end) {
+        const contents = this.describeKey(keyMatch[3], section);
+        return contents
+          ? new vscode.Hover(contents, new vscode.Range(position.line, start, position.line, end))
+          : undefined;
+      }
+    }
+
+    // A rule ID inside a value, e.g. disable = ["MD013", "no-bare-urls"]
+    if (section.kind === 'global' || section.kind === 'per-file-ignores') {
+      const range = document.getWordRangeAtPosition(position, /[A-Za-z][A-Za-z0-9-]*/);
+      const ruleCode = range && ConfigValidator.resolveRuleName(document.getText(range));
+      if (range && ruleCode && text.indexOf('=') < range.start.character) {
+        return new vscode.Hover(formatRuleDoc(ruleCode), range);
+      }
+    }
+    return undefined;
+  }
+
+  private describeHeader(header: string, isPyproject: boolean): vscode.MarkdownString | undefined {
+    const section = ConfigValidator.classifySection(header, isPyproject);
+    if (section.ruleCode) {
+      return formatRuleDoc(section.ruleCode);
+    }
+    switch (section.kind) {
+      case 'global':
+      case 'per-file-ignores':
+      case 'per-file-flavor':
+      case 'code-block-tools':
+        return formatPropertyDoc(`[${header}]`, SECTION_DOCS[section.kind]);
+      default:
+        return undefined;
+    }
+  }
+
+  private describeKey(key: string, section: ConfigSection): vscode.MarkdownString | undefined {
+    // `extends` sits at the root of .rumdl.toml, and in [tool.rumdl] next to
+    // the global keys in pyproject.toml
+    if (key === 'extends' && (section.kind === 'root' || section.header === 'tool.rumdl')) {
+      return formatPropertyDoc(key, SECTION_DOCS.extends);
+    }
+    if (section.kind === 'global') {
+      const canonical = key.replace(/_/g, '-');
+      const doc = GLOBAL_PROPERTY_DOCS[canonical];
+      return doc ? formatPropertyDoc(canonical, doc) : undefined;
+    }
+    return undefined;
+  }
+}
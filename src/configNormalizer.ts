@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parse as parseToml } from 'smol-toml';
+import { ConfigValidator } from './configValidator';
+
+/** Source action kind of "Normalize rumdl configuration", for editor.codeActionsOnSave */
+export const RUMDL_NORMALIZE_CONFIG_KIND =
+  vscode.CodeActionKind.Source.append('normalize').append('rumdl');
+
+/**
+ * A section of a config file: its header, the comment lines directly above
+ * it, and everything up to the next section.
+ */
+interface ConfigBlock {
+  lines: string[];
+  headerIndex: number;
+  ruleCode?: string;
+}
+
+/**
+ * Rewrite a rumdl config in canonical form: [global] keys and rule options
+ * in kebab-case, rule sections as [MD###] ([tool.rumdl.MD###] in
+ * pyproject.toml) sorted by code, and sections that configure the same rule
+ * merged. Comments, blank lines and value formatting are kept, and sections
+ * that aren't rule sections stay where they are. A document that isn't valid
+ * TOML, or would not be after rewriting, is returned unchanged.
+ */
+export function normalizeConfig(content: string, isPyproject: boolean): string {
+  if (!parsesAsToml(content)) {
+    return content;
+  }
+
+  const lines = content.split('\n');
+  const headerLines = findHeaderLines(lines);
+  if (headerLines.length === 0) {
+    return content;
+  }
+
+  // Comments directly above a header travel with its section
+  const starts = headerLines.map((headerLine, index) => {
+    const floor = index > 0 ? headerLines[index - 1] + 1 : 0;
+    let start = headerLine;
+    while (start > floor && lines[start - 1].trim().startsWith('#')) {
+      start--;
+    }
+    return start;
+  });
+  const blocks = headerLines.map((headerLine, index) =>
+    normalizeBlock(
+      lines.slice(starts[index], starts[index + 1] ?? lines.length),
+      headerLine - starts[index],
+      isPyproject
+    )
+  );
+
+  // Sort the rule sections into the places rule sections had, merging
+  // sections that now have the same header
+  const slots = blocks.flatMap((block, index) => (block.ruleCode ? [index] : []));
+  const sorted = slots
+    .map(index => blocks[index])
+    .sort((a, b) => (a.ruleCode! < b.ruleCode! ? -1 : a.ruleCode! > b.ruleCode! ? 1 : 0));
+  const rules: ConfigBlock[] = [];
+  for (const block of sorted) {
+    const previous = rules[rules.length - 1];
+    if (previous?.ruleCode === block.ruleCode) {
+      rules[rules.length - 1] = mergeBlocks(previous, block);
+    } else {
+      rules.push(block);
+    }
+  }
+
+  const output = lines.slice(0, starts[0]);
+  let nextRule = 0;
+  blocks.forEach((block, index) => {
+    if (!block.ruleCode) {
+      output.push(...block.lines);
+      return;
+    }
+    // Keep the spacing of the slot rather than that of the moved section; a
+    // slot left empty by a merge passes its spacing to the section before
+    const rule = rules[nextRule++];
+    const spacing = trailingBlanks(blocks[index].lines);
+    if (rule) {
+      output.push(...withoutTrailingBlanks(rule.lines), ...spacing);
+    } else {
+      output.splice(withoutTrailingBlanks(output).length, output.length, ...spacing);
+    }
+  });
+
+  let normalized = output.join('\n');
+  if (content.endsWith('\n') && !normalized.endsWith('\n')) {
+    normalized += '\n';
+  }
+  return parsesAsToml(normalized) ? normalized : content;
+}
+
+/**
+ * Edits that normalize a config document, or none if it is already normal
+ * or is a pyproject.toml without rumdl settings.
+ */
+export function normalizeConfigEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+  const text = document.getText();
+  const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+  if (isPyproject && !ConfigValidator.hasPyprojectRumdlConfig(text)) {
+    return [];
+  }
+  const normalized = normalizeConfig(text, isPyproject);
+  if (normalized === text) {
+    return [];
+  }
+  return [
+    vscode.TextEdit.replace(
+      new vscode.Range(document.positionAt(0), document.positionAt(text.length)),
+      normalized
+    ),
+  ];
+}
+
+/**
+ * Normalizes rumdl config files as a document formatter and as a source
+ * action.
+ */
+export class ConfigNormalizeProvider
+  implements vscode.DocumentFormattingEditProvider, vscode.CodeActionProvider
+{
+  static readonly providedCodeActionKinds = [RUMDL_NORMALIZE_CONFIG_KIND];
+
+  provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+    return normalizeConfigEdits(document);
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    if (context.only && !context.only.contains(RUMDL_NORMALIZE_CONFIG_KIND)) {
+      return [];
+    }
+    const edits = normalizeConfigEdits(document);
+    if (edits.length === 0) {
+      return [];
+    }
+
+    const action = new vscode.CodeAction(
+      'Normalize rumdl configuration',
+      RUMDL_NORMALIZE_CONFIG_KIND
+    );
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.set(document.uri, edits);
+    return [action];
+  }
+}
+
+function parsesAsToml(content: string): boolean {
+  try {
+    parseToml(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lines that open a table, skipping the lines of multi-line values.
+ */
+function findHeaderLines(lines: string[]): number[] {
+  const headers: number[] = [];
+  let depth = 0;
+  lines.forEach((text, line) => {
+    if (depth === 0 && /^\s*\[\[?[^\]]+\]\]?\s*(?:#.*)?$/.test(text)) {
+      headers.push(line);
+    } else {
+      depth += bracketDepthChange(text);
+    }
+  });
+  return headers;
+}
+
+/**
+ * Net brackets and braces `text` opens, ignoring strings and comments.
+ */
+export function bracketDepthChange(text: string): number {
+  const code = text.replace(/"(?:[^"\\]|\\.)*"|'[^']*'|#.*$/g, '');
+  let change = 0;
+  for (const char of code) {
+    change += char === '[' || char === '{' ? 1 : char === ']' || char === '}' ? -1 : 0;
+  }
+  return change;
+}
+
+/**
+ * Rename the header of a rule section to its code, and the keys of [global]
+ * and rule sections to kebab-case.
+ */
+function normalizeBlock(lines: string[], headerIndex: number, isPyproject: boolean): ConfigBlock {
+  const header = lines[headerIndex].match(/^(\s*)\[([^[\]]+)\](.*)$/);
+  if (!header) {
+    return { lines, headerIndex };
+  }
+
+  const section = ConfigValidator.classifySection(header[2].trim(), isPyproject);
+  const rename =
+    section.kind === 'global'
+      ? (key: string) => ConfigValidator.canonicalGlobalKey(key) ?? key
+      : section.kind === 'rule'
+        ? (key: string) => key.replace(/_/g, '-')
+        : undefined;
+  if (!rename) {
+    return { lines, headerIndex };
+  }
+
+  const normalized = [...lines];
+  if (section.ruleCode) {
+    const name = isPyproject ? `tool.rumdl.${section.ruleCode}` : section.ruleCode;
+    normalized[headerIndex] = `${header[1]}[${name}]${header[3]}`;
+  }
+
+  let depth = 0;
+  for (let line = headerIndex + 1; line < normalized.length; line++) {
+    if (depth === 0) {
+      normalized[line] = normalized[line].replace(
+        /^(\s*)(["']?)([A-Za-z0-9_-]+)\2(\s*=)/,
+        (_match, indent: string, quote: string, key: string, equals: string) =>
+          `${indent}${quote}${rename(key)}${quote}${equals}`
+      );
+    }
+    depth += bracketDepthChange(normalized[line]);
+  }
+  return { lines: normalized, headerIndex, ruleCode: section.ruleCode };
+}
+
+/**
+ * Merge `later` into `earlier`, two sections for the same rule. Comments
+ * above the later header are kept with its first key.
+ */
+function mergeBlocks(earlier: ConfigBlock, later: ConfigBlock): ConfigBlock {
+  const leading = earlier.lines.slice(0, earlier.headerIndex);
+  const merged = ConfigValidator.mergeRuleSections(earlier.lines.slice(earlier.headerIndex), [
+    later.lines[later.headerIndex],
+    ...later.lines.slice(0, later.headerIndex),
+    ...later.lines.slice(later.headerIndex + 1),
+  ]);
+  return { ...earlier, lines: [...leading, ...merged] };
+}
+
+function withoutTrailingBlanks(lines: string[]): string[] {
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return lines.slice(0, end);
+}
+
+function trailingBlanks(lines: string[]): string[] {
+  return lines.slice(withoutTrailingBlanks(lines).length);
+}
@@ -0,0 +1,302 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigValidator, ValidationError } from './configValidator';
+import { ConfigurationManager } from './configuration';
+
+// Markdown files rumdl lints by default
+const MARKDOWN_GLOB = '**/*.{md,markdown,mdx,mdown,mkd}';
+
+// Directories never worth listing; rumdl skips them through .gitignore anyway.
+// Filtered after the listing, since an exclude passed to findFiles would
+// replace the user's files.exclude
+const LISTING_EXCLUDED_DIRS = new Set(['node_modules', '.git']);
+
+// Files named in a CodeLens tooltip before the rest are summarised
+const TOOLTIP_FILE_LIMIT = 10;
+
+/**
+ * A file pattern key of [per-file-ignores] or [per-file-flavor]: its value,
+ * line, and the columns of the pattern text.
+ */
+export interface FilePatternReference {
+  pattern: string;
+  section: 'per-file-ignores' | 'per-file-flavor';
+  line: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Find the pattern keys of the [per-file-ignores] and [per-file-flavor]
+ * tables of a config file (under [tool.rumdl] in pyproject.toml).
+ */
+export function findFilePatterns(content: string, isPyproject: boolean): FilePatternReference[] {
+  const references: FilePatternReference[] = [];
+  const lines = content.split('\n');
+  let section: FilePatternReference['section'] | undefined;
+
+  for (let line = 0; line < lines.length; line++) {
+    const header = lines[line].trim().match(/^\[([^\]]+)\]\s*(?:#.*)?$/);
+    if (header) {
+      const kind = ConfigValidator.classifySection(header[1].trim(), isPyproject).kind;
+      section = kind === 'per-file-ignores' || kind === 'per-file-flavor' ? kind : undefined;
+      continue;
+    }
+    if (!section) {
+      continue;
+    }
+
+    const key = lines[line].match(/^(\s*)(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*=/);
+    if (key) {
+      const quoted = key[2] ?? key[3];
+      const start = key[1].length + (quoted !== undefined ? 1 : 0);
+      const raw = quoted ?? key[4];
+      references.push({
+        pattern: key[2] !== undefined ? unescapeBasicString(raw) : raw,
+        section,
+        line,
+        start,
+        end: start + raw.length,
+      });
+    }
+  }
+  return references;
+}
+
+/**
+ * The value of a TOML basic string, kept as written if its escapes are invalid.
+ */
+function unescapeBasicString(raw: string): string {
+  if (!raw.includes('\\')) {
+    return raw;
+  }
+  try {
+    return JSON.parse(`"${raw}"`) as string;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Translate a file pattern the way rumdl's glob matcher reads it: `*` and `?`
+ * also match `/`, `**` spans directories, `[...]` is a character class
+ * (`[!...]` negated), `{a,b}` lists alternatives, and matching is
+ * case-sensitive.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inAlternates = false;
+  let i = 0;
+  while (i < glob.length) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i) && (i === 0 || glob[i - 1] === '/')) {
+      // Any number of leading directories, including none
+      source += '(?:.*/)?';
+      i += 3;
+      continue;
+    }
+
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[' && glob.indexOf(']', i + 2) > 0) {
+      const close = glob.indexOf(']', i + 2);
+      const body = glob.substring(i + 1, close);
+      const negated = body.startsWith('!') || body.startsWith('^');
+      const members = (negated ? body.substring(1) : body).replace(/[\\\]]/g, '\\$&');
+      source += `[${negated ? '^' : ''}${members}]`;
+      i = close + 1;
+      continue;
+    } else if (char === '{' && !inAlternates) {
+      source += '(?:';
+      inAlternates = true;
+    } else if (char === '}' && inAlternates) {
+      source += ')';
+      inAlternates = false;
+    } else if (char === ',' && inAlternates) {
+      source += '|';
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]);
+      i += 2;
+      continue;
+    } else {
+      source += escapeRegExp(char);
+    }
+    i++;
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * The files among `files` (absolute paths) that `pattern` matches. Patterns
+ * are relative to `baseDir`, the directory of the config file; a leading
+ * `~/` is the home directory, and absolute patterns are matched as written.
+ */
+export function matchFilePattern(
+  pattern: string,
+  baseDir: string,
+  files: string[],
+  homeDir: string = os.homedir()
+): string[] {
+  const expanded = pattern.startsWith('~/') ? path.join(homeDir, pattern.substring(2)) : pattern;
+  const absolute = path.isAbsolute(expanded);
+  const regex = globToRegExp(toPosix(expanded));
+  return files.filter(file => regex.test(toPosix(absolute ? file : path.relative(baseDir, file))));
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Warn about each pattern that matches none of `files`.
+ */
+export function validateFilePatterns(
+  references: FilePatternReference[],
+  baseDir: string,
+  files: string[]
+): ValidationError[] {
+  return references
+    .filter(reference => matchFilePattern(reference.pattern, baseDir, files).length === 0)
+    .map(reference => ({
+      line: reference.line,
+      column: reference.start,
+      message: `Pattern '${reference.pattern}' in [${reference.section}] matches no Markdown files`,
+      severity: vscode.DiagnosticSeverity.Warning,
+    }));
+}
+
+/**
+ * Markdown files of the workspace, listed once per config directory and
+ * listed again after files are created or deleted.
+ */
+export class MarkdownFileIndex implements vscode.Disposable {
+  private readonly filesByDir = new Map<string, Promise<string[]>>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private changeTimer: NodeJS.Timeout | undefined;
+
+  /** Fires, debounced, after Markdown files are created or deleted */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(MARKDOWN_GLOB, false, true, false);
+    const reset = () => {
+      this.filesByDir.clear();
+      clearTimeout(this.changeTimer);
+      this.changeTimer = setTimeout(() => this.changeEmitter.fire(), 500);
+    };
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(reset),
+      watcher.onDidDelete(reset),
+      this.changeEmitter
+    );
+  }
+
+  /**
+   * Absolute paths of the Markdown files under `dir`
+   */
+  getFiles(dir: string): Promise<string[]> {
+    let files = this.filesByDir.get(dir);
+    if (!files) {
+      files = Promise.resolve(
+        vscode.workspace.findFiles(new vscode.RelativePattern(dir, MARKDOWN_GLOB))
+      ).then(uris =>
+        uris
+          .map(uri => uri.fsPath)
+          .filter(file =>
+            path
+              .relative(dir, file)
+              .split(path.sep)
+              .every(part => !LISTING_EXCLUDED_DIRS.has(part))
+          )
+      );
+      // A failed listing is tried again next time rather than kept
+      files.catch(() => this.filesByDir.delete(dir));
+      this.filesByDir.set(dir, files);
+    }
+    return files;
+  }
+
+  dispose(): void {
+    clearTimeout(this.changeTimer);
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+/**
+ * Whether pattern checks apply to a config file: enabled, and a file inside the
+ * workspace, since only workspace files can be listed.
+ */
+export function shouldCheckFilePatterns(uri: vscode.Uri): boolean {
+  return (
+    ConfigurationManager.getConfiguration().config.checkFilePatterns &&
+    uri.scheme === 'file' &&
+    vscode.workspace.getWorkspaceFolder(uri) !== undefined
+  );
+}
+
+/**
+ * Shows above each [per-file-ignores] and [per-file-flavor] pattern how many
+ * Markdown files it matches, with the files in the tooltip.
+ */
+export class ConfigPatternCodeLensProvider implements vscode.CodeLensProvider {
+  readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+  constructor(private readonly index: MarkdownFileIndex) {
+    this.onDidChangeCodeLenses = index.onDidChange;
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    if (!shouldCheckFilePatterns(document.uri)) {
+      return [];
+    }
+    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    const references = findFilePatterns(document.getText(), isPyproject);
+    if (references.length === 0) {
+      return [];
+    }
+
+    const baseDir = path.dirname(document.fileName);
+    const files = await this.index.getFiles(baseDir);
+    return references.map(reference => {
+      const matches = matchFilePattern(reference.pattern, baseDir, files);
+      const range = new vscode.Range(
+        reference.line,
+        reference.start,
+        reference.line,
+        reference.end
+      );
+      return new vscode.CodeLens(range, {
+        title: describeMatchCount(matches.length),
+        command: '',
+        tooltip: describeMatches(matches, baseDir),
+      });
+    });
+  }
+}
+
+function describeMatchCount(count: number): string {
+  if (count === 0) {
+    return 'No matching Markdown files';
+  }
+  return count === 1 ? '1 Markdown file' : `${count} Markdown files`;
+}
+
+function describeMatches(matches: string[], baseDir: string): string | undefined {
+  if (matches.length === 0) {
+    return undefined;
+  }
+  const shown = matches.slice(0, TOOLTIP_FILE_LIMIT).map(file => path.relative(baseDir, file));
+  if (matches.length > TOOLTIP_FILE_LIMIT) {
+    shown.push(`…and ${matches.length - TOOLTIP_FILE_LIMIT} more`);
+  }
+  return shown.join('\n');
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigurationManager } from './configuration';
+import { globToRegExp } from './configPatterns';
+
+// rumdl config files by name; .config/rumdl.toml is one of the rumdl.toml
+// files, and pyproject.toml only counts with a [tool.rumdl] table
+const CONFIG_GLOB = '**/{.rumdl.toml,rumdl.toml,pyproject.toml}';
+
+/**
+ * Whether a config file is at most `maxDepth` directories below a
+ * workspace folder, counting a .config/rumdl.toml as a file of the
+ * directory above .config. A negative depth turns scanning off.
+ */
+export function withinScanDepth(filePath: string, folderPath: string, maxDepth: number): boolean {
+  if (maxDepth < 0) {
+    return false;
+  }
+  let dir = path.dirname(filePath);
+  if (path.basename(dir) === '.config' && path.basename(filePath) === 'rumdl.toml') {
+    dir = path.dirname(dir);
+  }
+  const relative = path.relative(folderPath, dir);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return false;
+  }
+  return (relative === '' ? 0 : relative.split(path.sep).length) <= maxDepth;
+}
+
+/**
+ * The rumdl config files of the workspace, whether open or not, found by a
+ * scan limited by `rumdl.config.scanDepth` and `rumdl.config.scanExclude`
+ * and kept current by a file system watcher.
+ */
+export class ConfigFileScanner implements vscode.Disposable {
+  private files = new Map<string, vscode.Uri>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private readonly deleteEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /** Fires when a scanned config file is created or changed on disk */
+  readonly onDidChange = this.changeEmitter.event;
+  /** Fires when a scanned config file is deleted, or leaves the scan */
+  readonly onDidDelete = this.deleteEmitter.event;
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(CONFIG_GLOB);
+    const update = (uri: vscode.Uri) => {
+      if (this.inScope(uri)) {
+        this.files.set(uri.toString(), uri);
+        this.changeEmitter.fire(uri);
+      }
+    };
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(update),
+      watcher.onDidChange(update),
+      watcher.onDidDelete(uri => {
+        if (this.files.delete(uri.toString())) {
+          this.deleteEmitter.fire(uri);
+        }
+      }),
+      this.changeEmitter,
+      this.deleteEmitter
+    );
+  }
+
+  /**
+   * List the config files of the workspace again. Files that no longer fall
+   * within the scan are reported as deleted.
+   */
+  async scan(): Promise<vscode.Uri[]> {
+    const { scanDepth } = ConfigurationManager.getConfiguration().config;
+    // No exclude argument, so files.exclude still applies; inScope filters
+    // out scanExclude
+    const found = scanDepth < 0 ? [] : await vscode.workspace.findFiles(CONFIG_GLOB);
+
+    const previous = this.files;
+    this.files = new Map(
+      found.filter(uri => this.inScope(uri)).map(uri => [uri.toString(), uri] as const)
+    );
+    for (const [key, uri] of previous) {
+      if (!this.files.has(key)) {
+        this.deleteEmitter.fire(uri);
+      }
+    }
+    return [...this.files.values()];
+  }
+
+  /** The config files found by the last scan, or reported since */
+  getFiles(): vscode.Uri[] {
+    return [...this.files.values()];
+  }
+
+  has(uri: vscode.Uri): boolean {
+    return this.files.has(uri.toString());
+  }
+
+  private inScope(uri: vscode.Uri): boolean {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const { scanDepth, scanExclude } = ConfigurationManager.getConfiguration().config;
+    if (uri.scheme !== 'file' || !folder) {
+      return false;
+    }
+    const relative = path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+    return (
+      withinScanDepth(uri.fsPath, folder.uri.fsPath, scanDepth) &&
+      !(scanExclude && globToRegExp(scanExclude).test(relative))
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -2,7 +2,7 @@
  * Auto-generated from rumdl JSON schema
  * DO NOT EDIT MANUALLY - Run 'npm run sync-schema' to regenerate
  *
- * Generated: 2026-08-22T10:45:33.736Z
+ * Generated: 2026-10-19T13:05:39.549Z
  */
 
 export interface GlobalConfig {
@@ -76,6 +76,268 @@ export const GLOBAL_PROPERTIES = [
   'editorconfig',
 ];
 
+// Documentation shown for a config key: the schema description, the value's
+// TOML type, and its default and allowed values where the schema has them.
+export interface PropertyDoc {
+  description: string;
+  type: string;
+  default?: unknown;
+  enum?: string[];
+  deprecated?: boolean;
+}
+
+// [global] keys (also the keys of [tool.rumdl] in pyproject.toml)
+export const GLOBAL_PROPERTY_DOCS: Record<string, PropertyDoc> = {
+  enable: {
+    description: 'Enabled rules',
+    type: 'string[]',
+    default: [],
+  },
+  disable: {
+    description: 'Disabled rules',
+    type: 'string[]',
+    default: [],
+  },
+  exclude: {
+    description:
+      'Files to exclude. Glob patterns, relative to the project root; a\nleading `~/` expands to the home directory and absolute paths are\nmatched as written.',
+    type: 'string[]',
+    default: [],
+  },
+  include: {
+    description:
+      'Files to include. Glob patterns, relative to the project root; a\nleading `~/` expands to the home directory and absolute paths are\nmatched as written.',
+    type: 'string[]',
+    default: [],
+  },
+  'respect-gitignore': {
+    description: 'Respect .gitignore files when scanning directories',
+    type: 'boolean',
+    default: true,
+  },
+  'line-length': {
+    description: 'Global line length setting (used by MD013 and other rules if not overridden)',
+    type: 'integer',
+    default: 80,
+  },
+  'output-format': {
+    description: 'Output format for linting results (e.g., "text", "json", "pylint", etc.)',
+    type: 'string',
+  },
+  fixable: {
+    description:
+      'Rules that are allowed to be fixed when --fix is used\nIf specified, only these rules will be fixed',
+    type: 'string[]',
+    default: [],
+  },
+  unfixable: {
+    description:
+      'Rules that should never be fixed, even when --fix is used\nTakes precedence over fixable',
+    type: 'string[]',
+    default: [],
+  },
+  flavor: {
+    description:
+      'Markdown flavor/dialect to use (mkdocs, gfm, commonmark, etc.)\nWhen set, adjusts parsing and validation rules for that specific Markdown variant',
+    type: 'string',
+    default: 'standard',
+    enum: [
+      'standard',
+      'gfm',
+      'github',
+      'commonmark',
+      'mkdocs',
+      'mdx',
+      'pandoc',
+      'quarto',
+      'qmd',
+      'rmd',
+      'rmarkdown',
+      'obsidian',
+      'kramdown',
+      'jekyll',
+      'azure_devops',
+      'azure',
+      'ado',
+      'myst',
+      'mystmd',
+      'hugo',
+      'goldmark',
+    ],
+  },
+  'force-exclude': {
+    description:
+      '\\[DEPRECATED\\] Whether to enforce exclude patterns for explicitly passed paths.\nThis option is deprecated as of v0.0.156 and has no effect.\nExclude patterns are now always respected, even for explicitly provided files.\nThis prevents duplication between rumdl config and tool configs like pre-commit.',
+    type: 'boolean',
+    default: false,
+    deprecated: true,
+  },
+  'cache-dir': {
+    description:
+      'Directory to store cache files (default: .rumdl_cache).\nA leading `~/` expands to the home directory; a relative path resolves\nagainst the project root.\nCan also be set via --cache-dir CLI flag or RUMDL_CACHE_DIR environment variable',
+    type: 'string',
+  },
+  cache: {
+    description:
+      'Whether caching is enabled (default: true)\nCan also be disabled via --no-cache CLI flag',
+    type: 'boolean',
+    default: true,
+  },
+  'extend-enable': {
+    description: 'Additional rules to enable on top of the base set (additive)',
+    type: 'string[]',
+    default: [],
+  },
+  'extend-disable': {
+    description: 'Additional rules to disable on top of the base set (additive)',
+    type: 'string[]',
+    default: [],
+  },
+  editorconfig: {
+    description:
+      'Whether to read settings from `.editorconfig` files (default: false).\nWhen enabled, the `.editorconfig` properties that map onto rumdl\nsettings fill in anything no rumdl config sets, resolved per file so\nsection globs and nested `.editorconfig` files apply as written.',
+    type: 'boolean',
+    default: false,
+  },
+};
+
+// Top-level keys and sections: extends, [global], [per-file-ignores], ...
+export const SECTION_DOCS: Record<string, PropertyDoc> = {
+  extends: {
+    description:
+      'Path to a base config file to inherit settings from.\nSupports relative paths, absolute paths, `~/` for the home directory, and\n`$VAR` / `${VAR}` environment-variable expansion (a literal `$` is written `$$`).\nExample: `extends = "../base.rumdl.toml"` or `extends = "$GEM_PATH/base.rumdl.toml"`',
+    type: 'string',
+  },
+  global: {
+    description: 'Global configuration options',
+    type: 'table',
+  },
+  'per-file-ignores': {
+    description:
+      'Per-file rule ignores: maps file patterns to lists of rules to ignore.\nPatterns are relative to the project root; a leading `~/` expands to the\nhome directory and absolute paths are matched as written.\nExample: { "README.md": ["MD033"], "docs/**/*.md": ["MD013"] }',
+    type: 'table',
+  },
+  'per-file-flavor': {
+    description:
+      'Per-file flavor overrides: maps file patterns to Markdown flavors.\nPatterns are relative to the project root; a leading `~/` expands to the\nhome directory and absolute paths are matched as written.\nExample: { "docs/**/*.md": MkDocs, "**/*.mdx": MDX }\nUses IndexMap to preserve config file order for "first match wins" semantics',
+    type: 'table',
+  },
+  'code-block-tools': {
+    description:
+      'Code block tools configuration for per-language linting and formatting\nusing external tools like ruff, prettier, shellcheck, etc.',
+    type: 'table',
+  },
+};
+
+// Values accepted for flavor and per-file-flavor entries, aliases included
+export const MARKDOWN_FLAVORS = [
+  'standard',
+  'gfm',
+  'github',
+  'commonmark',
+  'mkdocs',
+  'mdx',
+  'pandoc',
+  'quarto',
+  'qmd',
+  'rmd',
+  'rmarkdown',
+  'obsidian',
+  'kramdown',
+  'jekyll',
+  'azure_devops',
+  'azure',
+  'ado',
+  'myst',
+  'mystmd',
+  'hugo',
+  'goldmark',
+];
+
+// Values accepted for a rule's severity option
+export const SEVERITY_LEVELS = ['error', 'warning', 'info'];
+
+// Values of the OnError, OnMissing and NormalizeLanguage enums that
+// [code-block-tools] settings reference
+export const ON_ERROR_VALUES = ['fail', 'skip', 'warn'];
+export const ON_MISSING_VALUES = ['ignore', 'fail', 'fail-fast'];
+export const NORMALIZE_LANGUAGE_VALUES = ['linguist', 'exact'];
+
+// Properties of the CodeBlockToolsConfig, LanguageToolConfig and
+// ToolDefinition objects; anything else in them is a typo
+export const CODE_BLOCK_TOOLS_PROPERTIES = [
+  'enabled',
+  'normalize-language',
+  'on-error',
+  'on-missing-language-definition',
+  'on-missing-tool-binary',
+  'timeout',
+  'languages',
+  'language-aliases',
+  'tools',
+];
+export const LANGUAGE_TOOL_PROPERTIES = ['enabled', 'lint', 'format', 'on-error'];
+export const TOOL_DEFINITION_PROPERTIES = [
+  'command',
+  'stdin',
+  'stdout',
+  'lint-args',
+  'format-args',
+];
+
+// Tool IDs rumdl ships definitions for, so `lint` and `format` may name them
+// without a [code-block-tools.tools] entry (rumdl 0.2.55's builtin-tools table)
+export const BUILTIN_TOOLS = [
+  'ruff',
+  'ruff:check',
+  'ruff:format',
+  'black',
+  'prettier',
+  'prettier:json',
+  'prettier:yaml',
+  'prettier:html',
+  'prettier:css',
+  'prettier:markdown',
+  'shellcheck',
+  'shfmt',
+  'shuck',
+  'shuck:format',
+  'rustfmt',
+  'gofmt',
+  'goimports',
+  'clang-format',
+  'sqlfluff',
+  'sqlfluff:lint',
+  'sqlfluff:fix',
+  'yamlfmt',
+  'taplo',
+  'terraform-fmt',
+  'nixfmt',
+  'stylua',
+  'ormolu',
+  'elm-format',
+  'swift-format',
+  'ktfmt',
+  'djlint',
+  'djlint:lint',
+  'djlint:reformat',
+  'tombi',
+  'tombi:format',
+  'tombi:lint',
+  'oxfmt',
+  'oxfmt:ts',
+  'oxfmt:jsx',
+  'oxfmt:tsx',
+  'oxfmt:json',
+  'oxfmt:css',
+  'deno-fmt',
+  'deno-fmt:ts',
+  'deno-fmt:js',
+  'deno-fmt:json',
+  'deno-fmt:jsonc',
+  'deno-fmt:md',
+];
+
 export const RULE_NAMES = [
   'MD001',
   'MD003',
@@ -253,3 +515,506 @@ export const RULE_ALIASES: Record<string, string> = {
   'unused-disable-comment': 'MD087',
   'quotes-dashes': 'MD088',
 };
+
+export interface RuleDoc {
+  name: string;
+  summary: string;
+  aliases: string[];
+  url?: string;
+}
+
+// Name, one-line summary and documentation URL of each rule, keyed by MD### code
+export const RULE_DOCS: Record<string, RuleDoc> = {
+  MD001: {
+    name: 'heading-increment',
+    summary: 'Heading levels should only increment by one level at a time',
+    aliases: [],
+    url: 'https://rumdl.dev/md001/',
+  },
+  MD003: {
+    name: 'heading-style',
+    summary: 'Heading style',
+    aliases: [],
+    url: 'https://rumdl.dev/md003/',
+  },
+  MD004: {
+    name: 'ul-style',
+    summary: 'Use consistent style for unordered list markers',
+    aliases: [],
+    url: 'https://rumdl.dev/md004/',
+  },
+  MD005: {
+    name: 'list-indent',
+    summary: 'List indentation should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md005/',
+  },
+  MD007: {
+    name: 'ul-indent',
+    summary: 'Unordered list indentation',
+    aliases: [],
+    url: 'https://rumdl.dev/md007/',
+  },
+  MD009: {
+    name: 'no-trailing-spaces',
+    summary: 'Trailing spaces should be removed',
+    aliases: [],
+    url: 'https://rumdl.dev/md009/',
+  },
+  MD010: {
+    name: 'no-hard-tabs',
+    summary: 'No tabs',
+    aliases: [],
+    url: 'https://rumdl.dev/md010/',
+  },
+  MD011: {
+    name: 'no-reversed-links',
+    summary: 'Reversed link syntax',
+    aliases: [],
+    url: 'https://rumdl.dev/md011/',
+  },
+  MD012: {
+    name: 'no-multiple-blanks',
+    summary: 'Multiple consecutive blank lines',
+    aliases: [],
+    url: 'https://rumdl.dev/md012/',
+  },
+  MD013: {
+    name: 'line-length',
+    summary: 'Line length should not be excessive',
+    aliases: [],
+    url: 'https://rumdl.dev/md013/',
+  },
+  MD014: {
+    name: 'commands-show-output',
+    summary: 'Commands in code blocks should show output',
+    aliases: [],
+    url: 'https://rumdl.dev/md014/',
+  },
+  MD018: {
+    name: 'no-missing-space-atx',
+    summary: 'No space after hash in heading',
+    aliases: [],
+    url: 'https://rumdl.dev/md018/',
+  },
+  MD019: {
+    name: 'no-multiple-space-atx',
+    summary: 'Multiple spaces after hash in heading',
+    aliases: [],
+    url: 'https://rumdl.dev/md019/',
+  },
+  MD020: {
+    name: 'no-missing-space-closed-atx',
+    summary: 'No space inside hashes on closed heading',
+    aliases: [],
+    url: 'https://rumdl.dev/md020/',
+  },
+  MD021: {
+    name: 'no-multiple-space-closed-atx',
+    summary: 'Multiple spaces inside hashes on closed heading',
+    aliases: [],
+    url: 'https://rumdl.dev/md021/',
+  },
+  MD022: {
+    name: 'blanks-around-headings',
+    summary: 'Headings should be surrounded by blank lines',
+    aliases: [],
+    url: 'https://rumdl.dev/md022/',
+  },
+  MD023: {
+    name: 'heading-start-left',
+    summary: 'Headings must start at the beginning of the line',
+    aliases: [],
+    url: 'https://rumdl.dev/md023/',
+  },
+  MD024: {
+    name: 'no-duplicate-heading',
+    summary: 'Multiple headings with the same content',
+    aliases: [],
+    url: 'https://rumdl.dev/md024/',
+  },
+  MD025: {
+    name: 'single-title',
+    summary: 'Multiple top-level headings in the same document',
+    aliases: ['single-h1'],
+    url: 'https://rumdl.dev/md025/',
+  },
+  MD026: {
+    name: 'no-trailing-punctuation',
+    summary: 'Trailing punctuation in heading',
+    aliases: [],
+    url: 'https://rumdl.dev/md026/',
+  },
+  MD027: {
+    name: 'no-multiple-space-blockquote',
+    summary: 'Multiple spaces after quote marker (>)',
+    aliases: [],
+    url: 'https://rumdl.dev/md027/',
+  },
+  MD028: {
+    name: 'no-blanks-blockquote',
+    summary: 'Blank line inside blockquote',
+    aliases: [],
+    url: 'https://rumdl.dev/md028/',
+  },
+  MD029: {
+    name: 'ol-prefix',
+    summary: 'Ordered list marker value',
+    aliases: [],
+    url: 'https://rumdl.dev/md029/',
+  },
+  MD030: {
+    name: 'list-marker-space',
+    summary: 'Spaces after list markers should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md030/',
+  },
+  MD031: {
+    name: 'blanks-around-fences',
+    summary: 'Fenced code blocks should be surrounded by blank lines',
+    aliases: [],
+    url: 'https://rumdl.dev/md031/',
+  },
+  MD032: {
+    name: 'blanks-around-lists',
+    summary: 'Lists should be surrounded by blank lines',
+    aliases: [],
+    url: 'https://rumdl.dev/md032/',
+  },
+  MD033: {
+    name: 'no-inline-html',
+    summary: 'Inline HTML is not allowed',
+    aliases: [],
+    url: 'https://rumdl.dev/md033/',
+  },
+  MD034: {
+    name: 'no-bare-urls',
+    summary: 'No bare URLs - wrap URLs in angle brackets',
+    aliases: [],
+    url: 'https://rumdl.dev/md034/',
+  },
+  MD035: {
+    name: 'hr-style',
+    summary: 'Horizontal rule style',
+    aliases: [],
+    url: 'https://rumdl.dev/md035/',
+  },
+  MD036: {
+    name: 'no-emphasis-as-heading',
+    summary: 'Emphasis should not be used instead of a heading',
+    aliases: [],
+    url: 'https://rumdl.dev/md036/',
+  },
+  MD037: {
+    name: 'no-space-in-emphasis',
+    summary: 'Spaces inside emphasis markers',
+    aliases: [],
+    url: 'https://rumdl.dev/md037/',
+  },
+  MD038: {
+    name: 'no-space-in-code',
+    summary: 'Spaces inside code span elements',
+    aliases: [],
+    url: 'https://rumdl.dev/md038/',
+  },
+  MD039: {
+    name: 'no-space-in-links',
+    summary: 'Spaces inside link text',
+    aliases: [],
+    url: 'https://rumdl.dev/md039/',
+  },
+  MD040: {
+    name: 'fenced-code-language',
+    summary: 'Code blocks should have a language specified',
+    aliases: [],
+    url: 'https://rumdl.dev/md040/',
+  },
+  MD041: {
+    name: 'first-line-heading',
+    summary: 'First line in file should be a top level heading',
+    aliases: ['first-line-h1'],
+    url: 'https://rumdl.dev/md041/',
+  },
+  MD042: {
+    name: 'no-empty-links',
+    summary: 'No empty links',
+    aliases: [],
+    url: 'https://rumdl.dev/md042/',
+  },
+  MD043: {
+    name: 'required-headings',
+    summary: 'Required heading structure',
+    aliases: [],
+    url: 'https://rumdl.dev/md043/',
+  },
+  MD044: {
+    name: 'proper-names',
+    summary: 'Proper names should have the correct capitalization',
+    aliases: [],
+    url: 'https://rumdl.dev/md044/',
+  },
+  MD045: {
+    name: 'no-alt-text',
+    summary: 'Images should have alternate text (alt text)',
+    aliases: [],
+    url: 'https://rumdl.dev/md045/',
+  },
+  MD046: {
+    name: 'code-block-style',
+    summary: 'Code blocks should use a consistent style',
+    aliases: [],
+    url: 'https://rumdl.dev/md046/',
+  },
+  MD047: {
+    name: 'single-trailing-newline',
+    summary: 'Files should end with a single newline character',
+    aliases: [],
+    url: 'https://rumdl.dev/md047/',
+  },
+  MD048: {
+    name: 'code-fence-style',
+    summary: 'Code fence style should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md048/',
+  },
+  MD049: {
+    name: 'emphasis-style',
+    summary: 'Emphasis style should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md049/',
+  },
+  MD050: {
+    name: 'strong-style',
+    summary: 'Strong emphasis style should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md050/',
+  },
+  MD051: {
+    name: 'link-fragments',
+    summary: 'Link fragments should reference valid headings',
+    aliases: [],
+    url: 'https://rumdl.dev/md051/',
+  },
+  MD052: {
+    name: 'reference-links-images',
+    summary: 'Reference links and images should use a reference that exists',
+    aliases: [],
+    url: 'https://rumdl.dev/md052/',
+  },
+  MD053: {
+    name: 'link-image-reference-definitions',
+    summary: 'Link and image reference definitions should be needed',
+    aliases: [],
+    url: 'https://rumdl.dev/md053/',
+  },
+  MD054: {
+    name: 'link-image-style',
+    summary: 'Link and image style should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md054/',
+  },
+  MD055: {
+    name: 'table-pipe-style',
+    summary: 'Table pipe style should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md055/',
+  },
+  MD056: {
+    name: 'table-column-count',
+    summary: 'Table column count should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md056/',
+  },
+  MD057: {
+    name: 'existing-relative-links',
+    summary: 'Relative links should point to existing files',
+    aliases: [],
+    url: 'https://rumdl.dev/md057/',
+  },
+  MD058: {
+    name: 'blanks-around-tables',
+    summary: 'Tables should be surrounded by blank lines',
+    aliases: [],
+    url: 'https://rumdl.dev/md058/',
+  },
+  MD059: {
+    name: 'descriptive-link-text',
+    summary: 'Link text should be descriptive',
+    aliases: [],
+    url: 'https://rumdl.dev/md059/',
+  },
+  MD060: {
+    name: 'table-format',
+    summary: 'Table columns should be consistently aligned',
+    aliases: ['table-cell-alignment'],
+    url: 'https://rumdl.dev/md060/',
+  },
+  MD061: {
+    name: 'forbidden-terms',
+    summary: 'Forbidden terms',
+    aliases: [],
+    url: 'https://rumdl.dev/md061/',
+  },
+  MD062: {
+    name: 'link-destination-whitespace',
+    summary: 'Link destination should not have leading or trailing whitespace',
+    aliases: ['no-space-in-link-destination'],
+    url: 'https://rumdl.dev/md062/',
+  },
+  MD063: {
+    name: 'heading-capitalization',
+    summary: 'Heading capitalization',
+    aliases: [],
+    url: 'https://rumdl.dev/md063/',
+  },
+  MD064: {
+    name: 'no-multiple-consecutive-spaces',
+    summary: 'Multiple consecutive spaces',
+    aliases: [],
+    url: 'https://rumdl.dev/md064/',
+  },
+  MD065: {
+    name: 'blanks-around-horizontal-rules',
+    summary: 'Horizontal rules should be surrounded by blank lines',
+    aliases: [],
+    url: 'https://rumdl.dev/md065/',
+  },
+  MD066: {
+    name: 'footnote-validation',
+    summary: 'Footnote validation',
+    aliases: [],
+    url: 'https://rumdl.dev/md066/',
+  },
+  MD067: {
+    name: 'footnote-definition-order',
+    summary: 'Footnote definitions should appear in order of first reference',
+    aliases: [],
+    url: 'https://rumdl.dev/md067/',
+  },
+  MD068: {
+    name: 'empty-footnote-definition',
+    summary: 'Footnote definitions should not be empty',
+    aliases: [],
+    url: 'https://rumdl.dev/md068/',
+  },
+  MD069: {
+    name: 'no-duplicate-list-markers',
+    summary: 'Duplicate list markers',
+    aliases: [],
+    url: 'https://rumdl.dev/md069/',
+  },
+  MD070: {
+    name: 'nested-code-fence',
+    summary: 'Nested code fence collision - use longer fence to avoid premature closure',
+    aliases: [],
+    url: 'https://rumdl.dev/md070/',
+  },
+  MD071: {
+    name: 'blank-line-after-frontmatter',
+    summary: 'Blank line after frontmatter',
+    aliases: [],
+    url: 'https://rumdl.dev/md071/',
+  },
+  MD072: {
+    name: 'frontmatter-key-sort',
+    summary: 'Frontmatter keys should be sorted alphabetically',
+    aliases: [],
+    url: 'https://rumdl.dev/md072/',
+  },
+  MD073: {
+    name: 'toc-validation',
+    summary: 'Table of Contents should match document headings',
+    aliases: [],
+    url: 'https://rumdl.dev/md073/',
+  },
+  MD074: {
+    name: 'mkdocs-nav',
+    summary: 'MkDocs nav entries should point to existing files',
+    aliases: [],
+    url: 'https://rumdl.dev/md074/',
+  },
+  MD075: {
+    name: 'orphaned-table-rows',
+    summary: 'Orphaned table rows or headerless pipe content',
+    aliases: [],
+    url: 'https://rumdl.dev/md075/',
+  },
+  MD076: {
+    name: 'list-item-spacing',
+    summary: 'List item spacing should be consistent',
+    aliases: [],
+    url: 'https://rumdl.dev/md076/',
+  },
+  MD077: {
+    name: 'list-continuation-indent',
+    summary: 'List continuation content indentation',
+    aliases: [],
+    url: 'https://rumdl.dev/md077/',
+  },
+  MD078: {
+    name: 'missing-chunk-labels',
+    summary: 'Executable Quarto chunks should have a label',
+    aliases: [],
+    url: 'https://rumdl.dev/md078/',
+  },
+  MD079: {
+    name: 'chunk-label-spaces',
+    summary: 'Quarto chunk labels must not contain whitespace',
+    aliases: [],
+    url: 'https://rumdl.dev/md079/',
+  },
+  MD080: {
+    name: 'heading-anchor-collision',
+    summary: 'Heading anchors must be unique',
+    aliases: [],
+    url: 'https://rumdl.dev/md080/',
+  },
+  MD081: {
+    name: 'no-excessive-emphasis',
+    summary: 'Inline emphasis should not be excessive',
+    aliases: [],
+    url: 'https://rumdl.dev/md081/',
+  },
+  MD082: {
+    name: 'no-empty-sections',
+    summary: 'Headings should have content before the next heading',
+    aliases: [],
+    url: 'https://rumdl.dev/md082/',
+  },
+  MD083: {
+    name: 'mojibake',
+    summary: 'Detect mojibake due to encoding issues',
+    aliases: [],
+    url: 'https://rumdl.dev/md083/',
+  },
+  MD084: {
+    name: 'invisible-characters',
+    summary: 'Invisible or discouraged Unicode characters should be intentional',
+    aliases: [],
+    url: 'https://rumdl.dev/md084/',
+  },
+  MD085: {
+    name: 'paragraph-continuation-indent',
+    summary: 'Paragraph continuation lines should not be indented',
+    aliases: [],
+    url: 'https://rumdl.dev/md085/',
+  },
+  MD086: {
+    name: 'no-unclosed-comments',
+    summary: 'Comments should be closed',
+    aliases: [],
+    url: 'https://rumdl.dev/md086/',
+  },
+  MD087: {
+    name: 'unused-disable-comment',
+    summary: 'Inline disable comments should suppress something',
+    aliases: [],
+    url: 'https://rumdl.dev/md087/',
+  },
+  MD088: {
+    name: 'quotes-dashes',
+    summary: 'Quotes and dashes should be replaced with ASCII equivalents',
+    aliases: [],
+    url: 'https://rumdl.dev/md088/',
+  },
+};
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigSection, ConfigSectionKind, ConfigValidator } from './configValidator';
+import { bracketDepthChange } from './configNormalizer';
+import { RULE_DOCS } from './configSchema';
+
+// Symbol kind of each kind of section that is shown in the outline
+const SECTION_SYMBOL_KINDS: Partial<Record<ConfigSectionKind, vscode.SymbolKind>> = {
+  global: vscode.SymbolKind.Namespace,
+  'per-file-ignores': vscode.SymbolKind.Object,
+  'per-file-flavor': vscode.SymbolKind.Object,
+  'code-block-tools': vscode.SymbolKind.Module,
+  rule: vscode.SymbolKind.Class,
+};
+
+/**
+ * Lists the sections of a rumdl config file, with their keys, for the
+ * Outline view, breadcrumbs and Go to Symbol. In pyproject.toml only the
+ * [tool.rumdl] tables are listed.
+ */
+export class ConfigSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const content = document.getText();
+    const lines = content.split('\n');
+    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    const sections = ConfigValidator.findSections(content, isPyproject);
+
+    const symbols: vscode.DocumentSymbol[] = [];
+    let codeBlockTools: { header: string; symbol: vscode.DocumentSymbol } | undefined;
+    sections.forEach((section, index) => {
+      const kind = SECTION_SYMBOL_KINDS[section.kind];
+      if (kind === undefined) {
+        return;
+      }
+
+      const end = lastContentLine(lines, section.line, sections[index + 1]?.line ?? lines.length);
+      const symbol = new vscode.DocumentSymbol(
+        section.header.trim(),
+        describeSection(section),
+        kind,
+        new vscode.Range(section.line, 0, end, lines[end].length),
+        new vscode.Range(section.line, 0, section.line, lines[section.line].length)
+      );
+      symbol.children = keySymbols(lines, section.line + 1, end);
+
+      // [code-block-tools.languages.python] nests under [code-block-tools]
+      const parent = codeBlockTools;
+      if (
+        section.kind === 'code-block-tools' &&
+        parent &&
+        section.header.trim().startsWith(`${parent.header}.`)
+      ) {
+        parent.symbol.children.push(symbol);
+        parent.symbol.range = new vscode.Range(parent.symbol.range.start, symbol.range.end);
+        return;
+      }
+      codeBlockTools =
+        section.kind === 'code-block-tools' ? { header: section.header.trim(), symbol } : undefined;
+      symbols.push(symbol);
+    });
+    return symbols;
+  }
+}
+
+/**
+ * The rule name for a section headed by its code, or the code for one
+ * headed by a name or alias.
+ */
+function describeSection(section: ConfigSection): string {
+  if (section.kind !== 'rule' || !section.ruleCode) {
+    return '';
+  }
+  const name = section.header.trim().replace(/^(?:tool\.rumdl\.|rules\.)/, '');
+  return name.toUpperCase() === section.ruleCode
+    ? (RULE_DOCS[section.ruleCode]?.name ?? '')
+    : section.ruleCode;
+}
+
+/**
+ * The last line of a section that isn't blank or a comment, so a section
+ * does not claim the comments above the next header.
+ */
+export function lastContentLine(lines: string[], headerLine: number, nextHeader: number): number {
+  let end = nextHeader - 1;
+  while (end > headerLine && (lines[end].trim() === '' || lines[end].trim().startsWith('#'))) {
+    end--;
+  }
+  return end;
+}
+
+/**
+ * A symbol for each key of a section, spanning its value.
+ */
+function keySymbols(lines: string[], start: number, end: number): vscode.DocumentSymbol[] {
+  const symbols: vscode.DocumentSymbol[] = [];
+  let depth = 0;
+  for (let line = start; line <= end; line++) {
+    const key =
+      depth === 0
+        ? lines[line].match(/^(\s*)(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*=/)
+        : null;
+    depth += bracketDepthChange(lines[line]);
+    if (!key) {
+      continue;
+    }
+
+    // A multi-line value ends where its brackets close
+    let last = line;
+    while (depth > 0 && last < end) {
+      depth += bracketDepthChange(lines[++last]);
+    }
+    const name = key[2] ?? key[3] ?? key[4];
+    const keyStart = key[1].length;
+    symbols.push(
+      new vscode.DocumentSymbol(
+        name,
+        '',
+        vscode.SymbolKind.Property,
+        new vscode.Range(line, keyStart, last, lines[last].length),
+        new vscode.Range(line, keyStart, line, key[0].replace(/\s*=$/, '').length)
+      )
+    );
+    line = last;
+  }
+  return symbols;
+}
@@ -1,6 +1,19 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { parse as parseToml, TomlError } from 'smol-toml';
-import { GLOBAL_PROPERTIES, RULE_NAMES, RULE_ALIASES } from './configSchema';
+import {
+  BUILTIN_TOOLS,
+  CODE_BLOCK_TOOLS_PROPERTIES,
+  GLOBAL_PROPERTIES,
+  LANGUAGE_TOOL_PROPERTIES,
+  NORMALIZE_LANGUAGE_VALUES,
+  ON_ERROR_VALUES,
+  ON_MISSING_VALUES,
+  RULE_ALIASES,
+  RULE_NAMES,
+  TOOL_DEFINITION_PROPERTIES,
+} from './configSchema';
+import { locateTomlKeys, rumdlKeyPath } from './tomlKeys';
 
 // The rumdl schema declares [global] keys in kebab-case (the canonical form
 // surfaced in docs and accepted by the CLI). The CLI's serde layer also
@@ -17,11 +30,22 @@ for (const canonical of GLOBAL_PROPERTIES) {
   }
 }
 
+// [global] lists that turn rules on, each paired with the lists that turn
+// them off again
+const CONFLICTING_RULE_LISTS: [string, string][] = [
+  ['enable', 'disable'],
+  ['enable', 'extend-disable'],
+  ['extend-enable', 'disable'],
+  ['extend-enable', 'extend-disable'],
+];
+
 export interface ValidationError {
   line: number;
   column: number;
   message: string;
   severity: vscode.DiagnosticSeverity;
+  /** Other places in the same file involved in the problem */
+  related?: { line: number; column: number; message: string }[];
 }
 
 export interface ConfigValidationResult {
@@ -29,6 +53,56 @@ export interface ConfigValidationResult {
   errors: ValidationError[];
 }
 
+/**
+ * Knowledge of the options each rule accepts. rumdl's published schema does
+ * not describe rule options, so this comes from the installed binary (see
+ * RuleCatalog); without it, rule sections are left unvalidated.
+ */
+export interface RuleOptionSource {
+  /**
+   * Default value of each option `ruleCode` accepts, keyed by kebab-case
+   * name, or undefined when the source does not know the rule.
+   */
+  getRuleOptions(ruleCode: string): Record<string, unknown> | undefined;
+  /**
+   * Why the binary rejects `value` for a string option, or undefined when it
+   * accepts the value or has not been asked yet.
+   */
+  getValueProblem?(ruleCode: string, option: string, value: string): string | undefined;
+  /**
+   * Whether the binary accepts an option name `getRuleOptions` leaves out,
+   * such as an alias, or undefined when it has not been asked yet. Without
+   * it, every name outside `getRuleOptions` is unknown.
+   */
+  isKnownOption?(ruleCode: string, option: string): boolean | undefined;
+}
+
+/**
+ * What a section header opens, as the validator interprets it. `root` is the
+ * top of a .rumdl.toml file before any header; `foreign` is a pyproject.toml
+ * table that belongs to another tool; `unknown` is a header rumdl doesn't
+ * recognise.
+ */
+export type ConfigSectionKind =
+  | 'root'
+  | 'global'
+  | 'rule'
+  | 'per-file-ignores'
+  | 'per-file-flavor'
+  | 'code-block-tools'
+  | 'unknown'
+  | 'foreign';
+
+export interface ConfigSection {
+  kind: ConfigSectionKind;
+  /** Header text between the brackets; empty for the document root. */
+  header: string;
+  /** Line of the header, or -1 for the document root. */
+  line: number;
+  /** Canonical MD### code of a rule section. */
+  ruleCode?: string;
+}
+
 /**
  * Validator for rumdl configuration files
  */
@@ -40,9 +114,15 @@ export class ConfigValidator {
    * true, rumdl config only lives under `[tool.rumdl]` / `[tool.rumdl.*]`;
    * every other top-level section belongs to some other tool (e.g.
    * `[build-system]`, `[tool.black]`) and is left unvalidated.
+   * @param ruleOptions The options each rule accepts, used to validate keys
+   * inside rule sections. Rule sections are not validated without it.
    * @returns Validation result with any errors
    */
-  static validateToml(content: string, isPyproject = false): ConfigValidationResult {
+  static validateToml(
+    content: string,
+    isPyproject = false,
+    ruleOptions?: RuleOptionSource
+  ): ConfigValidationResult {
     const errors: ValidationError[] = [];
 
     // First, validate TOML syntax using proper parser
@@ -98,7 +178,21 @@ export class ConfigValidator {
     // This lets the key/value loop below stay agnostic to whether we're
     // looking at .rumdl.toml (`parsed.rules.MD013`) or pyproject.toml
     // (`parsed.tool.rumdl.MD013`) shapes.
-    let currentContainer: Record<string, unknown> | undefined;
+    let currentContainer: Record<string, unknown> | undefined = isPyproject ? undefined : parsed;
+    // Whether keys here are top-level rumdl settings rather than a section's:
+    // the root of .rumdl.toml, or [tool.rumdl] in pyproject.toml. `extends`
+    // is only read from there.
+    let atConfigRoot = !isPyproject;
+    // Inside code-block-tools, the table path below [code-block-tools] that
+    // the current header opened (e.g. ['languages', 'python']), and the
+    // parsed code-block-tools table itself, which lint/format entries are
+    // checked against for tool definitions.
+    let codeBlockToolsPath: string[] = [];
+    let codeBlockToolsRoot: Record<string, unknown> | undefined;
+    // Where each rule was first configured, under whichever spelling, and
+    // where each [global] rule list is, keyed by its canonical name
+    const ruleSections = new Map<string, { header: string; line: number }>();
+    const ruleLists = new Map<string, { key: string; line: number; rules: unknown[] }>();
 
     for (let lineNum = 0; lineNum < lines.length; lineNum++) {
       const line = lines[lineNum];
@@ -114,6 +208,7 @@ export class ConfigValidator {
       const sectionMatch = trimmed.match(/^\[([^\]]+)\]\s*(?:#.*)?$/);
       if (sectionMatch) {
         const section = sectionMatch[1];
+        atConfigRoot = isPyproject && section === 'tool.rumdl';
 
         // In pyproject.toml, rumdl config only ever lives under [tool.rumdl]
         // or [tool.rumdl.*]. Every other top-level section belongs to some
@@ -155,12 +250,19 @@ export class ConfigValidator {
             subSection === 'code-block-tools' ||
             subSection.startsWith('code-block-tools.')
           ) {
-            // The schema for code-block-tools is nested and extensible. TOML
-            // syntax is still validated above; leave its semantic validation
-            // to rumdl rather than reporting false positives.
-            currentSection = 'code-block-tools';
+            // [tool.rumdl.code-block-tools] and its nested tables mirror
+            // [code-block-tools] in a .rumdl.toml file
             currentRule = '';
-            currentContainer = undefined;
+            codeBlockToolsRoot = this.asObject(pyprojectRumdl?.['code-block-tools']);
+            codeBlockToolsPath = this.splitTableName(subSection).slice(1);
+            currentContainer = this.resolveCodeBlockToolsTable(
+              section,
+              codeBlockToolsRoot,
+              codeBlockToolsPath,
+              lineNum,
+              errors
+            );
+            currentSection = currentContainer ? 'code-block-tools' : '';
           } else {
             // Unknown tool.rumdl subsection
             currentSection = '';
@@ -169,11 +271,7 @@ export class ConfigValidator {
             errors.push({
               line: lineNum,
               column: 0,
-              message:
-                `Unknown section '[${section}]'. Valid sections are: [tool.rumdl], ` +
-                `[tool.rumdl.per-file-ignores], [tool.rumdl.per-file-flavor], ` +
-                `[tool.rumdl.code-block-tools], or [tool.rumdl.MD###] ` +
-                `(rule name or alias, e.g. [tool.rumdl.line-length])`,
+              message: this.unknownSectionMessage(section, isPyproject),
               severity: vscode.DiagnosticSeverity.Warning,
             });
           }
@@ -214,9 +312,17 @@ export class ConfigValidator {
           currentRule = '';
           currentContainer = this.asObject(parsed[section]);
         } else if (section === 'code-block-tools' || section.startsWith('code-block-tools.')) {
-          currentSection = 'code-block-tools';
           currentRule = '';
-          currentContainer = undefined;
+          codeBlockToolsRoot = this.asObject(parsed['code-block-tools']);
+          codeBlockToolsPath = this.splitTableName(section).slice(1);
+          currentContainer = this.resolveCodeBlockToolsTable(
+            section,
+            codeBlockToolsRoot,
+            codeBlockToolsPath,
+            lineNum,
+            errors
+          );
+          currentSection = currentContainer ? 'code-block-tools' : '';
         } else if (section === 'per-file-ignores') {
           // [per-file-ignores] section for .rumdl.toml
           currentSection = 'per-file-ignores';
@@ -243,14 +349,22 @@ export class ConfigValidator {
             errors.push({
               line: lineNum,
               column: 0,
-              message:
-                `Unknown section '[${section}]'. Valid sections are: [global], ` +
-                `[per-file-ignores], [per-file-flavor], [code-block-tools], [MD###] ` +
-                `(rule name or alias), or [rules.MD###] (legacy rule-section form)`,
+              message: this.unknownSectionMessage(section, isPyproject),
               severity: vscode.DiagnosticSeverity.Warning,
             });
           }
         }
+
+        // [MD013], [line-length], [rules.MD013] and [rules.line-length] are
+        // the same section to the CLI, which merges them
+        if (currentRule) {
+          const first = ruleSections.get(currentRule);
+          if (first) {
+            errors.push(this.duplicateSectionError(currentRule, first, lineNum));
+          } else {
+            ruleSections.set(currentRule, { header: section, line: lineNum });
+          }
+        }
         continue;
       }
 
@@ -271,6 +385,7 @@ export class ConfigValidator {
         // value are excluded by requiring the line to both open and close its
         // brackets.
         if (/^\[.*\]\s*(?:#.*)?$/.test(trimmed)) {
+          atConfigRoot = false;
           currentSection = '';
           currentRule = '';
           currentContainer = undefined;
@@ -284,37 +399,457 @@ export class ConfigValidator {
       // Get value from the container resolved when we entered this section
       const value: unknown = currentContainer ? currentContainer[key] : undefined;
 
+      // A table set as a key of [tool.rumdl] is a section in another
+      // spelling (`MD013 = { ... }`), validated with the dotted and inline keys
+      if (atConfigRoot && this.asObject(value)) {
+        continue;
+      }
+
+      // The base config to inherit from; whether it resolves is checked
+      // against the file system by the diagnostics provider
+      if (atConfigRoot && key === 'extends') {
+        if (typeof value !== 'string') {
+          errors.push({
+            line: lineNum,
+            column: 0,
+            message: `Property 'extends' must be a string (path to a base config file)`,
+            severity: vscode.DiagnosticSeverity.Error,
+          });
+        }
+        continue;
+      }
+
       // Validate based on current section
       if (currentRule) {
         // Inside a rule section ([MD013], [rules.MD013], [tool.rumdl.MD013]).
         // rumdl's published schema models these as `additionalProperties: true`
-        // and declares no per-rule property list, so there is nothing here to
-        // validate against. The CLI does know the properties and reports
-        // unknown ones itself ("Unknown option for rule MD013: ..."), so leave
-        // these keys alone rather than guessing at them.
-        //
-        // `severity` is deliberately not checked either: the schema declares an
-        // enum for it, but the CLI accepts any string, and flagging a value the
-        // CLI accepts would be a false positive.
+        // and declares no per-rule property list, so the options can only be
+        // validated against what the installed binary reports.
+        if (ruleOptions) {
+          this.validateRuleOption(currentRule, key, value, lineNum, errors, ruleOptions);
+        }
         continue;
       } else if (currentSection === 'global') {
         // Validate global section keys
         this.validateGlobalSectionFromValue(key, value, lineNum, errors);
+        const canonical = GLOBAL_KEY_TO_CANONICAL.get(key);
+        if (canonical && Array.isArray(value)) {
+          ruleLists.set(canonical, { key, line: lineNum, rules: value });
+        }
       } else if (currentSection === 'per-file-ignores') {
         // Validate per-file-ignores section keys
         this.validatePerFileIgnoresSectionFromValue(key, value, lineNum, errors);
       } else if (currentSection === 'per-file-flavor') {
         // Validate per-file-flavor section keys
         this.validatePerFileFlavorSectionFromValue(key, value, lineNum, errors);
+      } else if (currentSection === 'code-block-tools') {
+        // Validate a key of [code-block-tools] or one of its nested tables
+        this.validateCodeBlockToolsKey(
+          codeBlockToolsPath,
+          key,
+          value,
+          lineNum,
+          errors,
+          this.asObject(codeBlockToolsRoot?.['tools'])
+        );
       }
     }
 
+    this.validateOtherSpellings(content, parsed, isPyproject, ruleOptions, {
+      errors,
+      ruleSections,
+      ruleLists,
+    });
+    this.validateRuleListConflicts(ruleLists, lines, errors);
+
     return {
       valid: errors.length === 0,
       errors,
     };
   }
 
+  /**
+   * Validate the keys the line scan of validateToml passes over: dotted keys
+   * (`global.line-length = 100`, or `rumdl.line-length = 100` under [tool] in
+   * pyproject.toml) and the keys of inline tables (`MD013 = { enabled =
+   * false }`). Each is validated as it would be under its own section header,
+   * and reported at the key.
+   */
+  private static validateOtherSpellings(
+    content: string,
+    parsed: Record<string, unknown>,
+    isPyproject: boolean,
+    ruleOptions: RuleOptionSource | undefined,
+    state: {
+      errors: ValidationError[];
+      ruleSections: Map<string, { header: string; line: number }>;
+      ruleLists: Map<string, { key: string; line: number; rules: unknown[] }>;
+    }
+  ): void {
+    const { errors, ruleSections, ruleLists } = state;
+    const locations = locateTomlKeys(content);
+    const prefix = isPyproject ? ['tool', 'rumdl'] : [];
+    const id = (keys: string[]) => [...prefix, ...keys].join('\0');
+    const written = new Set(locations.map(location => location.path.join('\0')));
+    const root = this.asObject(
+      prefix.reduce<unknown>((table, key) => this.asObject(table)?.[key], parsed)
+    );
+    const valueAt = (keys: string[]) =>
+      keys.reduce<unknown>((table, key) => this.asObject(table)?.[key], root);
+    const seen = new Set<string>();
+    const once = (key: string) => {
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    };
+    const codeBlockTables = new Map<string, Record<string, unknown> | undefined>();
+
+    for (const location of locations) {
+      const keys = rumdlKeyPath(location.path, isPyproject);
+      if (!keys || keys.length === 0) {
+        continue;
+      }
+      const value = valueAt(keys);
+      const isSection = keys.length === 1 && this.asObject(value) !== undefined;
+      if (!location.dotted && !location.inline && !isSection) {
+        continue;
+      }
+
+      const line = location.line;
+      const before = errors.length;
+      const [head, ...rest] = keys;
+      const sectionName = [...prefix, head].join('.');
+      // The key at `depth` in `keys`, unless it is the location itself or is
+      // written out where it gets validated; dotted keys imply it
+      const keyAt = (depth: number): string[] | undefined => {
+        const implied = keys.slice(0, depth + 1);
+        if (keys.length <= depth || (implied.length < keys.length && written.has(id(implied)))) {
+          return undefined;
+        }
+        return once(`key:${id(implied)}`) ? implied : undefined;
+      };
+      const registerRule = (ruleCode: string, header: string) => {
+        const first = ruleSections.get(ruleCode);
+        if (!first) {
+          ruleSections.set(ruleCode, { header, line });
+        } else if (first.header !== header && once(`rule:${header}`)) {
+          errors.push(this.duplicateSectionError(ruleCode, first, line));
+        }
+      };
+
+      if (keys.length === 1 && !isSection) {
+        // A key of [tool.rumdl] itself
+        if (head === 'extends') {
+          if (typeof value !== 'string') {
+            errors.push({
+              line,
+              column: 0,
+              message: `Property 'extends' must be a string (path to a base config file)`,
+              severity: vscode.DiagnosticSeverity.Error,
+            });
+          }
+        } else if (isPyproject) {
+          this.validateGlobalSectionFromValue(head, value, line, errors);
+          const canonical = GLOBAL_KEY_TO_CANONICAL.get(head);
+          if (canonical && Array.isArray(value)) {
+            ruleLists.set(canonical, { key: head, line, rules: value });
+          }
+        }
+      } else if (head === 'global') {
+        const key = keyAt(1);
+        if (key) {
+          const keyValue = valueAt(key);
+          this.validateGlobalSectionFromValue(key[1], keyValue, line, errors);
+          const canonical = GLOBAL_KEY_TO_CANONICAL.get(key[1]);
+          if (canonical && Array.isArray(keyValue)) {
+            ruleLists.set(canonical, { key: key[1], line, rules: keyValue });
+          }
+        }
+      } else if (head === 'per-file-ignores' || head === 'per-file-flavor') {
+        const key = keyAt(1);
+        if (key && head === 'per-file-ignores') {
+          this.validatePerFileIgnoresSectionFromValue(key[1], valueAt(key), line, errors);
+        } else if (key) {
+          this.validatePerFileFlavorSectionFromValue(key[1], valueAt(key), line, errors);
+        }
+      } else if (head === 'code-block-tools') {
+        this.validateCodeBlockToolsSpelling(keys, line, errors, {
+          sectionName,
+          root: this.asObject(valueAt([head])),
+          written: (table: string[]) => written.has(id(table)),
+          tables: codeBlockTables,
+          value,
+        });
+      } else if (head === 'rules' && !isPyproject && rest.length > 0) {
+        const ruleCode = this.resolveRuleName(rest[0]);
+        if (!ruleCode) {
+          if (once(`unknown:${id(keys.slice(0, 2))}`)) {
+            const suggestion = this.findSimilarRule(rest[0]);
+            errors.push({
+              line,
+              column: 0,
+              message: suggestion
+                ? `Unknown rule '${rest[0]}'. Did you mean '${suggestion}'?`
+                : `Unknown rule '${rest[0]}'. Valid rules are: ${RULE_NAMES.join(', ')}`,
+              severity: vscode.DiagnosticSeverity.Error,
+            });
+          }
+        } else {
+          registerRule(ruleCode, `rules.${rest[0]}`);
+          const key = keyAt(2);
+          if (key && ruleOptions) {
+            this.validateRuleOption(ruleCode, key[2], valueAt(key), line, errors, ruleOptions);
+          }
+        }
+      } else if (head !== 'rules' || isPyproject) {
+        const ruleCode = this.resolveRuleName(head);
+        if (ruleCode) {
+          registerRule(ruleCode, sectionName);
+          const key = keyAt(1);
+          if (key && ruleOptions) {
+            this.validateRuleOption(ruleCode, key[1], valueAt(key), line, errors, ruleOptions);
+          }
+        } else if (once(`unknown:${id([head])}`)) {
+          errors.push({
+            line,
+            column: 0,
+            message: this.unknownSectionMessage(sectionName, isPyproject),
+            severity: vscode.DiagnosticSeverity.Warning,
+          });
+        }
+      }
+
+      // Point at the key rather than the start of its line
+      for (const error of errors.slice(before)) {
+        if (error.line === line && error.column === 0) {
+          error.column = location.column;
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate a code-block-tools key written as a dotted key or inside an
+   * inline table. The table a dotted key implies is checked as a header
+   * would be; keys inside an inline table that is itself a key were
+   * validated with it.
+   */
+  private static validateCodeBlockToolsSpelling(
+    keys: string[],
+    line: number,
+    errors: ValidationError[],
+    context: {
+      sectionName: string;
+      root: Record<string, unknown> | undefined;
+      written: (keys: string[]) => boolean;
+      tables: Map<string, Record<string, unknown> | undefined>;
+      value: unknown;
+    }
+  ): void {
+    if (keys.length < 2) {
+      return;
+    }
+    for (let depth = 2; depth < keys.length; depth++) {
+      if (context.written(keys.slice(0, depth))) {
+        return;
+      }
+    }
+
+    const table = keys.slice(1, -1);
+    if (table.length > 0) {
+      const name = table.join('.');
+      if (!context.tables.has(name)) {
+        context.tables.set(
+          name,
+          this.resolveCodeBlockToolsTable(
+            `${context.sectionName}.${name}`,
+            context.root,
+            table,
+            line,
+            errors
+          )
+        );
+      }
+      if (!context.tables.get(name)) {
+        return;
+      }
+    }
+    this.validateCodeBlockToolsKey(
+      table,
+      keys[keys.length - 1],
+      context.value,
+      line,
+      errors,
+      this.asObject(context.root?.['tools'])
+    );
+  }
+
+  private static duplicateSectionError(
+    ruleCode: string,
+    first: { header: string; line: number },
+    line: number
+  ): ValidationError {
+    return {
+      line,
+      column: 0,
+      message:
+        `Duplicate section for ${ruleCode}: already configured in [${first.header}]; ` +
+        `rumdl merges them, and the later value wins for a key set in both`,
+      severity: vscode.DiagnosticSeverity.Warning,
+      related: [{ line: first.line, column: 0, message: `${ruleCode} is first configured here` }],
+    };
+  }
+
+  private static unknownSectionMessage(section: string, isPyproject: boolean): string {
+    return isPyproject
+      ? `Unknown section '[${section}]'. Valid sections are: [tool.rumdl], ` +
+          `[tool.rumdl.per-file-ignores], [tool.rumdl.per-file-flavor], ` +
+          `[tool.rumdl.code-block-tools], or [tool.rumdl.MD###] ` +
+          `(rule name or alias, e.g. [tool.rumdl.line-length])`
+      : `Unknown section '[${section}]'. Valid sections are: [global], ` +
+          `[per-file-ignores], [per-file-flavor], [code-block-tools], [MD###] ` +
+          `(rule name or alias), or [rules.MD###] (legacy rule-section form)`;
+  }
+
+  /**
+   * Flag rules that a [global] list enables and another disables, on the
+   * disabling entry, pointing at the enabling one.
+   */
+  private static validateRuleListConflicts(
+    ruleLists: Map<string, { key: string; line: number; rules: unknown[] }>,
+    lines: string[],
+    errors: ValidationError[]
+  ): void {
+    const reported = new Set<string>();
+    for (const [enableList, disableList] of CONFLICTING_RULE_LISTS) {
+      const enabling = ruleLists.get(enableList);
+      const disabling = ruleLists.get(disableList);
+      if (!enabling || !disabling) {
+        continue;
+      }
+
+      const enabled = new Map<string, string>();
+      for (const rule of enabling.rules) {
+        const ruleCode = typeof rule === 'string' ? this.resolveRuleName(rule) : null;
+        if (ruleCode && !enabled.has(ruleCode)) {
+          enabled.set(ruleCode, rule as string);
+        }
+      }
+
+      for (const rule of disabling.rules) {
+        const ruleCode = typeof rule === 'string' ? this.resolveRuleName(rule) : null;
+        const enabledAs = ruleCode && enabled.get(ruleCode);
+        if (!ruleCode || !enabledAs || reported.has(`${disableList}:${ruleCode}`)) {
+          continue;
+        }
+        reported.add(`${disableList}:${ruleCode}`);
+
+        const at = this.findListEntry(lines, disabling.line, rule as string);
+        const enabledAt = this.findListEntry(lines, enabling.line, enabledAs);
+        errors.push({
+          ...at,
+          message: `Rule ${ruleCode} is in both '${enabling.key}' and '${disabling.key}'`,
+          severity: vscode.DiagnosticSeverity.Warning,
+          related: [{ ...enabledAt, message: `${ruleCode} is enabled here` }],
+        });
+      }
+    }
+  }
+
+  /**
+   * Position of `entry` in the array value of the key on `keyLine`, which may
+   * span several lines, or the key itself if the entry isn't found.
+   */
+  private static findListEntry(
+    lines: string[],
+    keyLine: number,
+    entry: string
+  ): { line: number; column: number } {
+    for (let line = keyLine; line < lines.length; line++) {
+      const text = lines[line];
+      if (line > keyLine && /^\s*(?:\[|[A-Za-z0-9_"'-]+\s*=)/.test(text)) {
+        break;
+      }
+      const index = this.findTokenIndex(
+        line === keyLine ? text.substring(text.indexOf('=')) : text,
+        entry
+      );
+      if (index >= 0) {
+        return { line, column: index + (line === keyLine ? text.indexOf('=') : 0) };
+      }
+    }
+    return { line: keyLine, column: 0 };
+  }
+
+  /**
+   * Classify a section header the way validateToml does: `[global]`,
+   * `[MD013]`, `[rules.line-length]`, `[tool.rumdl.per-file-ignores]`, ...
+   */
+  static classifySection(header: string, isPyproject = false): Omit<ConfigSection, 'line'> {
+    if (isPyproject && header !== 'tool.rumdl' && !header.startsWith('tool.rumdl.')) {
+      return { kind: 'foreign', header };
+    }
+
+    let name = header;
+    if (header === 'tool.rumdl') {
+      return { kind: 'global', header };
+    } else if (header.startsWith('tool.rumdl.')) {
+      name = header.substring(11);
+    } else if (header.startsWith('rules.')) {
+      const ruleCode = this.resolveRuleName(header.substring(6));
+      return ruleCode ? { kind: 'rule', header, ruleCode } : { kind: 'unknown', header };
+    }
+
+    if (name === 'global' || name === 'per-file-ignores' || name === 'per-file-flavor') {
+      return { kind: name, header };
+    }
+    if (name === 'code-block-tools' || name.startsWith('code-block-tools.')) {
+      return { kind: 'code-block-tools', header };
+    }
+    const ruleCode = this.resolveRuleName(name);
+    return ruleCode ? { kind: 'rule', header, ruleCode } : { kind: 'unknown', header };
+  }
+
+  /**
+   * Find the section containing `line` by scanning back to the nearest
+   * header. Lines before any header are in the document root, which in
+   * pyproject.toml belongs to no rumdl section.
+   */
+  static findSection(lines: string[], line: number, isPyproject = false): ConfigSection {
+    for (let i = Math.min(line, lines.length - 1); i >= 0; i--) {
+      const trimmed = lines[i].trim();
+      const header = trimmed.match(/^\[([^\]]+)\]\s*(?:#.*)?$/);
+      if (header) {
+        return { ...this.classifySection(header[1], isPyproject), line: i };
+      }
+      if (/^\[\[.*\]\]\s*(?:#.*)?$/.test(trimmed)) {
+        // An array of tables is never rumdl config
+        return { kind: isPyproject ? 'foreign' : 'unknown', header: trimmed, line: i };
+      }
+    }
+    return { kind: isPyproject ? 'foreign' : 'root', header: '', line: -1 };
+  }
+
+  /**
+   * List the sections of a config file in order, classified the way
+   * findSection classifies the section of a line.
+   */
+  static findSections(content: string, isPyproject = false): ConfigSection[] {
+    const sections: ConfigSection[] = [];
+    content.split('\n').forEach((text, line) => {
+      const trimmed = text.trim();
+      const header = trimmed.match(/^\[([^\]]+)\]\s*(?:#.*)?$/);
+      if (header) {
+        sections.push({ ...this.classifySection(header[1], isPyproject), line });
+      } else if (/^\[\[.*\]\]\s*(?:#.*)?$/.test(trimmed)) {
+        sections.push({ kind: isPyproject ? 'foreign' : 'unknown', header: trimmed, line });
+      }
+    });
+    return sections;
+  }
+
   /**
    * Extract the `[tool.rumdl]` table from a parsed pyproject.toml document.
    */
@@ -335,13 +870,36 @@ export class ConfigValidator {
       : undefined;
   }
 
+  /**
+   * Whether a pyproject.toml document configures rumdl, however `tool.rumdl`
+   * is spelled. A document that doesn't parse yet is recognised by any
+   * spelling of the key, so it still gets its syntax error reported.
+   */
+  static hasPyprojectRumdlConfig(content: string): boolean {
+    try {
+      return this.getPyprojectRumdl(parseToml(content)) !== undefined;
+    } catch {
+      return /^\s*\[\s*tool\s*\.\s*rumdl\b|^\s*rumdl\s*[.=]|^\s*tool\s*\.\s*rumdl\s*[.=]/m.test(
+        content
+      );
+    }
+  }
+
+  /**
+   * The canonical kebab-case name of a [global] key written in either form,
+   * or undefined for a key the schema doesn't define.
+   */
+  static canonicalGlobalKey(key: string): string | undefined {
+    return GLOBAL_KEY_TO_CANONICAL.get(key);
+  }
+
   /**
    * Resolve a TOML section name to a canonical MD### rule code. Accepts the
    * code itself, the rule's canonical kebab-case name (e.g. 'line-length'
    * for MD013), or one of its extra aliases (e.g. 'single-title' for
    * MD025), all case-insensitively, matching what the rumdl CLI accepts.
    */
-  private static resolveRuleName(name: string): string | null {
+  static resolveRuleName(name: string): string | null {
     const upper = name.toUpperCase();
     if (RULE_NAMES.includes(upper)) {
       return upper;
@@ -354,7 +912,7 @@ export class ConfigValidator {
    * codes and rule name/alias strings (e.g. 'line-length', 'single-title'),
    * preferring an MD### match when both are close.
    */
-  private static findSimilarRule(input: string): string | null {
+  static findSimilarRule(input: string): string | null {
     const upperInput = input.toUpperCase();
     const lowerInput = input.toLowerCase();
 
@@ -527,6 +1085,114 @@ export class ConfigValidator {
     }
   }
 
+  /**
+   * Validate an option inside a rule section against the options, and their
+   * default values, that the rumdl binary reports for the rule. The expected
+   * type is that of the default. Options are accepted in kebab-case and in
+   * their snake_case alias, as the CLI does. Problems are reported at
+   * `column` of `line`, where the option's key starts.
+   */
+  static validateRuleOption(
+    ruleCode: string,
+    key: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[],
+    ruleOptions: RuleOptionSource,
+    column = 0
+  ): void {
+    // `severity` is accepted by every rule and deliberately not checked: the
+    // schema declares an enum for it, but the CLI accepts any string, and
+    // flagging a value the CLI accepts would be a false positive.
+    if (key === 'severity') {
+      return;
+    }
+
+    const options = ruleOptions.getRuleOptions(ruleCode);
+    if (!options) {
+      return;
+    }
+
+    const canonical = key.replace(/_/g, '-');
+    const known = Object.keys(options);
+    if (!known.includes(canonical)) {
+      // Names the binary accepts, or has not been asked about, pass; an
+      // alias has no default to check the value against
+      if (ruleOptions.isKnownOption && ruleOptions.isKnownOption(ruleCode, canonical) !== false) {
+        return;
+      }
+      const similar = this.findSimilar(canonical, known);
+      // Suggest the spelling style the file already uses.
+      const suggestion = similar && key.includes('_') ? similar.replace(/-/g, '_') : similar;
+      errors.push({
+        line,
+        column,
+        message: suggestion
+          ? `Unknown option '${key}' for rule ${ruleCode}. Did you mean '${suggestion}'?`
+          : known.length > 0
+            ? `Unknown option '${key}' for rule ${ruleCode}. Valid options: ${known.join(', ')}`
+            : `Unknown option '${key}' for rule ${ruleCode}, which has no options`,
+        severity: vscode.DiagnosticSeverity.Warning,
+      });
+      return;
+    }
+
+    const expected = options[canonical];
+    const expectedType = this.describeMismatchedType(value, expected);
+    if (expectedType) {
+      errors.push({
+        line,
+        column,
+        message:
+          `Option '${key}' for rule ${ruleCode} must be ${expectedType} ` +
+          `(default: ${JSON.stringify(expected)})`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+      return;
+    }
+
+    if (typeof value === 'string' && typeof expected === 'string' && value !== expected) {
+      const problem = ruleOptions.getValueProblem?.(ruleCode, canonical, value);
+      if (problem) {
+        errors.push({
+          line,
+          column,
+          message:
+            `Invalid value ${JSON.stringify(value)} for '${key}' in rule ${ruleCode}: ` +
+            `${problem} (default: ${JSON.stringify(expected)})`,
+          severity: vscode.DiagnosticSeverity.Error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Describe the type `value` should have, judging by the option's default,
+   * or undefined when it already has that type. A null default carries no
+   * type information, so anything is accepted.
+   */
+  private static describeMismatchedType(value: unknown, expected: unknown): string | undefined {
+    if (expected === null || expected === undefined) {
+      return undefined;
+    }
+    if (typeof expected === 'boolean') {
+      return typeof value === 'boolean' ? undefined : 'true or false';
+    }
+    if (typeof expected === 'number') {
+      if (Number.isInteger(expected)) {
+        return Number.isInteger(value) ? undefined : 'an integer';
+      }
+      return typeof value === 'number' ? undefined : 'a number';
+    }
+    if (typeof expected === 'string') {
+      return typeof value === 'string' ? undefined : 'a string';
+    }
+    if (Array.isArray(expected)) {
+      return Array.isArray(value) ? undefined : 'an array';
+    }
+    return this.asObject(value) ? undefined : 'a table';
+  }
+
   /**
    * Validate per-file-ignores section properties from parsed value
    */
@@ -591,52 +1257,590 @@ export class ConfigValidator {
   }
 
   /**
-   * Get quick fixes for validation errors
+   * Split a dotted TOML table name into its keys, honouring quoted keys such
+   * as `code-block-tools.languages."c++"` whose dots are not separators.
    */
-  static getQuickFixes(
-    document: vscode.TextDocument,
-    diagnostic: vscode.Diagnostic
-  ): vscode.CodeAction[] {
-    const fixes: vscode.CodeAction[] = [];
-    const diagnosticMessage = diagnostic.message;
+  private static splitTableName(name: string): string[] {
+    const keys: string[] = [];
+    const keyPattern = /\s*(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([^.\s]+))\s*(?:\.|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = keyPattern.exec(name)) !== null && match[0] !== '') {
+      keys.push(match[1] ?? match[2] ?? match[3]);
+    }
+    return keys;
+  }
 
-    // Fix for unknown rule suggestions
-    const ruleMatch = diagnosticMessage.match(/Unknown rule '(.+)'\. Did you mean '(.+)'\?/);
-    if (ruleMatch) {
-      const [, wrongRule, correctRule] = ruleMatch;
-      const fix = new vscode.CodeAction(
-        `Change to '${correctRule}'`,
-        vscode.CodeActionKind.QuickFix
-      );
-      fix.edit = new vscode.WorkspaceEdit();
+  /**
+   * Map a code-block-tools property to its canonical kebab-case form, or
+   * undefined when it is not one of `properties`. The CLI accepts the
+   * snake_case alias of each property, as it does for [global] keys.
+   */
+  private static canonicalProperty(key: string, properties: string[]): string | undefined {
+    const canonical = key.replace(/_/g, '-');
+    return properties.includes(canonical) ? canonical : undefined;
+  }
 
-      // Find the rule name in the line and replace it
-      const line = document.lineAt(diagnostic.range.start.line);
-      const ruleIndex = line.text.indexOf(wrongRule);
-      if (ruleIndex >= 0) {
-        const range = new vscode.Range(
-          diagnostic.range.start.line,
-          ruleIndex,
-          diagnostic.range.start.line,
-          ruleIndex + wrongRule.length
-        );
-        fix.edit.replace(document.uri, range, correctRule);
+  /**
+   * Find the candidate closest to `input` within a small edit distance, for
+   * "did you mean" suggestions on misspelled property and tool names.
+   */
+  private static findSimilar(input: string, candidates: string[]): string | null {
+    let best: string | null = null;
+    let bestDistance = 3;
+    for (const candidate of candidates) {
+      const distance = this.levenshteinDistance(candidate, input.toLowerCase());
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Resolve the table a `[code-block-tools...]` header opens, reporting
+   * headers the schema has no table for. `path` is the header's key path
+   * below `code-block-tools`. Returns undefined when the header is not a
+   * valid code-block-tools table, so the keys below it go unvalidated.
+   */
+  private static resolveCodeBlockToolsTable(
+    section: string,
+    root: Record<string, unknown> | undefined,
+    path: string[],
+    line: number,
+    errors: ValidationError[]
+  ): Record<string, unknown> | undefined {
+    const [head, name, ...rest] = path;
+    const property =
+      head === undefined ? undefined : this.canonicalProperty(head, CODE_BLOCK_TOOLS_PROPERTIES);
+    const isNamedTable = property === 'languages' || property === 'tools';
+    const valid =
+      head === undefined ||
+      (property === 'language-aliases' && name === undefined) ||
+      (isNamedTable && rest.length === 0);
+
+    if (!valid) {
+      errors.push({
+        line,
+        column: 0,
+        message:
+          `Unknown section '[${section}]'. Valid code-block-tools tables are: ` +
+          `[code-block-tools], [code-block-tools.languages.<language>], ` +
+          `[code-block-tools.language-aliases], or [code-block-tools.tools.<tool>]`,
+        severity: vscode.DiagnosticSeverity.Warning,
+      });
+      return undefined;
+    }
+
+    let table = root;
+    for (const key of path) {
+      table = this.asObject(table?.[key]);
+    }
+
+    // A tool defined by its own header must still declare `command`; there is
+    // no key line to hang that on, so report it against the header.
+    if (property === 'tools' && name !== undefined && table && !('command' in table)) {
+      errors.push({
+        line,
+        column: 0,
+        message: `Tool '${name}' must define 'command'`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+    }
+
+    return table ?? {};
+  }
+
+  /**
+   * Validate a key of `[code-block-tools]` or one of its nested tables.
+   * `path` locates the table the key lives in (e.g. `['languages', 'python']`)
+   * and `tools` holds the custom tool definitions that `lint`/`format`
+   * entries are checked against.
+   */
+  private static validateCodeBlockToolsKey(
+    path: string[],
+    key: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[],
+    tools: Record<string, unknown> | undefined
+  ): void {
+    const [head, name] = path;
+    const property =
+      head === undefined ? undefined : this.canonicalProperty(head, CODE_BLOCK_TOOLS_PROPERTIES);
+
+    if (head === undefined) {
+      this.validateCodeBlockToolsProperty(key, value, line, errors, tools);
+    } else if (property === 'languages' && name === undefined) {
+      this.validateLanguageToolConfig(key, value, line, errors, tools);
+    } else if (property === 'languages') {
+      this.validateLanguageToolProperty(name, key, value, line, errors, tools);
+    } else if (property === 'language-aliases') {
+      if (typeof value !== 'string') {
+        errors.push({
+          line,
+          column: 0,
+          message: `Language alias '${key}' must map to a language name string`,
+          severity: vscode.DiagnosticSeverity.Error,
+        });
+      }
+    } else if (property === 'tools' && name === undefined) {
+      this.validateToolDefinition(key, value, line, errors);
+    } else if (property === 'tools') {
+      this.validateToolDefinitionProperty(name, key, value, line, errors);
+    }
+  }
+
+  /**
+   * Validate a top-level `[code-block-tools]` property against the schema's
+   * CodeBlockToolsConfig. Nested tables written inline (e.g.
+   * `languages = { python = { lint = ["ruff"] } }`) are validated in full and
+   * reported on the key's line.
+   */
+  private static validateCodeBlockToolsProperty(
+    key: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[],
+    tools: Record<string, unknown> | undefined
+  ): void {
+    const canonical = this.canonicalProperty(key, CODE_BLOCK_TOOLS_PROPERTIES);
+    if (canonical === undefined) {
+      this.pushUnknownProperty(
+        key,
+        '[code-block-tools]',
+        CODE_BLOCK_TOOLS_PROPERTIES,
+        line,
+        errors
+      );
+      return;
+    }
+
+    switch (canonical) {
+      case 'enabled':
+        this.expectBoolean(key, value, line, errors);
+        break;
+
+      case 'normalize-language':
+        this.expectEnum(key, value, NORMALIZE_LANGUAGE_VALUES, line, errors);
+        break;
+
+      case 'on-error':
+        this.expectEnum(key, value, ON_ERROR_VALUES, line, errors);
+        break;
+
+      case 'on-missing-language-definition':
+      case 'on-missing-tool-binary':
+        this.expectEnum(key, value, ON_MISSING_VALUES, line, errors);
+        break;
+
+      case 'timeout':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+          errors.push({
+            line,
+            column: 0,
+            message: `Property '${key}' must be a non-negative integer (milliseconds)`,
+            severity: vscode.DiagnosticSeverity.Error,
+          });
+        }
+        break;
+
+      case 'languages':
+      case 'language-aliases':
+      case 'tools': {
+        const table = this.asObject(value);
+        if (!table) {
+          errors.push({
+            line,
+            column: 0,
+            message: `Property '${key}' must be a table`,
+            severity: vscode.DiagnosticSeverity.Error,
+          });
+          break;
+        }
+        for (const [entry, entryValue] of Object.entries(table)) {
+          this.validateCodeBlockToolsKey([canonical], entry, entryValue, line, errors, tools);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Validate the value of a `languages.<language>` entry: it must be a
+   * LanguageToolConfig table.
+   */
+  private static validateLanguageToolConfig(
+    language: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[],
+    tools: Record<string, unknown> | undefined
+  ): void {
+    const table = this.asObject(value);
+    if (!table) {
+      errors.push({
+        line,
+        column: 0,
+        message: `Language '${language}' must be a table of tool settings`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+      return;
+    }
+    for (const [key, entryValue] of Object.entries(table)) {
+      this.validateLanguageToolProperty(language, key, entryValue, line, errors, tools);
+    }
+  }
+
+  /**
+   * Validate one property of a LanguageToolConfig. `lint` and `format` name
+   * tools, each of which must be one of rumdl's built-in tools or defined
+   * under `tools`; anything else is reported as a warning.
+   */
+  private static validateLanguageToolProperty(
+    language: string,
+    key: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[],
+    tools: Record<string, unknown> | undefined
+  ): void {
+    const canonical = this.canonicalProperty(key, LANGUAGE_TOOL_PROPERTIES);
+    if (canonical === undefined) {
+      this.pushUnknownProperty(
+        key,
+        `[code-block-tools.languages.${language}]`,
+        LANGUAGE_TOOL_PROPERTIES,
+        line,
+        errors
+      );
+      return;
+    }
+
+    switch (canonical) {
+      case 'enabled':
+        this.expectBoolean(key, value, line, errors);
+        break;
+
+      case 'on-error':
+        this.expectEnum(key, value, ON_ERROR_VALUES, line, errors);
+        break;
+
+      case 'lint':
+      case 'format': {
+        if (!this.expectStringArray(key, value, line, errors)) {
+          break;
+        }
+        const known = [...BUILTIN_TOOLS, ...Object.keys(tools ?? {})];
+        for (const tool of value as string[]) {
+          if (known.includes(tool)) {
+            continue;
+          }
+          const suggestion = this.findSimilar(tool, known);
+          errors.push({
+            line,
+            column: 0,
+            message:
+              `Tool '${tool}' in '${key}' is neither a built-in tool nor defined under ` +
+              `[code-block-tools.tools]` +
+              (suggestion ? `. Did you mean '${suggestion}'?` : ''),
+            severity: vscode.DiagnosticSeverity.Warning,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Validate the value of a `tools.<tool>` entry: it must be a ToolDefinition
+   * table, which requires `command`.
+   */
+  private static validateToolDefinition(
+    tool: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[]
+  ): void {
+    const table = this.asObject(value);
+    if (!table) {
+      errors.push({
+        line,
+        column: 0,
+        message: `Tool '${tool}' must be a table with at least a 'command'`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+      return;
+    }
+    if (!('command' in table)) {
+      errors.push({
+        line,
+        column: 0,
+        message: `Tool '${tool}' must define 'command'`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+    }
+    for (const [key, entryValue] of Object.entries(table)) {
+      this.validateToolDefinitionProperty(tool, key, entryValue, line, errors);
+    }
+  }
+
+  /**
+   * Validate one property of a ToolDefinition.
+   */
+  private static validateToolDefinitionProperty(
+    tool: string,
+    key: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[]
+  ): void {
+    const canonical = this.canonicalProperty(key, TOOL_DEFINITION_PROPERTIES);
+    if (canonical === undefined) {
+      this.pushUnknownProperty(
+        key,
+        `[code-block-tools.tools.${tool}]`,
+        TOOL_DEFINITION_PROPERTIES,
+        line,
+        errors
+      );
+      return;
+    }
+
+    switch (canonical) {
+      case 'stdin':
+      case 'stdout':
+        this.expectBoolean(key, value, line, errors);
+        break;
+
+      case 'command':
+        if (this.expectStringArray(key, value, line, errors) && (value as string[]).length === 0) {
+          errors.push({
+            line,
+            column: 0,
+            message: `Property '${key}' must name the tool binary as its first element`,
+            severity: vscode.DiagnosticSeverity.Error,
+          });
+        }
+        break;
+
+      case 'lint-args':
+      case 'format-args':
+        this.expectStringArray(key, value, line, errors);
+        break;
+    }
+  }
+
+  /**
+   * Report a property the schema does not declare for `table`, suggesting
+   * the closest valid one when there is a likely typo.
+   */
+  private static pushUnknownProperty(
+    key: string,
+    table: string,
+    properties: string[],
+    line: number,
+    errors: ValidationError[]
+  ): void {
+    const suggestion = this.findSimilar(key.replace(/_/g, '-'), properties);
+    errors.push({
+      line,
+      column: 0,
+      message: suggestion
+        ? `Unknown property '${key}' in ${table}. Did you mean '${suggestion}'?`
+        : `Unknown property '${key}' in ${table}. Valid properties: ${properties.join(', ')}`,
+      severity: vscode.DiagnosticSeverity.Warning,
+    });
+  }
+
+  private static expectBoolean(
+    key: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[]
+  ): void {
+    if (typeof value !== 'boolean') {
+      errors.push({
+        line,
+        column: 0,
+        message: `Property '${key}' must be true or false`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+    }
+  }
+
+  private static expectEnum(
+    key: string,
+    value: unknown,
+    allowed: string[],
+    line: number,
+    errors: ValidationError[]
+  ): void {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      errors.push({
+        line,
+        column: 0,
+        message:
+          `Invalid value ${JSON.stringify(value)} for '${key}'. ` +
+          `Expected one of: ${allowed.map(v => `'${v}'`).join(', ')}`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+    }
+  }
+
+  /**
+   * Report `value` unless it is an array of strings; returns whether it is.
+   */
+  private static expectStringArray(
+    key: string,
+    value: unknown,
+    line: number,
+    errors: ValidationError[]
+  ): boolean {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      errors.push({
+        line,
+        column: 0,
+        message: `Property '${key}' must be an array of strings`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Get quick fixes for validation errors
+   */
+  static getQuickFixes(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction[] {
+    const fixes: vscode.CodeAction[] = [];
+    const diagnosticMessage = diagnostic.message;
+
+    // Fix for "did you mean" suggestions on unknown rules, properties and tools
+    const ruleMatch = diagnosticMessage.match(
+      /^(?:Unknown (?:rule|property|option)|Tool) '(.+?)'.*Did you mean '(.+)'\?/
+    );
+    if (ruleMatch) {
+      const [, wrongRule, correctRule] = ruleMatch;
+      const fix = new vscode.CodeAction(
+        `Change to '${correctRule}'`,
+        vscode.CodeActionKind.QuickFix
+      );
+      fix.edit = new vscode.WorkspaceEdit();
+
+      // Find the rule name in the line and replace it
+      const line = document.lineAt(diagnostic.range.start.line);
+      const ruleIndex = this.findTokenIndex(line.text, wrongRule);
+      if (ruleIndex >= 0) {
+        const range = new vscode.Range(
+          diagnostic.range.start.line,
+          ruleIndex,
+          diagnostic.range.start.line,
+          ruleIndex + wrongRule.length
+        );
+        fix.edit.replace(document.uri, range, correctRule);
       }
 
       fixes.push(fix);
     }
 
+    // Fix for enum values: offer each allowed value in place of the bad one
+    const enumMatch = diagnosticMessage.match(
+      /^Invalid value (.+) for '.+'\. Expected one of: (.+)$/
+    );
+    if (enumMatch) {
+      const [, badValue, allowedList] = enumMatch;
+      const line = document.lineAt(diagnostic.range.start.line);
+      // The message quotes strings JSON-style; the file may use a TOML
+      // literal string ('...') for the same value.
+      const literal = badValue.startsWith('"') ? `'${JSON.parse(badValue)}'` : badValue;
+      const written = line.text.includes(badValue) ? badValue : literal;
+      const valueIndex = line.text.indexOf(written);
+      if (valueIndex >= 0) {
+        const range = new vscode.Range(
+          diagnostic.range.start.line,
+          valueIndex,
+          diagnostic.range.start.line,
+          valueIndex + written.length
+        );
+
+        for (const allowed of allowedList.split(', ').map(v => v.replace(/^'|'$/g, ''))) {
+          const fix = new vscode.CodeAction(
+            `Change to '${allowed}'`,
+            vscode.CodeActionKind.QuickFix
+          );
+          fix.edit = new vscode.WorkspaceEdit();
+          fix.edit.replace(document.uri, range, JSON.stringify(allowed));
+          fixes.push(fix);
+        }
+      }
+    }
+
+    // Fix for rule option values: reset a scalar option to its default
+    // (booleans get their own fixes below)
+    const defaultMatch = diagnosticMessage.match(/ (?:for|in) rule MD\d+.*\(default: (.+)\)$/);
+    if (
+      defaultMatch &&
+      !/^[[{]/.test(defaultMatch[1]) &&
+      !diagnosticMessage.includes('must be true or false')
+    ) {
+      const line = document.lineAt(diagnostic.range.start.line);
+      const valueStart = this.findValueStart(line.text, diagnostic.range.start.character);
+      if (valueStart >= 0) {
+        const valueEnd = valueStart + this.scalarLength(line.text.substring(valueStart));
+        const fix = new vscode.CodeAction(
+          `Change to default value ${defaultMatch[1]}`,
+          vscode.CodeActionKind.QuickFix
+        );
+        fix.edit = new vscode.WorkspaceEdit();
+        fix.edit.replace(
+          document.uri,
+          new vscode.Range(
+            diagnostic.range.start.line,
+            valueStart,
+            diagnostic.range.start.line,
+            valueEnd
+          ),
+          defaultMatch[1]
+        );
+        fixes.push(fix);
+      }
+    }
+
+    // Fix for a rule configured in two sections: fold the later one into the first
+    const duplicateMatch = diagnosticMessage.match(
+      /^Duplicate section for (MD\d+): already configured in \[(.+?)\]/
+    );
+    if (duplicateMatch) {
+      const edit = this.mergeDuplicateSection(
+        document,
+        duplicateMatch[1],
+        diagnostic.range.start.line
+      );
+      if (edit) {
+        const fix = new vscode.CodeAction(
+          `Merge into [${duplicateMatch[2]}]`,
+          vscode.CodeActionKind.QuickFix
+        );
+        fix.edit = edit;
+        fix.diagnostics = [diagnostic];
+        fixes.push(fix);
+      }
+    }
+
     // Fix for boolean values
     if (diagnosticMessage.includes('must be true or false')) {
       const line = document.lineAt(diagnostic.range.start.line);
-      const equalIndex = line.text.indexOf('=');
-      if (equalIndex >= 0) {
-        const valueStart = line.text.substring(equalIndex + 1).search(/\S/) + equalIndex + 1;
+      const valueStart = this.findValueStart(line.text, diagnostic.range.start.character);
+      if (valueStart >= 0) {
         const range = new vscode.Range(
           diagnostic.range.start.line,
           valueStart,
           diagnostic.range.start.line,
-          line.text.length
+          valueStart + this.scalarLength(line.text.substring(valueStart))
         );
 
         ['true', 'false'].forEach(value => {
@@ -650,4 +1854,450 @@ export class ConfigValidator {
 
     return fixes;
   }
+
+  /**
+   * Move the keys of the rule section whose header is on `duplicateLine` into
+   * the first section configuring `ruleCode`, and remove it.
+   */
+  private static mergeDuplicateSection(
+    document: vscode.TextDocument,
+    ruleCode: string,
+    duplicateLine: number
+  ): vscode.WorkspaceEdit | undefined {
+    const lines = document.getText().split('\n');
+    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    // Only sections written as headers can be folded together
+    if (!/^\s*\[[^\]]+\]\s*(?:#.*)?$/.test(lines[duplicateLine] ?? '')) {
+      return undefined;
+    }
+    const firstLine = lines.findIndex((text, line) => {
+      const header = text.trim().match(/^\[([^\]]+)\]\s*(?:#.*)?$/);
+      return (
+        header !== null &&
+        line < duplicateLine &&
+        this.classifySection(header[1].trim(), isPyproject).ruleCode === ruleCode
+      );
+    });
+    if (firstLine < 0) {
+      return undefined;
+    }
+
+    const firstEnd = this.readSectionEntries(lines, firstLine).end;
+    const duplicate = this.readSectionEntries(lines, duplicateLine);
+    // Rebuild everything from the first header to the end of the duplicate
+    const merged = [
+      ...this.mergeRuleSections(
+        lines.slice(firstLine, firstEnd),
+        lines.slice(duplicateLine, duplicate.end)
+      ),
+      ...lines.slice(firstEnd, duplicateLine),
+    ];
+
+    const edit = new vscode.WorkspaceEdit();
+    if (duplicate.end < lines.length) {
+      edit.replace(
+        document.uri,
+        new vscode.Range(firstLine, 0, duplicate.end, 0),
+        merged.join('\n') + '\n'
+      );
+    } else {
+      // The duplicate ends the file: drop the blank lines that separated it
+      while (merged.length > 0 && merged[merged.length - 1].trim() === '') {
+        merged.pop();
+      }
+      const lastLine = lines.length - 1;
+      edit.replace(
+        document.uri,
+        new vscode.Range(firstLine, 0, lastLine, lines[lastLine].length),
+        merged.join('\n') + (lines[lastLine] === '' ? '\n' : '')
+      );
+    }
+    return edit;
+  }
+
+  /**
+   * Merge two sections configuring the same rule, each given as its lines
+   * from the header on: the keys of `duplicate` are added to `first`, and a
+   * key set in both keeps the value from `duplicate`, as the CLI would use it.
+   * Keys are compared by their kebab-case form, so `line_length` replaces
+   * `line-length`. Returns the lines of the merged section.
+   */
+  static mergeRuleSections(first: string[], duplicate: string[]): string[] {
+    const firstEntries = this.readSectionEntries(first, 0);
+    const canonical = (key: string) => key.replace(/_/g, '-');
+    const replacements = new Map<number, string[]>();
+    const appended: string[] = [];
+    for (const entry of this.readSectionEntries(duplicate, 0).entries) {
+      const existing =
+        entry.key !== undefined
+          ? firstEntries.entries.find(
+              e => e.key !== undefined && canonical(e.key) === canonical(entry.key!)
+            )
+          : undefined;
+      const text = duplicate.slice(entry.start, entry.end + 1);
+      if (existing) {
+        replacements.set(existing.start, text);
+      } else {
+        appended.push(...text);
+      }
+    }
+
+    const merged: string[] = [];
+    for (let line = 0; line < first.length; line++) {
+      const replacement = replacements.get(line);
+      if (replacement) {
+        merged.push(...replacement);
+        line = firstEntries.entries.find(e => e.start === line)!.end;
+      } else {
+        merged.push(first[line]);
+      }
+      if (line === firstEntries.lastContentLine) {
+        merged.push(...appended);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * An edit that makes the per-file-ignores of a config file ignore
+   * `ruleCode` for `pattern`. See addToRuleList.
+   */
+  static addPerFileIgnore(
+    content: string,
+    isPyproject: boolean,
+    pattern: string,
+    ruleCode: string
+  ): vscode.TextEdit | undefined {
+    return this.addToRuleList(content, isPyproject, 'per-file-ignores', pattern, ruleCode);
+  }
+
+  /**
+   * An edit that adds `ruleCode` to the `disable` list of [global], or of
+   * [tool.rumdl] in pyproject.toml. See addToRuleList.
+   */
+  static addDisabledRule(
+    content: string,
+    isPyproject: boolean,
+    ruleCode: string
+  ): vscode.TextEdit | undefined {
+    return this.addToRuleList(content, isPyproject, 'global', 'disable', ruleCode);
+  }
+
+  /**
+   * An edit that adds `ruleCode` to the `extend-enable` list of [global],
+   * or of [tool.rumdl] in pyproject.toml, which enables it on top of an
+   * `enable` list wherever that is set. See addToRuleList.
+   */
+  static addEnabledRule(
+    content: string,
+    isPyproject: boolean,
+    ruleCode: string
+  ): vscode.TextEdit | undefined {
+    return this.addToRuleList(content, isPyproject, 'global', 'extend-enable', ruleCode);
+  }
+
+  /**
+   * Edits that take `ruleCode`, by its code or any alias, out of the
+   * [global] lists named by `keys` (in either spelling), leaving the other elements, and any
+   * comments, as written. An element alone on its line goes with the line.
+   */
+  static removeFromRuleLists(
+    content: string,
+    isPyproject: boolean,
+    keys: string[],
+    ruleCode: string
+  ): vscode.TextEdit[] {
+    const lines = content.split('\n');
+    const edits: vscode.TextEdit[] = [];
+    for (const section of this.findSections(content, isPyproject)) {
+      if (section.kind !== 'global') {
+        continue;
+      }
+      for (const entry of this.readSectionEntries(lines, section.line).entries) {
+        const key = entry.key && (this.canonicalGlobalKey(entry.key) ?? entry.key);
+        if (!key || !keys.includes(key)) {
+          continue;
+        }
+        // Comment lines above the entry are part of it; the value starts at the key
+        let line = entry.start;
+        while (!/^\s*(?:"[^"]*"|'[^']*'|[A-Za-z0-9_-]+)\s*=/.test(lines[line])) {
+          line++;
+        }
+        for (let valueStart = lines[line].indexOf('=') + 1; line <= entry.end; line++) {
+          const edit = this.removeRuleElement(lines[line], line, valueStart, ruleCode);
+          if (edit) {
+            edits.push(edit);
+          }
+          valueStart = 0;
+        }
+      }
+    }
+    return edits;
+  }
+
+  /**
+   * An edit that deletes the first string on `text`, from column `from`,
+   * that names `ruleCode`, with the comma that separates it from the next
+   * element, or else the previous one.
+   */
+  private static removeRuleElement(
+    text: string,
+    line: number,
+    from: number,
+    ruleCode: string
+  ): vscode.TextEdit | undefined {
+    const code = text.replace(/\r$/, '');
+    const pattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|#.*$/g;
+    pattern.lastIndex = from;
+    for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+      if (match[0].startsWith('#')) {
+        return undefined;
+      }
+      if (this.resolveRuleName(match[1] ?? match[2]) !== ruleCode) {
+        continue;
+      }
+
+      const start = match.index;
+      const end = start + match[0].length;
+      const after = code.substring(end).match(/^\s*,\s*/)?.[0] ?? '';
+      if (
+        code.substring(0, start).trim() === '' &&
+        /^\s*,?\s*(?:#.*)?$/.test(code.substring(end))
+      ) {
+        // The element has a line of its own
+        return vscode.TextEdit.delete(new vscode.Range(line, 0, line + 1, 0));
+      }
+      if (after) {
+        return vscode.TextEdit.delete(new vscode.Range(line, start, line, end + after.length));
+      }
+      const before = code.substring(0, start).match(/,\s*$/)?.[0] ?? '';
+      return vscode.TextEdit.delete(new vscode.Range(line, start - before.length, line, end));
+    }
+    return undefined;
+  }
+
+  /**
+   * An edit that adds `ruleCode` to the rule list `key` of the [global] or
+   * [per-file-ignores] table: to the list as it is written, as a new entry at
+   * the end of the section, or in a new section at the end of the file,
+   * leaving the rest of the file as written. Undefined when the list already
+   * has the rule, or when the file can't be edited safely: it doesn't parse,
+   * or sets the table other than under a header.
+   */
+  private static addToRuleList(
+    content: string,
+    isPyproject: boolean,
+    kind: 'global' | 'per-file-ignores',
+    key: string,
+    ruleCode: string
+  ): vscode.TextEdit | undefined {
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = parseToml(content) as Record<string, unknown>;
+    } catch {
+      return undefined;
+    }
+    // The table each header opens; [tool.rumdl] or [tool.rumdl.global] in pyproject.toml
+    const tableOf = (header: string) =>
+      header
+        .split('.')
+        .reduce<Record<string, unknown> | undefined>(
+          (table, part) => this.asObject(table?.[part.trim()]),
+          parsed
+        );
+    const sections = this.findSections(content, isPyproject).filter(s => s.kind === kind);
+    const section = sections.find(s => tableOf(s.header)?.[key] !== undefined) ?? sections[0];
+    const root = isPyproject ? this.getPyprojectRumdl(parsed) : parsed;
+    const table = section
+      ? tableOf(section.header)
+      : kind === 'global' && isPyproject
+        ? root
+        : this.asObject(root?.[kind]);
+    const existing = table?.[key];
+    if (
+      Array.isArray(existing) &&
+      existing.some(rule => typeof rule === 'string' && this.resolveRuleName(rule) === ruleCode)
+    ) {
+      return undefined;
+    }
+
+    const lines = content.split('\n');
+    const lineEnd = (line: number) => lines[line].replace(/\r$/, '').length;
+    const rule = JSON.stringify(ruleCode);
+    const keyText = /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+    const entry = `${keyText} = [${rule}]`;
+
+    if (!section) {
+      if (table) {
+        return undefined;
+      }
+      const header = !isPyproject ? kind : kind === 'global' ? 'tool.rumdl' : `tool.rumdl.${kind}`;
+      const last = lines.length - 1;
+      const separator = content.trim() === '' ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+      return vscode.TextEdit.insert(
+        new vscode.Position(last, lineEnd(last)),
+        `${separator}[${header}]\n${entry}\n`
+      );
+    }
+
+    const entries = this.readSectionEntries(lines, section.line).entries.filter(
+      e => e.key !== undefined
+    );
+    const listEntry = entries.find(e => e.key === key);
+    if (!listEntry) {
+      const after = entries.length > 0 ? entries[entries.length - 1].end : section.line;
+      return vscode.TextEdit.insert(new vscode.Position(after, lineEnd(after)), `\n${entry}`);
+    }
+    if (!Array.isArray(existing)) {
+      return undefined;
+    }
+
+    // Mask strings and comments so only the array's own brackets are found
+    const code = (line: number) =>
+      lines[line]
+        .replace(/\r$/, '')
+        .replace(/"(?:[^"\\]|\\.)*"|'[^']*'|#.*$/g, match =>
+          match.startsWith('#') ? ' '.repeat(match.length) : `"${'x'.repeat(match.length - 2)}"`
+        );
+    const closingLine = listEntry.end;
+    const closing = code(closingLine).lastIndexOf(']');
+    const beforeClosing = code(closingLine).substring(0, closing).trimEnd();
+    if (beforeClosing.trimStart() !== '') {
+      // Add to the line that closes the array
+      const text = beforeClosing.endsWith('[')
+        ? rule
+        : beforeClosing.endsWith(',')
+          ? ` ${rule}`
+          : `, ${rule}`;
+      return vscode.TextEdit.insert(new vscode.Position(closingLine, beforeClosing.length), text);
+    }
+
+    // `]` on a line of its own: add a line after the last element
+    let last = closingLine - 1;
+    while (last > listEntry.start && code(last).trim() === '') {
+      last--;
+    }
+    const lastCode = code(last).trimEnd();
+    const opening = lastCode.endsWith('[');
+    const trailingComma = lastCode.endsWith(',');
+    const indent = opening
+      ? `${lines[closingLine].match(/^\s*/)![0]}    `
+      : lines[last].match(/^\s*/)![0];
+    return vscode.TextEdit.replace(
+      new vscode.Range(last, lastCode.length, closingLine, 0),
+      `${opening || trailingComma ? '' : ','}${lines[last].replace(/\r$/, '').substring(lastCode.length)}\n` +
+        `${indent}${rule}${trailingComma ? ',' : ''}\n`
+    );
+  }
+
+  /**
+   * The key/value entries of the section whose header is on `headerLine`,
+   * each with the comment lines just above it and any continuation lines of
+   * a multi-line value. Comments after the last entry form an entry without
+   * a key. `end` is the line of the next header, or the line count.
+   */
+  private static readSectionEntries(
+    lines: string[],
+    headerLine: number
+  ): {
+    entries: { key?: string; start: number; end: number }[];
+    lastContentLine: number;
+    end: number;
+  } {
+    const entries: { key?: string; start: number; end: number }[] = [];
+    let lastContentLine = headerLine;
+    let commentStart: number | undefined;
+    let depth = 0;
+    let line = headerLine + 1;
+    for (; line < lines.length; line++) {
+      const text = lines[line];
+      const trimmed = text.trim();
+      const code = text.replace(/"(?:[^"\\]|\\.)*"|'[^']*'|#.*$/g, match =>
+        match.startsWith('#') ? '' : '""'
+      );
+
+      if (depth > 0) {
+        entries[entries.length - 1].end = line;
+        lastContentLine = line;
+      } else if (/^\[/.test(trimmed)) {
+        break;
+      } else if (trimmed.startsWith('#')) {
+        commentStart ??= line;
+        continue;
+      } else if (trimmed === '') {
+        continue;
+      } else {
+        const key = trimmed.match(/^(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*=/);
+        entries.push({
+          key: key ? (key[1] ?? key[2] ?? key[3]) : undefined,
+          start: commentStart ?? line,
+          end: line,
+        });
+        commentStart = undefined;
+        lastContentLine = line;
+      }
+
+      for (const char of code) {
+        depth += char === '[' || char === '{' ? 1 : char === ']' || char === '}' ? -1 : 0;
+      }
+    }
+
+    if (commentStart !== undefined) {
+      let commentEnd = commentStart;
+      for (let i = commentStart; i < line; i++) {
+        if (lines[i].trim().startsWith('#')) {
+          commentEnd = i;
+        }
+      }
+      entries.push({ start: commentStart, end: commentEnd });
+      lastContentLine = commentEnd;
+    }
+    return { entries, lastContentLine, end: line };
+  }
+
+  /**
+   * Column where the value of the `key = value` (TOML) or `key: value`
+   * (JSON, YAML) pair whose key starts at `keyStart` begins, or -1.
+   */
+  private static findValueStart(text: string, keyStart: number): number {
+    const separator = text.substring(keyStart).search(/[=:]/);
+    if (separator < 0) {
+      return -1;
+    }
+    const afterSeparator = keyStart + separator + 1;
+    return afterSeparator + Math.max(text.substring(afterSeparator).search(/\S/), 0);
+  }
+
+  /**
+   * Length of the value at the start of `text`, excluding any trailing
+   * comment. An unquoted scalar ends at the comma or bracket that follows it
+   * in a JSON object or flow mapping.
+   */
+  private static scalarLength(text: string): number {
+    const quote = text[0];
+    if (quote === '"' || quote === "'") {
+      const close = text.indexOf(quote, 1);
+      return close > 0 ? close + 1 : text.length;
+    }
+    if (quote !== '[' && quote !== '{') {
+      return text.match(/^[^\s,}\]#]*/)![0].length;
+    }
+    const commentIndex = text.indexOf('#');
+    return (commentIndex >= 0 ? text.substring(0, commentIndex) : text).trimEnd().length;
+  }
+
+  /**
+   * Locate `token` on a config line, preferring a quoted occurrence (an array
+   * entry such as `"ruff"`) over a bare one, so a token that also appears
+   * inside a longer name earlier on the line is not the one replaced.
+   */
+  private static findTokenIndex(text: string, token: string): number {
+    for (const quote of ['"', "'"]) {
+      const quotedIndex = text.indexOf(`${quote}${token}${quote}`);
+      if (quotedIndex >= 0) {
+        return quotedIndex + 1;
+      }
+    }
+    return text.indexOf(token);
+  }
 }
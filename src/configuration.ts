@@ -4,11 +4,26 @@ import { Logger } from './utils';
 /** When diagnostics are refreshed: on every edit, or only on save. */
 export type LintRun = 'onType' | 'onSave';
 
+/**
+ * The URI schemes linted by default: local files, untitled documents,
+ * notebook cells, and the virtual file systems of remote repositories and
+ * in-memory workspaces. `git`, the base of a diff, is left out so diff views
+ * don't show findings twice.
+ */
+export const DEFAULT_LINT_SCHEMES = [
+  'file',
+  'untitled',
+  'vscode-notebook-cell',
+  'vscode-vfs',
+  'memfs',
+];
+
 export interface RumdlConfig {
   enable: boolean;
   fixOnSave: boolean;
   lint: {
     run: LintRun;
+    schemes: string[];
   };
   configPath?: string;
   rules: {
@@ -32,6 +47,12 @@ export interface RumdlConfig {
   linkNavigation: {
     enable: boolean;
   };
+  config: {
+    checkFilePatterns: boolean;
+    showUnsetDefaults: boolean;
+    scanDepth: number;
+    scanExclude: string;
+  };
 }
 
 export function shouldRunLanguageServer(enabled: boolean, workspaceTrusted: boolean): boolean {
@@ -39,8 +60,13 @@ export function shouldRunLanguageServer(enabled: boolean, workspaceTrusted: bool
 }
 
 export class ConfigurationManager {
-  public static getConfiguration(): RumdlConfig {
-    const config = vscode.workspace.getConfiguration('rumdl');
+  /**
+   * The rumdl settings, as they apply to `scope` when given: the folder
+   * settings of a workspace folder override the workspace's, and with a
+   * `languageId`, `[language]` blocks override both for that language.
+   */
+  public static getConfiguration(scope?: vscode.ConfigurationScope): RumdlConfig {
+    const config = vscode.workspace.getConfiguration('rumdl', scope);
 
     return {
       enable: config.get('enable', true),
@@ -49,6 +75,7 @@ export class ConfigurationManager {
         // Guard against a hand-edited settings.json holding an unknown value:
         // anything but 'onSave' keeps the responsive default.
         run: config.get<string>('lint.run', 'onType') === 'onSave' ? 'onSave' : 'onType',
+        schemes: config.get('lint.schemes', DEFAULT_LINT_SCHEMES),
       },
       configPath: config.get('configPath'),
       rules: {
@@ -72,13 +99,21 @@ export class ConfigurationManager {
       linkNavigation: {
         enable: config.get('linkNavigation.enable', true),
       },
+      config: {
+        checkFilePatterns: config.get('config.checkFilePatterns', true),
+        showUnsetDefaults: config.get('config.showUnsetDefaults', false),
+        scanDepth: config.get('config.scanDepth', 5),
+        scanExclude: config.get('config.scanExclude', '**/{node_modules,.git}/**'),
+      },
     };
   }
 
-  public static onConfigurationChanged(callback: (config: RumdlConfig) => void): vscode.Disposable {
+  public static onConfigurationChanged(
+    callback: (config: RumdlConfig, event: vscode.ConfigurationChangeEvent) => void
+  ): vscode.Disposable {
     return vscode.workspace.onDidChangeConfiguration(event => {
       if (event.affectsConfiguration('rumdl')) {
-        callback(this.getConfiguration());
+        callback(this.getConfiguration(), event);
       }
     });
   }
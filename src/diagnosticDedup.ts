@@ -34,7 +34,7 @@ export function diagnosticKey(diagnostic: DiagnosticLike): string {
  * A diagnostic code is a string, a number, or a `{ value, target }` pair when it
  * carries a documentation link. Only the value distinguishes one rule from another.
  */
-function codeToString(code: unknown): string {
+export function codeToString(code: unknown): string {
   if (code !== null && typeof code === 'object' && 'value' in code) {
     return String((code as { value: unknown }).value);
   }
@@ -1,6 +1,58 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
-import { ConfigValidator } from '../configValidator';
+import { ConfigValidator, ValidationError } from '../configValidator';
+import { ConfigExtendsLinkProvider, validateExtendsChain } from '../configExtends';
+import { ConfigHoverProvider } from '../configHover';
+import { ConfigCompletionProvider } from '../configCompletion';
+import { ConfigNormalizeProvider } from '../configNormalizer';
+import { ConfigSymbolProvider } from '../configSymbols';
+import { ConfigDefaultsInlayHintProvider } from '../configDefaults';
+import { ConfigFileScanner } from '../configScan';
+import {
+  ConfigPatternCodeLensProvider,
+  MarkdownFileIndex,
+  findFilePatterns,
+  shouldCheckFilePatterns,
+  validateFilePatterns,
+} from '../configPatterns';
+import {
+  MARKDOWNLINT_CONFIG_FILES,
+  MarkdownlintConfigValidator,
+} from '../markdownlintConfigValidator';
+import { RuleCatalog } from '../ruleCatalog';
+import { RuleFindingsCodeLensProvider } from '../ruleFindings';
+import { Logger } from '../utils';
+import { outermostFolders, owningFolder } from '../utils/workspace';
+
+// rumdl config files on disk; pyproject.toml only matters with [tool.rumdl]
+const CONFIG_FILE_SELECTOR: vscode.DocumentFilter[] = [
+  { scheme: 'file', pattern: '**/.rumdl.toml' },
+  { scheme: 'file', pattern: '**/rumdl.toml' },
+  { scheme: 'file', pattern: '**/pyproject.toml' },
+];
+
+// Files that are rumdl's alone, and so rumdl's to format
+const RUMDL_CONFIG_FILE_SELECTOR = CONFIG_FILE_SELECTOR.filter(
+  filter => filter.pattern !== '**/pyproject.toml'
+);
+
+// markdownlint configs rumdl imports; these only get diagnostics and quick fixes
+const MARKDOWNLINT_CONFIG_SELECTOR: vscode.DocumentFilter[] = MARKDOWNLINT_CONFIG_FILES.map(
+  name => ({ scheme: 'file', pattern: `**/${name}` })
+);
+
+/**
+ * The text of a config file to validate: an open document, or a file of the
+ * workspace scan read from disk
+ */
+interface ConfigText {
+  uri: vscode.Uri;
+  fileName: string;
+  text: string;
+  /** Whether the file's diagnostics should still reflect this text */
+  isCurrent(): boolean;
+}
 
 /**
  * Diagnostic provider for rumdl configuration files
@@ -8,16 +60,66 @@ import { ConfigValidator } from '../configValidator';
 export class ConfigDiagnosticProvider implements vscode.Disposable {
   private diagnosticCollection: vscode.DiagnosticCollection;
   private disposables: vscode.Disposable[] = [];
+  // The rule catalog of each outermost folder's binary, by folder URI; '' for other files
+  private ruleCatalogs = new Map<string, RuleCatalog | undefined>();
+  private markdownFiles: MarkdownFileIndex;
+  private configFiles: ConfigFileScanner;
+  private defaultsProvider: ConfigDefaultsInlayHintProvider;
+  // Latest validation of each document, so a slower pattern check that
+  // finishes after a newer validation doesn't overwrite its diagnostics
+  private validationRuns = new Map<string, number>();
+  // Files with string option values the binary hasn't judged yet
+  private unprobedFiles = new Map<string, vscode.Uri>();
 
   constructor() {
     this.diagnosticCollection = vscode.languages.createDiagnosticCollection('rumdl-config');
-    this.disposables.push(this.diagnosticCollection);
+    this.markdownFiles = new MarkdownFileIndex();
+    this.configFiles = new ConfigFileScanner();
+    this.defaultsProvider = new ConfigDefaultsInlayHintProvider(uri => this.ruleCatalog(uri));
+    this.disposables.push(
+      this.diagnosticCollection,
+      this.markdownFiles,
+      this.configFiles,
+      this.defaultsProvider
+    );
 
     // Register event handlers
     this.registerEventHandlers();
 
-    // Run initial validation on open config files
-    this.validateOpenConfigFiles();
+    // Run initial validation on open config files, then on the rest of the
+    // workspace's once they are found
+    this.validateConfigFiles();
+    void this.scanConfigFiles();
+
+    // Rule options come from the rumdl binary; validate again once known
+    void this.loadRuleCatalog();
+  }
+
+  /**
+   * Ask the rumdl binary of each folder which options each rule accepts,
+   * then revalidate config files against them.
+   */
+  private async loadRuleCatalog(): Promise<void> {
+    const folders = outermostFolders(vscode.workspace.workspaceFolders ?? []);
+    const catalogs = new Map<string, RuleCatalog | undefined>();
+    await Promise.all(
+      [undefined, ...folders].map(async folder => {
+        try {
+          catalogs.set(folder?.uri.toString() ?? '', await RuleCatalog.load(folder?.uri));
+        } catch (error) {
+          Logger.error('Failed to load rule options from rumdl', error as Error);
+        }
+      })
+    );
+    this.ruleCatalogs = catalogs;
+    this.defaultsProvider.refresh();
+    this.validateConfigFiles();
+  }
+
+  // The catalog of the binary that lints the files next to a config file
+  private ruleCatalog(uri: vscode.Uri): RuleCatalog | undefined {
+    const folder = owningFolder(uri, vscode.workspace.workspaceFolders ?? []);
+    return this.ruleCatalogs.get(folder?.uri.toString() ?? '');
   }
 
   /**
@@ -43,62 +145,213 @@ export class ConfigDiagnosticProvider implements vscode.Disposable {
       })
     );
 
-    // Clear diagnostics on file close
+    // Clear diagnostics on file close, unless the scan covers the file; then
+    // they go back to reflecting the file on disk
     this.disposables.push(
       vscode.workspace.onDidCloseTextDocument(document => {
-        if (this.isConfigFile(document)) {
+        if (this.configFiles.has(document.uri)) {
+          void this.validateFile(document.uri);
+        } else if (this.isConfigFile(document)) {
           this.diagnosticCollection.delete(document.uri);
+          this.validationRuns.delete(document.uri.toString());
         }
       })
     );
 
+    // Config files that aren't open, as they change on disk
+    this.disposables.push(
+      this.configFiles.onDidChange(uri => {
+        if (!this.openDocument(uri)) {
+          void this.validateFile(uri);
+        }
+      }),
+      this.configFiles.onDidDelete(uri => {
+        if (!this.openDocument(uri)) {
+          this.diagnosticCollection.delete(uri);
+          this.validationRuns.delete(uri.toString());
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        void this.scanConfigFiles();
+        // Each folder resolves its own binary
+        void this.loadRuleCatalog();
+      })
+    );
+
+    // A saved base config may fix or break the `extends` chain of the others,
+    // and so may one that is created or deleted, whatever its name
+    const tomlWatcher = vscode.workspace.createFileSystemWatcher('**/*.toml', false, true, false);
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument(document => {
+        if (document.fileName.endsWith('.toml')) {
+          this.validateConfigFiles();
+        }
+      }),
+      tomlWatcher,
+      tomlWatcher.onDidCreate(() => this.validateConfigFilesDebounced()),
+      tomlWatcher.onDidDelete(() => this.validateConfigFilesDebounced())
+    );
+
+    // A different binary may accept different rule options
+    this.disposables.push(
+      // One change can touch several settings, so each gets its own check
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('rumdl.server.path')) {
+          void this.loadRuleCatalog();
+        }
+        if (event.affectsConfiguration('rumdl.config.checkFilePatterns')) {
+          this.validateConfigFiles();
+        }
+        if (event.affectsConfiguration('rumdl.config.showUnsetDefaults')) {
+          this.defaultsProvider.refresh();
+        }
+        if (
+          event.affectsConfiguration('rumdl.config.scanDepth') ||
+          event.affectsConfiguration('rumdl.config.scanExclude')
+        ) {
+          void this.scanConfigFiles();
+        }
+      }),
+      // Patterns may match more or fewer files once files come and go
+      this.markdownFiles.onDidChange(() => this.validateConfigFiles()),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => {
+        void this.loadRuleCatalog();
+      })
+    );
+
     // Register code action provider for quick fixes
     this.disposables.push(
       vscode.languages.registerCodeActionsProvider(
-        [
-          { scheme: 'file', pattern: '**/.rumdl.toml' },
-          { scheme: 'file', pattern: '**/rumdl.toml' },
-          { scheme: 'file', pattern: '**/pyproject.toml' },
-        ],
+        [...CONFIG_FILE_SELECTOR, ...MARKDOWNLINT_CONFIG_SELECTOR],
         new ConfigCodeActionProvider(),
         {
           providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
         }
       )
     );
+
+    // Hover documentation for keys, sections and rule IDs
+    this.disposables.push(
+      vscode.languages.registerHoverProvider(CONFIG_FILE_SELECTOR, new ConfigHoverProvider())
+    );
+
+    // Completions for headers, keys, enum values and rule IDs
+    this.disposables.push(
+      vscode.languages.registerCompletionItemProvider(
+        CONFIG_FILE_SELECTOR,
+        new ConfigCompletionProvider(uri => this.ruleCatalog(uri)),
+        ...ConfigCompletionProvider.triggerCharacters
+      )
+    );
+
+    // Ctrl+click on an `extends` path opens the base config
+    this.disposables.push(
+      vscode.languages.registerDocumentLinkProvider(
+        CONFIG_FILE_SELECTOR,
+        new ConfigExtendsLinkProvider()
+      )
+    );
+
+    // Rewrite config files in canonical form, as a source action, and as the
+    // formatter of files no other tool owns
+    const normalizeProvider = new ConfigNormalizeProvider();
+    this.disposables.push(
+      vscode.languages.registerDocumentFormattingEditProvider(
+        RUMDL_CONFIG_FILE_SELECTOR,
+        normalizeProvider
+      ),
+      vscode.languages.registerCodeActionsProvider(CONFIG_FILE_SELECTOR, normalizeProvider, {
+        providedCodeActionKinds: ConfigNormalizeProvider.providedCodeActionKinds,
+      })
+    );
+
+    // How many files each per-file-ignores / per-file-flavor pattern matches
+    this.disposables.push(
+      vscode.languages.registerCodeLensProvider(
+        CONFIG_FILE_SELECTOR,
+        new ConfigPatternCodeLensProvider(this.markdownFiles)
+      )
+    );
+
+    // How many findings each configured rule currently has, and a list of them
+    const findingsProvider = new RuleFindingsCodeLensProvider();
+    this.disposables.push(
+      findingsProvider,
+      vscode.languages.registerCodeLensProvider(CONFIG_FILE_SELECTOR, findingsProvider)
+    );
+
+    // Sections and keys for the Outline view, breadcrumbs and Go to Symbol
+    this.disposables.push(
+      vscode.languages.registerDocumentSymbolProvider(
+        CONFIG_FILE_SELECTOR,
+        new ConfigSymbolProvider()
+      )
+    );
+
+    // Defaults of the keys a section sets to something else, or leaves unset
+    this.disposables.push(
+      vscode.languages.registerInlayHintsProvider(CONFIG_FILE_SELECTOR, this.defaultsProvider)
+    );
   }
 
   /**
-   * Check if a document is a rumdl configuration file
+   * Check if a document is a rumdl configuration file, or a markdownlint
+   * config rumdl reads
    */
   private isConfigFile(document: vscode.TextDocument): boolean {
     const fileName = path.basename(document.fileName);
     return (
+      MarkdownlintConfigValidator.isMarkdownlintConfig(fileName) ||
       fileName === '.rumdl.toml' ||
       fileName === 'rumdl.toml' ||
-      (fileName === 'pyproject.toml' && this.hasPyprojectRumdlSection(document))
+      (fileName === 'pyproject.toml' && ConfigValidator.hasPyprojectRumdlConfig(document.getText()))
+    );
+  }
+
+  private openDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(
+      document => document.uri.toString() === uri.toString()
     );
   }
 
   /**
-   * Check if pyproject.toml has a [tool.rumdl] section
+   * Find the config files of the workspace, and validate those that aren't open
    */
-  private hasPyprojectRumdlSection(document: vscode.TextDocument): boolean {
-    const text = document.getText();
-    return text.includes('[tool.rumdl]') || text.includes('[tool.rumdl.');
+  private async scanConfigFiles(): Promise<void> {
+    try {
+      await this.configFiles.scan();
+    } catch (error) {
+      Logger.error('Failed to scan the workspace for rumdl config files', error as Error);
+      return;
+    }
+    for (const uri of this.configFiles.getFiles()) {
+      if (!this.openDocument(uri)) {
+        void this.validateFile(uri);
+      }
+    }
   }
 
   /**
-   * Validate all open configuration files
+   * Validate all open configuration files, and the scanned ones that aren't open
    */
-  private validateOpenConfigFiles(): void {
+  private validateConfigFiles(): void {
     vscode.workspace.textDocuments.forEach(document => {
       if (this.isConfigFile(document)) {
         this.validateDocument(document);
       }
     });
+    for (const uri of this.configFiles.getFiles()) {
+      if (!this.openDocument(uri)) {
+        void this.validateFile(uri);
+      }
+    }
   }
 
+  // A branch switch creates and deletes many files at once
+  private validateConfigFilesDebounced = this.debounce(() => {
+    this.validateConfigFiles();
+  }, 500);
+
   /**
    * Debounced document validation
    */
@@ -110,32 +363,178 @@ export class ConfigDiagnosticProvider implements vscode.Disposable {
    * Validate a configuration document
    */
   private validateDocument(document: vscode.TextDocument): void {
+    this.validate({
+      uri: document.uri,
+      fileName: document.fileName,
+      text: document.getText(),
+      isCurrent: () => !document.isClosed,
+    });
+  }
+
+  /**
+   * Validate a scanned config file that isn't open, from its content on disk
+   */
+  private async validateFile(uri: vscode.Uri): Promise<void> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(uri.fsPath, 'utf8');
+    } catch (error) {
+      Logger.error(`Failed to read config file ${uri.fsPath}`, error as Error);
+      return;
+    }
+    const isCurrent = () => !this.openDocument(uri) && this.configFiles.has(uri);
+    // The file may have been opened, or dropped from the scan, meanwhile
+    if (isCurrent()) {
+      this.validate({ uri, fileName: uri.fsPath, text, isCurrent });
+    }
+  }
+
+  private revalidate(uri: vscode.Uri): void {
+    const document = this.openDocument(uri);
+    if (document) {
+      this.validateDocument(document);
+    } else if (this.configFiles.has(uri)) {
+      void this.validateFile(uri);
+    }
+  }
+
+  private validate(config: ConfigText): void {
     const diagnostics: vscode.Diagnostic[] = [];
-    const text = document.getText();
-    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    const { uri, text } = config;
+    const lines = text.split('\n');
+    const isPyproject = path.basename(config.fileName) === 'pyproject.toml';
 
-    if (isPyproject && !this.hasPyprojectRumdlSection(document)) {
-      this.diagnosticCollection.set(document.uri, []);
+    if (isPyproject && !ConfigValidator.hasPyprojectRumdlConfig(text)) {
+      this.diagnosticCollection.set(uri, []);
       return;
     }
 
     // Validate the original document text directly (no extraction/lineOffset)
     // so diagnostic line numbers always match what's on screen.
-    const result = ConfigValidator.validateToml(text, isPyproject);
+    const catalog = this.ruleCatalog(uri);
+    const isMarkdownlint = MarkdownlintConfigValidator.isMarkdownlintConfig(config.fileName);
+    const result = isMarkdownlint
+      ? MarkdownlintConfigValidator.validate(text, config.fileName, catalog)
+      : ConfigValidator.validateToml(text, isPyproject, catalog);
 
     // Convert validation errors to diagnostics
     for (const error of result.errors) {
-      const line = error.line;
-      const range = new vscode.Range(line, error.column, line, document.lineAt(line).text.length);
+      diagnostics.push(this.toDiagnostic(uri, lines, error));
+    }
+
+    // Set diagnostics
+    this.diagnosticCollection.set(uri, diagnostics);
 
-      const diagnostic = new vscode.Diagnostic(range, error.message, error.severity);
-      diagnostic.source = 'rumdl';
+    const key = uri.toString();
+    const run = (this.validationRuns.get(key) ?? 0) + 1;
+    this.validationRuns.set(key, run);
+    if (!isMarkdownlint) {
+      void this.checkOnDisk(config, isPyproject, diagnostics, run);
+    }
 
-      diagnostics.push(diagnostic);
+    // String option values the binary hasn't judged yet were accepted above;
+    // ask it once editing pauses, and revalidate if any turn out to be invalid.
+    if (catalog?.hasPendingProbes()) {
+      this.unprobedFiles.set(key, uri);
+      this.probeValuesDebounced();
     }
+  }
 
-    // Set diagnostics
-    this.diagnosticCollection.set(document.uri, diagnostics);
+  private probeValuesDebounced = this.debounce(() => {
+    void this.probeValues();
+  }, 1000);
+
+  // Ask each binary, in one go, about the values queued since it was last asked
+  private async probeValues(): Promise<void> {
+    const files = [...this.unprobedFiles.values()];
+    this.unprobedFiles.clear();
+    const catalogs = new Set(files.map(uri => this.ruleCatalog(uri)));
+    const rejected = await Promise.all(
+      [...catalogs].map(catalog => catalog?.probePending() ?? false)
+    );
+    if (rejected.some(Boolean)) {
+      files.forEach(uri => this.revalidate(uri));
+    }
+  }
+
+  /**
+   * Add the problems only the file system can tell, once it has answered,
+   * unless the document was validated again since: links of the `extends`
+   * chain that can't be followed, and per-file patterns that match no
+   * Markdown file.
+   */
+  private async checkOnDisk(
+    config: ConfigText,
+    isPyproject: boolean,
+    diagnostics: vscode.Diagnostic[],
+    run: number
+  ): Promise<void> {
+    // Only a file on disk has a directory for `extends` to resolve against
+    const [chainErrors, patternWarnings] = await Promise.all([
+      config.uri.scheme === 'file'
+        ? validateExtendsChain(config.text, config.fileName, isPyproject)
+        : [],
+      shouldCheckFilePatterns(config.uri) ? this.checkFilePatterns(config, isPyproject) : [],
+    ]);
+    const errors = [...chainErrors, ...patternWarnings];
+    if (
+      errors.length === 0 ||
+      !config.isCurrent() ||
+      this.validationRuns.get(config.uri.toString()) !== run
+    ) {
+      return;
+    }
+
+    const lines = config.text.split('\n');
+    this.diagnosticCollection.set(config.uri, [
+      ...diagnostics,
+      ...errors.map(error => this.toDiagnostic(config.uri, lines, error)),
+    ]);
+  }
+
+  /**
+   * Warnings for per-file patterns that match no Markdown file
+   */
+  private async checkFilePatterns(
+    config: ConfigText,
+    isPyproject: boolean
+  ): Promise<ValidationError[]> {
+    const references = findFilePatterns(config.text, isPyproject);
+    if (references.length === 0) {
+      return [];
+    }
+
+    const baseDir = path.dirname(config.fileName);
+    try {
+      const files = await this.markdownFiles.getFiles(baseDir);
+      return validateFilePatterns(references, baseDir, files);
+    } catch (error) {
+      Logger.error('Failed to list Markdown files for pattern checks', error as Error);
+      return [];
+    }
+  }
+
+  private toDiagnostic(
+    uri: vscode.Uri,
+    lines: string[],
+    error: ValidationError
+  ): vscode.Diagnostic {
+    const line = error.line;
+    const end = lines[line]?.replace(/\r$/, '').length ?? 0;
+    const range = new vscode.Range(line, error.column, line, end);
+
+    const diagnostic = new vscode.Diagnostic(range, error.message, error.severity);
+    diagnostic.source = 'rumdl';
+    if (error.related) {
+      diagnostic.relatedInformation = error.related.map(
+        related =>
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(uri, new vscode.Position(related.line, related.column)),
+            related.message
+          )
+      );
+    }
+    return diagnostic;
   }
 
   /**
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { ALL_SUPPORTED_LANGUAGE_IDS, isSupportedDocument } from '../utils';
+import { InlineDirectiveCompletionProvider, findUnknownDirectiveRules } from '../inlineDirectives';
+import { RuleSuppressionCodeActionProvider } from '../ruleSuppression';
+
+const MARKDOWN_SELECTOR: vscode.DocumentFilter[] = ALL_SUPPORTED_LANGUAGE_IDS.map(language => ({
+  language,
+}));
+
+/**
+ * Diagnostics for unknown rule names in inline `<!-- rumdl-disable -->` and
+ * `<!-- markdownlint-disable -->` comments of Markdown documents, which the
+ * language server ignores without a word. Also provides the completions in
+ * those comments, and the quick fixes that write them.
+ */
+export class InlineDirectiveDiagnosticProvider implements vscode.Disposable {
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  constructor() {
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('rumdl-inline');
+    this.disposables.push(this.diagnosticCollection);
+
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.validateDocument(document)),
+      vscode.workspace.onDidChangeTextDocument(event =>
+        this.validateDocumentDebounced(event.document)
+      ),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        clearTimeout(this.pending.get(document.uri.toString()));
+        this.pending.delete(document.uri.toString());
+        this.diagnosticCollection.delete(document.uri);
+      })
+    );
+
+    this.disposables.push(
+      vscode.languages.registerCodeActionsProvider(
+        MARKDOWN_SELECTOR,
+        new InlineDirectiveCodeActionProvider(),
+        { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+      ),
+      vscode.languages.registerCompletionItemProvider(
+        MARKDOWN_SELECTOR,
+        new InlineDirectiveCompletionProvider(),
+        ...InlineDirectiveCompletionProvider.triggerCharacters
+      ),
+      // Silence a rumdl finding inline or in the config file
+      vscode.languages.registerCodeActionsProvider(
+        MARKDOWN_SELECTOR,
+        new RuleSuppressionCodeActionProvider(),
+        { providedCodeActionKinds: RuleSuppressionCodeActionProvider.providedCodeActionKinds }
+      )
+    );
+
+    vscode.workspace.textDocuments.forEach(document => this.validateDocument(document));
+  }
+
+  /**
+   * Validate a document once typing pauses
+   */
+  private validateDocumentDebounced(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.set(
+      key,
+      setTimeout(() => {
+        this.pending.delete(key);
+        this.validateDocument(document);
+      }, 500)
+    );
+  }
+
+  private validateDocument(document: vscode.TextDocument): void {
+    if (!isSupportedDocument(document) || document.isClosed) {
+      return;
+    }
+
+    const diagnostics = findUnknownDirectiveRules(document.getText()).map(rule => {
+      const range = new vscode.Range(rule.line, rule.start, rule.line, rule.end);
+      const message = rule.suggestion
+        ? `Unknown rule '${rule.name}'. Did you mean '${rule.suggestion}'?`
+        : `Unknown rule '${rule.name}'; the comment has no effect on it`;
+      const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+      diagnostic.source = 'rumdl';
+      return diagnostic;
+    });
+    this.diagnosticCollection.set(document.uri, diagnostics);
+  }
+
+  dispose(): void {
+    this.pending.forEach(timeout => clearTimeout(timeout));
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+/**
+ * Replaces a misspelled rule name with the suggested one
+ */
+class InlineDirectiveCodeActionProvider implements vscode.CodeActionProvider {
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      const suggestion =
+        diagnostic.source === 'rumdl' &&
+        diagnostic.message.match(/^Unknown rule '.+'\. Did you mean '(.+)'\?$/)?.[1];
+      if (!suggestion) {
+        continue;
+      }
+      const fix = new vscode.CodeAction(
+        `Change to '${suggestion}'`,
+        vscode.CodeActionKind.QuickFix
+      );
+      fix.edit = new vscode.WorkspaceEdit();
+      fix.edit.replace(document.uri, diagnostic.range, suggestion);
+      fix.diagnostics = [diagnostic];
+      fix.isPreferred = true;
+      actions.push(fix);
+    }
+    return actions;
+  }
+}
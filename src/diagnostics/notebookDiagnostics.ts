@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager, shouldRunLanguageServer } from '../configuration';
+import { checkNotebook, isNotebookLinted, markdownCells, notebookFindings } from '../notebookCells';
+import { linkRuleDocumentation } from '../ruleDocs';
+
+/**
+ * Findings of the rules that look at a whole document, such as heading
+ * increments and duplicate headings, across the Markdown cells of each open
+ * notebook. The language server checks each cell on its own, so it can't
+ * report them; they are shown on the cell they are in.
+ */
+export class NotebookDiagnosticProvider implements vscode.Disposable {
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+  private pending = new Map<string, NodeJS.Timeout>();
+  // Each notebook's latest check, so an older one finishing late is ignored
+  private generations = new Map<string, number>();
+  // The cells each notebook has findings on, including cells deleted since
+  private cells = new Map<string, vscode.Uri[]>();
+
+  constructor() {
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('rumdl-notebook');
+    this.disposables.push(this.diagnosticCollection);
+
+    this.disposables.push(
+      vscode.workspace.onDidOpenNotebookDocument(notebook => void this.validateNotebook(notebook)),
+      vscode.workspace.onDidChangeNotebookDocument(event => {
+        if (ConfigurationManager.getConfiguration(event.notebook.uri).lint.run === 'onType') {
+          this.validateNotebookDebounced(event.notebook);
+        }
+      }),
+      vscode.workspace.onDidSaveNotebookDocument(notebook => void this.validateNotebook(notebook)),
+      vscode.workspace.onDidCloseNotebookDocument(notebook => this.clearNotebook(notebook)),
+      ConfigurationManager.onConfigurationChanged(() => this.validateAll()),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => this.validateAll())
+    );
+
+    this.validateAll();
+  }
+
+  private validateAll(): void {
+    vscode.workspace.notebookDocuments.forEach(notebook => void this.validateNotebook(notebook));
+  }
+
+  /**
+   * Validate a notebook once typing pauses
+   */
+  private validateNotebookDebounced(notebook: vscode.NotebookDocument): void {
+    const key = notebook.uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.set(
+      key,
+      setTimeout(() => {
+        this.pending.delete(key);
+        void this.validateNotebook(notebook);
+      }, 500)
+    );
+  }
+
+  private async validateNotebook(notebook: vscode.NotebookDocument): Promise<void> {
+    const key = notebook.uri.toString();
+    const generation = (this.generations.get(key) ?? 0) + 1;
+    this.generations.set(key, generation);
+
+    const cells = markdownCells(notebook);
+    const config = ConfigurationManager.getConfiguration(notebook.uri);
+    if (
+      cells.length === 0 ||
+      !isNotebookLinted(notebook) ||
+      !shouldRunLanguageServer(config.enable, vscode.workspace.isTrusted)
+    ) {
+      this.clearNotebook(notebook);
+      return;
+    }
+
+    const checked = await checkNotebook(notebook, cells);
+    if (!checked || notebook.isClosed || this.generations.get(key) !== generation) {
+      return;
+    }
+
+    const findings = notebookFindings(checked.joined, checked.warnings);
+    this.cells.get(key)?.forEach(uri => this.diagnosticCollection.delete(uri));
+    this.cells.set(
+      key,
+      cells.map(cell => cell.document.uri)
+    );
+    cells.forEach((cell, index) => {
+      this.diagnosticCollection.set(
+        cell.document.uri,
+        linkRuleDocumentation(findings.get(index) ?? [])
+      );
+    });
+  }
+
+  private clearNotebook(notebook: vscode.NotebookDocument): void {
+    const key = notebook.uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.delete(key);
+    if (notebook.isClosed) {
+      this.generations.delete(key);
+    }
+    this.cells.get(key)?.forEach(uri => this.diagnosticCollection.delete(uri));
+    this.cells.delete(key);
+  }
+
+  dispose(): void {
+    this.pending.forEach(timeout => clearTimeout(timeout));
+    this.pending.clear();
+    this.disposables.forEach(d => d.dispose());
+  }
+}
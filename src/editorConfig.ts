@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A property an .editorconfig sets for a file: its name and value, in lower
+ * case, and the file and line that set it.
+ */
+export interface EditorConfigProperty {
+  name: string;
+  value: string;
+  file: string;
+  line: number;
+}
+
+interface EditorConfigSection {
+  glob: string;
+  properties: Omit<EditorConfigProperty, 'file'>[];
+}
+
+/**
+ * The sections of one .editorconfig file, and whether it is marked as the
+ * root, above which no further files are read.
+ */
+export interface ParsedEditorConfig {
+  root: boolean;
+  sections: EditorConfigSection[];
+}
+
+/**
+ * Parse an .editorconfig file. Property names and values are case
+ * insensitive and returned in lower case; comment lines start with `#` or
+ * `;`.
+ */
+export function parseEditorConfig(content: string): ParsedEditorConfig {
+  const parsed: ParsedEditorConfig = { root: false, sections: [] };
+  let section: EditorConfigSection | undefined;
+
+  content.split(/\r?\n/).forEach((text, line) => {
+    const trimmed = text.trim();
+    if (trimmed === '' || trimmed.startsWith('#') || trimmed.startsWith(';')) {
+      return;
+    }
+    const header = trimmed.match(/^\[(.*)\]$/);
+    if (header) {
+      section = { glob: header[1], properties: [] };
+      parsed.sections.push(section);
+      return;
+    }
+
+    const pair = trimmed.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+    if (!pair) {
+      return;
+    }
+    const name = pair[1].toLowerCase();
+    const value = pair[2].trim().toLowerCase();
+    if (section) {
+      section.properties.push({ name, value, line });
+    } else if (name === 'root') {
+      parsed.root = value === 'true';
+    }
+  });
+  return parsed;
+}
+
+/**
+ * Whether a section glob of an .editorconfig matches a file, given its path
+ * relative to the directory of the .editorconfig. A glob without `/`
+ * matches the file name in any directory; one with `/` is anchored to the
+ * .editorconfig's directory.
+ */
+export function editorConfigSectionMatches(glob: string, relativePath: string): boolean {
+  const anchored = glob.includes('/') ? glob.replace(/^\//, '') : `**/${glob}`;
+  return editorConfigGlobToRegExp(anchored).test(relativePath.split(path.sep).join('/'));
+}
+
+/**
+ * Translate an EditorConfig glob: `*` stops at `/` but `**` does not, `?`
+ * is one character other than `/`, `[...]` is a character class (`[!...]`
+ * negated), `{a,b}` lists alternatives and `{1..3}` is a range of integers.
+ */
+function editorConfigGlobToRegExp(glob: string): RegExp {
+  let source = '';
+  let alternates = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i) && (i === 0 || glob[i - 1] === '/')) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (char === '*') {
+      const double = glob[i + 1] === '*';
+      source += double ? '.*' : '[^/]*';
+      i += double ? 1 : 0;
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && /^\[[^\]/]+\]/.test(glob.substring(i))) {
+      const close = glob.indexOf(']', i);
+      const body = glob.substring(i + 1, close);
+      const negated = body.startsWith('!');
+      const members = (negated ? body.substring(1) : body).replace(/[\\\]^]/g, '\\$&');
+      source += `[${negated ? '^' : ''}${members}]`;
+      i = close;
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      const body = close > 0 ? glob.substring(i + 1, close) : '';
+      const range = body.match(/^([+-]?\d+)\.\.([+-]?\d+)$/);
+      if (range) {
+        source += `(?:${integerRange(Number(range[1]), Number(range[2])).join('|')})`;
+        i = close;
+      } else if (body.includes(',')) {
+        source += '(?:';
+        alternates++;
+      } else {
+        source += '\\{';
+      }
+    } else if (char === ',' && alternates > 0) {
+      source += '|';
+    } else if (char === '}' && alternates > 0) {
+      source += ')';
+      alternates--;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function integerRange(from: number, to: number): string[] {
+  const [low, high] = from <= to ? [from, to] : [to, from];
+  const numbers: string[] = [];
+  for (let n = low; n <= high; n++) {
+    numbers.push(String(n).replace('-', '\\-'));
+  }
+  return numbers;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * The .editorconfig properties that apply to a file: the .editorconfig
+ * files from its directory up to the first one marked `root = true`, with
+ * nearer files, and later sections within a file, taking precedence.
+ */
+export async function resolveEditorConfig(
+  filePath: string,
+  readFile: (file: string) => Promise<string | undefined> = readIfExists
+): Promise<Map<string, EditorConfigProperty>> {
+  const files: { file: string; parsed: ParsedEditorConfig }[] = [];
+  let dir = path.dirname(path.resolve(filePath));
+  for (;;) {
+    const file = path.join(dir, '.editorconfig');
+    const content = await readFile(file);
+    if (content !== undefined) {
+      const parsed = parseEditorConfig(content);
+      files.push({ file, parsed });
+      if (parsed.root) {
+        break;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      break;
+    }
+    dir = parent;
+  }
+
+  const properties = new Map<string, EditorConfigProperty>();
+  for (const { file, parsed } of files.reverse()) {
+    const relativePath = path.relative(path.dirname(file), filePath);
+    for (const section of parsed.sections) {
+      if (!editorConfigSectionMatches(section.glob, relativePath)) {
+        continue;
+      }
+      for (const property of section.properties) {
+        properties.set(property.name, { ...property, file });
+      }
+    }
+  }
+  return properties;
+}
+
+async function readIfExists(file: string): Promise<string | undefined> {
+  try {
+    return await fs.promises.readFile(file, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
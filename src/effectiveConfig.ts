@@ -0,0 +1,804 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseToml } from 'smol-toml';
+import { ConfigValidator, RuleOptionSource } from './configValidator';
+import { expandExtendsPath } from './configExtends';
+import { bracketDepthChange } from './configNormalizer';
+import { matchFilePattern } from './configPatterns';
+import { GLOBAL_PROPERTY_DOCS, RULE_NAMES } from './configSchema';
+import { ConfigurationManager } from './configuration';
+import { resolveEditorConfig } from './editorConfig';
+import {
+  MARKDOWNLINT_CONFIG_FILES,
+  MarkdownlintConfigValidator,
+  MarkdownlintSetting,
+} from './markdownlintConfigValidator';
+import { RuleCatalog } from './ruleCatalog';
+import { Logger } from './utils';
+import { owningFolder } from './utils/workspace';
+
+export const EFFECTIVE_CONFIG_SCHEME = 'rumdl-effective-config';
+
+// rumdl config files, in the order rumdl prefers them within one directory
+const RUMDL_CONFIG_FILES = ['.rumdl.toml', 'rumdl.toml', '.config/rumdl.toml', 'pyproject.toml'];
+
+// Config files rumdl falls back to in the user's config directory
+const USER_CONFIG_FILES = ['.rumdl.toml', 'rumdl.toml'];
+
+/**
+ * Where an effective value comes from: a built-in default, a line of a
+ * config file or .editorconfig (`via` names the setting it was derived
+ * from), or the scope of the VS Code setting that sets it.
+ */
+export type SettingSource =
+  | { kind: 'default' }
+  | { kind: 'file'; file: string; line: number; via?: string }
+  | { kind: 'setting'; scope: string };
+
+export interface EffectiveValue {
+  value: unknown;
+  sources: SettingSource[];
+}
+
+/**
+ * A [per-file-ignores] or [per-file-flavor] entry whose pattern matches the
+ * file.
+ */
+export interface FileOverride {
+  pattern: string;
+  value: unknown;
+  source: SettingSource;
+}
+
+/**
+ * A rule list from VS Code settings, which the language server applies on
+ * top of the config file.
+ */
+export interface SettingOverride {
+  setting: string;
+  value: string[];
+  scope: string;
+}
+
+/**
+ * The configuration rumdl applies to one Markdown file, each value with its
+ * source.
+ */
+export interface EffectiveConfig {
+  filePath: string;
+  /** The config file in use; undefined when rumdl runs on its defaults */
+  configFile?: string;
+  /** The config file and the files it extends, the base config first */
+  chain: string[];
+  global: Map<string, EffectiveValue>;
+  rules: Map<string, Map<string, EffectiveValue>>;
+  perFileIgnores: FileOverride[];
+  perFileFlavor?: FileOverride;
+  settings: SettingOverride[];
+  /** Parts of the configuration that could not be read, and why */
+  problems: string[];
+}
+
+export interface EffectiveConfigOptions {
+  /** rumdl.configPath as an absolute path, which replaces discovery */
+  configPath?: string;
+  settings?: SettingOverride[];
+  /** Defaults of rule options; without it only configured options are listed */
+  ruleOptions?: RuleOptionSource;
+  env?: NodeJS.ProcessEnv;
+  homeDir?: string;
+}
+
+/**
+ * One value a config file sets. `section` is 'root' (where `extends`
+ * lives), 'global', 'per-file-ignores', 'per-file-flavor' or a rule code.
+ */
+interface ConfigEntry {
+  section: string;
+  key: string;
+  value: unknown;
+  line: number;
+}
+
+interface ConfigLayer {
+  file: string;
+  entries: ConfigEntry[];
+}
+
+/**
+ * Find the config file rumdl uses for the files of `dir`: the nearest rumdl
+ * config between `dir` and the repository root, else the nearest
+ * markdownlint config, else the user's rumdl config.
+ */
+export async function findConfigFile(
+  dir: string,
+  env: NodeJS.ProcessEnv = process.env,
+  homeDir: string = os.homedir()
+): Promise<string | undefined> {
+  const dirs: string[] = [];
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    dirs.push(current);
+    if (path.dirname(current) === current || (await exists(path.join(current, '.git')))) {
+      break;
+    }
+  }
+
+  const userDir = path.join(env.XDG_CONFIG_HOME || path.join(homeDir, '.config'), 'rumdl');
+  const candidates = [
+    ...dirs.flatMap(d => RUMDL_CONFIG_FILES.map(name => path.join(d, name))),
+    ...dirs.flatMap(d => MARKDOWNLINT_CONFIG_FILES.map(name => path.join(d, name))),
+    ...USER_CONFIG_FILES.map(name => path.join(userDir, name)),
+  ];
+  for (const file of candidates) {
+    if (
+      (await isFile(file)) &&
+      (path.basename(file) !== 'pyproject.toml' || (await hasRumdlTable(file)))
+    ) {
+      return file;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The config file rumdl uses for the files of `dir` in the editor: the
+ * `rumdl.configPath` of the folder whose language server lints them, when
+ * set, resolved against that folder; else the one findConfigFile finds.
+ */
+export async function configFileFor(dir: string): Promise<string | undefined> {
+  const folder = owningFolder(vscode.Uri.file(dir), vscode.workspace.workspaceFolders ?? []);
+  const configPath = ConfigurationManager.getConfiguration(folder?.uri).configPath?.trim();
+  if (!configPath) {
+    return findConfigFile(dir);
+  }
+  return path.resolve(folder?.uri.fsPath ?? dir, configPath);
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function hasRumdlTable(file: string): Promise<boolean> {
+  try {
+    const content = await fs.promises.readFile(file, 'utf8');
+    const parsed = parseToml(content) as Record<string, unknown>;
+    return asTable(asTable(parsed.tool)?.rumdl) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+function asTable(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * Resolve the configuration rumdl applies to a file the way rumdl builds
+ * it: the `extends` chain, base first, with rule options merged key by
+ * key, `extend-enable`/`extend-disable` accumulated and every other value
+ * replaced; then the per-file entries that match the file, the global
+ * `line-length` and .editorconfig filling in what no config sets, and the
+ * built-in defaults.
+ */
+export async function resolveEffectiveConfig(
+  filePath: string,
+  options: EffectiveConfigOptions = {}
+): Promise<EffectiveConfig> {
+  const env = options.env ?? process.env;
+  const homeDir = options.homeDir ?? os.homedir();
+  const configFile =
+    options.configPath ?? (await findConfigFile(path.dirname(filePath), env, homeDir));
+  const config: EffectiveConfig = {
+    filePath,
+    configFile,
+    chain: [],
+    global: new Map(),
+    rules: new Map(),
+    perFileIgnores: [],
+    settings: options.settings ?? [],
+    problems: [],
+  };
+
+  const layers = configFile ? await readChain(configFile, env, homeDir, config.problems) : [];
+  config.chain = layers.map(layer => layer.file);
+
+  // A per-file table replaces the one of a base config as a whole
+  const tables = new Map<string, ConfigLayer>();
+  for (const layer of layers) {
+    const setHere = new Set<string>();
+    for (const entry of layer.entries) {
+      if (entry.section === 'per-file-ignores' || entry.section === 'per-file-flavor') {
+        const table = tables.get(entry.section);
+        if (table?.file === layer.file) {
+          table.entries.push(entry);
+        } else {
+          tables.set(entry.section, { file: layer.file, entries: [entry] });
+        }
+        continue;
+      }
+      if (entry.section === 'root') {
+        continue;
+      }
+
+      const values = entry.section === 'global' ? config.global : ruleValues(config, entry.section);
+      const current = values.get(entry.key);
+      const id = `${entry.section}.${entry.key}`;
+      const source: SettingSource = { kind: 'file', file: layer.file, line: entry.line };
+      const accumulates =
+        entry.section === 'global' && (entry.key.startsWith('extend-') || setHere.has(id));
+      if (current && accumulates && Array.isArray(current.value) && Array.isArray(entry.value)) {
+        values.set(entry.key, {
+          value: [...new Set([...current.value, ...entry.value])],
+          sources: [...current.sources, source],
+        });
+      } else {
+        values.set(entry.key, { value: entry.value, sources: [source] });
+      }
+      setHere.add(id);
+    }
+  }
+
+  const baseDir = configFile ? configProjectDir(configFile) : path.dirname(filePath);
+  const matching = (section: string): FileOverride[] => {
+    const table = tables.get(section);
+    return (table?.entries ?? [])
+      .filter(entry => matchFilePattern(entry.key, baseDir, [filePath]).length > 0)
+      .map(entry => ({
+        pattern: entry.key,
+        value: entry.value,
+        source: { kind: 'file', file: table!.file, line: entry.line },
+      }));
+  };
+  config.perFileIgnores = matching('per-file-ignores');
+  // The first matching pattern decides the flavor
+  config.perFileFlavor = matching('per-file-flavor')[0];
+
+  const lineLength = config.global.get('line-length');
+  if (lineLength) {
+    fillRuleOption(
+      config,
+      'MD013',
+      'line-length',
+      lineLength.value,
+      lineLength.sources,
+      'global line-length'
+    );
+  }
+  if (config.global.get('editorconfig')?.value === true) {
+    await applyEditorConfig(config);
+  }
+  addDefaults(config, options.ruleOptions);
+  return config;
+}
+
+function ruleValues(config: EffectiveConfig, ruleCode: string): Map<string, EffectiveValue> {
+  let values = config.rules.get(ruleCode);
+  if (!values) {
+    values = new Map();
+    config.rules.set(ruleCode, values);
+  }
+  return values;
+}
+
+/**
+ * Set a rule option no config file sets, from a value it is derived from.
+ */
+function fillRuleOption(
+  config: EffectiveConfig,
+  ruleCode: string,
+  option: string,
+  value: unknown,
+  sources: SettingSource[],
+  via: string
+): void {
+  if (config.rules.get(ruleCode)?.has(option)) {
+    return;
+  }
+  ruleValues(config, ruleCode).set(option, {
+    value,
+    sources: sources.map(source => (source.kind === 'file' ? { ...source, via } : source)),
+  });
+}
+
+/**
+ * Apply the .editorconfig properties rumdl maps onto rule options:
+ * `max_line_length` to MD013 and `indent_size` (`tab_width` when it is
+ * `tab`) to MD007.
+ */
+async function applyEditorConfig(config: EffectiveConfig): Promise<void> {
+  const properties = await resolveEditorConfig(config.filePath);
+  const maxLength = properties.get('max_line_length');
+  let indent = properties.get('indent_size');
+  if (indent?.value === 'tab') {
+    indent = properties.get('tab_width');
+  }
+
+  for (const [ruleCode, option, property] of [
+    ['MD013', 'line-length', maxLength],
+    ['MD007', 'indent', indent],
+  ] as const) {
+    if (property && /^\d+$/.test(property.value)) {
+      const source: SettingSource = { kind: 'file', file: property.file, line: property.line };
+      fillRuleOption(config, ruleCode, option, Number(property.value), [source], property.name);
+    }
+  }
+}
+
+function addDefaults(config: EffectiveConfig, ruleOptions?: RuleOptionSource): void {
+  for (const [key, doc] of Object.entries(GLOBAL_PROPERTY_DOCS)) {
+    if (doc.default !== undefined && !config.global.has(key)) {
+      config.global.set(key, { value: doc.default, sources: [{ kind: 'default' }] });
+    }
+  }
+  for (const ruleCode of RULE_NAMES) {
+    for (const [option, value] of Object.entries(ruleOptions?.getRuleOptions(ruleCode) ?? {})) {
+      const values = ruleValues(config, ruleCode);
+      if (!values.has(option)) {
+        values.set(option, { value, sources: [{ kind: 'default' }] });
+      }
+    }
+  }
+}
+
+/**
+ * The directory per-file patterns are relative to: the directory of the
+ * config file, or the project root for .config/rumdl.toml.
+ */
+export function configProjectDir(configFile: string): string {
+  const dir = path.dirname(configFile);
+  return path.basename(dir) === '.config' ? path.dirname(dir) : dir;
+}
+
+/**
+ * Read a config file and the files it extends, base config first. A link
+ * that cannot be followed ends the chain and is recorded in `problems`.
+ */
+async function readChain(
+  configFile: string,
+  env: NodeJS.ProcessEnv,
+  homeDir: string,
+  problems: string[]
+): Promise<ConfigLayer[]> {
+  const layers: ConfigLayer[] = [];
+  let file: string | undefined = path.resolve(configFile);
+  while (file) {
+    if (layers.some(layer => layer.file === file)) {
+      problems.push(`Circular extends: ${file} is already part of the chain`);
+      break;
+    }
+    if (!(await isFile(file))) {
+      problems.push(`Config file not found: ${file}`);
+      break;
+    }
+
+    let entries: ConfigEntry[];
+    try {
+      entries = readConfigEntries(await fs.promises.readFile(file, 'utf8'), file);
+    } catch (error) {
+      problems.push(`Cannot read ${file}: ${(error as Error).message.split('\n')[0]}`);
+      break;
+    }
+    layers.unshift({ file, entries });
+
+    const base = entries.find(entry => entry.section === 'root' && entry.key === 'extends');
+    if (typeof base?.value !== 'string') {
+      break;
+    }
+    const target = expandExtendsPath(base.value, path.dirname(file), env, homeDir);
+    if ('unsetVariable' in target) {
+      problems.push(`Extends path in ${file} references undefined $${target.unsetVariable}`);
+      break;
+    }
+    file = target.path;
+  }
+  return layers;
+}
+
+/**
+ * The values a config file sets, each with its line.
+ */
+function readConfigEntries(content: string, file: string): ConfigEntry[] {
+  if (MarkdownlintConfigValidator.isMarkdownlintConfig(file)) {
+    const settings = MarkdownlintConfigValidator.readSettings(content, file);
+    if (!settings) {
+      throw new Error('rumdl skips a markdownlint config it cannot parse');
+    }
+    return markdownlintEntries(settings);
+  }
+  return tomlEntries(content, path.basename(file) === 'pyproject.toml');
+}
+
+/**
+ * Pair each key line of a rumdl TOML config with its parsed value. Keys are
+ * canonicalised the way rumdl reads them: global keys and rule options in
+ * kebab-case, rule sections by code.
+ */
+function tomlEntries(content: string, isPyproject: boolean): ConfigEntry[] {
+  const parsed = parseToml(content) as Record<string, unknown>;
+  const entries: ConfigEntry[] = [];
+  let section: string | undefined = isPyproject ? undefined : 'root';
+  let header = '';
+  let table: Record<string, unknown> | undefined = isPyproject ? undefined : parsed;
+  let depth = 0;
+
+  content.split('\n').forEach((text, line) => {
+    const headerMatch = depth === 0 ? text.match(/^\s*\[([^[\]]+)\]\s*(?:#.*)?$/) : null;
+    if (headerMatch) {
+      header = headerMatch[1].trim();
+      const kind = ConfigValidator.classifySection(header, isPyproject);
+      section =
+        kind.kind === 'rule'
+          ? kind.ruleCode
+          : ['global', 'per-file-ignores', 'per-file-flavor'].includes(kind.kind)
+            ? kind.kind
+            : undefined;
+      table = section ? lookupTable(parsed, header) : undefined;
+      return;
+    }
+
+    const key = depth === 0 && section && table ? readKey(text) : undefined;
+    depth += bracketDepthChange(text);
+    if (key === undefined || !table || !(key in table)) {
+      return;
+    }
+
+    if (key === 'extends' && (section === 'root' || header === 'tool.rumdl')) {
+      entries.push({ section: 'root', key, value: table[key], line });
+    } else if (section === 'global') {
+      const canonical = ConfigValidator.canonicalGlobalKey(key) ?? key;
+      entries.push({ section, key: canonical, value: table[key], line });
+    } else if (section === 'per-file-ignores' || section === 'per-file-flavor') {
+      entries.push({ section, key, value: table[key], line });
+    } else if (section !== 'root') {
+      entries.push({ section: section!, key: key.replace(/_/g, '-'), value: table[key], line });
+    }
+  });
+  return entries;
+}
+
+function lookupTable(
+  parsed: Record<string, unknown>,
+  header: string
+): Record<string, unknown> | undefined {
+  let table: Record<string, unknown> | undefined = parsed;
+  for (const part of header.split('.')) {
+    table = asTable(table?.[part.trim()]);
+  }
+  return table;
+}
+
+/**
+ * The key of a `key = value` line, bare or quoted.
+ */
+function readKey(text: string): string | undefined {
+  const match = text.match(/^\s*(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*=/);
+  if (!match) {
+    return undefined;
+  }
+  if (match[1] === undefined) {
+    return match[2] ?? match[3];
+  }
+  try {
+    return JSON.parse(`"${match[1]}"`) as string;
+  } catch {
+    return match[1];
+  }
+}
+
+/**
+ * Translate a markdownlint config the way rumdl imports it: a rule set to
+ * false is disabled, an object configures its options, and with
+ * `default: false` only the rules set to true or configured are enabled.
+ */
+function markdownlintEntries(settings: MarkdownlintSetting[]): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+  const enabled: ConfigEntry[] = [];
+  let defaultOff = false;
+
+  for (const setting of settings) {
+    if (setting.key === 'default') {
+      defaultOff = setting.value === false;
+      continue;
+    }
+    const ruleCode = ConfigValidator.resolveRuleName(setting.key);
+    if (!ruleCode) {
+      continue;
+    }
+
+    const list = { section: 'global', value: [ruleCode], line: setting.line };
+    if (setting.value === false) {
+      entries.push({ ...list, key: 'disable' });
+      continue;
+    }
+    enabled.push({ ...list, key: 'enable' });
+    for (const option of setting.options ?? []) {
+      entries.push({
+        section: ruleCode,
+        key: option.key.replace(/_/g, '-'),
+        value: option.value,
+        line: option.line,
+      });
+    }
+  }
+  return defaultOff ? [...entries, ...enabled] : entries;
+}
+
+/**
+ * A rendered view: its text, and the places in it that name a line of a
+ * config file.
+ */
+export interface RenderedEffectiveConfig {
+  text: string;
+  links: { line: number; start: number; end: number; file: string; targetLine: number }[];
+}
+
+// Column the source comments are aligned to, unless a value is longer
+const SOURCE_COLUMN = 40;
+
+/**
+ * Render an effective configuration as TOML, each value followed by a
+ * comment naming its source. Paths are shown relative to `root`.
+ */
+export function renderEffectiveConfig(
+  config: EffectiveConfig,
+  root: string
+): RenderedEffectiveConfig {
+  const lines: string[] = [];
+  const links: RenderedEffectiveConfig['links'] = [];
+  const display = (file: string) => {
+    const relative = path.relative(root, file);
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : file;
+  };
+
+  const row = (code: string, sources: SettingSource[]) => {
+    let text = `${code.padEnd(SOURCE_COLUMN - 1)} #`;
+    sources.forEach((source, index) => {
+      text += index === 0 ? ' ' : ', ';
+      if (source.kind === 'default') {
+        text += 'default';
+      } else if (source.kind === 'setting') {
+        text += source.scope;
+      } else {
+        const location = `${display(source.file)}:${source.line + 1}`;
+        links.push({
+          line: lines.length,
+          start: text.length,
+          end: text.length + location.length,
+          file: source.file,
+          targetLine: source.line,
+        });
+        text += location + (source.via ? ` (${source.via})` : '');
+      }
+    });
+    lines.push(text);
+  };
+
+  lines.push(`# Effective rumdl configuration for ${display(config.filePath)}`, '#');
+  if (config.configFile) {
+    lines.push(`# Config file: ${display(config.configFile)}`);
+    const bases = config.chain.slice(0, -1).reverse();
+    if (bases.length > 0) {
+      lines.push(`# Extends: ${bases.map(display).join(' → ')}`);
+    }
+  } else {
+    lines.push('# No config file found; rumdl uses its defaults');
+  }
+  for (const problem of config.problems) {
+    lines.push(`# Problem: ${problem}`);
+  }
+  lines.push('#', '# Each value is followed by where it comes from.');
+
+  lines.push('', '[global]');
+  for (const [key, entry] of sortedEntries(config.global)) {
+    row(`${formatKey(key)} = ${formatTomlValue(entry.value)}`, entry.sources);
+  }
+
+  if (config.perFileIgnores.length > 0) {
+    lines.push('', '# Entries whose pattern matches this file', '[per-file-ignores]');
+    for (const entry of config.perFileIgnores) {
+      row(`${JSON.stringify(entry.pattern)} = ${formatTomlValue(entry.value)}`, [entry.source]);
+    }
+  }
+  if (config.perFileFlavor) {
+    const entry = config.perFileFlavor;
+    lines.push('', '# The first entry whose pattern matches this file', '[per-file-flavor]');
+    row(`${JSON.stringify(entry.pattern)} = ${formatTomlValue(entry.value)}`, [entry.source]);
+  }
+
+  for (const ruleCode of [...config.rules.keys()].sort()) {
+    const options = config.rules.get(ruleCode)!;
+    if (options.size === 0) {
+      continue;
+    }
+    lines.push('', `[${ruleCode}]`);
+    for (const [key, entry] of sortedEntries(options)) {
+      row(`${formatKey(key)} = ${formatTomlValue(entry.value)}`, entry.sources);
+    }
+  }
+
+  if (config.settings.length > 0) {
+    lines.push('', '# VS Code settings the language server applies on top of the config');
+    for (const setting of config.settings) {
+      row(`# ${setting.setting} = ${formatTomlValue(setting.value)}`, [
+        { kind: 'setting', scope: setting.scope },
+      ]);
+    }
+  }
+
+  return { text: lines.join('\n') + '\n', links };
+}
+
+function sortedEntries(values: Map<string, EffectiveValue>): [string, EffectiveValue][] {
+  return [...values.entries()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * A value written the way it would be in TOML, on one line.
+ */
+export function formatTomlValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatTomlValue).join(', ')}]`;
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  const table = asTable(value);
+  if (table && !(value instanceof Date)) {
+    const entries = Object.entries(table).map(
+      ([k, v]) => `${formatKey(k)} = ${formatTomlValue(v)}`
+    );
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+  }
+  return String(value);
+}
+
+/**
+ * Serves the read-only "effective configuration" view of a Markdown file,
+ * and links each source location in it to the line of the config file.
+ * Open views are rebuilt when a file they may depend on is saved or rumdl
+ * settings change.
+ */
+export class EffectiveConfigProvider
+  implements vscode.TextDocumentContentProvider, vscode.DocumentLinkProvider, vscode.Disposable
+{
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private readonly views = new Map<string, RenderedEffectiveConfig>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor() {
+    this.disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(EFFECTIVE_CONFIG_SCHEME, this),
+      vscode.languages.registerDocumentLinkProvider({ scheme: EFFECTIVE_CONFIG_SCHEME }, this),
+      vscode.workspace.onDidSaveTextDocument(document => {
+        const name = path.basename(document.fileName);
+        if (
+          name === '.editorconfig' ||
+          name.endsWith('.toml') ||
+          MarkdownlintConfigValidator.isMarkdownlintConfig(name)
+        ) {
+          this.refresh();
+        }
+      }),
+      ConfigurationManager.onConfigurationChanged(() => this.refresh()),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        this.views.delete(document.uri.toString());
+      }),
+      this.changeEmitter
+    );
+  }
+
+  /**
+   * Open the view for a Markdown file beside it, rebuilt if already open.
+   */
+  async show(target: vscode.Uri): Promise<void> {
+    const uri = vscode.Uri.from({
+      scheme: EFFECTIVE_CONFIG_SCHEME,
+      path: `/${path.basename(target.fsPath)} (effective rumdl config).toml`,
+      query: target.toString(),
+    });
+    if (this.views.has(uri.toString())) {
+      this.changeEmitter.fire(uri);
+    }
+    const document = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(document, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preview: false,
+    });
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const target = vscode.Uri.parse(uri.query);
+    const folder = vscode.workspace.getWorkspaceFolder(target);
+    const root = folder?.uri.fsPath ?? path.dirname(target.fsPath);
+
+    const languageId = vscode.workspace.textDocuments.find(
+      document => document.uri.toString() === target.toString()
+    )?.languageId;
+    // Without the catalog the view still lists every configured value
+    let ruleOptions: RuleCatalog | undefined;
+    try {
+      ruleOptions = await RuleCatalog.load(target);
+    } catch (error) {
+      Logger.error('Failed to load rule options from rumdl', error as Error);
+    }
+    const config = await resolveEffectiveConfig(target.fsPath, {
+      configPath: await configFileFor(path.dirname(target.fsPath)),
+      settings: settingOverrides(languageId ? { uri: target, languageId } : target),
+      ruleOptions,
+    });
+    if (!ruleOptions) {
+      config.problems.push('Rule option defaults are not listed: rumdl did not report them');
+    }
+    const view = renderEffectiveConfig(config, root);
+    this.views.set(uri.toString(), view);
+    return view.text;
+  }
+
+  provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    const view = this.views.get(document.uri.toString());
+    return (view?.links ?? []).map(link => {
+      const target = vscode.Uri.file(link.file).with({ fragment: `L${link.targetLine + 1}` });
+      const documentLink = new vscode.DocumentLink(
+        new vscode.Range(link.line, link.start, link.line, link.end),
+        target
+      );
+      documentLink.tooltip = 'Open the line that sets this value';
+      return documentLink;
+    });
+  }
+
+  private refresh(): void {
+    for (const uri of this.views.keys()) {
+      this.changeEmitter.fire(vscode.Uri.parse(uri));
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+/**
+ * The rumdl.rules settings that apply to `scope`, with the scope that sets
+ * them. With a `languageId`, `[language]` blocks override the plain value of
+ * their level.
+ */
+export function settingOverrides(scope?: vscode.ConfigurationScope): SettingOverride[] {
+  const config = vscode.workspace.getConfiguration('rumdl', scope);
+  return (['rules.enable', 'rules.disable'] as const).flatMap(key => {
+    const inspected = config.inspect<string[]>(key);
+    const scoped: [string[] | undefined, string][] = [
+      [inspected?.workspaceFolderLanguageValue, 'Folder language settings'],
+      [inspected?.workspaceFolderValue, 'Folder settings'],
+      [inspected?.workspaceLanguageValue, 'Workspace language settings'],
+      [inspected?.workspaceValue, 'Workspace settings'],
+      [inspected?.globalLanguageValue, 'User language settings'],
+      [inspected?.globalValue, 'User settings'],
+    ];
+    const [value, source] = scoped.find(([v]) => v && v.length > 0) ?? [];
+    return value && source ? [{ setting: `rumdl.${key}`, value, scope: source }] : [];
+  });
+}
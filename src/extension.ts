@@ -6,6 +6,9 @@ import { ConfigurationManager, RumdlConfig, shouldRunLanguageServer } from './co
 import { Logger, showErrorMessage, isSupportedDocument } from './utils';
 import { BundledToolsManager } from './bundledTools';
 import { ConfigDiagnosticProvider } from './diagnostics/configDiagnostics';
+import { InlineDirectiveDiagnosticProvider } from './diagnostics/inlineDirectiveDiagnostics';
+import { NotebookDiagnosticProvider } from './diagnostics/notebookDiagnostics';
+import { RuleExplorer } from './ruleExplorer';
 
 let client: RumdlLanguageClient;
 let statusBar: StatusBarManager;
@@ -42,6 +45,13 @@ export async function activate(
     configDiagnostics = new ConfigDiagnosticProvider();
     context.subscriptions.push(configDiagnostics);
 
+    // Check the rule names of inline disable/enable comments in Markdown
+    context.subscriptions.push(new InlineDirectiveDiagnosticProvider());
+    context.subscriptions.push(new NotebookDiagnosticProvider());
+
+    // List the rules, and turn them on and off, in the Explorer
+    context.subscriptions.push(new RuleExplorer(client));
+
     // Start the client if enabled
     if (shouldRunLanguageServer(ConfigurationManager.isEnabled(), vscode.workspace.isTrusted)) {
       await client.start();
@@ -50,9 +60,9 @@ export async function activate(
     }
 
     // Watch for configuration changes
-    configWatcher = ConfigurationManager.onConfigurationChanged(config => {
+    configWatcher = ConfigurationManager.onConfigurationChanged((config, event) => {
       Logger.info('Configuration changed, reconciling language server state');
-      void enqueueReconciliation(config);
+      void enqueueReconciliation(config, event);
     });
 
     context.subscriptions.push(configWatcher);
@@ -110,7 +120,10 @@ function setInactiveStatus(config: RumdlConfig): void {
   statusBar.setDisconnected(config.enable ? 'Not running' : 'Disabled in settings');
 }
 
-async function reconcileClientState(config: RumdlConfig): Promise<void> {
+async function reconcileClientState(
+  config: RumdlConfig,
+  event?: vscode.ConfigurationChangeEvent
+): Promise<void> {
   if (!shouldRunLanguageServer(config.enable, vscode.workspace.isTrusted)) {
     // Stop even when the client is between crash-recovery attempts: stop()
     // also invalidates any pending restart timer.
@@ -119,14 +132,24 @@ async function reconcileClientState(config: RumdlConfig): Promise<void> {
     return;
   }
 
+  if (event) {
+    // Settings the server can take live skip the restart, which would
+    // re-index the workspace and make diagnostics flicker.
+    await client.applySettingsChange(event);
+    return;
+  }
+
   // restart() handles both a running client and a previous failed/stopped
   // instance, so configuration changes always get a genuine retry.
   await client.restart();
 }
 
-function enqueueReconciliation(config: RumdlConfig): Promise<void> {
+function enqueueReconciliation(
+  config: RumdlConfig,
+  event?: vscode.ConfigurationChangeEvent
+): Promise<void> {
   reconciliationQueue = reconciliationQueue
-    .then(() => reconcileClientState(config))
+    .then(() => reconcileClientState(config, event))
     .catch(error => {
       Logger.error('Failed to reconcile rumdl language server state', error as Error);
       statusBar.setError('Failed to apply settings');
@@ -139,12 +162,13 @@ function registerEventHandlers(context: vscode.ExtensionContext): void {
   const workspaceFoldersWatcher = vscode.workspace.onDidChangeWorkspaceFolders(async event => {
     Logger.info(`Workspace folders changed: +${event.added.length}, -${event.removed.length}`);
 
-    // Restart server to pick up new workspace configuration
-    if (
-      client.isRunning() &&
-      shouldRunLanguageServer(ConfigurationManager.isEnabled(), vscode.workspace.isTrusted)
-    ) {
-      await client.restart();
+    // Start servers for added folders and stop those of removed ones
+    if (shouldRunLanguageServer(ConfigurationManager.isEnabled(), vscode.workspace.isTrusted)) {
+      try {
+        await client.syncWorkspaceFolders();
+      } catch (error) {
+        Logger.error('Failed to update language servers for workspace folders', error as Error);
+      }
     }
   });
 
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { ConfigValidator } from './configValidator';
+import { RULE_ALIASES, RULE_DOCS, RULE_NAMES } from './configSchema';
+import { formatRuleDoc } from './configHover';
+
+// Comment keywords that take a list of rules, in either the rumdl or the
+// markdownlint spelling; longer keywords first so the alternation picks them
+const DIRECTIVE_KEYWORDS = [
+  'disable-next-line',
+  'disable-line',
+  'disable-file',
+  'enable-file',
+  'disable',
+  'enable',
+];
+const DIRECTIVE_PREFIX = `<!--\\s*(?:rumdl|markdownlint)-(?:${DIRECTIVE_KEYWORDS.join('|')})`;
+const DIRECTIVE_PATTERN = new RegExp(`${DIRECTIVE_PREFIX}(?=[\\s,]|-->)(.*?)-->`, 'g');
+// The start of a directive the cursor is still typing rules into
+const OPEN_DIRECTIVE_PATTERN = new RegExp(`${DIRECTIVE_PREFIX}[\\s,]((?:(?!-->).)*)$`);
+
+/** A rule named in an inline disable/enable comment, and where it is written */
+export interface DirectiveRule {
+  name: string;
+  line: number;
+  start: number;
+  end: number;
+}
+
+/** A rule name rumdl doesn't know, with the closest one it does */
+export interface UnknownDirectiveRule extends DirectiveRule {
+  suggestion?: string;
+}
+
+/**
+ * Find the rules named in `<!-- rumdl-disable MD013 -->` style comments, and
+ * their markdownlint equivalents, outside fenced code blocks. Rules are
+ * separated by spaces or commas.
+ */
+export function findDirectiveRules(text: string): DirectiveRule[] {
+  const rules: DirectiveRule[] = [];
+  const lines = text.split('\n');
+  const inCode = fencedCodeLines(lines);
+
+  for (let line = 0; line < lines.length; line++) {
+    if (inCode[line] || /^ {0,3}(?:`{3,}|~{3,})/.test(lines[line])) {
+      continue;
+    }
+
+    for (const match of lines[line].matchAll(DIRECTIVE_PATTERN)) {
+      const listStart = match.index + match[0].length - 3 - match[1].length;
+      for (const name of match[1].matchAll(/[^\s,]+/g)) {
+        const start = listStart + name.index;
+        rules.push({ name: name[0], line, start, end: start + name[0].length });
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * Which lines are inside a fenced code block, where an HTML comment is code
+ * rather than a directive: the content and closing fence, but not the
+ * opening fence.
+ */
+export function fencedCodeLines(lines: string[]): boolean[] {
+  const inCode: boolean[] = [];
+  let fence: string | undefined;
+  for (const text of lines) {
+    inCode.push(fence !== undefined);
+    const marker = text.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+    if (!marker) {
+      continue;
+    }
+    if (!fence) {
+      fence = marker;
+    } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+      fence = undefined;
+    }
+  }
+  return inCode;
+}
+
+/**
+ * The rules named in inline comments that are neither a rule code nor an
+ * alias rumdl accepts, so the comment silently leaves them alone.
+ */
+export function findUnknownDirectiveRules(text: string): UnknownDirectiveRule[] {
+  return findDirectiveRules(text)
+    .filter(rule => !ConfigValidator.resolveRuleName(rule.name))
+    .map(rule => ({
+      ...rule,
+      suggestion: ConfigValidator.findSimilarRule(rule.name) ?? undefined,
+    }));
+}
+
+/**
+ * Completes rule codes and aliases inside inline disable/enable comments,
+ * leaving out the rules the comment already names.
+ */
+export class InlineDirectiveCompletionProvider implements vscode.CompletionItemProvider {
+  static readonly triggerCharacters = [' ', ','];
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.CompletionItem[]> {
+    const before = document.lineAt(position.line).text.substring(0, position.character);
+    const directive = before.match(OPEN_DIRECTIVE_PATTERN);
+    if (!directive) {
+      return undefined;
+    }
+
+    const words = directive[1].split(/[\s,]+/);
+    const partial = words.pop() ?? '';
+    const named = new Set(words.map(word => ConfigValidator.resolveRuleName(word)));
+    const range = new vscode.Range(
+      position.line,
+      position.character - partial.length,
+      position.line,
+      position.character
+    );
+
+    const items: vscode.CompletionItem[] = [];
+    const add = (label: string, code: string, sortGroup: number, detail?: string) => {
+      if (named.has(code)) {
+        return;
+      }
+      const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
+      item.range = range;
+      item.sortText = `${sortGroup}${label}`;
+      item.detail = detail;
+      item.documentation = formatRuleDoc(code);
+      items.push(item);
+    };
+    for (const code of RULE_NAMES) {
+      add(code, code, 1, RULE_DOCS[code]?.name);
+    }
+    for (const [alias, code] of Object.entries(RULE_ALIASES)) {
+      add(alias, code, 2, code);
+    }
+    return items;
+  }
+}
@@ -0,0 +1,409 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Node as JsonNode, ParseError, parseTree, printParseErrorCode } from 'jsonc-parser';
+import { Document, isMap, isNode, isScalar, parseDocument, YAMLMap } from 'yaml';
+import {
+  ConfigValidationResult,
+  ConfigValidator,
+  RuleOptionSource,
+  ValidationError,
+} from './configValidator';
+
+/**
+ * markdownlint config files rumdl reads when a project has no rumdl config.
+ */
+export const MARKDOWNLINT_CONFIG_FILES = [
+  '.markdownlint.json',
+  '.markdownlint.jsonc',
+  '.markdownlint.yaml',
+  '.markdownlint.yml',
+];
+
+// Rules markdownlint has removed, which rumdl does not implement either
+const REMOVED_RULES: Record<string, string> = {
+  md002: 'MD002',
+  'first-heading-h1': 'MD002',
+  'first-header-h1': 'MD002',
+  md006: 'MD006',
+  'ul-start-left': 'MD006',
+};
+
+// markdownlint tags, which enable or disable a group of rules at once. rumdl
+// ignores them (checked with 0.1.86 and 0.2.55); `line_length` only works as
+// MD013's alias
+const MARKDOWNLINT_TAGS = new Set([
+  'accessibility',
+  'atx',
+  'atx_closed',
+  'blank_lines',
+  'blockquote',
+  'bullet',
+  'code',
+  'emphasis',
+  'hard_tab',
+  'headers',
+  'headings',
+  'hr',
+  'html',
+  'images',
+  'indentation',
+  'language',
+  'line_length',
+  'links',
+  'ol',
+  'spaces',
+  'spelling',
+  'table',
+  'ul',
+  'url',
+  'whitespace',
+]);
+
+/**
+ * A key of a JSON object or YAML mapping, with its offset in the file. Object
+ * values carry their own entries so option keys can be located too.
+ */
+interface ConfigEntry {
+  key: string;
+  offset: number;
+  value: unknown;
+  entries?: ConfigEntry[];
+}
+
+/**
+ * A top-level setting of a markdownlint config and its line; an object value
+ * also lists its options.
+ */
+export interface MarkdownlintSetting {
+  key: string;
+  value: unknown;
+  line: number;
+  options?: MarkdownlintSetting[];
+}
+
+/**
+ * Validator for the markdownlint config files rumdl imports. rumdl skips a
+ * file it cannot parse, and ignores keys it does not understand, without
+ * telling the user; this reports both, at the position they occur.
+ */
+export class MarkdownlintConfigValidator {
+  /**
+   * Check if a file name is one of the markdownlint configs rumdl reads
+   */
+  static isMarkdownlintConfig(fileName: string): boolean {
+    return MARKDOWNLINT_CONFIG_FILES.includes(path.basename(fileName));
+  }
+
+  /**
+   * Validate a markdownlint config. The format follows the file name: strict
+   * JSON for .markdownlint.json, JSON with comments for .markdownlint.jsonc,
+   * and YAML otherwise.
+   */
+  static validate(
+    content: string,
+    fileName: string,
+    ruleOptions?: RuleOptionSource
+  ): ConfigValidationResult {
+    const errors: ValidationError[] = [];
+    const lineStarts = this.computeLineStarts(content);
+    const at = (offset: number, message: string, severity: vscode.DiagnosticSeverity) => {
+      const position = this.positionAt(lineStarts, offset);
+      errors.push({ ...position, message, severity });
+    };
+
+    const baseName = path.basename(fileName);
+    const entries =
+      baseName.endsWith('.json') || baseName.endsWith('.jsonc')
+        ? this.parseJson(content, baseName, at)
+        : this.parseYaml(content, at);
+
+    if (entries === null) {
+      at(
+        0,
+        'A markdownlint config must be an object of rule settings',
+        vscode.DiagnosticSeverity.Error
+      );
+    }
+
+    for (const entry of entries ?? []) {
+      this.validateEntry(entry, at, errors, lineStarts, ruleOptions);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Read the settings of a markdownlint config, or undefined when rumdl
+   * would skip the file: it does not parse, or is not an object.
+   */
+  static readSettings(content: string, fileName: string): MarkdownlintSetting[] | undefined {
+    const baseName = path.basename(fileName);
+    let failed = false;
+    const fail = () => {
+      failed = true;
+    };
+    const entries =
+      baseName.endsWith('.json') || baseName.endsWith('.jsonc')
+        ? this.parseJson(content, baseName, fail)
+        : this.parseYaml(content, fail);
+    if (failed || !entries) {
+      return undefined;
+    }
+
+    const lineStarts = this.computeLineStarts(content);
+    const toSetting = (entry: ConfigEntry): MarkdownlintSetting => ({
+      key: entry.key,
+      value: entry.value,
+      line: this.positionAt(lineStarts, entry.offset).line,
+      options: entry.entries?.map(toSetting),
+    });
+    return entries.map(toSetting);
+  }
+
+  /**
+   * Parse JSON, reporting syntax errors. Returns the top-level entries,
+   * null when the document is not an object, or undefined when it could not
+   * be parsed far enough to tell.
+   */
+  private static parseJson(
+    content: string,
+    baseName: string,
+    at: (offset: number, message: string, severity: vscode.DiagnosticSeverity) => void
+  ): ConfigEntry[] | null | undefined {
+    const jsonc = baseName === '.markdownlint.jsonc';
+    const parseErrors: ParseError[] = [];
+    const root = parseTree(content, parseErrors, {
+      disallowComments: !jsonc,
+      allowTrailingComma: jsonc,
+    });
+
+    const reported = new Set<number>();
+    for (const error of parseErrors) {
+      if (reported.has(error.offset)) {
+        continue;
+      }
+      reported.add(error.offset);
+      at(
+        error.offset,
+        this.describeJsonError(content, error, baseName),
+        vscode.DiagnosticSeverity.Error
+      );
+    }
+
+    // Trailing commas are valid JSONC, but rumdl (checked up to 0.2.55) cannot
+    // read them and skips the whole file without a word
+    if (jsonc) {
+      const strictErrors: ParseError[] = [];
+      parseTree(content, strictErrors, { allowTrailingComma: false });
+      for (const error of strictErrors) {
+        if (!reported.has(error.offset) && this.isTrailingComma(content, error)) {
+          reported.add(error.offset);
+          at(
+            error.offset,
+            'rumdl ignores this file because of the trailing comma, though markdownlint accepts it',
+            vscode.DiagnosticSeverity.Warning
+          );
+        }
+      }
+    }
+
+    if (!root) {
+      return parseErrors.length > 0 ? undefined : null;
+    }
+    return root.type === 'object' ? this.jsonEntries(root) : null;
+  }
+
+  private static describeJsonError(content: string, error: ParseError, baseName: string): string {
+    const code = printParseErrorCode(error.error);
+    if (code === 'InvalidCommentToken') {
+      return `Comments are not allowed in ${baseName}; rename it to .markdownlint.jsonc to use them`;
+    }
+    if (this.isTrailingComma(content, error)) {
+      return `Trailing commas are not allowed in ${baseName}`;
+    }
+    // 'CloseBraceExpected' -> 'close brace expected'
+    const problem = code.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+    return `Invalid JSON: ${problem}`;
+  }
+
+  private static isTrailingComma(content: string, error: ParseError): boolean {
+    const code = printParseErrorCode(error.error);
+    return (
+      (code === 'PropertyNameExpected' || code === 'ValueExpected') &&
+      content.substring(0, error.offset).trimEnd().endsWith(',')
+    );
+  }
+
+  private static jsonEntries(node: JsonNode): ConfigEntry[] {
+    const entries: ConfigEntry[] = [];
+    for (const property of node.children ?? []) {
+      const [keyNode, valueNode] = property.children ?? [];
+      if (!keyNode || !valueNode) {
+        continue;
+      }
+      entries.push({
+        key: String(keyNode.value),
+        offset: keyNode.offset,
+        value: this.jsonValue(valueNode),
+        entries: valueNode.type === 'object' ? this.jsonEntries(valueNode) : undefined,
+      });
+    }
+    return entries;
+  }
+
+  private static jsonValue(node: JsonNode): unknown {
+    switch (node.type) {
+      case 'object':
+        return Object.fromEntries(this.jsonEntries(node).map(entry => [entry.key, entry.value]));
+      case 'array':
+        return (node.children ?? []).map(child => this.jsonValue(child));
+      default:
+        return node.value;
+    }
+  }
+
+  /**
+   * Parse YAML, reporting syntax errors, with the same result as parseJson.
+   */
+  private static parseYaml(
+    content: string,
+    at: (offset: number, message: string, severity: vscode.DiagnosticSeverity) => void
+  ): ConfigEntry[] | null | undefined {
+    const document = parseDocument(content);
+    for (const error of document.errors) {
+      // The library appends the position and a code excerpt to the message
+      const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+      at(error.pos[0], `Invalid YAML: ${message}`, vscode.DiagnosticSeverity.Error);
+    }
+    if (document.errors.length > 0) {
+      return undefined;
+    }
+
+    // An empty file configures nothing, which is fine
+    if (document.contents === null) {
+      return [];
+    }
+    return isMap(document.contents) ? this.yamlEntries(document.contents, document) : null;
+  }
+
+  private static yamlEntries(map: YAMLMap, document: Document): ConfigEntry[] {
+    const entries: ConfigEntry[] = [];
+    for (const pair of map.items) {
+      if (!isScalar(pair.key)) {
+        continue;
+      }
+      const value = pair.value;
+      entries.push({
+        key: String(pair.key.value),
+        offset: pair.key.range?.[0] ?? 0,
+        value: isNode(value) ? value.toJS(document) : (value ?? null),
+        entries: isMap(value) ? this.yamlEntries(value, document) : undefined,
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Validate one top-level key: `default`, `extends`, `$schema`, or a rule.
+   */
+  private static validateEntry(
+    entry: ConfigEntry,
+    at: (offset: number, message: string, severity: vscode.DiagnosticSeverity) => void,
+    errors: ValidationError[],
+    lineStarts: number[],
+    ruleOptions?: RuleOptionSource
+  ): void {
+    const { key, value } = entry;
+    if (key === '$schema') {
+      return;
+    }
+    if (key === 'default') {
+      if (typeof value !== 'boolean') {
+        at(
+          entry.offset,
+          "Property 'default' must be true or false",
+          vscode.DiagnosticSeverity.Error
+        );
+      }
+      return;
+    }
+    if (key === 'extends') {
+      // rumdl reads the file on its own (checked with 0.1.86 and 0.2.55)
+      at(
+        entry.offset,
+        "rumdl does not follow 'extends' in markdownlint configs; settings from the base file are not applied",
+        vscode.DiagnosticSeverity.Warning
+      );
+      return;
+    }
+
+    const ruleCode = ConfigValidator.resolveRuleName(key);
+    if (!ruleCode) {
+      at(entry.offset, this.describeUnknownKey(key), vscode.DiagnosticSeverity.Warning);
+      return;
+    }
+
+    if (typeof value !== 'boolean' && !entry.entries) {
+      at(
+        entry.offset,
+        `Rule '${key}' must be true, false or an object of options`,
+        vscode.DiagnosticSeverity.Error
+      );
+      return;
+    }
+
+    if (ruleOptions) {
+      for (const option of entry.entries ?? []) {
+        const { line, column } = this.positionAt(lineStarts, option.offset);
+        ConfigValidator.validateRuleOption(
+          ruleCode,
+          option.key,
+          option.value,
+          line,
+          errors,
+          ruleOptions,
+          column
+        );
+      }
+    }
+  }
+
+  private static describeUnknownKey(key: string): string {
+    const removed = REMOVED_RULES[key.toLowerCase()];
+    if (removed) {
+      const name = key.toUpperCase() === removed ? removed : `${removed} ('${key}')`;
+      return `Rule ${name} was removed from markdownlint and is not supported by rumdl`;
+    }
+    if (MARKDOWNLINT_TAGS.has(key.toLowerCase())) {
+      return `rumdl does not support markdownlint tags; list the rules in '${key}' individually`;
+    }
+    const suggestion = ConfigValidator.findSimilarRule(key);
+    return suggestion
+      ? `Unknown rule '${key}'. Did you mean '${suggestion}'?`
+      : `Unknown rule '${key}'; rumdl ignores this setting`;
+  }
+
+  private static computeLineStarts(content: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+
+  private static positionAt(
+    lineStarts: number[],
+    offset: number
+  ): { line: number; column: number } {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return { line, column: offset - lineStarts[line] };
+  }
+}
@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BundledToolsManager } from './bundledTools';
+import { ConfigurationManager } from './configuration';
+import { findingRuleCode } from './ruleFindings';
+import { documentRuleLists, isRuleEnabled } from './ruleSettings';
+import { Logger, runRumdl } from './utils';
+
+export const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell';
+
+/** Rules about the start and end of a file, which a cell is neither */
+const SKIPPED_CELL_RULES = ['MD041', 'MD047'];
+
+/**
+ * Rules about the headings of a whole document, checked across the cells:
+ * heading increments, duplicate headings and a single top-level heading
+ */
+export const NOTEBOOK_RULES = ['MD001', 'MD024', 'MD025'];
+
+/** Where a cell's text is in the joined text of the notebook */
+export interface CellSpan {
+  /** The cell's index among the joined cells */
+  index: number;
+  line: number;
+  lineCount: number;
+  offset: number;
+  length: number;
+}
+
+/** The Markdown cells of a notebook as one document, a blank line apart */
+export interface JoinedCells {
+  text: string;
+  spans: CellSpan[];
+}
+
+/** A warning of `rumdl check --output-format json` */
+export interface CheckWarning {
+  line: number;
+  column: number;
+  rule: string;
+  message: string;
+  severity: string;
+  /** A UTF-8 byte range of the checked text and what replaces it */
+  fix?: { range: { start: number; end: number }; replacement: string };
+}
+
+/** A change to the text of one cell */
+export interface CellEdit {
+  index: number;
+  range: vscode.Range;
+  newText: string;
+}
+
+/**
+ * Join the texts of the Markdown cells of a notebook, so that rules about a
+ * whole document see them in order.
+ */
+export function joinCells(texts: string[]): JoinedCells {
+  const spans: CellSpan[] = [];
+  let line = 0;
+  let offset = 0;
+  texts.forEach((text, index) => {
+    const lineCount = text.split('\n').length;
+    spans.push({ index, line, lineCount, offset, length: text.length });
+    line += lineCount + 1;
+    offset += text.length + 2;
+  });
+  return { text: texts.join('\n\n'), spans };
+}
+
+/** The cell holding a zero-based line of the joined text, and the line in it */
+export function cellAtLine(
+  joined: JoinedCells,
+  line: number
+): { span: CellSpan; line: number } | undefined {
+  const span = joined.spans.find(s => line >= s.line && line < s.line + s.lineCount);
+  return span ? { span, line: line - span.line } : undefined;
+}
+
+/** Parse the output of `rumdl check --output-format json`; undefined if it is not */
+export function parseCheckOutput(stdout: string): CheckWarning[] | undefined {
+  try {
+    const parsed: unknown = JSON.parse(stdout);
+    return Array.isArray(parsed) && parsed.every(isCheckWarning) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isCheckWarning(value: unknown): value is CheckWarning {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const warning = value as Record<string, unknown>;
+  const fix = warning.fix as Record<string, unknown> | undefined | null;
+  const range = fix?.range as Record<string, unknown> | undefined | null;
+  return (
+    typeof warning.line === 'number' &&
+    typeof warning.column === 'number' &&
+    typeof warning.rule === 'string' &&
+    typeof warning.message === 'string' &&
+    typeof warning.severity === 'string' &&
+    (fix === undefined ||
+      fix === null ||
+      (typeof range?.start === 'number' &&
+        typeof range.end === 'number' &&
+        typeof fix.replacement === 'string'))
+  );
+}
+
+/**
+ * Diagnostics for the cells of a notebook from the findings of
+ * {@link NOTEBOOK_RULES} in their joined text, by cell index.
+ */
+export function notebookFindings(
+  joined: JoinedCells,
+  warnings: CheckWarning[]
+): Map<number, vscode.Diagnostic[]> {
+  const lines = joined.text.split('\n');
+  const findings = new Map<number, vscode.Diagnostic[]>();
+  for (const warning of warnings) {
+    const cell = NOTEBOOK_RULES.includes(warning.rule)
+      ? cellAtLine(joined, warning.line - 1)
+      : undefined;
+    if (!cell) {
+      continue;
+    }
+    const end = lines[warning.line - 1]?.length ?? 0;
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(cell.line, Math.max(0, warning.column - 1), cell.line, end),
+      warning.message,
+      warning.severity === 'error'
+        ? vscode.DiagnosticSeverity.Error
+        : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = 'rumdl';
+    diagnostic.code = warning.rule;
+    findings.set(cell.span.index, [...(findings.get(cell.span.index) ?? []), diagnostic]);
+  }
+  return findings;
+}
+
+/**
+ * The findings the language server reports for a lone cell that make sense
+ * for one: none about the start and end of a file, and none of the rules
+ * checked across the notebook.
+ */
+export function cellFindings<T extends vscode.Diagnostic>(uri: vscode.Uri, diagnostics: T[]): T[] {
+  if (uri.scheme !== NOTEBOOK_CELL_SCHEME) {
+    return diagnostics;
+  }
+  const skipped = [...SKIPPED_CELL_RULES, ...NOTEBOOK_RULES];
+  return diagnostics.filter(diagnostic => !skipped.includes(findingRuleCode(diagnostic) ?? ''));
+}
+
+/**
+ * The fixes of `warnings` as edits of the cells they fall in. Fixes that
+ * cross into another cell, overlap an earlier fix, or are about the start
+ * and end of a file are left out.
+ */
+export function cellFixEdits(joined: JoinedCells, warnings: CheckWarning[]): CellEdit[] {
+  const bytes = Buffer.from(joined.text);
+  const toOffset = (byte: number) => bytes.subarray(0, byte).toString().length;
+
+  const fixes = warnings
+    .filter(warning => warning.fix && !SKIPPED_CELL_RULES.includes(warning.rule))
+    .map(warning => ({
+      start: toOffset(warning.fix!.range.start),
+      end: toOffset(warning.fix!.range.end),
+      newText: warning.fix!.replacement,
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const edits: CellEdit[] = [];
+  let previousEnd = -1;
+  for (const fix of fixes) {
+    const span = joined.spans.find(s => fix.start >= s.offset && fix.end <= s.offset + s.length);
+    if (!span || fix.start < previousEnd) {
+      continue;
+    }
+    previousEnd = Math.max(fix.end, fix.start + 1);
+    const text = joined.text.substring(span.offset, span.offset + span.length);
+    edits.push({
+      index: span.index,
+      range: new vscode.Range(
+        positionAt(text, fix.start - span.offset),
+        positionAt(text, fix.end - span.offset)
+      ),
+      newText: fix.newText,
+    });
+  }
+  return edits;
+}
+
+function positionAt(text: string, offset: number): vscode.Position {
+  const before = text.substring(0, offset).split('\n');
+  return new vscode.Position(before.length - 1, before[before.length - 1].length);
+}
+
+/** The Markdown cells of a notebook, in order */
+export function markdownCells(notebook: vscode.NotebookDocument): vscode.NotebookCell[] {
+  return notebook
+    .getCells()
+    .filter(
+      cell =>
+        cell.kind === vscode.NotebookCellKind.Markup && cell.document.languageId === 'markdown'
+    );
+}
+
+/**
+ * Whether rumdl.lint.schemes lints a notebook: its cells, and notebooks of
+ * its own scheme, such as `untitled` or `vscode-vfs`.
+ */
+export function isNotebookLinted(notebook: vscode.NotebookDocument): boolean {
+  const schemes = ConfigurationManager.getConfiguration(notebook.uri).lint.schemes;
+  return schemes.includes(NOTEBOOK_CELL_SCHEME) && schemes.includes(notebook.uri.scheme);
+}
+
+/**
+ * Check the Markdown cells of a notebook as one document with the rumdl
+ * binary, with the config that applies to the notebook file. Notebooks
+ * without a local path are checked without one. Undefined when the binary
+ * can't be run or its output can't be read.
+ */
+export async function checkNotebook(
+  notebook: vscode.NotebookDocument,
+  cells: vscode.NotebookCell[]
+): Promise<{ joined: JoinedCells; warnings: CheckWarning[] } | undefined> {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(notebook.uri);
+  const folder = workspaceFolder?.uri.scheme === 'file' ? workspaceFolder : undefined;
+  const config = ConfigurationManager.getConfiguration(notebook.uri);
+  const rumdlPath = await BundledToolsManager.getBestRumdlPath(config.server.path, folder);
+  // rumdl finds its config from the working directory
+  const cwd =
+    notebook.uri.scheme === 'file' ? path.dirname(notebook.uri.fsPath) : folder?.uri.fsPath;
+
+  const joined = joinCells(cells.map(cell => cell.document.getText()));
+  const args = ['check', '--stdin', '--output-format', 'json', '--color', 'never'];
+  if (notebook.uri.scheme === 'file') {
+    // Named as the Markdown it is, for the per-file settings of Markdown files
+    const { dir, name } = path.parse(notebook.uri.fsPath);
+    args.push('--stdin-filename', path.join(dir, `${name}.md`));
+  }
+  if (!cwd) {
+    args.push('--no-config');
+  } else if (config.configPath && config.configPath.trim() !== '') {
+    args.push('--config', path.resolve(folder?.uri.fsPath ?? cwd ?? '', config.configPath));
+  }
+
+  const result = await runRumdl(rumdlPath, args, { cwd, input: joined.text });
+  const warnings = result ? parseCheckOutput(result.stdout) : undefined;
+  if (!warnings) {
+    Logger.warn(`Could not check notebook ${notebook.uri.toString()}: ${result?.stderr ?? ''}`);
+    return undefined;
+  }
+  // The binary knows the config file, not the rumdl.rules settings
+  const lists = documentRuleLists(notebook.uri, 'markdown');
+  return { joined, warnings: warnings.filter(warning => isRuleEnabled(warning.rule, lists)) };
+}
+
+/**
+ * Apply every fix rumdl has for the Markdown cells of a notebook, checking
+ * again after each round until nothing changes. Resolves to the number of
+ * fixes applied.
+ */
+export async function fixNotebook(notebook: vscode.NotebookDocument): Promise<number> {
+  let applied = 0;
+  // Fixes that overlap wait for the next round
+  for (let round = 0; round < 5; round++) {
+    const cells = markdownCells(notebook);
+    const checked = await checkNotebook(notebook, cells);
+    const edits = checked ? cellFixEdits(checked.joined, checked.warnings) : [];
+    if (edits.length === 0) {
+      break;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const { index, range, newText } of edits) {
+      edit.replace(cells[index].document.uri, range, newText);
+    }
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error('Failed to apply fixes');
+    }
+    applied += edits.length;
+  }
+  return applied;
+}
@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import { BundledToolsManager } from './bundledTools';
+import { RuleOptionSource } from './configValidator';
+import { Logger, getRumdlVersion, runRumdl } from './utils';
+
+/**
+ * What the rumdl binary reports about one rule: the metadata from
+ * `rumdl rule -o json` plus the default of every option the rule accepts,
+ * taken from `rumdl config --defaults --output json`.
+ */
+export interface RuleInfo {
+  code: string;
+  name: string;
+  aliases: string[];
+  summary: string;
+  category: string;
+  fixAvailability: string;
+  url: string | undefined;
+  /**
+   * Default value of each option, keyed by its canonical kebab-case name.
+   * Undefined when the defaults have no section for the rule, which leaves
+   * its options unknown.
+   */
+  options: Record<string, unknown> | undefined;
+}
+
+/**
+ * Combine the output of `rumdl rule -o json` and `rumdl config --defaults
+ * --output json` into one entry per rule. The defaults leave out most rules
+ * without options, but not every one of them is known to have none.
+ *
+ * Exported so tests can verify the mapping without a rumdl binary.
+ */
+export function parseRuleCatalog(rulesJson: string, defaultsJson: string): Map<string, RuleInfo> {
+  const rules = JSON.parse(rulesJson) as Array<Record<string, unknown>>;
+  const defaults = JSON.parse(defaultsJson) as Record<string, unknown>;
+  // Older releases nested rule sections under `rules`; current ones put each
+  // MD### section at the top level next to `global`.
+  const sections = {
+    ...(asTable(defaults.rules) ?? {}),
+    ...defaults,
+  };
+
+  const catalog = new Map<string, RuleInfo>();
+  for (const rule of rules) {
+    const code = String(rule.code);
+    catalog.set(code, {
+      code,
+      name: typeof rule.name === 'string' ? rule.name : '',
+      aliases: Array.isArray(rule.aliases) ? rule.aliases.map(String) : [],
+      summary: typeof rule.summary === 'string' ? rule.summary : '',
+      category: typeof rule.category === 'string' ? rule.category : '',
+      fixAvailability: typeof rule.fix_availability === 'string' ? rule.fix_availability : '',
+      url: typeof rule.url === 'string' ? rule.url : undefined,
+      options: asTable(sections[code]),
+    });
+  }
+  return catalog;
+}
+
+function asTable(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * The rules, and their options, known to one rumdl binary.
+ *
+ * The schema rumdl publishes does not describe rule options, so the binary
+ * is asked directly. Answers are cached per binary and version: the config
+ * files of a folder are validated against the same catalog until the binary
+ * resolved for it changes.
+ */
+export class RuleCatalog implements RuleOptionSource {
+  private static readonly catalogs = new Map<string, Promise<RuleCatalog | undefined>>();
+
+  // Results of asking the binary whether a string option value is valid,
+  // keyed by `rule.option=value`; null means the binary accepted it.
+  private readonly valueProblems = new Map<string, string | null>();
+  private readonly pendingProbes = new Map<
+    string,
+    { rule: string; option: string; value: string }
+  >();
+  // Whether the binary accepts an option name its defaults leave out, such
+  // as an alias, keyed by `rule.option`
+  private readonly optionNames = new Map<string, boolean>();
+  private readonly pendingNames = new Map<string, { rule: string; option: string }>();
+
+  private constructor(
+    public readonly version: string,
+    private readonly rumdlPath: string,
+    private readonly cwd: string | undefined,
+    private readonly rules: Map<string, RuleInfo>
+  ) {}
+
+  /**
+   * Load the catalog for the binary the language server serving `resource`
+   * uses. Returns undefined in an untrusted workspace, where running a
+   * workspace-local binary is not allowed, and when the binary cannot be
+   * queried.
+   */
+  static async load(resource?: vscode.Uri): Promise<RuleCatalog | undefined> {
+    if (!vscode.workspace.isTrusted) {
+      return undefined;
+    }
+
+    const { rumdlPath, folder } = await BundledToolsManager.getRumdlPathFor(resource);
+    return this.forBinary(rumdlPath, folder?.uri.fsPath);
+  }
+
+  /**
+   * Load the catalog for a specific binary, reusing the answer already
+   * obtained for the same binary at the same rumdl version.
+   */
+  static async forBinary(rumdlPath: string, cwd?: string): Promise<RuleCatalog | undefined> {
+    const version = await getRumdlVersion(rumdlPath, cwd);
+    if (!version) {
+      return undefined;
+    }
+
+    const key = `${rumdlPath}\n${version}`;
+    let catalog = this.catalogs.get(key);
+    if (!catalog) {
+      catalog = this.query(version, rumdlPath, cwd);
+      this.catalogs.set(key, catalog);
+    }
+
+    const result = await catalog;
+    if (!result) {
+      // Don't pin a failed query; the next load should try again.
+      this.catalogs.delete(key);
+    }
+    return result;
+  }
+
+  private static async query(
+    version: string,
+    rumdlPath: string,
+    cwd: string | undefined
+  ): Promise<RuleCatalog | undefined> {
+    const [rules, defaults] = await Promise.all([
+      runRumdl(rumdlPath, ['rule', '-o', 'json'], { cwd }),
+      runRumdl(rumdlPath, ['config', '--defaults', '--no-config', '--output', 'json'], { cwd }),
+    ]);
+
+    if (rules?.code !== 0 || defaults?.code !== 0) {
+      Logger.warn(`Could not query rule options from ${rumdlPath} (${version})`);
+      return undefined;
+    }
+
+    try {
+      const catalog = parseRuleCatalog(rules.stdout, defaults.stdout);
+      Logger.info(`Loaded options for ${catalog.size} rules from ${version}`);
+      return new RuleCatalog(version, rumdlPath, cwd, catalog);
+    } catch (error) {
+      Logger.error(`Failed to parse rule options from ${version}`, error as Error);
+      return undefined;
+    }
+  }
+
+  getRule(ruleCode: string): RuleInfo | undefined {
+    return this.rules.get(ruleCode);
+  }
+
+  getRules(): RuleInfo[] {
+    return [...this.rules.values()];
+  }
+
+  getRuleOptions(ruleCode: string): Record<string, unknown> | undefined {
+    return this.rules.get(ruleCode)?.options;
+  }
+
+  /**
+   * The binary's complaint about a string option value, if it has one. The
+   * allowed values of a string option are not published anywhere, so an
+   * unseen value is queued for {@link probePending} and reported as valid
+   * until the binary has been asked.
+   */
+  getValueProblem(ruleCode: string, option: string, value: string): string | undefined {
+    const key = `${ruleCode}.${option}=${value}`;
+    if (this.valueProblems.has(key)) {
+      return this.valueProblems.get(key) ?? undefined;
+    }
+    this.pendingProbes.set(key, { rule: ruleCode, option, value });
+    return undefined;
+  }
+
+  /**
+   * Whether the binary accepts an option name the defaults do not list.
+   * rumdl accepts aliases (e.g. `allowed` for MD033's `allowed-elements`)
+   * that are not published anywhere, so an unseen name is queued for
+   * {@link probePending} and undefined until the binary has been asked.
+   */
+  isKnownOption(ruleCode: string, option: string): boolean | undefined {
+    const key = `${ruleCode}.${option}`;
+    if (this.optionNames.has(key)) {
+      return this.optionNames.get(key);
+    }
+    this.pendingNames.set(key, { rule: ruleCode, option });
+    return undefined;
+  }
+
+  hasPendingProbes(): boolean {
+    return this.pendingProbes.size > 0 || this.pendingNames.size > 0;
+  }
+
+  /**
+   * Ask the binary about every queued option name and value by linting an
+   * empty document with them as inline config overrides, e.g.
+   * `--config 'MD003.style = "atx"'`. rumdl names each option it does not
+   * know, so one run asks about every name; it names only the rule of a
+   * value it rejects, so one run asks about one value of each rule. Resolves
+   * to whether anything was rejected, i.e. whether validation results change.
+   */
+  async probePending(): Promise<boolean> {
+    let rejected = await this.probeNames();
+
+    let probes = [...this.pendingProbes.entries()].filter(([key]) => !this.valueProblems.has(key));
+    this.pendingProbes.clear();
+
+    while (probes.length > 0) {
+      const batch = new Map(probes.map(([key, probe]) => [probe.rule, { key, ...probe }]));
+      probes = probes.filter(([key, { rule }]) => batch.get(rule)?.key !== key);
+
+      const overrides = [...batch.values()].flatMap(({ rule, option, value }) => [
+        '--config',
+        `${rule}.${option} = ${JSON.stringify(value)}`,
+      ]);
+      const result = await runRumdl(
+        this.rumdlPath,
+        ['check', '--stdin', '--no-config', '--color', 'never', ...overrides],
+        { cwd: this.cwd }
+      );
+      const output = result ? `${result.stdout}\n${result.stderr}` : '';
+      for (const { key, rule } of batch.values()) {
+        const match = output.match(new RegExp(`Invalid configuration for rule ${rule}: (.+)`));
+        this.valueProblems.set(key, match ? match[1].trim() : null);
+        rejected = rejected || match !== null;
+      }
+    }
+    return rejected;
+  }
+
+  private async probeNames(): Promise<boolean> {
+    const names = [...this.pendingNames.entries()].filter(([key]) => !this.optionNames.has(key));
+    this.pendingNames.clear();
+    if (names.length === 0) {
+      return false;
+    }
+
+    // Any value does: an unknown name is reported whatever its value
+    const overrides = names.flatMap(([, { rule, option }]) => [
+      '--config',
+      `${rule}.${JSON.stringify(option)} = true`,
+    ]);
+    const result = await runRumdl(
+      this.rumdlPath,
+      ['check', '--stdin', '--no-config', '--color', 'never', ...overrides],
+      { cwd: this.cwd }
+    );
+    if (!result) {
+      return false;
+    }
+    const output = `${result.stdout}\n${result.stderr}`;
+    const unknown = new Set(
+      [...output.matchAll(/Unknown option for rule (MD\d+): (\S+)/g)].map(m => `${m[1]}.${m[2]}`)
+    );
+    let rejected = false;
+    for (const [key] of names) {
+      this.optionNames.set(key, !unknown.has(key));
+      rejected = rejected || unknown.has(key);
+    }
+    return rejected;
+  }
+}
@@ -0,0 +1,435 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BundledToolsManager } from './bundledTools';
+import { ConfigValidator } from './configValidator';
+import { RULE_DOCS } from './configSchema';
+import {
+  EffectiveConfig,
+  configFileFor,
+  formatTomlValue,
+  resolveEffectiveConfig,
+} from './effectiveConfig';
+import { RuleCatalog } from './ruleCatalog';
+import { findingRuleCode } from './ruleFindings';
+import { Logger, getRumdlVersion, runRumdl } from './utils';
+
+export const EXPLAIN_RULE_COMMAND = 'rumdl.explainRule';
+
+/**
+ * What `rumdl rule -o json --explain` reports about one rule. `explanation`
+ * is the rule's Markdown documentation, which not every build of rumdl
+ * ships.
+ */
+export interface RuleDocumentation {
+  code: string;
+  name: string;
+  aliases: string[];
+  summary: string;
+  category: string;
+  fix: string;
+  url?: string;
+  explanation?: string;
+}
+
+/**
+ * One option of a rule: its default, the value in effect for a file, and
+ * the config file line that sets it, if one does.
+ */
+export interface RuleOptionRow {
+  name: string;
+  default: unknown;
+  value: unknown;
+  source?: { file: string; line: number };
+}
+
+/**
+ * Parse the output of `rumdl rule -o json --explain`, keyed by rule code.
+ */
+export function parseRuleDocumentation(json: string): Map<string, RuleDocumentation> {
+  const rules = JSON.parse(json) as Array<Record<string, unknown>>;
+  const docs = new Map<string, RuleDocumentation>();
+  for (const rule of rules) {
+    const text = (key: string) => (typeof rule[key] === 'string' ? (rule[key] as string) : '');
+    docs.set(String(rule.code), {
+      code: String(rule.code),
+      name: text('name'),
+      aliases: Array.isArray(rule.aliases) ? rule.aliases.map(String) : [],
+      summary: text('summary'),
+      category: text('category'),
+      fix: text('fix'),
+      url: text('url') || undefined,
+      explanation: text('explanation') || undefined,
+    });
+  }
+  return docs;
+}
+
+/**
+ * The Markdown page for a rule: its own documentation when the binary has
+ * it, else the metadata every build reports, a note that the full page
+ * needs a rumdl version that reports explanations, and a link to the
+ * website.
+ */
+export function formatRuleDocumentation(doc: RuleDocumentation): string {
+  if (doc.explanation) {
+    return doc.explanation;
+  }
+
+  const parts = [`# ${doc.code} · ${doc.name}`];
+  if (doc.summary) {
+    parts.push(doc.summary);
+  }
+  const facts: string[] = [];
+  if (doc.category) {
+    facts.push(`**Category:** ${doc.category}`);
+  }
+  if (doc.fix) {
+    facts.push(`**Fix:** ${doc.fix}`);
+  }
+  if (doc.aliases.length > 0) {
+    facts.push(`**Aliases:** ${doc.aliases.map(a => `\`${a}\``).join(', ')}`);
+  }
+  if (facts.length > 0) {
+    parts.push(facts.join('  \n'));
+  }
+  parts.push(
+    '> The rumdl version in use reports no explanation for this rule, so only its summary ' +
+      'is shown. The full documentation appears here with a rumdl version whose ' +
+      '`rumdl rule --explain` output includes explanations.'
+  );
+  if (doc.url) {
+    parts.push(`See [${doc.url}](${doc.url}) for the full documentation.`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * The options of `ruleCode`, sorted by name: every option with a default,
+ * and any the config sets that has none.
+ */
+export function ruleOptionRows(
+  ruleCode: string,
+  defaults: Record<string, unknown> | undefined,
+  config?: EffectiveConfig
+): RuleOptionRow[] {
+  const effective = config?.rules.get(ruleCode);
+  const names = new Set([...Object.keys(defaults ?? {}), ...(effective?.keys() ?? [])]);
+  return [...names].sort().map(name => {
+    const value = effective?.get(name);
+    const source = value?.sources.find(s => s.kind === 'file');
+    return {
+      name,
+      default: defaults?.[name],
+      value: value ? value.value : defaults?.[name],
+      source: source?.kind === 'file' ? { file: source.file, line: source.line } : undefined,
+    };
+  });
+}
+
+/**
+ * Point the code of each rumdl finding at the rule's page in the viewer,
+ * so the code in the hover and the Problems panel opens it.
+ */
+export function linkRuleDocumentation<T extends vscode.Diagnostic>(diagnostics: T[]): T[] {
+  for (const diagnostic of diagnostics) {
+    const code = findingRuleCode(diagnostic);
+    if (code) {
+      diagnostic.code = {
+        value: code,
+        target: vscode.Uri.parse(
+          `command:${EXPLAIN_RULE_COMMAND}?${encodeURIComponent(JSON.stringify([code]))}`
+        ),
+      };
+    }
+  }
+  return diagnostics;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Shows rule documentation in a webview. The documentation comes from the
+ * resolved rumdl binary and is cached on disk per rumdl version, so pages
+ * still open when the binary can't be run, e.g. in an untrusted workspace.
+ */
+export class RuleDocsViewer implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined;
+  private readonly loaded = new Map<string, Promise<Map<string, RuleDocumentation> | undefined>>();
+  // Config file lines the open page links to; the webview may open no others
+  private links: { file: string; line: number }[] = [];
+  // Binaries whose documentation could not be queried, warned about once
+  private readonly warned = new Set<string>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly storageUri: vscode.Uri) {}
+
+  /**
+   * Open the page for `ruleCode`, with the option values in effect for
+   * `resource`.
+   */
+  async show(ruleCode: string, resource?: vscode.Uri): Promise<void> {
+    const binary = vscode.workspace.isTrusted
+      ? await BundledToolsManager.getRumdlPathFor(resource)
+      : undefined;
+    const rumdlPath = binary?.rumdlPath;
+    const cwd = binary?.folder?.uri.fsPath;
+    const [docs, catalog] = await Promise.all([
+      this.loadDocs(rumdlPath, cwd),
+      rumdlPath ? RuleCatalog.forBinary(rumdlPath, cwd) : undefined,
+    ]);
+
+    const doc = docs?.get(ruleCode) ?? this.bundledDoc(ruleCode);
+    let config: EffectiveConfig | undefined;
+    if (resource?.scheme === 'file') {
+      config = await resolveEffectiveConfig(resource.fsPath, {
+        configPath: await configFileFor(path.dirname(resource.fsPath)),
+        ruleOptions: catalog,
+      });
+    }
+    const rows = ruleOptionRows(ruleCode, catalog?.getRuleOptions(ruleCode), config);
+
+    let panel = this.panel;
+    if (!panel) {
+      panel = vscode.window.createWebviewPanel(
+        'rumdl.ruleDocs',
+        ruleCode,
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: true, localResourceRoots: [] }
+      );
+      panel.onDidDispose(() => (this.panel = undefined), null, this.disposables);
+      panel.webview.onDidReceiveMessage(
+        (message: { link?: number }) => this.openLink(message.link),
+        null,
+        this.disposables
+      );
+      this.panel = panel;
+    }
+    panel.title = `rumdl: ${ruleCode}`;
+    panel.webview.html = await this.renderPage(panel.webview, doc, rows, config?.configFile);
+    panel.reveal(undefined, true);
+  }
+
+  /**
+   * The documentation of every rule for the binary at `rumdlPath`, from the
+   * cache of its version or else from the binary. Without a binary, the
+   * most recently cached version is used.
+   */
+  private async loadDocs(
+    rumdlPath: string | undefined,
+    cwd: string | undefined
+  ): Promise<Map<string, RuleDocumentation> | undefined> {
+    const version = rumdlPath ? await getRumdlVersion(rumdlPath, cwd) : null;
+    const key = version ?? '';
+    let docs = this.loaded.get(key);
+    if (!docs) {
+      docs = version ? this.queryDocs(rumdlPath!, version, cwd) : this.latestCachedDocs();
+      this.loaded.set(key, docs);
+    }
+    const result = await docs;
+    if (!result) {
+      this.loaded.delete(key);
+    }
+    return result;
+  }
+
+  private get cacheDir(): string {
+    return path.join(this.storageUri.fsPath, 'rule-docs');
+  }
+
+  private async queryDocs(
+    rumdlPath: string,
+    version: string,
+    cwd: string | undefined
+  ): Promise<Map<string, RuleDocumentation> | undefined> {
+    const cacheFile = path.join(this.cacheDir, `${version.replace(/[^\w.-]+/g, '_')}.json`);
+    try {
+      return parseRuleDocumentation(await fs.promises.readFile(cacheFile, 'utf8'));
+    } catch {
+      // Not cached yet, or unreadable; ask the binary
+    }
+
+    // `--explain` is accepted since rumdl 0.1.12; builds without the
+    // documentation leave `explanation` out
+    const result = await runRumdl(rumdlPath, ['rule', '-o', 'json', '--explain'], { cwd });
+    let docs: Map<string, RuleDocumentation> | undefined;
+    let problem = 'it did not run';
+    if (result?.code === 0) {
+      try {
+        docs = parseRuleDocumentation(result.stdout);
+      } catch (error) {
+        problem = `unreadable output: ${(error as Error).message}`;
+      }
+    } else if (result) {
+      problem = result.stderr.trim().split('\n')[0] || `exit code ${result.code}`;
+    }
+    if (!docs) {
+      const key = `${rumdlPath}\n${version}`;
+      if (!this.warned.has(key)) {
+        this.warned.add(key);
+        Logger.warn(
+          `rumdl ${version} at ${rumdlPath} did not report its rule documentation (${problem}); showing the last cached or bundled documentation`
+        );
+      }
+      return this.latestCachedDocs();
+    }
+
+    try {
+      await fs.promises.mkdir(this.cacheDir, { recursive: true });
+      await fs.promises.writeFile(cacheFile, result!.stdout);
+    } catch (error) {
+      Logger.error(`Failed to store rule documentation of ${version}`, error as Error);
+    }
+    return docs;
+  }
+
+  private async latestCachedDocs(): Promise<Map<string, RuleDocumentation> | undefined> {
+    try {
+      const files = await fs.promises.readdir(this.cacheDir);
+      const stats = await Promise.all(
+        files.map(async file => {
+          const fullPath = path.join(this.cacheDir, file);
+          return { fullPath, mtime: (await fs.promises.stat(fullPath)).mtimeMs };
+        })
+      );
+      const latest = stats.sort((a, b) => b.mtime - a.mtime)[0];
+      return latest && parseRuleDocumentation(await fs.promises.readFile(latest.fullPath, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private bundledDoc(ruleCode: string): RuleDocumentation {
+    const doc = RULE_DOCS[ruleCode];
+    return {
+      code: ruleCode,
+      name: doc?.name ?? '',
+      aliases: doc?.aliases ?? [],
+      summary: doc?.summary ?? '',
+      category: '',
+      fix: '',
+      url: doc?.url,
+    };
+  }
+
+  private async renderPage(
+    webview: vscode.Webview,
+    doc: RuleDocumentation,
+    rows: RuleOptionRow[],
+    configFile: string | undefined
+  ): Promise<string> {
+    const markdown = formatRuleDocumentation(doc);
+    let body: string;
+    try {
+      // The built-in Markdown extension renders with the editor's styles
+      body = await vscode.commands.executeCommand<string>('markdown.api.render', markdown);
+    } catch {
+      body = `<pre>${escapeHtml(markdown)}</pre>`;
+    }
+
+    this.links = [];
+    const link = (file: string, line: number, text: string) => {
+      this.links.push({ file, line });
+      return `<a href="#" data-link="${this.links.length - 1}">${escapeHtml(text)}</a>`;
+    };
+
+    let options = '<h2>Options</h2>';
+    if (rows.length === 0) {
+      options += `<p>${doc.code} has no options.</p>`;
+    } else {
+      const section =
+        configFile && path.extname(configFile) === '.toml'
+          ? await this.ruleSection(configFile, doc.code)
+          : undefined;
+      if (configFile && section !== undefined) {
+        options += `<p>Configured in ${link(configFile, section, `[${doc.code}] of ${path.basename(configFile)}`)}.</p>`;
+      }
+      options += '<table><tr><th>Option</th><th>Default</th><th>Value</th><th>Set in</th></tr>';
+      for (const row of rows) {
+        const format = (value: unknown) =>
+          value === undefined ? '' : `<code>${escapeHtml(formatTomlValue(value))}</code>`;
+        const setIn = row.source
+          ? link(
+              row.source.file,
+              row.source.line,
+              `${path.basename(row.source.file)}:${row.source.line + 1}`
+            )
+          : 'default';
+        options += `<tr><td><code>${escapeHtml(row.name)}</code></td><td>${format(row.default)}</td><td>${format(row.value)}</td><td>${setIn}</td></tr>`;
+      }
+      options += '</table>';
+    }
+
+    const nonce = [...Array(32)].map(() => Math.floor(Math.random() * 16).toString(16)).join('');
+    const csp = [
+      "default-src 'none'",
+      `style-src ${webview.cspSource} 'unsafe-inline'`,
+      `img-src ${webview.cspSource} https: data:`,
+      `script-src 'nonce-${nonce}'`,
+    ].join('; ');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<style>
+  body { font-family: var(--vscode-font-family); line-height: 1.5; }
+  table { border-collapse: collapse; }
+  th, td { text-align: left; padding: 2px 12px 2px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+</style>
+</head>
+<body>
+${body}
+${options}
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  document.addEventListener('click', event => {
+    const anchor = event.target.closest('a[data-link]');
+    if (anchor) {
+      event.preventDefault();
+      vscode.postMessage({ link: Number(anchor.dataset.link) });
+    }
+  });
+</script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Line of the section header that configures `ruleCode` in a TOML config
+   * file, if it has one.
+   */
+  private async ruleSection(configFile: string, ruleCode: string): Promise<number | undefined> {
+    try {
+      const content = await fs.promises.readFile(configFile, 'utf8');
+      const isPyproject = path.basename(configFile) === 'pyproject.toml';
+      return ConfigValidator.findSections(content, isPyproject).find(s => s.ruleCode === ruleCode)
+        ?.line;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async openLink(index: number | undefined): Promise<void> {
+    const target = index !== undefined ? this.links[index] : undefined;
+    if (!target) {
+      return;
+    }
+    const position = new vscode.Position(target.line, 0);
+    await vscode.window.showTextDocument(vscode.Uri.file(target.file), {
+      viewColumn: vscode.ViewColumn.One,
+      selection: new vscode.Range(position, position),
+    });
+  }
+
+  dispose(): void {
+    this.panel?.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -0,0 +1,368 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RumdlLanguageClient } from './client';
+import { DEFAULT_CONFIG_CONTENT } from './commands';
+import { formatRuleDoc } from './configHover';
+import { RULE_ALIASES, RULE_NAMES } from './configSchema';
+import { ConfigValidator } from './configValidator';
+import { ConfigurationManager, shouldRunLanguageServer } from './configuration';
+import {
+  EffectiveConfig,
+  configFileFor,
+  resolveEffectiveConfig,
+  settingOverrides,
+} from './effectiveConfig';
+import { MarkdownlintConfigValidator } from './markdownlintConfigValidator';
+import { RuleCatalog } from './ruleCatalog';
+import { EXPLAIN_RULE_COMMAND } from './ruleDocs';
+import { collectRuleFindings } from './ruleFindings';
+import { RuleLists, isRuleEnabled, listsRule } from './ruleSettings';
+import { Logger, applyTextEdits, showErrorMessage, showInformationMessage } from './utils';
+
+export const RULE_EXPLORER_VIEW = 'rumdl.ruleExplorer';
+
+/**
+ * The `enable` and `disable` lists rumdl applies: those of the config, with
+ * the rumdl.rules settings on top. A non-empty `rumdl.rules.enable` replaces
+ * the config's list, and `extend-enable` only matters next to a non-empty
+ * one.
+ */
+export function effectiveRuleLists(config: EffectiveConfig): RuleLists {
+  const list = (key: string) => {
+    const value = config.global.get(key)?.value;
+    return Array.isArray(value) ? value.map(String) : [];
+  };
+  const setting = (name: string) => config.settings.find(s => s.setting === name)?.value ?? [];
+
+  const enableSetting = setting('rumdl.rules.enable');
+  const enable = enableSetting.length > 0 ? enableSetting : list('enable');
+  return {
+    enable: enable.length > 0 ? [...enable, ...list('extend-enable')] : [],
+    disable: [...list('disable'), ...list('extend-disable'), ...setting('rumdl.rules.disable')],
+  };
+}
+
+/**
+ * Edits to a rumdl config file that turn `ruleCode` on or off. Turning it
+ * off adds it to `disable`; turning it on takes it out of `disable` and
+ * `extend-disable`, and adds it to `extend-enable` when `restricted`, i.e.
+ * an `enable` list leaves it out. Empty when the file has nothing to change.
+ */
+export function ruleToggleEdits(
+  content: string,
+  isPyproject: boolean,
+  ruleCode: string,
+  enable: boolean,
+  restricted: boolean
+): vscode.TextEdit[] {
+  if (!enable) {
+    const edit = ConfigValidator.addDisabledRule(content, isPyproject, ruleCode);
+    return edit ? [edit] : [];
+  }
+  const edits = ConfigValidator.removeFromRuleLists(
+    content,
+    isPyproject,
+    ['disable', 'extend-disable'],
+    ruleCode
+  );
+  const extend = restricted && ConfigValidator.addEnabledRule(content, isPyproject, ruleCode);
+  return extend ? [...edits, extend] : edits;
+}
+
+class CategoryItem extends vscode.TreeItem {
+  constructor(
+    readonly category: string,
+    readonly rules: RuleItem[]
+  ) {
+    super(
+      category.charAt(0).toUpperCase() + category.slice(1),
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.description = `${rules.filter(rule => rule.enabled).length}/${rules.length} enabled`;
+    this.contextValue = 'rumdlRuleCategory';
+  }
+}
+
+class RuleItem extends vscode.TreeItem {
+  constructor(
+    readonly code: string,
+    readonly enabled: boolean,
+    fixable: boolean | undefined,
+    findings: number
+  ) {
+    super(code, vscode.TreeItemCollapsibleState.None);
+    const alias = Object.keys(RULE_ALIASES).find(name => RULE_ALIASES[name] === code);
+    const details = [alias, enabled ? undefined : 'disabled', fixable ? 'fixable' : undefined];
+    if (findings > 0) {
+      details.push(findings === 1 ? '1 finding' : `${findings} findings`);
+    }
+    this.description = details.filter(Boolean).join(' · ');
+    this.iconPath = new vscode.ThemeIcon(enabled ? 'pass' : 'circle-slash');
+    this.contextValue = enabled ? 'rumdlRule.enabled' : 'rumdlRule.disabled';
+
+    const tooltip = formatRuleDoc(code);
+    tooltip.appendMarkdown(`\n\n${enabled ? 'Enabled' : 'Disabled'} in the effective config`);
+    if (fixable !== undefined) {
+      tooltip.appendMarkdown(fixable ? ' · fixable' : ' · not fixable');
+    }
+    this.tooltip = tooltip;
+    this.command = { command: EXPLAIN_RULE_COMMAND, title: 'Explain Rule', arguments: [code] };
+  }
+}
+
+type ExplorerItem = CategoryItem | RuleItem;
+
+/**
+ * The rules view: every rule, grouped by category, with whether the
+ * effective config of the workspace folder enables it, whether rumdl can
+ * fix it, and its findings in open files. Inline actions turn a rule on or
+ * off in the project config, restarting the server, or in the workspace
+ * settings, which the server applies live.
+ */
+export class RuleExplorer implements vscode.TreeDataProvider<ExplorerItem>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly disposables: vscode.Disposable[] = [];
+  // The rule catalog of each folder's binary, by folder URI
+  private catalogs = new Map<string, Promise<RuleCatalog | undefined>>();
+  private lists: RuleLists = { enable: [], disable: [] };
+  private changeTimer: NodeJS.Timeout | undefined;
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly client: RumdlLanguageClient) {
+    this.disposables.push(
+      vscode.window.registerTreeDataProvider(RULE_EXPLORER_VIEW, this),
+      vscode.commands.registerCommand('rumdl.ruleExplorer.refresh', () => this.refresh()),
+      vscode.commands.registerCommand('rumdl.ruleExplorer.enableRule', (item: RuleItem) =>
+        this.toggleRule(item.code, true)
+      ),
+      vscode.commands.registerCommand('rumdl.ruleExplorer.disableRule', (item: RuleItem) =>
+        this.toggleRule(item.code, false)
+      ),
+      // Findings arrive file by file; count once they settle
+      vscode.languages.onDidChangeDiagnostics(() => {
+        clearTimeout(this.changeTimer);
+        this.changeTimer = setTimeout(() => this.changeEmitter.fire(), 500);
+      }),
+      vscode.workspace.onDidSaveTextDocument(document => {
+        const name = path.basename(document.fileName);
+        if (name.endsWith('.toml') || MarkdownlintConfigValidator.isMarkdownlintConfig(name)) {
+          this.refresh();
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh()),
+      ConfigurationManager.onConfigurationChanged(() => {
+        this.catalogs.clear();
+        this.refresh();
+      }),
+      this.changeEmitter
+    );
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  getTreeItem(item: ExplorerItem): vscode.TreeItem {
+    return item;
+  }
+
+  async getChildren(item?: ExplorerItem): Promise<ExplorerItem[]> {
+    if (item) {
+      return item instanceof CategoryItem ? item.rules : [];
+    }
+
+    const folder = this.folder();
+    const key = folder?.uri.toString() ?? '';
+    if (!this.catalogs.has(key)) {
+      this.catalogs.set(key, RuleCatalog.load(folder?.uri));
+    }
+    const catalog = await this.catalogs.get(key);
+    const config = await this.effectiveConfig();
+    this.lists = config ? effectiveRuleLists(config) : { enable: [], disable: [] };
+    const open = new Set(vscode.workspace.textDocuments.map(document => document.uri.toString()));
+    const findings = collectRuleFindings(
+      vscode.languages.getDiagnostics().filter(([uri]) => open.has(uri.toString()))
+    );
+
+    const categories = new Map<string, RuleItem[]>();
+    for (const code of RULE_NAMES) {
+      const rule = catalog?.getRule(code);
+      const fixable = rule ? rule.fixAvailability !== 'Unfixable' : undefined;
+      const category = rule?.category || 'other';
+      const items = categories.get(category) ?? [];
+      items.push(
+        new RuleItem(
+          code,
+          isRuleEnabled(code, this.lists),
+          fixable,
+          findings.get(code)?.length ?? 0
+        )
+      );
+      categories.set(category, items);
+    }
+    return [...categories.keys()].sort().map(name => new CategoryItem(name, categories.get(name)!));
+  }
+
+  /**
+   * The workspace folder the view describes: the one of the active editor,
+   * else the first.
+   */
+  private folder(): vscode.WorkspaceFolder | undefined {
+    const active = vscode.window.activeTextEditor?.document.uri;
+    return (
+      (active && vscode.workspace.getWorkspaceFolder(active)) ??
+      vscode.workspace.workspaceFolders?.[0]
+    );
+  }
+
+  private async effectiveConfig(): Promise<EffectiveConfig | undefined> {
+    const folder = this.folder();
+    if (folder?.uri.scheme !== 'file') {
+      return undefined;
+    }
+    const root = folder.uri.fsPath;
+    // The enable/disable lists are global, so any file of the folder root will do
+    return resolveEffectiveConfig(path.join(root, 'README.md'), {
+      configPath: await configFileFor(root),
+      settings: settingOverrides(folder.uri),
+    });
+  }
+
+  private async toggleRule(code: string, enable: boolean): Promise<void> {
+    const folder = this.folder();
+    if (!folder) {
+      showErrorMessage(`Open a workspace folder to ${enable ? 'enable' : 'disable'} a rule in it`);
+      return;
+    }
+
+    const configFile = await configFileFor(folder.uri.fsPath);
+    const choices: (vscode.QuickPickItem & { file?: string })[] = [];
+    if (!configFile) {
+      choices.push({
+        label: 'Create .rumdl.toml',
+        file: path.join(folder.uri.fsPath, '.rumdl.toml'),
+      });
+    } else if (path.extname(configFile) === '.toml') {
+      choices.push({
+        label: `Change ${path.basename(configFile)}`,
+        detail: vscode.workspace.asRelativePath(configFile),
+        file: configFile,
+      });
+    }
+    choices.push({ label: 'Change workspace settings', description: 'rumdl.rules.*' });
+
+    const choice = await vscode.window.showQuickPick(choices, {
+      title: `${enable ? 'Enable' : 'Disable'} ${code}`,
+      placeHolder: 'Where should the change be made?',
+    });
+    if (!choice) {
+      return;
+    }
+    // An enable list that leaves the rule out
+    const restricted = this.lists.enable.length > 0 && !listsRule(this.lists.enable, code);
+    if (choice.file) {
+      await this.toggleInConfig(code, enable, restricted, choice.file, !configFile);
+    } else {
+      await this.toggleInSettings(code, enable, restricted, folder);
+    }
+  }
+
+  private async toggleInConfig(
+    code: string,
+    enable: boolean,
+    restricted: boolean,
+    file: string,
+    create: boolean
+  ): Promise<void> {
+    const uri = vscode.Uri.file(file);
+    const name = path.basename(file);
+    let document: vscode.TextDocument | undefined;
+    try {
+      document = create ? undefined : await vscode.workspace.openTextDocument(uri);
+    } catch (error) {
+      showErrorMessage(`Failed to read ${name}: ${error}`);
+      return;
+    }
+
+    const content = document?.getText() ?? DEFAULT_CONFIG_CONTENT;
+    const textEdits = ruleToggleEdits(content, name === 'pyproject.toml', code, enable, restricted);
+    if (textEdits.length === 0) {
+      showInformationMessage(
+        `${name} was not changed: it does not ${enable ? 'disable' : 'enable'} ${code}, or can't be edited automatically`
+      );
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    if (create) {
+      // The edits are against the template, not the new empty file
+      edit.createFile(uri, { ignoreIfExists: true });
+      edit.insert(uri, new vscode.Position(0, 0), applyTextEdits(content, textEdits));
+    } else {
+      edit.set(uri, textEdits);
+    }
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      showErrorMessage(`Failed to change ${name}`);
+      return;
+    }
+    await (await vscode.workspace.openTextDocument(uri)).save();
+    Logger.info(`${enable ? 'Enabled' : 'Disabled'} ${code} in ${file}`);
+
+    if (shouldRunLanguageServer(ConfigurationManager.isEnabled(), vscode.workspace.isTrusted)) {
+      await this.client.restart();
+    }
+    this.refresh();
+  }
+
+  /**
+   * Change the workspace's rumdl.rules settings. The extension sends
+   * settings changes to the server on its own.
+   */
+  private async toggleInSettings(
+    code: string,
+    enable: boolean,
+    restricted: boolean,
+    folder: vscode.WorkspaceFolder
+  ): Promise<void> {
+    const config = vscode.workspace.getConfiguration('rumdl', folder.uri);
+    const disabled = config.inspect<string[]>('rules.disable')?.workspaceValue ?? [];
+    if (!enable) {
+      if (!listsRule(disabled, code)) {
+        await config.update(
+          'rules.disable',
+          [...disabled, code],
+          vscode.ConfigurationTarget.Workspace
+        );
+      }
+      return;
+    }
+
+    const enabled = config.inspect<string[]>('rules.enable')?.workspaceValue ?? [];
+    if (restricted && enabled.length === 0) {
+      // An enable setting would replace the config's list rather than extend it
+      showInformationMessage(
+        `${code} is left out of the enable list of the config file; enable it there instead`
+      );
+      return;
+    }
+    const remaining = disabled.filter(rule => ConfigValidator.resolveRuleName(rule) !== code);
+    if (remaining.length === disabled.length && !restricted) {
+      showInformationMessage(
+        `${code} is not disabled in workspace settings; it is disabled in the config file`
+      );
+      return;
+    }
+    if (remaining.length !== disabled.length) {
+      await config.update('rules.disable', remaining, vscode.ConfigurationTarget.Workspace);
+    }
+    if (restricted) {
+      await config.update('rules.enable', [...enabled, code], vscode.ConfigurationTarget.Workspace);
+    }
+  }
+
+  dispose(): void {
+    clearTimeout(this.changeTimer);
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigValidator } from './configValidator';
+import { codeToString } from './diagnosticDedup';
+import { configProjectDir } from './effectiveConfig';
+
+export const SHOW_RULE_FINDINGS_COMMAND = 'rumdl.showRuleFindings';
+
+// Diagnostic sources of the rumdl language server
+const RUMDL_SOURCES = ['rumdl', 'rumdl Language Server'];
+
+/** A rumdl finding and the file it is in */
+export interface RuleFinding {
+  uri: vscode.Uri;
+  diagnostic: vscode.Diagnostic;
+}
+
+/**
+ * Group the rumdl findings among `entries` (as returned by
+ * `vscode.languages.getDiagnostics()`) by rule code, keeping only files
+ * under `dir` when it is given.
+ */
+export function collectRuleFindings(
+  entries: readonly (readonly [vscode.Uri, readonly vscode.Diagnostic[]])[],
+  dir?: string
+): Map<string, RuleFinding[]> {
+  const findings = new Map<string, RuleFinding[]>();
+  for (const [uri, diagnostics] of entries) {
+    if (dir !== undefined && !isInside(uri, dir)) {
+      continue;
+    }
+    for (const diagnostic of diagnostics) {
+      const code = findingRuleCode(diagnostic);
+      if (!code) {
+        continue;
+      }
+      const list = findings.get(code) ?? [];
+      list.push({ uri, diagnostic });
+      findings.set(code, list);
+    }
+  }
+  return findings;
+}
+
+/**
+ * The MD### code of a diagnostic reported by the rumdl language server, or
+ * undefined for any other diagnostic.
+ */
+export function findingRuleCode(diagnostic: vscode.Diagnostic): string | undefined {
+  if (!diagnostic.source || !RUMDL_SOURCES.includes(diagnostic.source)) {
+    return undefined;
+  }
+  const code = codeToString(diagnostic.code);
+  return /^MD\d{3}$/.test(code) ? code : undefined;
+}
+
+function isInside(uri: vscode.Uri, dir: string): boolean {
+  if (uri.scheme !== 'file') {
+    return false;
+  }
+  const relative = path.relative(dir, uri.fsPath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * "N findings in M files", or "No findings".
+ */
+export function describeFindings(findings: readonly RuleFinding[]): string {
+  if (findings.length === 0) {
+    return 'No findings';
+  }
+  const files = new Set(findings.map(finding => finding.uri.toString())).size;
+  const count = findings.length === 1 ? '1 finding' : `${findings.length} findings`;
+  return `${count} in ${files === 1 ? '1 file' : `${files} files`}`;
+}
+
+/**
+ * Shows above each rule section of a config file how many findings the rule
+ * currently has in the files under the config's directory. Clicking the
+ * lens lists them.
+ */
+export class RuleFindingsCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private changeTimer: NodeJS.Timeout | undefined;
+
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor() {
+    this.disposables.push(
+      // Diagnostics arrive file by file while the server works through a
+      // workspace; count once they settle
+      vscode.languages.onDidChangeDiagnostics(() => {
+        clearTimeout(this.changeTimer);
+        this.changeTimer = setTimeout(() => this.changeEmitter.fire(), 500);
+      }),
+      vscode.commands.registerCommand(SHOW_RULE_FINDINGS_COMMAND, (code: string, dir: string) =>
+        showRuleFindings(code, dir)
+      ),
+      this.changeEmitter
+    );
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (document.uri.scheme !== 'file') {
+      return [];
+    }
+    const isPyproject = path.basename(document.fileName) === 'pyproject.toml';
+    const sections = ConfigValidator.findSections(document.getText(), isPyproject).filter(
+      section => section.kind === 'rule'
+    );
+    if (sections.length === 0) {
+      return [];
+    }
+
+    const dir = configProjectDir(document.fileName);
+    const findings = collectRuleFindings(vscode.languages.getDiagnostics(), dir);
+    return sections.map(section => {
+      const code = section.ruleCode!;
+      const ruleFindings = findings.get(code) ?? [];
+      return new vscode.CodeLens(new vscode.Range(section.line, 0, section.line, 0), {
+        title: describeFindings(ruleFindings),
+        command: ruleFindings.length > 0 ? SHOW_RULE_FINDINGS_COMMAND : '',
+        arguments: [code, dir],
+        tooltip: `Findings of ${code} in open and checked files`,
+      });
+    });
+  }
+
+  dispose(): void {
+    clearTimeout(this.changeTimer);
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+interface FindingItem extends vscode.QuickPickItem {
+  finding?: RuleFinding;
+}
+
+/**
+ * List the current findings of a rule under `dir`, grouped by file, and
+ * open the one picked.
+ */
+async function showRuleFindings(code: string, dir: string): Promise<void> {
+  const findings = collectRuleFindings(vscode.languages.getDiagnostics(), dir).get(code) ?? [];
+  if (findings.length === 0) {
+    void vscode.window.showInformationMessage(`rumdl: ${code} has no findings`);
+    return;
+  }
+
+  const items: FindingItem[] = [];
+  let currentFile = '';
+  for (const finding of findings) {
+    const file = path.relative(dir, finding.uri.fsPath);
+    if (file !== currentFile) {
+      items.push({ label: file, kind: vscode.QuickPickItemKind.Separator });
+      currentFile = file;
+    }
+    const { start } = finding.diagnostic.range;
+    items.push({
+      label: finding.diagnostic.message,
+      description: `${file}:${start.line + 1}:${start.character + 1}`,
+      finding,
+    });
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `${code}: ${describeFindings(findings)}`,
+    placeHolder: 'Go to finding',
+    matchOnDescription: true,
+  });
+  if (picked?.finding) {
+    await vscode.window.showTextDocument(picked.finding.uri, {
+      selection: picked.finding.diagnostic.range,
+    });
+  }
+}
@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigValidator } from './configValidator';
+import { ConfigurationManager } from './configuration';
+import { findingRuleCode } from './ruleFindings';
+import { ALL_SUPPORTED_LANGUAGE_IDS, Logger, runRumdl } from './utils';
+
+/** Rule lists; an empty `enable` means every rule */
+export interface RuleLists {
+  enable: string[];
+  disable: string[];
+}
+
+/** Whether `list` names `ruleCode`, by code, name or alias, or with `ALL` */
+export function listsRule(list: string[], ruleCode: string): boolean {
+  return list.some(
+    name => name.toUpperCase() === 'ALL' || ConfigValidator.resolveRuleName(name) === ruleCode
+  );
+}
+
+/**
+ * Whether rumdl runs `ruleCode` under `lists`: listed in `enable`, or
+ * `enable` is empty, and not listed in `disable`. `ALL` lists every rule.
+ */
+export function isRuleEnabled(ruleCode: string, lists: RuleLists): boolean {
+  if (listsRule(lists.disable, ruleCode)) {
+    return false;
+  }
+  return lists.enable.length === 0 || listsRule(lists.enable, ruleCode);
+}
+
+/**
+ * Lists that run every rule any of `lists` runs: `enable` is empty when one
+ * of them is, and `disable` keeps only the rules all of them disable.
+ */
+export function widestRuleLists(lists: RuleLists[]): RuleLists {
+  const enable = lists.some(list => list.enable.length === 0)
+    ? []
+    : [...new Set(lists.flatMap(list => list.enable))];
+  // One name per rule, e.g. `MD013` or `line-length`, whichever comes first
+  const rule = (name: string) => ConfigValidator.resolveRuleName(name) ?? name.toUpperCase();
+  const names = lists.flatMap(list => list.disable);
+  const disable = names.filter(
+    (name, index) =>
+      names.findIndex(other => rule(other) === rule(name)) === index &&
+      lists.every(list =>
+        rule(name) === 'ALL'
+          ? list.disable.some(other => rule(other) === 'ALL')
+          : listsRule(list.disable, rule(name))
+      )
+  );
+  return { enable, disable };
+}
+
+/**
+ * The rumdl.rules settings of documents of `languageId` in `resource`: those
+ * of the folder, or of a `[language]` block that overrides them.
+ */
+export function documentRuleLists(
+  resource: vscode.Uri | undefined,
+  languageId?: string
+): RuleLists {
+  const scope = languageId ? { uri: resource, languageId } : resource;
+  return ConfigurationManager.getConfiguration(scope).rules;
+}
+
+/**
+ * The rumdl.rules settings a language server for `folder` runs with. The
+ * server has one set for all documents, so where languages set their own,
+ * it runs every rule one of them runs, and {@link applyDocumentRules} drops
+ * the findings of rules a document's language turns off.
+ */
+export function serverRuleLists(folder: vscode.Uri | undefined): RuleLists {
+  return widestRuleLists([
+    documentRuleLists(folder),
+    ...ALL_SUPPORTED_LANGUAGE_IDS.map(languageId => documentRuleLists(folder, languageId)),
+  ]);
+}
+
+/**
+ * The rumdl.rules settings of a document of `languageId` at `uri` when they
+ * differ from `server`'s, as happens when its language overrides them, or
+ * undefined when the server's apply to it.
+ */
+export function ownRuleLists(
+  uri: vscode.Uri,
+  languageId: string | undefined,
+  server: RuleLists
+): RuleLists | undefined {
+  const lists = documentRuleLists(uri, languageId);
+  return JSON.stringify(lists) === JSON.stringify(server) ? undefined : lists;
+}
+
+/**
+ * Drop the findings of rules that the rumdl.rules settings of `uri` turn off
+ * but the server's do not, as happens when its language overrides them.
+ */
+export function applyDocumentRules(
+  uri: vscode.Uri,
+  diagnostics: vscode.Diagnostic[],
+  server: RuleLists
+): vscode.Diagnostic[] {
+  const languageId = vscode.workspace.textDocuments.find(
+    document => document.uri.toString() === uri.toString()
+  )?.languageId;
+  const lists = ownRuleLists(uri, languageId, server);
+  if (!lists) {
+    return diagnostics;
+  }
+
+  return diagnostics.filter(diagnostic => {
+    const code = findingRuleCode(diagnostic);
+    return !code || isRuleEnabled(code, lists);
+  });
+}
+
+/**
+ * Drop the code actions that fix only findings of rules `lists` turn off.
+ * Actions for no finding in particular are kept.
+ */
+export function applicableCodeActions<T extends vscode.Command | vscode.CodeAction>(
+  actions: T[],
+  lists: RuleLists
+): T[] {
+  return actions.filter(action => {
+    const diagnostics = action instanceof vscode.CodeAction ? (action.diagnostics ?? []) : [];
+    return (
+      diagnostics.length === 0 ||
+      diagnostics.some(diagnostic => {
+        const code = findingRuleCode(diagnostic);
+        return !code || isRuleEnabled(code, lists);
+      })
+    );
+  });
+}
+
+/**
+ * Arguments of a rumdl run that prints `document`, read from stdin, with
+ * the fixes of the rules `lists` run. The file name is passed on for the
+ * per-file settings of the config, which rumdl finds from its cwd.
+ */
+export function fixArguments(
+  document: vscode.TextDocument,
+  lists: RuleLists,
+  config: { configPath?: string; noConfig?: boolean }
+): string[] {
+  return [
+    'fmt',
+    '--stdin',
+    '--silent',
+    ...(lists.enable.length > 0 ? ['--enable', lists.enable.join(',')] : []),
+    ...(lists.disable.length > 0 ? ['--disable', lists.disable.join(',')] : []),
+    ...(config.noConfig ? ['--no-config'] : []),
+    ...(config.configPath && !config.noConfig ? ['--config', config.configPath] : []),
+    ...(document.uri.scheme === 'file' ? ['--stdin-filename', document.uri.fsPath] : []),
+  ];
+}
+
+/**
+ * The edits that fix `document` under `lists` rather than the rule lists of
+ * its language server, made by the rumdl CLI: one that replaces the whole
+ * text, as the server's are, or none. Undefined when rumdl fails.
+ */
+export async function fixWithRuleLists(
+  rumdlPath: string,
+  document: vscode.TextDocument,
+  lists: RuleLists,
+  config: { cwd?: string; configPath?: string; noConfig?: boolean }
+): Promise<vscode.TextEdit[] | undefined> {
+  const text = document.getText();
+  const cwd = document.uri.scheme === 'file' ? path.dirname(document.uri.fsPath) : config.cwd;
+  const result = await runRumdl(rumdlPath, fixArguments(document, lists, config), {
+    cwd,
+    input: text,
+  });
+  if (!result || result.code !== 0) {
+    Logger.warn(
+      `Could not fix ${document.uri} with its own rule settings: ${result?.stderr.trim() || 'rumdl did not finish'}`
+    );
+    return undefined;
+  }
+  if (result.stdout === text) {
+    return [];
+  }
+  const whole = new vscode.Range(new vscode.Position(0, 0), document.positionAt(text.length));
+  return [vscode.TextEdit.replace(whole, result.stdout)];
+}
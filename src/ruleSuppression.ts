@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigValidator } from './configValidator';
+import { configFileFor, configProjectDir } from './effectiveConfig';
+import { fencedCodeLines } from './inlineDirectives';
+import { findingRuleCode } from './ruleFindings';
+import { showErrorMessage, showInformationMessage } from './utils';
+
+export const DISABLE_RULE_FOR_WORKSPACE_COMMAND = 'rumdl.disableRuleForWorkspace';
+export const IGNORE_RULE_IN_CONFIG_COMMAND = 'rumdl.ignoreRuleInConfig';
+
+/**
+ * An edit that disables `ruleCode` for `line` with a
+ * `<!-- rumdl-disable-next-line -->` comment above it, adding the rule to
+ * one that is already there. Undefined inside a fenced code block, where the
+ * comment would be code.
+ */
+export function disableNextLineEdit(
+  lines: string[],
+  line: number,
+  ruleCode: string
+): vscode.TextEdit | undefined {
+  if (fencedCodeLines(lines)[line]) {
+    return undefined;
+  }
+  const previous = line > 0 ? lines[line - 1].replace(/\r$/, '') : '';
+  if (/^\s*(?:>\s*)*<!--\s*rumdl-disable-next-line\s+[^\s-][^>]*-->\s*$/.test(previous)) {
+    return vscode.TextEdit.insert(
+      new vscode.Position(line - 1, previous.search(/\s*-->\s*$/)),
+      ` ${ruleCode}`
+    );
+  }
+  // Keep the comment in the same blockquote or list item as the line
+  const prefix = lines[line].match(/^\s*(?:>\s?)*\s*/)![0];
+  return vscode.TextEdit.insert(
+    new vscode.Position(line, 0),
+    `${prefix}<!-- rumdl-disable-next-line ${ruleCode} -->\n`
+  );
+}
+
+/**
+ * An edit that disables `ruleCode` for the whole document: the rule is added
+ * to a `<!-- rumdl-disable-file -->` comment that lists rules, or a new one
+ * goes at the top, after any front matter.
+ */
+export function disableFileEdit(lines: string[], ruleCode: string): vscode.TextEdit {
+  const inCode = fencedCodeLines(lines);
+  const existing = lines.findIndex(
+    (text, line) => !inCode[line] && /^\s*<!--\s*rumdl-disable-file\s+[^\s-][^>]*-->\s*$/.test(text)
+  );
+  if (existing >= 0) {
+    const text = lines[existing].replace(/\r$/, '');
+    return vscode.TextEdit.insert(
+      new vscode.Position(existing, text.search(/\s*-->\s*$/)),
+      ` ${ruleCode}`
+    );
+  }
+
+  let line = 0;
+  const frontMatter = lines[0]?.trim();
+  if (frontMatter === '---' || frontMatter === '+++') {
+    const end = lines.findIndex((text, i) => i > 0 && text.trim() === frontMatter);
+    line = end >= 0 ? end + 1 : 0;
+  }
+  return vscode.TextEdit.insert(
+    new vscode.Position(line, 0),
+    `<!-- rumdl-disable-file ${ruleCode} -->\n`
+  );
+}
+
+/**
+ * Quick fixes on rumdl findings that silence the rule for the finding's
+ * line or document with an inline comment, for the document in the
+ * per-file-ignores of the config file that applies to it, or for the whole
+ * workspace. The last two run a command, so no config is looked up until
+ * one is chosen.
+ */
+export class RuleSuppressionCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const lines = document.getText().split('\n');
+    const lineActions: vscode.CodeAction[] = [];
+    const fileActions: vscode.CodeAction[] = [];
+    const seen = new Set<string>();
+
+    for (const diagnostic of context.diagnostics) {
+      const code = findingRuleCode(diagnostic);
+      if (!code) {
+        continue;
+      }
+      const line = diagnostic.range.start.line;
+      if (!seen.has(`${code}:${line}`)) {
+        seen.add(`${code}:${line}`);
+        const edit = disableNextLineEdit(lines, line, code);
+        if (edit) {
+          lineActions.push(
+            this.createAction(`Disable ${code} for this line`, document.uri, edit, diagnostic)
+          );
+        }
+      }
+      if (!seen.has(code)) {
+        seen.add(code);
+        fileActions.push(
+          this.createAction(
+            `Disable ${code} for this file`,
+            document.uri,
+            disableFileEdit(lines, code),
+            diagnostic
+          )
+        );
+        if (document.uri.scheme === 'file') {
+          fileActions.push(
+            this.createCommandAction(
+              `Ignore ${code} for this file in the rumdl config`,
+              IGNORE_RULE_IN_CONFIG_COMMAND,
+              [code, document.uri],
+              diagnostic
+            )
+          );
+        }
+        fileActions.push(
+          this.createCommandAction(
+            `Disable ${code} for the workspace...`,
+            DISABLE_RULE_FOR_WORKSPACE_COMMAND,
+            [code, document.uri],
+            diagnostic
+          )
+        );
+      }
+    }
+    return [...lineActions, ...fileActions];
+  }
+
+  private createAction(
+    title: string,
+    uri: vscode.Uri,
+    textEdit: vscode.TextEdit,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(uri, textEdit.range, textEdit.newText);
+    action.diagnostics = [diagnostic];
+    return action;
+  }
+
+  private createCommandAction(
+    title: string,
+    command: string,
+    args: unknown[],
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.command = { command, title, arguments: args };
+    action.diagnostics = [diagnostic];
+    return action;
+  }
+}
+
+/**
+ * Add a document to the per-file-ignores of the rumdl config that applies to
+ * it, or of a new .rumdl.toml in its workspace folder when none does. Not
+ * possible when a markdownlint config applies, or a config outside the
+ * document's project; the user is told why.
+ */
+export async function ignoreRuleInConfig(code: string, resource: vscode.Uri): Promise<void> {
+  const filePath = resource.fsPath;
+  const configFile = await configFileFor(path.dirname(filePath));
+  const folder = vscode.workspace.getWorkspaceFolder(resource);
+  let target: string;
+  if (configFile) {
+    target = configFile;
+  } else if (folder) {
+    target = path.join(folder.uri.fsPath, '.rumdl.toml');
+  } else {
+    showInformationMessage('Open a workspace folder to create a rumdl config for this file');
+    return;
+  }
+
+  const name = path.basename(target);
+  // markdownlint configs are JSON or YAML, and have no per-file-ignores
+  if (path.extname(target) !== '.toml') {
+    showInformationMessage(`${name} applies to this file, and has no per-file-ignores`);
+    return;
+  }
+  const relative = path.relative(configProjectDir(target), filePath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    showInformationMessage(`${name} is outside the project of this file`);
+    return;
+  }
+
+  let content = '';
+  if (configFile) {
+    const open = vscode.workspace.textDocuments.find(d => d.uri.fsPath === configFile);
+    try {
+      content = open?.getText() ?? (await fs.promises.readFile(configFile, 'utf8'));
+    } catch (error) {
+      showErrorMessage(`Failed to read ${name}: ${error}`);
+      return;
+    }
+  }
+  const pattern = relative.split(path.sep).join('/');
+  const textEdit = ConfigValidator.addPerFileIgnore(
+    content,
+    name === 'pyproject.toml',
+    pattern,
+    code
+  );
+  if (!textEdit) {
+    showInformationMessage(
+      `${code} was not added to ${name}: it is already ignored for this file, or the file can't be edited automatically`
+    );
+    return;
+  }
+
+  const uri = vscode.Uri.file(target);
+  const edit = new vscode.WorkspaceEdit();
+  if (!configFile) {
+    edit.createFile(uri, { ignoreIfExists: true });
+  }
+  edit.replace(uri, textEdit.range, textEdit.newText);
+  await vscode.workspace.applyEdit(edit);
+}
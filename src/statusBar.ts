@@ -8,11 +8,21 @@ export enum ServerStatus {
   Error = 'error',
 }
 
+/** The status updates a language server reports */
+export interface ServerStatusSink {
+  setStarting(): void;
+  setConnected(): void;
+  setDisconnected(reason?: string): void;
+  setError(error: string): void;
+}
+
 export class StatusBarManager implements vscode.Disposable {
   private statusBarItem: vscode.StatusBarItem;
   private currentStatus: ServerStatus = ServerStatus.Disconnected;
   private issueCount: number = 0;
   private fixableCount: number = 0;
+  private readonly scopes = new Map<string, { status: ServerStatus; message: string }>();
+  private activeScope: string | undefined;
 
   constructor() {
     this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -43,6 +53,42 @@ export class StatusBarManager implements vscode.Disposable {
     this.setStatus(ServerStatus.Error, error);
   }
 
+  /**
+   * The status of one of several language servers, keyed by `scope` and
+   * labelled `label` in messages. The status bar shows the latest status of
+   * the active scope, or of any scope while none is active.
+   */
+  public forScope(scope: string, label?: string): ServerStatusSink {
+    const set = (status: ServerStatus, message: string) => {
+      const labelled = label ? `${label}: ${message}` : message;
+      this.scopes.set(scope, { status, message: labelled });
+      if (this.activeScope === undefined || this.activeScope === scope) {
+        this.setStatus(status, labelled);
+      }
+    };
+    return {
+      setStarting: () => set(ServerStatus.Starting, 'Starting rumdl server...'),
+      setConnected: () => set(ServerStatus.Connected, 'Connected'),
+      setDisconnected: reason => set(ServerStatus.Disconnected, reason || 'Disconnected'),
+      setError: error => set(ServerStatus.Error, error),
+    };
+  }
+
+  /**
+   * Show the status of `scope`, e.g. the server of the active document.
+   */
+  public setActiveScope(scope: string | undefined): void {
+    this.activeScope = scope;
+    const current = scope !== undefined ? this.scopes.get(scope) : undefined;
+    if (current) {
+      this.setStatus(current.status, current.message);
+    }
+  }
+
+  public removeScope(scope: string): void {
+    this.scopes.delete(scope);
+  }
+
   public updateIssueCount(total: number, fixable: number): void {
     this.issueCount = total;
     this.fixableCount = fixable;
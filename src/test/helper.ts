@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { expect } from 'chai';
 import { RumdlLanguageClient } from '../client';
@@ -69,6 +70,56 @@ export async function openDocument(fileName: string): Promise<vscode.TextDocumen
   return await vscode.workspace.openTextDocument(uri);
 }
 
+/**
+ * A TextDocument for `text` that has not been opened, with the members the
+ * providers under test read. `file` is a path, or the URI of a document
+ * that need not be on disk.
+ */
+export function fakeDocument(
+  file: string | vscode.Uri,
+  text = '',
+  languageId = 'markdown'
+): vscode.TextDocument {
+  const uri = typeof file === 'string' ? vscode.Uri.file(file) : file;
+  const lines = text.split('\n');
+  const offsetAt = (position: vscode.Position) =>
+    lines.slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) +
+    position.character;
+  const positionAt = (offset: number) => {
+    let line = 0;
+    while (line < lines.length - 1 && offset > lines[line].length) {
+      offset -= lines[line].length + 1;
+      line++;
+    }
+    return new vscode.Position(line, offset);
+  };
+  return {
+    fileName: uri.fsPath,
+    uri,
+    languageId,
+    lineCount: lines.length,
+    getText: (range?: vscode.Range) =>
+      range ? text.substring(offsetAt(range.start), offsetAt(range.end)) : text,
+    lineAt: (line: number) => ({
+      text: lines[line],
+      range: new vscode.Range(line, 0, line, lines[line].length),
+    }),
+    offsetAt,
+    positionAt,
+    getWordRangeAtPosition: (position: vscode.Position, regex: RegExp) => {
+      const global = new RegExp(regex.source, 'g');
+      for (const match of lines[position.line].matchAll(global)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (start <= position.character && position.character <= end) {
+          return new vscode.Range(position.line, start, position.line, end);
+        }
+      }
+      return undefined;
+    },
+  } as unknown as vscode.TextDocument;
+}
+
 export async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -77,6 +128,22 @@ export function isWindows(): boolean {
   return process.platform === 'win32';
 }
 
+/** The rumdl binary bundled for this platform, when it has been downloaded */
+export function findBundledRumdl(): string | undefined {
+  const binary =
+    process.platform === 'win32'
+      ? 'rumdl-x86_64-pc-windows-msvc.exe'
+      : process.platform === 'darwin'
+        ? process.arch === 'arm64'
+          ? 'rumdl-aarch64-apple-darwin'
+          : 'rumdl-x86_64-apple-darwin'
+        : process.arch === 'arm64'
+          ? 'rumdl-aarch64-unknown-linux-musl'
+          : 'rumdl-x86_64-unknown-linux-musl';
+  const candidate = path.resolve(__dirname, '../../bundled-tools', binary);
+  return fs.existsSync(candidate) ? candidate : undefined;
+}
+
 export async function waitForDiagnostics(
   uri: vscode.Uri,
   timeout = 5000
@@ -1,8 +1,10 @@
 import { expect } from '../helper';
-import { RumdlLanguageClient } from '../../client';
+import { RumdlLanguageClient, buildDocumentSelector } from '../../client';
 import { StatusBarManager } from '../../statusBar';
 import { sleep } from '../helper';
+import { outermostFolders, owningFolder } from '../../utils/workspace';
 import * as vscode from 'vscode';
+import * as path from 'path';
 
 suite('Language Client Tests', () => {
   let client: RumdlLanguageClient;
@@ -108,3 +110,53 @@ suite('Language Client Tests', () => {
     await config.update('server.path', undefined, true);
   });
 });
+
+suite('Language Server Routing Tests', () => {
+  const root = path.resolve('/workspace');
+  const folder = (name: string, index: number): vscode.WorkspaceFolder => ({
+    uri: vscode.Uri.file(path.join(root, name)),
+    name: path.basename(name),
+    index,
+  });
+  const docs = folder('docs', 0);
+  const nested = folder(path.join('docs', 'api'), 1);
+  const site = folder('site', 2);
+  const folders = [docs, nested, site];
+
+  test('routes a file to the outermost folder that contains it', () => {
+    expect(outermostFolders(folders)).to.deep.equal([docs, site]);
+    expect(owningFolder(vscode.Uri.file(path.join(root, 'docs', 'api', 'a.md')), folders)).to.equal(
+      docs
+    );
+    expect(owningFolder(vscode.Uri.file(path.join(root, 'site', 'b.md')), folders)).to.equal(site);
+  });
+
+  test('leaves files outside every folder to the fallback server', () => {
+    expect(owningFolder(vscode.Uri.file(path.join(root, 'docs-old', 'c.md')), folders)).to.be
+      .undefined;
+    expect(owningFolder(vscode.Uri.parse('untitled:Untitled-1'), folders)).to.be.undefined;
+  });
+
+  test('selects the files of a folder, and untitled documents when asked', () => {
+    const pattern = new vscode.RelativePattern(docs, '**/*');
+    const selector = buildDocumentSelector(pattern, true);
+
+    expect(selector).to.deep.include({ scheme: 'file', language: 'markdown', pattern });
+    expect(selector).to.deep.include({ scheme: 'untitled', language: 'markdown' });
+    expect(buildDocumentSelector(undefined, false)).to.deep.include({
+      scheme: 'file',
+      language: 'markdown',
+    });
+    expect(buildDocumentSelector(undefined, false).some(filter => 'pattern' in filter)).to.be.false;
+  });
+
+  test('selects documents of the given schemes only', () => {
+    const selector = buildDocumentSelector(undefined, false, ['memfs', 'vscode-vfs']);
+
+    expect(selector).to.deep.include({ scheme: 'vscode-vfs', language: 'markdown' });
+    expect(selector).to.deep.include({ scheme: 'memfs', language: 'markdown' });
+    expect(selector.some(filter => 'scheme' in filter && filter.scheme === 'file')).to.be.false;
+    expect(selector.some(filter => 'scheme' in filter && filter.scheme === 'vscode-notebook-cell'))
+      .to.be.false;
+  });
+});
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { expect, fakeDocument } from '../helper';
+import { ConfigCompletionProvider } from '../../configCompletion';
+import { RuleOptionSource } from '../../configValidator';
+import { GLOBAL_PROPERTIES } from '../../configSchema';
+
+/**
+ * Complete at the `|` marker in `text`.
+ */
+function complete(fileName: string, text: string, ruleOptions?: RuleOptionSource) {
+  const offset = text.indexOf('|');
+  const content = text.replace('|', '');
+  const before = content.substring(0, offset).split('\n');
+  const document = fakeDocument(fileName, content);
+  const position = new vscode.Position(before.length - 1, before[before.length - 1].length);
+
+  const items = new ConfigCompletionProvider(() => ruleOptions).provideCompletionItems(
+    document,
+    position
+  ) as vscode.CompletionItem[] | undefined;
+  return items ?? [];
+}
+
+const labels = (items: vscode.CompletionItem[]) => items.map(item => item.label);
+
+suite('Config Completion Tests', () => {
+  test('offers section headers, rule codes and aliases after [', () => {
+    const items = complete('/repo/.rumdl.toml', '[|');
+
+    expect(labels(items)).to.include.members([
+      'global',
+      'per-file-ignores',
+      'per-file-flavor',
+      'code-block-tools',
+      'MD013',
+      'line-length',
+    ]);
+    const md013 = items.find(item => item.label === 'MD013');
+    expect(md013?.insertText).to.equal('MD013]');
+    expect(md013?.detail).to.equal('line-length');
+  });
+
+  test('does not add a second closing bracket', () => {
+    const [item] = complete('/repo/.rumdl.toml', '[glo|]');
+
+    expect(item.insertText).to.equal('global');
+    expect(
+      [item.range as vscode.Range].map(r => [r.start.character, r.end.character])
+    ).to.deep.equal([[1, 4]]);
+  });
+
+  test('offers tool.rumdl tables in pyproject.toml, and rule sections once typed', () => {
+    const tables = labels(complete('/repo/pyproject.toml', '[t|'));
+    const rules = labels(complete('/repo/pyproject.toml', '[tool.rumdl.|'));
+
+    expect(tables).to.include.members(['tool.rumdl', 'tool.rumdl.per-file-ignores']);
+    expect(tables).not.to.include('tool.rumdl.MD013');
+    expect(rules).to.include.members(['tool.rumdl.MD013', 'tool.rumdl.line-length']);
+  });
+
+  test('offers [global] keys with their docs', () => {
+    const items = complete('/repo/.rumdl.toml', '[global]\nresp|');
+    const item = items.find(i => i.label === 'respect-gitignore');
+
+    expect(labels(items)).to.have.members(GLOBAL_PROPERTIES);
+    expect(item?.insertText).to.equal('respect-gitignore = ');
+    expect(item?.detail).to.equal('boolean');
+  });
+
+  test('offers extends at the root of .rumdl.toml and in [tool.rumdl]', () => {
+    expect(labels(complete('/repo/.rumdl.toml', '|'))).to.deep.equal(['extends']);
+    expect(labels(complete('/repo/pyproject.toml', '[tool.rumdl]\n|'))).to.include('extends');
+    expect(labels(complete('/repo/.rumdl.toml', '[global]\n|'))).not.to.include('extends');
+  });
+
+  test('offers flavors and severities as values', () => {
+    const quoted = complete('/repo/.rumdl.toml', '[global]\nflavor = |');
+    const inString = complete('/repo/.rumdl.toml', '[per-file-flavor]\n"docs/**" = "mk|');
+    const severity = complete('/repo/.rumdl.toml', '[MD013]\nseverity = "|');
+
+    expect(quoted.find(i => i.label === 'mkdocs')?.insertText).to.equal('"mkdocs"');
+    expect(inString.find(i => i.label === 'mkdocs')?.insertText).to.equal('mkdocs');
+    expect(labels(severity)).to.deep.equal(['error', 'warning', 'info']);
+  });
+
+  test('offers rule IDs inside rule lists, across lines', () => {
+    const inline = complete('/repo/.rumdl.toml', '[global]\ndisable = ["MD001", |');
+    const multiline = complete(
+      '/repo/pyproject.toml',
+      '[tool.rumdl]\nfixable = [\n  "MD001",\n  "|'
+    );
+    const perFile = complete('/repo/.rumdl.toml', '[per-file-ignores]\n"README.md" = ["|');
+
+    expect(inline.find(i => i.label === 'MD013')?.insertText).to.equal('"MD013"');
+    expect(multiline.find(i => i.label === 'MD013')?.insertText).to.equal('MD013');
+    expect(labels(perFile)).to.include('MD033');
+  });
+
+  test('does not offer rule IDs in other arrays', () => {
+    expect(complete('/repo/.rumdl.toml', '[global]\nexclude = ["|')).to.be.empty;
+    expect(complete('/repo/.rumdl.toml', '[global]\ndisable = ["MD001"]\nexclude = [|')).to.be
+      .empty;
+  });
+
+  test('offers the options of a rule section when the binary is known', () => {
+    const source: RuleOptionSource = {
+      getRuleOptions: code => (code === 'MD013' ? { 'line-length': 80, 'code-blocks': true } : {}),
+    };
+
+    const items = complete('/repo/.rumdl.toml', '[line-length]\n|', source);
+
+    expect(labels(items)).to.deep.equal(['line-length', 'code-blocks', 'severity']);
+  });
+
+  test('stays out of tables that belong to other tools', () => {
+    expect(complete('/repo/pyproject.toml', '[tool.black]\n|')).to.be.empty;
+  });
+});
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { expect, fakeDocument } from '../helper';
+import { ConfigDefaultsInlayHintProvider } from '../../configDefaults';
+import { ConfigurationManager, RumdlConfig } from '../../configuration';
+import { RuleOptionSource } from '../../configValidator';
+
+const ruleOptions: RuleOptionSource = {
+  getRuleOptions: ruleCode =>
+    ruleCode === 'MD013'
+      ? { 'line-length': 80, 'code-blocks': true, 'reflow-mode': 'default' }
+      : undefined,
+  getValueProblem: () => undefined,
+};
+
+// `line:character label` per hint
+function hints(content: string, fileName = '/project/.rumdl.toml'): string[] {
+  const document = fakeDocument(fileName, content);
+  const provider = new ConfigDefaultsInlayHintProvider(() => ruleOptions);
+  return provider
+    .provideInlayHints(document, new vscode.Range(0, 0, 1000, 0))
+    .map(hint => `${hint.position.line}:${hint.position.character} ${String(hint.label)}`);
+}
+
+suite('Config Defaults Tests', () => {
+  let sandbox: sinon.SinonSandbox;
+  let showUnsetDefaults: boolean;
+
+  setup(() => {
+    sandbox = sinon.createSandbox();
+    showUnsetDefaults = false;
+    sandbox
+      .stub(ConfigurationManager, 'getConfiguration')
+      .callsFake(() => ({ config: { showUnsetDefaults } }) as unknown as RumdlConfig);
+  });
+
+  teardown(() => {
+    sandbox.restore();
+  });
+
+  test('shows the default after values that differ from it', () => {
+    const content = [
+      '[global]',
+      'line-length = 100 # wide',
+      'flavor = "standard"',
+      'disable = [',
+      '  "MD041",',
+      ']',
+      '',
+      '[line-length]',
+      'line_length = 120',
+      'code-blocks = true',
+      'unknown = 1',
+    ].join('\n');
+
+    expect(hints(content)).to.deep.equal([
+      '1:17 default: 80',
+      '5:1 default: []',
+      '8:17 default: 80',
+    ]);
+  });
+
+  test('finds the tables of pyproject.toml', () => {
+    const content = [
+      '[tool.black]',
+      'line-length = 88',
+      '',
+      '[tool.rumdl.MD013]',
+      'line-length = 100',
+    ].join('\n');
+
+    expect(hints(content, '/project/pyproject.toml')).to.deep.equal(['4:17 default: 80']);
+  });
+
+  test('lists the defaults a section leaves unset when asked to', () => {
+    const content = ['[MD013]', 'line-length = 100', '# trailing comment', ''].join('\n');
+
+    expect(hints(content)).to.deep.equal(['1:17 default: 80']);
+    showUnsetDefaults = true;
+    expect(hints(content)).to.deep.equal([
+      '1:17 default: 80',
+      '1:17 defaults: code-blocks = true, reflow-mode = "default"',
+    ]);
+  });
+
+  test('shows nothing for a document that is not valid TOML', () => {
+    expect(hints('[global]\nline-length = ')).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expect, fakeDocument } from '../helper';
+import {
+  ConfigExtendsLinkProvider,
+  expandExtendsPath,
+  findExtendsReference,
+  validateExtendsChain,
+} from '../../configExtends';
+
+suite('Config Extends Tests', () => {
+  let testDir: string;
+
+  const write = (name: string, content: string): string => {
+    const file = path.join(testDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  const messagesFor = async (name: string, content: string, env: NodeJS.ProcessEnv = {}) =>
+    (
+      await validateExtendsChain(
+        content,
+        write(name, content),
+        path.basename(name) === 'pyproject.toml',
+        env
+      )
+    ).map(e => e.message);
+
+  setup(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rumdl-extends-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  suite('expandExtendsPath', () => {
+    test('resolves relative paths against the declaring file', () => {
+      expect(expandExtendsPath('../base.toml', '/repo/docs', {})).to.deep.equal({
+        path: path.resolve('/repo/base.toml'),
+      });
+    });
+
+    test('expands ~/, $VAR and ${VAR}, and reads $$ as a literal $', () => {
+      const env = { CONFIGS: '/shared', NAME: 'team' };
+
+      expect(expandExtendsPath('~/base.toml', '/repo', env, '/home/me')).to.deep.equal({
+        path: path.resolve('/home/me/base.toml'),
+      });
+      expect(expandExtendsPath('$CONFIGS/${NAME}.toml', '/repo', env)).to.deep.equal({
+        path: path.resolve('/shared/team.toml'),
+      });
+      expect(expandExtendsPath('cost$$.toml', '/repo', env)).to.deep.equal({
+        path: path.resolve('/repo/cost$.toml'),
+      });
+    });
+
+    test('reports an unset variable', () => {
+      expect(expandExtendsPath('${MISSING}/base.toml', '/repo', {})).to.deep.equal({
+        unsetVariable: 'MISSING',
+      });
+    });
+
+    test('keeps a $ that starts no variable reference', () => {
+      expect(expandExtendsPath('a$-${b.toml', '/repo', {})).to.deep.equal({
+        path: path.resolve('/repo/a$-${b.toml'),
+      });
+    });
+  });
+
+  suite('findExtendsReference', () => {
+    test('locates the path between the quotes', () => {
+      const reference = findExtendsReference('# base\nextends = "../base.toml"\n', false);
+
+      expect(reference).to.deep.equal({ value: '../base.toml', line: 1, start: 11, end: 23 });
+    });
+
+    test('only reads extends from the config root', () => {
+      expect(findExtendsReference('[global]\nextends = "base.toml"\n', false)).to.be.undefined;
+      expect(findExtendsReference('[tool.black]\nextends = "base.toml"\n', true)).to.be.undefined;
+      expect(findExtendsReference("[tool.rumdl]\nextends = 'base.toml'\n", true)?.value).to.equal(
+        'base.toml'
+      );
+    });
+
+    test('reads extends from dotted keys and inline tables of pyproject.toml', () => {
+      expect(findExtendsReference('tool.rumdl.extends = "base.toml"\n', true)).to.deep.equal({
+        value: 'base.toml',
+        line: 0,
+        start: 22,
+        end: 31,
+      });
+      expect(
+        findExtendsReference('[tool]\nrumdl = { extends = "base.toml" }\n', true)?.line
+      ).to.equal(1);
+    });
+  });
+
+  suite('validateExtendsChain', async () => {
+    test('accepts a chain that resolves', async () => {
+      write('configs/base.toml', 'extends = "$$root.toml"\n');
+      write('configs/$root.toml', '[MD013]\nline-length = 100\n');
+
+      expect(await messagesFor('.rumdl.toml', 'extends = "configs/base.toml"\n')).to.be.empty;
+    });
+
+    test('reports a missing target on the extends line', async () => {
+      const content = 'extends = "missing.toml"\n';
+      const errors = await validateExtendsChain(content, write('.rumdl.toml', content), false, {});
+
+      expect(errors).to.have.length(1);
+      expect(errors[0]).to.include({
+        line: 0,
+        column: 11,
+        message: "Extends target not found: 'missing.toml'",
+      });
+    });
+
+    test('reports an unset environment variable', async () => {
+      expect(await messagesFor('.rumdl.toml', 'extends = "$SHARED/base.toml"\n')).to.deep.equal([
+        'Extends path references undefined environment variable $SHARED',
+      ]);
+    });
+
+    test('reports a cycle through the chain', async () => {
+      write('sub/base.toml', 'extends = "../.rumdl.toml"\n');
+
+      expect(await messagesFor('.rumdl.toml', 'extends = "sub/base.toml"\n')).to.deep.equal([
+        `Circular extends: .rumdl.toml → ${path.join('sub', 'base.toml')} → .rumdl.toml`,
+      ]);
+    });
+
+    test('names the base config a deeper problem comes from', async () => {
+      write('base/pyproject.toml', '[tool.rumdl]\nextends = "gone.toml"\n');
+
+      expect(
+        await messagesFor('pyproject.toml', '[tool.rumdl]\nextends = "base/pyproject.toml"\n')
+      ).to.deep.equal([
+        `Extends target not found: 'gone.toml' (extended by '${path.join('base', 'pyproject.toml')}')`,
+      ]);
+    });
+
+    test('reports a base config that is not valid TOML', async () => {
+      write('base.toml', '[MD013\n');
+
+      const [message] = await messagesFor('.rumdl.toml', 'extends = "base.toml"\n');
+
+      expect(message).to.match(/^Cannot load base config 'base.toml': /);
+    });
+
+    test('reports a directory target', async () => {
+      fs.mkdirSync(path.join(testDir, 'shared'));
+
+      expect(await messagesFor('.rumdl.toml', 'extends = "shared"\n')).to.deep.equal([
+        "Extends target 'shared' is not a file",
+      ]);
+    });
+  });
+
+  test('links the extends path to the base config', async () => {
+    const base = write('base.toml', '');
+    const configPath = write('.rumdl.toml', 'extends = "base.toml"\n');
+    const document = fakeDocument(configPath, 'extends = "base.toml"\n');
+
+    const links = await new ConfigExtendsLinkProvider().provideDocumentLinks(document);
+
+    expect(links).to.have.length(1);
+    expect(links[0].target?.fsPath).to.equal(base);
+    expect([links[0].range.start.character, links[0].range.end.character]).to.deep.equal([11, 20]);
+  });
+});
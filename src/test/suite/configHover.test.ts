@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { expect, fakeDocument } from '../helper';
+import { ConfigHoverProvider } from '../../configHover';
+
+function hoverText(fileName: string, text: string, line: number, character: number) {
+  const hover = new ConfigHoverProvider().provideHover(
+    fakeDocument(fileName, text),
+    new vscode.Position(line, character)
+  ) as vscode.Hover | undefined;
+  return hover && (hover.contents as unknown as vscode.MarkdownString).value;
+}
+
+suite('Config Hover Tests', () => {
+  test('documents a [global] key with its type and default', () => {
+    const text = hoverText('/repo/.rumdl.toml', '[global]\nrespect-gitignore = true\n', 1, 3);
+
+    expect(text).to.match(/^\*\*respect-gitignore\*\* · `boolean` · default `true`/);
+    expect(text).to.include('Respect .gitignore files when scanning directories');
+  });
+
+  test('documents snake_case keys under their kebab-case name', () => {
+    const text = hoverText('/repo/.rumdl.toml', '[global]\nline_length = 100\n', 1, 0);
+
+    expect(text).to.match(/^\*\*line-length\*\* · `integer` · default `80`/);
+  });
+
+  test('lists the allowed values of an enum', () => {
+    const text = hoverText('/repo/.rumdl.toml', '[global]\nflavor = "mkdocs"\n', 1, 2);
+
+    expect(text).to.include('Allowed values: `standard`, `gfm`');
+  });
+
+  test('documents a section header', () => {
+    const text = hoverText('/repo/.rumdl.toml', '[per-file-flavor]\n', 0, 5);
+
+    expect(text).to.match(/^\*\*\[per-file-flavor\]\*\* · `table`/);
+    expect(text).to.include('Per-file flavor overrides');
+  });
+
+  test('shows the name and summary of a rule section, including aliases', () => {
+    const byCode = hoverText('/repo/.rumdl.toml', '[MD044]\nnames = ["rumdl"]\n', 0, 2);
+    const byAlias = hoverText('/repo/.rumdl.toml', '[rules.proper-names]\n', 0, 10);
+
+    expect(byCode).to.match(/^\*\*MD044\*\* · proper-names\n\nProper names/);
+    expect(byCode).to.include('[Documentation](https://rumdl.dev/md044/)');
+    expect(byAlias).to.equal(byCode);
+  });
+
+  test('shows the rule for a rule ID inside a value', () => {
+    const text = hoverText(
+      '/repo/.rumdl.toml',
+      '[global]\ndisable = ["MD013", "no-bare-urls"]',
+      1,
+      24
+    );
+
+    expect(text).to.match(/^\*\*MD034\*\* · no-bare-urls/);
+  });
+
+  test('documents extends only where rumdl reads it', () => {
+    expect(hoverText('/repo/.rumdl.toml', 'extends = "base.toml"\n', 0, 1)).to.match(
+      /^\*\*extends\*\* · `string`/
+    );
+    expect(
+      hoverText('/repo/pyproject.toml', '[tool.rumdl]\nextends = "base.toml"\n', 1, 1)
+    ).to.match(/^\*\*extends\*\*/);
+    expect(hoverText('/repo/.rumdl.toml', '[global]\nextends = "base.toml"\n', 1, 1)).to.be
+      .undefined;
+  });
+
+  test('works in the [tool.rumdl] part of pyproject.toml only', () => {
+    const text = '[tool.black]\nline-length = 88\n\n[tool.rumdl]\nline-length = 100\n';
+
+    expect(hoverText('/repo/pyproject.toml', text, 1, 2)).to.be.undefined;
+    expect(hoverText('/repo/pyproject.toml', text, 4, 2)).to.match(/^\*\*line-length\*\*/);
+    expect(hoverText('/repo/pyproject.toml', '[tool.rumdl.MD013]\n', 0, 14)).to.match(
+      /^\*\*MD013\*\* · line-length/
+    );
+  });
+});
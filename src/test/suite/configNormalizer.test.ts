@@ -0,0 +1,154 @@
+import { expect, fakeDocument } from '../helper';
+import { normalizeConfig, normalizeConfigEdits } from '../../configNormalizer';
+
+function normalize(lines: string[], isPyproject = false): string[] {
+  return normalizeConfig(lines.join('\n'), isPyproject).split('\n');
+}
+
+suite('Config Normalizer Tests', () => {
+  test('renames global keys and rule options to kebab-case', () => {
+    expect(
+      normalize([
+        '[global]',
+        'line_length = 100',
+        'respect_gitignore = true # keep',
+        '',
+        '[MD013]',
+        'code_blocks = false',
+        'line-length = 120',
+      ])
+    ).to.deep.equal([
+      '[global]',
+      'line-length = 100',
+      'respect-gitignore = true # keep',
+      '',
+      '[MD013]',
+      'code-blocks = false',
+      'line-length = 120',
+    ]);
+  });
+
+  test('leaves keys inside multi-line values alone', () => {
+    const content = ['[MD044]', 'names = [', '  "snake_case",', ']', 'code_blocks = true'];
+
+    expect(normalize(content)).to.deep.equal([
+      '[MD044]',
+      'names = [',
+      '  "snake_case",',
+      ']',
+      'code-blocks = true',
+    ]);
+  });
+
+  test('converts rule names and legacy headers to rule codes', () => {
+    expect(
+      normalize([
+        '[line-length]  # wrapping',
+        'line_length = 100',
+        '',
+        '[rules.MD033]',
+        'allowed_elements = ["br"]',
+      ])
+    ).to.deep.equal([
+      '[MD013]  # wrapping',
+      'line-length = 100',
+      '',
+      '[MD033]',
+      'allowed-elements = ["br"]',
+    ]);
+  });
+
+  test('uses [tool.rumdl.MD###] in pyproject.toml and skips other tools', () => {
+    expect(
+      normalize(
+        [
+          '[tool.black]',
+          'line_length = 88',
+          '',
+          '[tool.rumdl]',
+          'line_length = 100',
+          '',
+          '[tool.rumdl.line-length]',
+          'code_blocks = false',
+        ],
+        true
+      )
+    ).to.deep.equal([
+      '[tool.black]',
+      'line_length = 88',
+      '',
+      '[tool.rumdl]',
+      'line-length = 100',
+      '',
+      '[tool.rumdl.MD013]',
+      'code-blocks = false',
+    ]);
+  });
+
+  test('sorts rule sections by code, keeping comments with their section', () => {
+    expect(
+      normalize([
+        '[global]',
+        'disable = ["MD041"]',
+        '',
+        '# Allow line breaks',
+        '[MD033]',
+        'allowed-elements = ["br"]',
+        '',
+        '[MD013]',
+        'line-length = 100',
+        '',
+        '[per-file-ignores]',
+        '"README.md" = ["MD041"]',
+        '',
+      ])
+    ).to.deep.equal([
+      '[global]',
+      'disable = ["MD041"]',
+      '',
+      '[MD013]',
+      'line-length = 100',
+      '',
+      '# Allow line breaks',
+      '[MD033]',
+      'allowed-elements = ["br"]',
+      '',
+      '[per-file-ignores]',
+      '"README.md" = ["MD041"]',
+      '',
+    ]);
+  });
+
+  test('merges sections for the same rule, the later value winning', () => {
+    expect(
+      normalize([
+        '[MD013]',
+        'line-length = 80',
+        'strict = true',
+        '',
+        '[line-length]',
+        'line_length = 120',
+        'code_blocks = false',
+      ])
+    ).to.deep.equal(['[MD013]', 'line-length = 120', 'strict = true', 'code-blocks = false']);
+  });
+
+  test('leaves a normalized or invalid document unchanged', () => {
+    const normal = '[global]\nline-length = 100\n\n[MD013]\nstrict = true\n';
+    const invalid = '[global\nline_length = 100\n';
+
+    expect(normalizeConfig(normal, false)).to.equal(normal);
+    expect(normalizeConfig(invalid, false)).to.equal(invalid);
+  });
+
+  test('leaves a pyproject.toml without rumdl settings to its other tools', () => {
+    const other = '[tool.black]\nline_length = 100\n';
+
+    expect(normalizeConfigEdits(fakeDocument('/project/pyproject.toml', other))).to.be.empty;
+    expect(
+      normalizeConfigEdits(
+        fakeDocument('/project/pyproject.toml', '[tool.rumdl]\nline_length = 100\n')
+      )
+    ).to.have.length(1);
+  });
+});
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { expect } from '../helper';
+import {
+  MarkdownFileIndex,
+  findFilePatterns,
+  globToRegExp,
+  matchFilePattern,
+  validateFilePatterns,
+} from '../../configPatterns';
+
+const root = path.resolve('/project');
+const files = ['README.md', 'docs/a.md', 'docs/sub/b.md', 'other/c.md'].map(file =>
+  path.join(root, file)
+);
+
+function matches(pattern: string): string[] {
+  return matchFilePattern(pattern, root, files).map(file =>
+    path.relative(root, file).split(path.sep).join('/')
+  );
+}
+
+suite('Config File Pattern Tests', () => {
+  suite('findFilePatterns', () => {
+    test('finds the keys of per-file-ignores and per-file-flavor', () => {
+      const content = [
+        '[global]',
+        'disable = ["MD013"]',
+        '',
+        '[per-file-ignores]',
+        '"old-docs/**/*.md" = ["MD033"]',
+        "  'README.md' = ['MD041']  # badges",
+        '',
+        '[per-file-flavor]',
+        '"docs/**/*.md" = "mkdocs"',
+        '',
+        '[MD013]',
+        'line-length = 100',
+      ].join('\n');
+
+      expect(findFilePatterns(content, false)).to.deep.equal([
+        {
+          pattern: 'old-docs/**/*.md',
+          section: 'per-file-ignores',
+          line: 4,
+          start: 1,
+          end: 17,
+        },
+        { pattern: 'README.md', section: 'per-file-ignores', line: 5, start: 3, end: 12 },
+        { pattern: 'docs/**/*.md', section: 'per-file-flavor', line: 8, start: 1, end: 13 },
+      ]);
+    });
+
+    test('reads [tool.rumdl.per-file-ignores] in pyproject.toml only', () => {
+      const content = [
+        '[tool.other.per-file-ignores]',
+        '"a.md" = ["X1"]',
+        '[tool.rumdl.per-file-ignores]',
+        '"b.md" = ["MD033"]',
+      ].join('\n');
+
+      expect(findFilePatterns(content, true).map(r => r.pattern)).to.deep.equal(['b.md']);
+    });
+  });
+
+  suite('matchFilePattern', () => {
+    // Expected matches were taken from the rumdl CLI on the same tree
+    test('matches the way rumdl does, relative to the config directory', () => {
+      expect(matches('*.md')).to.deep.equal([
+        'README.md',
+        'docs/a.md',
+        'docs/sub/b.md',
+        'other/c.md',
+      ]);
+      expect(matches('README.md')).to.deep.equal(['README.md']);
+      expect(matches('a.md')).to.deep.equal([]);
+      expect(matches('docs/*.md')).to.deep.equal(['docs/a.md', 'docs/sub/b.md']);
+      expect(matches('docs/**')).to.deep.equal(['docs/a.md', 'docs/sub/b.md']);
+      expect(matches('docs/**/*.md')).to.deep.equal(['docs/a.md', 'docs/sub/b.md']);
+      expect(matches('**/b.md')).to.deep.equal(['docs/sub/b.md']);
+      expect(matches('*/a.md')).to.deep.equal(['docs/a.md']);
+      expect(matches('{docs,other}/*.md')).to.deep.equal([
+        'docs/a.md',
+        'docs/sub/b.md',
+        'other/c.md',
+      ]);
+      expect(matches('docs/[ab].md')).to.deep.equal(['docs/a.md']);
+      expect(matches('docs/?.md')).to.deep.equal(['docs/a.md']);
+    });
+
+    test('does not match directories, leading ./ or a different case', () => {
+      expect(matches('docs')).to.deep.equal([]);
+      expect(matches('./README.md')).to.deep.equal([]);
+      expect(matches('DOCS/a.md')).to.deep.equal([]);
+      expect(matches('sub/b.md')).to.deep.equal([]);
+    });
+
+    test('matches absolute and home-relative patterns against the full path', () => {
+      const home = path.resolve('/home/me');
+      const homeFiles = [path.join(home, 'notes/todo.md')];
+
+      expect(matchFilePattern(path.join(root, 'docs/*.md'), root, files)).to.have.length(2);
+      expect(matchFilePattern('~/notes/*.md', root, homeFiles, home)).to.deep.equal(homeFiles);
+    });
+
+    test('treats regex characters in a pattern literally', () => {
+      expect(globToRegExp('docs/(draft)+.md').test('docs/(draft)+.md')).to.be.true;
+      expect(globToRegExp('docs/[!a].md').test('docs/a.md')).to.be.false;
+      expect(globToRegExp('docs/[!a].md').test('docs/b.md')).to.be.true;
+    });
+  });
+
+  suite('validateFilePatterns', () => {
+    test('warns only about patterns with no matches', () => {
+      const references = findFilePatterns(
+        '[per-file-ignores]\n"docs/*.md" = ["MD033"]\n"old-docs/**/*.md" = ["MD033"]\n',
+        false
+      );
+
+      const warnings = validateFilePatterns(references, root, files);
+
+      expect(warnings.map(w => [w.line, w.column, w.message])).to.deep.equal([
+        [2, 1, "Pattern 'old-docs/**/*.md' in [per-file-ignores] matches no Markdown files"],
+      ]);
+    });
+  });
+
+  suite('MarkdownFileIndex', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    setup(() => {
+      sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+      sandbox.restore();
+    });
+
+    test("lists with the user's files.exclude and skips dependency directories", async () => {
+      const findFiles = sandbox
+        .stub(vscode.workspace, 'findFiles')
+        .resolves(
+          ['README.md', 'node_modules/pkg/README.md', 'docs/.git/x.md', 'docs/a.md'].map(file =>
+            vscode.Uri.file(path.join(root, file))
+          )
+        );
+      const index = new MarkdownFileIndex();
+
+      try {
+        expect(await index.getFiles(root)).to.deep.equal(
+          ['README.md', 'docs/a.md'].map(file => path.join(root, file))
+        );
+        expect(findFiles.firstCall.args[1]).to.be.undefined;
+      } finally {
+        index.dispose();
+      }
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { expect } from '../helper';
+import { ConfigFileScanner, withinScanDepth } from '../../configScan';
+import { ConfigurationManager, RumdlConfig } from '../../configuration';
+
+suite('Config Scan Tests', () => {
+  const folder = path.join(path.sep, 'workspace');
+  const file = (...parts: string[]) => path.join(folder, ...parts);
+
+  test('counts the directories between the workspace folder and the config', () => {
+    expect(withinScanDepth(file('.rumdl.toml'), folder, 0)).to.equal(true);
+    expect(withinScanDepth(file('docs', '.rumdl.toml'), folder, 0)).to.equal(false);
+    expect(withinScanDepth(file('docs', '.rumdl.toml'), folder, 1)).to.equal(true);
+    expect(withinScanDepth(file('a', 'b', 'c', 'pyproject.toml'), folder, 2)).to.equal(false);
+    expect(withinScanDepth(file('a', 'b', 'c', 'pyproject.toml'), folder, 3)).to.equal(true);
+  });
+
+  test('counts .config/rumdl.toml as a file of the directory above', () => {
+    expect(withinScanDepth(file('.config', 'rumdl.toml'), folder, 0)).to.equal(true);
+    expect(withinScanDepth(file('docs', '.config', 'rumdl.toml'), folder, 1)).to.equal(true);
+    expect(withinScanDepth(file('.config', '.rumdl.toml'), folder, 0)).to.equal(false);
+  });
+
+  test('finds nothing with a negative depth or outside the folder', () => {
+    expect(withinScanDepth(file('.rumdl.toml'), folder, -1)).to.equal(false);
+    expect(withinScanDepth(path.join(path.sep, 'other', '.rumdl.toml'), folder, 5)).to.equal(false);
+  });
+
+  suite('ConfigFileScanner', () => {
+    let sandbox: sinon.SinonSandbox;
+    let settings: { scanDepth: number; scanExclude: string };
+    let found: string[];
+    let watcher: Record<'create' | 'change' | 'delete', vscode.EventEmitter<vscode.Uri>>;
+    let scanner: ConfigFileScanner;
+
+    const names = (uris: vscode.Uri[]) =>
+      uris.map(uri => path.relative(folder, uri.fsPath).split(path.sep).join('/'));
+
+    setup(() => {
+      sandbox = sinon.createSandbox();
+      settings = { scanDepth: 1, scanExclude: '' };
+      found = [];
+      watcher = {
+        create: new vscode.EventEmitter(),
+        change: new vscode.EventEmitter(),
+        delete: new vscode.EventEmitter(),
+      };
+      sandbox
+        .stub(ConfigurationManager, 'getConfiguration')
+        .callsFake(() => ({ config: settings }) as unknown as RumdlConfig);
+      sandbox
+        .stub(vscode.workspace, 'findFiles')
+        .callsFake(async () => found.map(f => vscode.Uri.file(f)));
+      sandbox
+        .stub(vscode.workspace, 'getWorkspaceFolder')
+        .callsFake(uri =>
+          uri.fsPath.startsWith(folder + path.sep)
+            ? { uri: vscode.Uri.file(folder), name: 'workspace', index: 0 }
+            : undefined
+        );
+      sandbox.stub(vscode.workspace, 'createFileSystemWatcher').returns({
+        onDidCreate: watcher.create.event,
+        onDidChange: watcher.change.event,
+        onDidDelete: watcher.delete.event,
+        dispose: () => undefined,
+      } as unknown as vscode.FileSystemWatcher);
+      scanner = new ConfigFileScanner();
+    });
+
+    teardown(() => {
+      scanner.dispose();
+      sandbox.restore();
+    });
+
+    test('keeps the config files within the scan depth and outside scanExclude', async () => {
+      settings.scanExclude = '**/{vendor,node_modules}/**';
+      found = [
+        file('.rumdl.toml'),
+        file('docs', 'pyproject.toml'),
+        file('docs', 'deep', '.rumdl.toml'),
+        file('vendor', 'rumdl.toml'),
+        file('node_modules', '.rumdl.toml'),
+        path.join(path.sep, 'other', '.rumdl.toml'),
+      ];
+
+      expect(names(await scanner.scan())).to.deep.equal(['.rumdl.toml', 'docs/pyproject.toml']);
+      // scanExclude filters the results, leaving files.exclude to findFiles
+      expect((vscode.workspace.findFiles as sinon.SinonStub).firstCall.args).to.have.lengthOf(1);
+      expect(names(scanner.getFiles())).to.deep.equal(['.rumdl.toml', 'docs/pyproject.toml']);
+      expect(scanner.has(vscode.Uri.file(file('docs', 'deep', '.rumdl.toml')))).to.equal(false);
+    });
+
+    test('does not list the workspace with a negative depth', async () => {
+      settings.scanDepth = -1;
+      found = [file('.rumdl.toml')];
+
+      expect(await scanner.scan()).to.be.empty;
+      expect((vscode.workspace.findFiles as sinon.SinonStub).called).to.equal(false);
+    });
+
+    test('reports files that leave the scan as deleted', async () => {
+      found = [file('.rumdl.toml'), file('docs', '.rumdl.toml')];
+      await scanner.scan();
+      const deleted: vscode.Uri[] = [];
+      scanner.onDidDelete(uri => deleted.push(uri));
+
+      settings.scanDepth = 0;
+      await scanner.scan();
+
+      expect(names(deleted)).to.deep.equal(['docs/.rumdl.toml']);
+      expect(names(scanner.getFiles())).to.deep.equal(['.rumdl.toml']);
+    });
+
+    test('follows files created, changed and deleted within the scan', async () => {
+      found = [file('.rumdl.toml')];
+      await scanner.scan();
+      const changed: vscode.Uri[] = [];
+      const deleted: vscode.Uri[] = [];
+      scanner.onDidChange(uri => changed.push(uri));
+      scanner.onDidDelete(uri => deleted.push(uri));
+
+      watcher.create.fire(vscode.Uri.file(file('docs', 'rumdl.toml')));
+      watcher.create.fire(vscode.Uri.file(file('a', 'b', 'rumdl.toml')));
+      watcher.change.fire(vscode.Uri.file(file('.rumdl.toml')));
+      watcher.delete.fire(vscode.Uri.file(file('.rumdl.toml')));
+      watcher.delete.fire(vscode.Uri.file(file('a', 'b', 'rumdl.toml')));
+
+      expect(names(changed)).to.deep.equal(['docs/rumdl.toml', '.rumdl.toml']);
+      expect(names(deleted)).to.deep.equal(['.rumdl.toml']);
+      expect(names(scanner.getFiles())).to.deep.equal(['docs/rumdl.toml']);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { expect, fakeDocument } from '../helper';
+import { ConfigSymbolProvider } from '../../configSymbols';
+
+function symbols(content: string, fileName = '/project/.rumdl.toml'): vscode.DocumentSymbol[] {
+  return new ConfigSymbolProvider().provideDocumentSymbols(fakeDocument(fileName, content));
+}
+
+// `name (detail) first-last` per symbol, children indented below
+function outline(list: vscode.DocumentSymbol[], indent = ''): string[] {
+  return list.flatMap(symbol => [
+    `${indent}${symbol.name}${symbol.detail ? ` (${symbol.detail})` : ''} ${symbol.range.start.line}-${symbol.range.end.line}`,
+    ...outline(symbol.children, `${indent}  `),
+  ]);
+}
+
+suite('Config Symbol Tests', () => {
+  test('lists sections with their keys, and rule names or codes as detail', () => {
+    const content = [
+      '[global]',
+      'disable = [',
+      '  "MD041",',
+      ']',
+      'line-length = 100',
+      '',
+      '# Long lines are fine in tables',
+      '[line-length]',
+      'tables = false',
+      '',
+      '[MD033]',
+      'allowed-elements = ["br"]',
+      '',
+      '[per-file-ignores]',
+      '"docs/**/*.md" = ["MD013"]',
+    ].join('\n');
+
+    expect(outline(symbols(content))).to.deep.equal([
+      'global 0-4',
+      '  disable 1-3',
+      '  line-length 4-4',
+      'line-length (MD013) 7-8',
+      '  tables 8-8',
+      'MD033 (no-inline-html) 10-11',
+      '  allowed-elements 11-11',
+      'per-file-ignores 13-14',
+      '  docs/**/*.md 14-14',
+    ]);
+  });
+
+  test('selects the header and the key name', () => {
+    const [section] = symbols('[MD013]\n  "line-length" = 80\n');
+    const [key] = section.children;
+
+    expect(section.selectionRange.end.character).to.equal(7);
+    expect([key.selectionRange.start.character, key.selectionRange.end.character]).to.deep.equal([
+      2, 15,
+    ]);
+  });
+
+  test('nests code-block-tools tables under [code-block-tools]', () => {
+    const content = [
+      '[code-block-tools]',
+      'enabled = true',
+      '[code-block-tools.languages.python]',
+      'lint = ["ruff:check"]',
+      '[MD013]',
+    ].join('\n');
+
+    expect(outline(symbols(content))).to.deep.equal([
+      'code-block-tools 0-3',
+      '  enabled 1-1',
+      '  code-block-tools.languages.python 2-3',
+      '    lint 3-3',
+      'MD013 (line-length) 4-4',
+    ]);
+  });
+
+  test('lists only the tool.rumdl tables of pyproject.toml', () => {
+    const content = [
+      '[project]',
+      'name = "docs"',
+      '[tool.rumdl]',
+      'line-length = 100',
+      '[tool.rumdl.MD013]',
+      'code-blocks = false',
+      '[tool.black]',
+      'line-length = 88',
+    ].join('\n');
+
+    expect(outline(symbols(content, '/project/pyproject.toml'))).to.deep.equal([
+      'tool.rumdl 2-3',
+      '  line-length 3-3',
+      'tool.rumdl.MD013 (line-length) 4-5',
+      '  code-blocks 5-5',
+    ]);
+  });
+});
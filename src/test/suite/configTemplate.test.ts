@@ -5,21 +5,7 @@ import * as path from 'path';
 import { spawnSync } from 'child_process';
 import { DEFAULT_CONFIG_CONTENT } from '../../commands';
 import { ConfigValidator } from '../../configValidator';
-
-function findBundledRumdl(): string | undefined {
-  const binary =
-    process.platform === 'win32'
-      ? 'rumdl-x86_64-pc-windows-msvc.exe'
-      : process.platform === 'darwin'
-        ? process.arch === 'arm64'
-          ? 'rumdl-aarch64-apple-darwin'
-          : 'rumdl-x86_64-apple-darwin'
-        : process.arch === 'arm64'
-          ? 'rumdl-aarch64-unknown-linux-musl'
-          : 'rumdl-x86_64-unknown-linux-musl';
-  const candidate = path.resolve(__dirname, '../../../bundled-tools', binary);
-  return fs.existsSync(candidate) ? candidate : undefined;
-}
+import { findBundledRumdl } from '../helper';
 
 suite('Generated Configuration Template', () => {
   test('uses the current rumdl configuration dialect', () => {
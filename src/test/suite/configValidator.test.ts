@@ -1,6 +1,6 @@
-// import * as vscode from 'vscode';
-import { expect } from '../helper';
-import { ConfigValidator } from '../../configValidator';
+import * as vscode from 'vscode';
+import { expect, fakeDocument } from '../helper';
+import { ConfigValidator, RuleOptionSource } from '../../configValidator';
 import { GLOBAL_PROPERTIES } from '../../configSchema';
 
 // Minimal valid TOML literal for each schema-defined [global] property.
@@ -803,8 +803,8 @@ module = "foo.*"
   suite('Rule sections follow the CLI', () => {
     test('an unrecognised option inside a rule section is not flagged', () => {
       // rumdl's schema models rule sections as additionalProperties: true, so
-      // the editor has no property list to validate against. The CLI reports
-      // unknown rule options itself.
+      // without the option list from the rumdl binary the editor has nothing
+      // to validate against.
       const result = ConfigValidator.validateToml('[MD013]\nwhatever = 1\n');
 
       expect(result.errors, `errors: ${result.errors.map(e => e.message).join('; ')}`).to.be.empty;
@@ -818,4 +818,631 @@ module = "foo.*"
       expect(result.errors, `errors: ${result.errors.map(e => e.message).join('; ')}`).to.be.empty;
     });
   });
+  suite('code-block-tools', () => {
+    const errorsOf = (config: string, isPyproject = false) =>
+      ConfigValidator.validateToml(config, isPyproject).errors.map(e => e.message);
+
+    test('accepts a complete configuration across nested tables', () => {
+      const config = `[code-block-tools]
+enabled = true
+normalize-language = "linguist"
+on-error = "warn"
+on-missing-language-definition = "fail"
+on-missing-tool-binary = "fail-fast"
+timeout = 10000
+
+[code-block-tools.languages.python]
+lint = ["mypy-strict"]
+format = ["mypy-strict"]
+on-error = "skip"
+
+[code-block-tools.language-aliases]
+py = "python"
+
+[code-block-tools.tools.mypy-strict]
+command = ["mypy", "--strict"]
+stdin = false
+lint-args = ["--no-color"]
+`;
+
+      expect(errorsOf(config)).to.be.empty;
+    });
+
+    test('rejects a value outside the on-error enum', () => {
+      const result = ConfigValidator.validateToml('[code-block-tools]\non-error = "ignore"\n');
+
+      expect(result.valid).to.be.false;
+      expect(result.errors).to.have.lengthOf(1);
+      expect(result.errors[0].line).to.equal(1);
+      expect(result.errors[0].message).to.match(/Expected one of: 'fail', 'skip', 'warn'/);
+    });
+
+    test('rejects a value outside the normalize-language enum', () => {
+      const errors = errorsOf('[code-block-tools]\nnormalize-language = "linguistic"\n');
+
+      expect(errors.join('; ')).to.match(/'linguist', 'exact'/);
+    });
+
+    test('requires an integer timeout', () => {
+      expect(errorsOf('[code-block-tools]\ntimeout = 1.5\n').join('; ')).to.match(
+        /non-negative integer/
+      );
+      expect(errorsOf('[code-block-tools]\ntimeout = "30s"\n').join('; ')).to.match(
+        /non-negative integer/
+      );
+    });
+
+    test('suggests the closest property for a misspelled key', () => {
+      const errors = errorsOf('[code-block-tools]\non-eror = "fail"\n');
+
+      expect(errors).to.have.lengthOf(1);
+      expect(errors[0]).to.match(/Unknown property 'on-eror'.*Did you mean 'on-error'\?/);
+    });
+
+    test('flags unknown keys inside a language table', () => {
+      const errors = errorsOf('[code-block-tools.languages.python]\nlinters = ["ruff"]\n');
+
+      expect(errors.join('; ')).to.match(/Unknown property 'linters'/);
+    });
+
+    test('flags an unknown code-block-tools table', () => {
+      const errors = errorsOf('[code-block-tools.languagez.python]\nlint = []\n');
+
+      expect(errors.join('; ')).to.match(/Unknown section '\[code-block-tools.languagez.python\]'/);
+    });
+
+    test('suggests a defined tool for a misspelled lint entry', () => {
+      const config = `[code-block-tools.languages.python]
+lint = ["mypy-strikt"]
+
+[code-block-tools.tools.mypy-strict]
+command = ["mypy", "--strict"]
+`;
+
+      const result = ConfigValidator.validateToml(config);
+      const toolErrors = result.errors.filter(e => /Tool 'mypy-strikt'/.test(e.message));
+
+      expect(toolErrors).to.have.lengthOf(1);
+      expect(toolErrors[0].message).to.include("Did you mean 'mypy-strict'?");
+    });
+
+    test('warns about a lint entry that names no known tool', () => {
+      const result = ConfigValidator.validateToml(
+        '[code-block-tools.languages.python]\nlint = ["nonexistent-tool"]\n'
+      );
+
+      expect(result.errors).to.have.lengthOf(1);
+      expect(result.errors[0].severity).to.equal(vscode.DiagnosticSeverity.Warning);
+      expect(result.errors[0].message).to.equal(
+        "Tool 'nonexistent-tool' in 'lint' is neither a built-in tool nor defined under " +
+          '[code-block-tools.tools]'
+      );
+    });
+
+    test('suggests a built-in tool for a misspelled entry with no custom tools', () => {
+      const result = ConfigValidator.validateToml(
+        '[code-block-tools.languages.python]\nformat = ["rufff"]\n'
+      );
+
+      expect(result.errors).to.have.lengthOf(1);
+      expect(result.errors[0].message).to.match(/Tool 'rufff' in 'format'.*Did you mean 'ruff'\?/);
+    });
+
+    test('accepts a built-in tool without a custom definition', () => {
+      const result = ConfigValidator.validateToml(
+        '[code-block-tools.languages.python]\nlint = ["ruff"]\n'
+      );
+
+      expect(result.errors).to.be.empty;
+      expect(result.valid).to.be.true;
+    });
+
+    test('requires command in a tool definition', () => {
+      const errors = errorsOf('[code-block-tools.tools.mytool]\nstdin = true\n');
+
+      expect(errors.join('; ')).to.match(/Tool 'mytool' must define 'command'/);
+    });
+
+    test('validates tables written inline', () => {
+      const errors = errorsOf(
+        '[code-block-tools]\nlanguages = { python = { on-error = "crash" } }\n' +
+          'tools = { fmt = { stdin = true } }\n'
+      );
+
+      expect(errors.join('; ')).to.match(/Invalid value "crash" for 'on-error'/);
+      expect(errors.join('; ')).to.match(/Tool 'fmt' must define 'command'/);
+    });
+
+    test('validates [tool.rumdl.code-block-tools] in pyproject.toml', () => {
+      const errors = errorsOf(
+        '[tool.rumdl.code-block-tools]\non-missing-tool-binary = "warn"\n',
+        true
+      );
+
+      expect(errors.join('; ')).to.match(/'ignore', 'fail', 'fail-fast'/);
+    });
+
+    test('quick fix offers every allowed enum value', () => {
+      const text = '[code-block-tools]\non-error = "ignore"';
+      const [error] = ConfigValidator.validateToml(text).errors;
+      const document = fakeDocument('/tmp/.rumdl.toml', text);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(error.line, 0, error.line, 19),
+        error.message,
+        error.severity
+      );
+
+      const fixes = ConfigValidator.getQuickFixes(document, diagnostic);
+
+      expect(fixes.map(fix => fix.title)).to.deep.equal([
+        "Change to 'fail'",
+        "Change to 'skip'",
+        "Change to 'warn'",
+      ]);
+    });
+  });
+
+  suite('Rule options from the rumdl binary', () => {
+    const source: RuleOptionSource = {
+      getRuleOptions: ruleCode =>
+        ({
+          MD013: { 'line-length': 80, 'code-blocks': true, 'reflow-mode': 'default', names: [] },
+          MD018: {},
+        })[ruleCode],
+      getValueProblem: (_rule, option, value) =>
+        option === 'reflow-mode' && value === 'wrap' ? 'Invalid reflow mode: wrap' : undefined,
+    };
+    const errorsOf = (config: string, isPyproject = false) =>
+      ConfigValidator.validateToml(config, isPyproject, source).errors.map(e => e.message);
+
+    test('accepts known options in kebab-case and snake_case', () => {
+      const errors = errorsOf(
+        '[MD013]\nline-length = 100\ncode_blocks = false\nreflow-mode = "normalize"\n'
+      );
+
+      expect(errors).to.be.empty;
+    });
+
+    test('flags an unknown option with a suggestion in the same spelling style', () => {
+      expect(errorsOf('[MD013]\nline_lenght = 100\n')).to.deep.equal([
+        "Unknown option 'line_lenght' for rule MD013. Did you mean 'line_length'?",
+      ]);
+      expect(errorsOf('[rules.line-length]\nline-lenght = 100\n')).to.deep.equal([
+        "Unknown option 'line-lenght' for rule MD013. Did you mean 'line-length'?",
+      ]);
+    });
+
+    test('leaves option names the binary accepts, or has yet to judge, alone', () => {
+      const known: Record<string, boolean> = {
+        'MD013.enable-reflow': true,
+        'MD013.line-lenght': false,
+      };
+      const probing: RuleOptionSource = {
+        ...source,
+        isKnownOption: (rule, option) => known[`${rule}.${option}`],
+      };
+      const errors = ConfigValidator.validateToml(
+        '[MD013]\nenable_reflow = true\nline-lenght = 100\nnot-asked-yet = 1\n',
+        false,
+        probing
+      ).errors.map(e => e.message);
+
+      expect(errors).to.deep.equal([
+        "Unknown option 'line-lenght' for rule MD013. Did you mean 'line-length'?",
+      ]);
+    });
+
+    test('flags any option on a rule that has none', () => {
+      expect(errorsOf('[MD018]\nfoo = 1\n').join('; ')).to.match(/which has no options/);
+    });
+
+    test('leaves the options of a rule the binary has no defaults for alone', () => {
+      expect(errorsOf('[MD025]\nlevel = 1\n')).to.be.empty;
+    });
+
+    test('checks the value type against the default', () => {
+      const errors = errorsOf('[MD013]\nline-length = "wide"\ncode-blocks = 1\nnames = "x"\n');
+
+      expect(errors).to.deep.equal([
+        "Option 'line-length' for rule MD013 must be an integer (default: 80)",
+        "Option 'code-blocks' for rule MD013 must be true or false (default: true)",
+        "Option 'names' for rule MD013 must be an array (default: [])",
+      ]);
+    });
+
+    test('reports a string value the binary rejects', () => {
+      const errors = errorsOf('[tool.rumdl.MD013]\nreflow-mode = "wrap"\n', true);
+
+      expect(errors).to.deep.equal([
+        'Invalid value "wrap" for \'reflow-mode\' in rule MD013: Invalid reflow mode: wrap (default: "default")',
+      ]);
+    });
+
+    test('quick fix resets a rejected value to the default', () => {
+      const text = '[MD013]\nreflow-mode = "wrap"  # try wrapping';
+      const [error] = ConfigValidator.validateToml(text, false, source).errors;
+      const document = fakeDocument('/tmp/.rumdl.toml', text);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(error.line, 0, error.line, 11),
+        error.message,
+        error.severity
+      );
+
+      const fixes = ConfigValidator.getQuickFixes(document, diagnostic);
+
+      expect(fixes.map(fix => fix.title)).to.deep.equal(['Change to default value "default"']);
+      const [edit] = fixes[0].edit!.get(document.uri);
+      expect([edit.range.start.character, edit.range.end.character]).to.deep.equal([14, 20]);
+    });
+
+    test('leaves severity and rules the source does not know alone', () => {
+      expect(errorsOf('[MD013]\nseverity = "critical"\n[MD041]\nlevel = 2\n')).to.be.empty;
+    });
+  });
+
+  suite('extends', () => {
+    test('accepts extends at the top of .rumdl.toml and in [tool.rumdl]', () => {
+      expect(ConfigValidator.validateToml('extends = "../base.toml"\n[MD013]\n').errors).to.be
+        .empty;
+      expect(ConfigValidator.validateToml('[tool.rumdl]\nextends = "base.toml"\n', true).errors).to
+        .be.empty;
+    });
+
+    test('requires extends to be a string', () => {
+      const result = ConfigValidator.validateToml('extends = ["a.toml", "b.toml"]\n');
+
+      expect(result.errors.map(e => e.message)).to.deep.equal([
+        "Property 'extends' must be a string (path to a base config file)",
+      ]);
+    });
+
+    test('extends inside [global] is an unknown property, as in the CLI', () => {
+      const result = ConfigValidator.validateToml('[global]\nextends = "base.toml"\n');
+
+      expect(result.errors[0].message).to.match(/^Unknown property 'extends' in \[global\]/);
+    });
+  });
+
+  suite('Duplicate rule sections', () => {
+    const mergeOf = (text: string, fileName = '.rumdl.toml') => {
+      const isPyproject = fileName === 'pyproject.toml';
+      const error = ConfigValidator.validateToml(text, isPyproject).errors.find(e =>
+        e.message.startsWith('Duplicate section')
+      )!;
+      const document = fakeDocument(`/tmp/${fileName}`, text);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(error.line, 0, error.line, 1),
+        error.message,
+        error.severity
+      );
+      const [fix] = ConfigValidator.getQuickFixes(document, diagnostic);
+      const [edit] = fix.edit!.get(document.uri);
+      const lines = text.split('\n');
+      const before = lines.slice(0, edit.range.start.line).join('\n');
+      const after = [
+        lines[edit.range.end.line].substring(edit.range.end.character),
+        ...lines.slice(edit.range.end.line + 1),
+      ].join('\n');
+      return { title: fix.title, text: (before ? `${before}\n` : '') + edit.newText + after };
+    };
+
+    test('reports a rule configured again under another spelling', () => {
+      const result = ConfigValidator.validateToml(
+        '[MD013]\nline-length = 100\n\n[rules.line-length]\ntables = false\n'
+      );
+
+      expect(result.errors).to.have.length(1);
+      const [error] = result.errors;
+      expect(error.line).to.equal(3);
+      expect(error.message).to.match(
+        /^Duplicate section for MD013: already configured in \[MD013\]/
+      );
+      expect(error.related).to.deep.equal([
+        { line: 0, column: 0, message: 'MD013 is first configured here' },
+      ]);
+    });
+
+    test('reports duplicates in pyproject.toml, but not distinct rules', () => {
+      const pyproject = '[tool.rumdl.no-bare-urls]\n[tool.rumdl.MD034]\n[tool.rumdl.MD033]\n';
+      const messages = ConfigValidator.validateToml(pyproject, true).errors.map(e => e.message);
+
+      expect(messages).to.have.length(1);
+      expect(messages[0]).to.match(
+        /^Duplicate section for MD034: already configured in \[tool\.rumdl\.no-bare-urls\]/
+      );
+    });
+
+    test('quick fix merges the later section into the first, later values winning', () => {
+      const text = [
+        '[MD013]',
+        'line-length = 80',
+        'code-blocks = false',
+        '',
+        '[MD033]',
+        'allowed-elements = ["br"]',
+        '',
+        '[line-length]',
+        '# Wider for tables',
+        'line_length = 120',
+        'tables = [',
+        '  "ignored",',
+        ']',
+        '',
+        '[MD041]',
+        'level = 2',
+        '',
+      ].join('\n');
+
+      const { title, text: merged } = mergeOf(text);
+
+      expect(title).to.equal('Merge into [MD013]');
+      expect(merged).to.equal(
+        [
+          '[MD013]',
+          '# Wider for tables',
+          'line_length = 120',
+          'code-blocks = false',
+          'tables = [',
+          '  "ignored",',
+          ']',
+          '',
+          '[MD033]',
+          'allowed-elements = ["br"]',
+          '',
+          '[MD041]',
+          'level = 2',
+          '',
+        ].join('\n')
+      );
+    });
+
+    test('quick fix removes a duplicate at the end of the file cleanly', () => {
+      const text = '[MD013]\nline-length = 80\n\n[rules.MD013]\ntables = false\n';
+
+      expect(mergeOf(text).text).to.equal('[MD013]\nline-length = 80\ntables = false\n');
+    });
+  });
+
+  suite('Conflicting rule lists', () => {
+    test('flags a rule both enabled and disabled, at the disabling entry', () => {
+      const text =
+        '[global]\nenable = ["MD001", "line-length"]\ndisable = [\n  "MD033",\n  "MD013",\n]\n';
+      const result = ConfigValidator.validateToml(text);
+
+      expect(result.errors).to.have.length(1);
+      const [error] = result.errors;
+      expect([error.line, error.column, error.message]).to.deep.equal([
+        4,
+        3,
+        "Rule MD013 is in both 'enable' and 'disable'",
+      ]);
+      expect(error.related).to.deep.equal([
+        { line: 1, column: 20, message: 'MD013 is enabled here' },
+      ]);
+    });
+
+    test('checks the extend- lists, in either spelling', () => {
+      const messages = ConfigValidator.validateToml(
+        '[tool.rumdl]\nextend_enable = ["MD013"]\nextend-disable = ["MD013", "MD033"]\n',
+        true
+      ).errors.map(e => e.message);
+
+      expect(messages).to.deep.equal([
+        "Rule MD013 is in both 'extend_enable' and 'extend-disable'",
+      ]);
+    });
+
+    test('leaves unrelated lists alone', () => {
+      const text = '[global]\nfixable = ["MD013"]\nunfixable = ["MD013"]\ndisable = ["MD013"]\n';
+
+      expect(ConfigValidator.validateToml(text).errors).to.be.empty;
+    });
+  });
+
+  suite('Dotted keys and inline tables', () => {
+    const errorsOf = (text: string, isPyproject = true) =>
+      ConfigValidator.validateToml(text, isPyproject, {
+        getRuleOptions: ruleCode => (ruleCode === 'MD013' ? { 'line-length': 80 } : undefined),
+      }).errors.map(e => `${e.line}:${e.column} ${e.message.split('. ')[0]}`);
+
+    test('validates tool.rumdl however pyproject.toml spells it', () => {
+      expect(errorsOf('[tool]\nrumdl.global.line-lenght = 100\n')).to.deep.equal([
+        "1:0 Unknown property 'line-lenght' in [global] section",
+      ]);
+      expect(
+        errorsOf('[tool]\nrumdl = { flavr = "gfm", per-file-ignores = { "a.md" = ["MD99"] } }\n')
+      ).to.deep.equal([
+        "1:10 Unknown property 'flavr' in [global] section",
+        "1:46 Unknown rule 'MD99' in per-file-ignores",
+      ]);
+      expect(errorsOf('tool.rumdl.MD013 = { line-lenght = 1 }\n')).to.have.length(1);
+      expect(errorsOf('[tool.rumdl]\nbogus = { a = 1 }\n')[0]).to.match(
+        /^1:0 Unknown section '\[tool\.rumdl\.bogus\]'/
+      );
+    });
+
+    test('validates dotted keys and inline tables in .rumdl.toml', () => {
+      expect(errorsOf('global.line-length = "wide"\n', false)).to.deep.equal([
+        "0:0 Property 'line-length' must be a positive number",
+      ]);
+      expect(errorsOf('MD013 = { line-lenght = 1 }\n', false)[0]).to.match(
+        /^0:10 Unknown option 'line-lenght' for rule MD013/
+      );
+    });
+
+    test('reports a rule configured under two spellings of its name', () => {
+      const errors = errorsOf('[tool.rumdl]\nMD013 = { line-length = 100 }\nline-length = {}\n');
+
+      expect(errors).to.have.length(1);
+      expect(errors[0]).to.match(/^2:0 Duplicate section for MD013/);
+    });
+
+    test('recognises every spelling of tool.rumdl', () => {
+      expect(ConfigValidator.hasPyprojectRumdlConfig('[tool.rumdl]\n')).to.equal(true);
+      expect(ConfigValidator.hasPyprojectRumdlConfig('[tool]\nrumdl.line-length = 1\n')).to.equal(
+        true
+      );
+      expect(ConfigValidator.hasPyprojectRumdlConfig('tool = { rumdl = {} }\n')).to.equal(true);
+      expect(ConfigValidator.hasPyprojectRumdlConfig('tool.rumdl.flavor = \n')).to.equal(true);
+      expect(ConfigValidator.hasPyprojectRumdlConfig('[tool.black]\nrumdl = 1\n')).to.equal(false);
+    });
+  });
+
+  suite('Editing rule lists', () => {
+    const applyEdit = (content: string, edit: vscode.TextEdit | undefined) => {
+      if (!edit) {
+        return undefined;
+      }
+      const lines = content.split('\n');
+      const offset = (position: vscode.Position) =>
+        lines.slice(0, position.line).reduce((n, line) => n + line.length + 1, 0) +
+        position.character;
+      return (
+        content.substring(0, offset(edit.range.start)) +
+        edit.newText +
+        content.substring(offset(edit.range.end))
+      );
+    };
+    const addIgnore = (content: string, isPyproject = false) =>
+      applyEdit(
+        content,
+        ConfigValidator.addPerFileIgnore(content, isPyproject, 'docs/a.md', 'MD013')
+      );
+    const addDisabled = (content: string, isPyproject = false) =>
+      applyEdit(content, ConfigValidator.addDisabledRule(content, isPyproject, 'MD013'));
+
+    test('adds a section at the end of the file when there is none', () => {
+      expect(addIgnore('[global]\nline-length = 100\n')).to.equal(
+        '[global]\nline-length = 100\n\n[per-file-ignores]\n"docs/a.md" = ["MD013"]\n'
+      );
+      expect(addIgnore('[tool.rumdl]\nline-length = 100\n', true)).to.equal(
+        '[tool.rumdl]\nline-length = 100\n\n[tool.rumdl.per-file-ignores]\n"docs/a.md" = ["MD013"]\n'
+      );
+    });
+
+    test('adds the pattern after the last entry of the section', () => {
+      expect(
+        addIgnore('[per-file-ignores]\n"README.md" = ["MD033"]\n\n[MD013]\nline-length = 100\n')
+      ).to.equal(
+        '[per-file-ignores]\n"README.md" = ["MD033"]\n"docs/a.md" = ["MD013"]\n\n[MD013]\nline-length = 100\n'
+      );
+    });
+
+    test("adds the rule to the pattern's list as it is written", () => {
+      expect(addIgnore('[per-file-ignores]\n"docs/a.md" = ["MD033"] # why\n')).to.equal(
+        '[per-file-ignores]\n"docs/a.md" = ["MD033", "MD013"] # why\n'
+      );
+      expect(addIgnore('[per-file-ignores]\n"docs/a.md" = [\n  "MD033",\n  "MD041"\n]\n')).to.equal(
+        '[per-file-ignores]\n"docs/a.md" = [\n  "MD033",\n  "MD041",\n  "MD013"\n]\n'
+      );
+      expect(addIgnore('[per-file-ignores]\n"docs/a.md" = [\n  "MD033",\n]\n')).to.equal(
+        '[per-file-ignores]\n"docs/a.md" = [\n  "MD033",\n  "MD013",\n]\n'
+      );
+    });
+
+    test('leaves files it cannot edit safely, or that already ignore the rule', () => {
+      expect(addIgnore('[per-file-ignores]\n"docs/a.md" = ["line-length"]\n')).to.be.undefined;
+      expect(addIgnore('per-file-ignores = { "x.md" = ["MD001"] }\n')).to.be.undefined;
+      expect(addIgnore('[per-file-ignores\n')).to.be.undefined;
+    });
+
+    test('adds a rule to the disable list of [global] or [tool.rumdl]', () => {
+      expect(
+        addDisabled('[global]\ndisable = [] # none yet\n\n[MD013]\nline-length = 100\n')
+      ).to.equal('[global]\ndisable = ["MD013"] # none yet\n\n[MD013]\nline-length = 100\n');
+      expect(addDisabled('[global]\nline-length = 100\n')).to.equal(
+        '[global]\nline-length = 100\ndisable = ["MD013"]\n'
+      );
+      expect(addDisabled('[MD033]\nallowed-elements = ["br"]\n')).to.equal(
+        '[MD033]\nallowed-elements = ["br"]\n\n[global]\ndisable = ["MD013"]\n'
+      );
+      expect(
+        addDisabled('[tool.black]\nline-length = 88\n\n[tool.rumdl]\ndisable = ["MD033"]\n', true)
+      ).to.equal('[tool.black]\nline-length = 88\n\n[tool.rumdl]\ndisable = ["MD033", "MD013"]\n');
+      expect(addDisabled('[global]\ndisable = ["line-length"]\n')).to.be.undefined;
+      expect(addDisabled('[tool]\nrumdl.disable = []\n', true)).to.be.undefined;
+    });
+
+    test('removes a rule from the lists it is in, by code or alias', () => {
+      const remove = (content: string, isPyproject = false) =>
+        ConfigValidator.removeFromRuleLists(
+          content,
+          isPyproject,
+          ['disable', 'extend-disable'],
+          'MD013'
+        )
+          .reverse()
+          .reduce<string>((text, edit) => applyEdit(text, edit)!, content);
+
+      expect(remove('[global]\ndisable = ["MD033", "MD013", "MD041"]\n')).to.equal(
+        '[global]\ndisable = ["MD033", "MD041"]\n'
+      );
+      expect(remove('[global]\ndisable = ["MD033", "line-length"] # why\n')).to.equal(
+        '[global]\ndisable = ["MD033"] # why\n'
+      );
+      expect(
+        remove(
+          '[global]\nextend_disable = [\n  "MD013", # noisy\n  "MD033",\n]\nenable = ["MD013"]\n'
+        )
+      ).to.equal('[global]\nextend_disable = [\n  "MD033",\n]\nenable = ["MD013"]\n');
+      expect(remove('[tool.rumdl]\ndisable = ["MD013"]\n', true)).to.equal(
+        '[tool.rumdl]\ndisable = []\n'
+      );
+      expect(remove('[MD013]\ndisable = ["MD013"]\n')).to.equal('[MD013]\ndisable = ["MD013"]\n');
+    });
+  });
+
+  suite('Section detection', () => {
+    test('classifies every header form the validator accepts', () => {
+      const kinds = [
+        'global',
+        'MD013',
+        'line-length',
+        'rules.MD013',
+        'per-file-ignores',
+        'per-file-flavor',
+        'code-block-tools.languages.python',
+        'tool.rumdl.MD013',
+        'bogus',
+      ].map(header => ConfigValidator.classifySection(header));
+
+      expect(kinds.map(k => k.kind)).to.deep.equal([
+        'global',
+        'rule',
+        'rule',
+        'rule',
+        'per-file-ignores',
+        'per-file-flavor',
+        'code-block-tools',
+        'rule',
+        'unknown',
+      ]);
+      expect(kinds[2].ruleCode).to.equal('MD013');
+    });
+
+    test('treats only tool.rumdl tables of pyproject.toml as rumdl config', () => {
+      expect(ConfigValidator.classifySection('tool.rumdl', true).kind).to.equal('global');
+      expect(ConfigValidator.classifySection('tool.rumdl.per-file-ignores', true).kind).to.equal(
+        'per-file-ignores'
+      );
+      expect(ConfigValidator.classifySection('tool.black', true).kind).to.equal('foreign');
+    });
+
+    test('finds the section a line belongs to', () => {
+      const lines = ['extends = "base.toml"', '[MD013] # comment', 'line-length = 100'];
+
+      expect(ConfigValidator.findSection(lines, 0)).to.deep.equal({
+        kind: 'root',
+        header: '',
+        line: -1,
+      });
+      expect(ConfigValidator.findSection(lines, 2)).to.deep.equal({
+        kind: 'rule',
+        header: 'MD013',
+        line: 1,
+        ruleCode: 'MD013',
+      });
+      expect(ConfigValidator.findSection(lines, 0, true).kind).to.equal('foreign');
+    });
+  });
 });
@@ -135,6 +135,13 @@ suite('Configuration Tests', () => {
     }
   });
 
+  test('getConfiguration should lint virtual file systems but not git revisions by default', () => {
+    const schemes = ConfigurationManager.getConfiguration().lint.schemes;
+
+    expect(schemes).to.include.members(['file', 'untitled', 'vscode-vfs', 'memfs']);
+    expect(schemes).to.not.include('git');
+  });
+
   test('isEnabled should return boolean', () => {
     const enabled = ConfigurationManager.isEnabled();
     expect(enabled).to.be.a('boolean');
@@ -0,0 +1,59 @@
+import * as path from 'path';
+import { expect } from '../helper';
+import {
+  editorConfigSectionMatches,
+  parseEditorConfig,
+  resolveEditorConfig,
+} from '../../editorConfig';
+
+suite('EditorConfig Tests', () => {
+  test('parses sections, lower-cases properties and reads root', () => {
+    const parsed = parseEditorConfig(
+      'root = true\n# comment\n[*.md]\nMax_Line_Length = 100\n; other\nindent_size=Tab\n'
+    );
+
+    expect(parsed.root).to.be.true;
+    expect(parsed.sections).to.deep.equal([
+      {
+        glob: '*.md',
+        properties: [
+          { name: 'max_line_length', value: '100', line: 3 },
+          { name: 'indent_size', value: 'tab', line: 5 },
+        ],
+      },
+    ]);
+  });
+
+  test('matches section globs the way EditorConfig does', () => {
+    expect(editorConfigSectionMatches('*.md', 'docs/a.md')).to.be.true;
+    expect(editorConfigSectionMatches('docs/*.md', 'docs/a.md')).to.be.true;
+    expect(editorConfigSectionMatches('docs/*.md', 'docs/sub/a.md')).to.be.false;
+    expect(editorConfigSectionMatches('docs/**.md', 'docs/sub/a.md')).to.be.true;
+    expect(editorConfigSectionMatches('/README.md', 'docs/README.md')).to.be.false;
+    expect(editorConfigSectionMatches('*.{md,txt}', 'a.txt')).to.be.true;
+    expect(editorConfigSectionMatches('ch{1..3}.md', 'ch2.md')).to.be.true;
+    expect(editorConfigSectionMatches('ch{1..3}.md', 'ch4.md')).to.be.false;
+    expect(editorConfigSectionMatches('[!a]*.md', 'b.md')).to.be.true;
+  });
+
+  test('nearer files and later sections win, up to the root file', async () => {
+    const files: Record<string, string> = {
+      [path.resolve('/outer/.editorconfig')]: '[*]\nindent_size = 8\n',
+      [path.resolve('/repo/.editorconfig')]:
+        'root = true\n[*]\nindent_size = 2\nmax_line_length = 80\n[*.md]\nmax_line_length = 100\n',
+      [path.resolve('/repo/docs/.editorconfig')]: '[*.md]\nindent_size = 4\n',
+    };
+
+    const properties = await resolveEditorConfig(
+      path.resolve('/repo/docs/a.md'),
+      async file => files[file]
+    );
+
+    expect(properties.get('indent_size')).to.include({
+      value: '4',
+      file: path.resolve('/repo/docs/.editorconfig'),
+      line: 1,
+    });
+    expect(properties.get('max_line_length')).to.include({ value: '100', line: 5 });
+  });
+});
@@ -0,0 +1,360 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { spawnSync } from 'child_process';
+import { expect, findBundledRumdl } from '../helper';
+import { RuleOptionSource } from '../../configValidator';
+import { ConfigurationManager, RumdlConfig } from '../../configuration';
+import {
+  EFFECTIVE_CONFIG_SCHEME,
+  EffectiveConfig,
+  EffectiveConfigProvider,
+  configFileFor,
+  findConfigFile,
+  renderEffectiveConfig,
+  resolveEffectiveConfig,
+} from '../../effectiveConfig';
+import { RuleCatalog } from '../../ruleCatalog';
+
+const ruleOptions: RuleOptionSource = {
+  getRuleOptions: ruleCode =>
+    ({
+      MD007: { indent: 2 },
+      MD013: { 'line-length': 80, 'code-blocks': true },
+    })[ruleCode],
+};
+
+suite('Effective Config Tests', () => {
+  let testDir: string;
+
+  const write = (name: string, content: string): string => {
+    const file = path.join(testDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  const resolve = (name: string): Promise<EffectiveConfig> =>
+    resolveEffectiveConfig(path.join(testDir, name), { env: {}, homeDir: testDir, ruleOptions });
+
+  // Each value as `section.key = value @ file:line`, lines 1-based
+  const describe = (config: EffectiveConfig, section: string, key: string) => {
+    const entry =
+      section === 'global' ? config.global.get(key) : config.rules.get(section)?.get(key);
+    const sources = entry?.sources.map(source =>
+      source.kind === 'file'
+        ? `${path.relative(testDir, source.file)}:${source.line + 1}`
+        : source.kind
+    );
+    return `${JSON.stringify(entry?.value)} @ ${sources?.join(', ')}`;
+  };
+
+  setup(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rumdl-effective-'));
+    fs.mkdirSync(path.join(testDir, '.git'));
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  suite('findConfigFile', () => {
+    test('prefers any rumdl config up to the repository root over markdownlint', async () => {
+      write('.rumdl.toml', '[global]\n');
+      write('docs/.markdownlint.json', '{}');
+      write('docs/pyproject.toml', '[tool.black]\n');
+
+      expect(await findConfigFile(path.join(testDir, 'docs'), {}, testDir)).to.equal(
+        path.join(testDir, '.rumdl.toml')
+      );
+    });
+
+    test('uses pyproject.toml only when it has a [tool.rumdl] table', async () => {
+      write('rumdl.toml', '[global]\n');
+      write('docs/pyproject.toml', '[tool.rumdl]\nline-length = 100\n');
+
+      expect(await findConfigFile(path.join(testDir, 'docs'), {}, testDir)).to.equal(
+        path.join(testDir, 'docs/pyproject.toml')
+      );
+    });
+
+    test('falls back to a markdownlint config, then the user config', async () => {
+      const home = path.join(testDir, 'home');
+      write('home/.config/rumdl/rumdl.toml', '[global]\n');
+
+      expect(await findConfigFile(testDir, {}, home)).to.equal(
+        path.join(home, '.config/rumdl/rumdl.toml')
+      );
+      write('.markdownlint.yaml', 'MD013: false\n');
+      expect(await findConfigFile(testDir, {}, home)).to.equal(
+        path.join(testDir, '.markdownlint.yaml')
+      );
+    });
+  });
+
+  suite('configFileFor', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    setup(() => {
+      sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+      sandbox.restore();
+    });
+
+    test('uses the configPath of the folder whose server lints the files', async () => {
+      const folder = (name: string, index: number): vscode.WorkspaceFolder => ({
+        uri: vscode.Uri.file(path.join(testDir, name)),
+        name,
+        index,
+      });
+      const folders = [folder('docs', 0), folder('site', 1)];
+      sandbox.stub(vscode.workspace, 'workspaceFolders').get(() => folders);
+      sandbox.stub(ConfigurationManager, 'getConfiguration').callsFake(
+        scope =>
+          ({
+            configPath:
+              scope instanceof vscode.Uri && scope.fsPath === folders[1].uri.fsPath
+                ? 'config/site.toml'
+                : undefined,
+          }) as RumdlConfig
+      );
+      write('docs/.rumdl.toml', '');
+
+      expect(await configFileFor(path.join(testDir, 'docs', 'guide'))).to.equal(
+        path.join(testDir, 'docs', '.rumdl.toml')
+      );
+      expect(await configFileFor(path.join(testDir, 'site', 'pages'))).to.equal(
+        path.join(testDir, 'site', 'config', 'site.toml')
+      );
+    });
+  });
+
+  suite('resolveEffectiveConfig', () => {
+    test('merges the extends chain with the line of every value', async () => {
+      write(
+        'base.toml',
+        '[global]\ndisable = ["MD041"]\nextend-disable = ["MD033"]\n\n[MD013]\ncode_blocks = false\nline-length = 60\n'
+      );
+      write(
+        '.rumdl.toml',
+        'extends = "base.toml"\n\n[global]\nextend_disable = ["MD010"]\n\n[line-length]\nline-length = 70\n'
+      );
+
+      const config = await resolve('a.md');
+
+      expect(config.chain.map(file => path.basename(file))).to.deep.equal([
+        'base.toml',
+        '.rumdl.toml',
+      ]);
+      expect(describe(config, 'global', 'disable')).to.equal('["MD041"] @ base.toml:2');
+      expect(describe(config, 'global', 'extend-disable')).to.equal(
+        '["MD033","MD010"] @ base.toml:3, .rumdl.toml:4'
+      );
+      expect(describe(config, 'MD013', 'line-length')).to.equal('70 @ .rumdl.toml:7');
+      expect(describe(config, 'MD013', 'code-blocks')).to.equal('false @ base.toml:6');
+      expect(describe(config, 'global', 'flavor')).to.equal('"standard" @ default');
+      expect(describe(config, 'MD007', 'indent')).to.equal('2 @ default');
+    });
+
+    test('lists only the per-file entries that match, from the nearest table', async () => {
+      write('base.toml', '[per-file-ignores]\n"README.md" = ["MD041"]\n');
+      write(
+        '.rumdl.toml',
+        'extends = "base.toml"\n[per-file-ignores]\n"docs/*.md" = ["MD033"]\n"other/*.md" = ["MD013"]\n[per-file-flavor]\n"docs/**" = "mkdocs"\n"**/*.md" = "mdx"\n'
+      );
+
+      const config = await resolve('docs/guide.md');
+
+      expect(config.perFileIgnores.map(e => [e.pattern, e.value])).to.deep.equal([
+        ['docs/*.md', ['MD033']],
+      ]);
+      expect(config.perFileFlavor).to.deep.include({ pattern: 'docs/**', value: 'mkdocs' });
+    });
+
+    test('fills MD013 and MD007 from the global line-length and .editorconfig', async () => {
+      write('.rumdl.toml', '[global]\neditorconfig = true\nline-length = 100\n');
+      write('.editorconfig', 'root = true\n[*.md]\nmax_line_length = 90\nindent_size = 3\n');
+
+      const config = await resolve('a.md');
+
+      expect(describe(config, 'MD013', 'line-length')).to.equal('100 @ .rumdl.toml:3');
+      expect(config.rules.get('MD013')?.get('line-length')?.sources[0]).to.include({
+        via: 'global line-length',
+      });
+      expect(describe(config, 'MD007', 'indent')).to.equal('3 @ .editorconfig:4');
+    });
+
+    test('ignores .editorconfig unless the config turns it on', async () => {
+      write('.rumdl.toml', '[global]\n');
+      write('.editorconfig', 'root = true\n[*.md]\nindent_size = 3\n');
+
+      expect(describe(await resolve('a.md'), 'MD007', 'indent')).to.equal('2 @ default');
+    });
+
+    test('reads markdownlint configs the way rumdl imports them', async () => {
+      write(
+        '.markdownlint.json',
+        '{\n  "MD033": false,\n  "line-length": { "line_length": 120 }\n}'
+      );
+
+      const config = await resolve('a.md');
+
+      expect(describe(config, 'global', 'disable')).to.equal('["MD033"] @ .markdownlint.json:2');
+      expect(describe(config, 'MD013', 'line-length')).to.equal('120 @ .markdownlint.json:3');
+    });
+
+    test('records an extends link that cannot be followed', async () => {
+      write('.rumdl.toml', 'extends = "missing.toml"\n[MD013]\nline-length = 70\n');
+
+      const config = await resolve('a.md');
+
+      expect(config.problems).to.deep.equal([
+        `Config file not found: ${path.join(testDir, 'missing.toml')}`,
+      ]);
+      expect(describe(config, 'MD013', 'line-length')).to.equal('70 @ .rumdl.toml:3');
+    });
+  });
+
+  // Checked against the bundled binary, run in the file's directory where
+  // rumdl looks for its config
+  suite('agrees with rumdl', () => {
+    let rumdl: string;
+
+    suiteSetup(function () {
+      const binary = findBundledRumdl();
+      if (!binary) {
+        this.skip();
+      }
+      rumdl = binary!;
+    });
+
+    const run = (dir: string, args: string[]): string => {
+      const result = spawnSync(rumdl, [...args, '--color', 'never'], {
+        cwd: path.join(testDir, dir),
+        encoding: 'utf8',
+        env: { ...process.env, HOME: testDir, XDG_CONFIG_HOME: path.join(testDir, '.config') },
+      });
+      expect(result.status, result.stderr).to.equal(0);
+      return result.stdout;
+    };
+    const rumdlConfig = (dir: string) =>
+      JSON.parse(run(dir, ['config', '--output', 'json'])) as Record<
+        string,
+        Record<string, unknown>
+      >;
+    const rumdlConfigFile = (dir: string) => run(dir, ['config', 'file']).trim().split('\n').pop();
+
+    test('merges an extends chain the way rumdl does', async () => {
+      write(
+        'base.toml',
+        '[global]\ndisable = ["MD041"]\nextend-disable = ["MD033"]\n\n[MD013]\ncode_blocks = false\nline-length = 60\n'
+      );
+      write(
+        '.rumdl.toml',
+        'extends = "base.toml"\n\n[global]\nextend_disable = ["MD010"]\n\n[line-length]\nline-length = 70\n'
+      );
+
+      const config = await resolve('a.md');
+      const expected = rumdlConfig('.');
+
+      for (const key of ['disable', 'extend-disable']) {
+        expect(config.global.get(key)?.value, key).to.deep.equal(expected.global[key]);
+      }
+      for (const option of ['line-length', 'code-blocks']) {
+        expect(config.rules.get('MD013')?.get(option)?.value, option).to.deep.equal(
+          expected.MD013[option]
+        );
+      }
+    });
+
+    test('picks the same config file as rumdl around pyproject.toml', async () => {
+      write('.rumdl.toml', '[MD013]\nline-length = 70\n');
+      write(
+        'pyproject.toml',
+        '[tool.rumdl]\nline-length = 90\n[tool.rumdl.MD013]\nline-length = 95\n'
+      );
+      write('rumdl/pyproject.toml', '[tool.rumdl.MD013]\nline-length = 50\n');
+      write('other/pyproject.toml', '[project]\nname = "other"\n');
+
+      for (const dir of ['.', 'rumdl', 'other']) {
+        const config = await resolve(path.join(dir, 'a.md'));
+
+        expect(config.configFile, dir).to.equal(rumdlConfigFile(dir));
+        expect(config.rules.get('MD013')?.get('line-length')?.value, dir).to.equal(
+          rumdlConfig(dir).MD013['line-length']
+        );
+      }
+
+      fs.rmSync(path.join(testDir, '.rumdl.toml'));
+      const config = await resolve('a.md');
+      const expected = rumdlConfig('.');
+
+      expect(config.configFile).to.equal(rumdlConfigFile('.'));
+      expect(config.global.get('line-length')?.value).to.equal(expected.global['line-length']);
+      expect(config.rules.get('MD013')?.get('line-length')?.value).to.equal(
+        expected.MD013['line-length']
+      );
+    });
+  });
+
+  suite('EffectiveConfigProvider', () => {
+    let sandbox: sinon.SinonSandbox;
+    let provider: EffectiveConfigProvider;
+
+    setup(() => {
+      sandbox = sinon.createSandbox();
+      provider = new EffectiveConfigProvider();
+    });
+
+    teardown(() => {
+      provider.dispose();
+      sandbox.restore();
+    });
+
+    test('renders the configured values when rumdl cannot report option defaults', async () => {
+      write('.rumdl.toml', '[MD013]\nline-length = 70\n');
+      sandbox.stub(RuleCatalog, 'load').rejects(new Error('rumdl crashed'));
+
+      const text = await provider.provideTextDocumentContent(
+        vscode.Uri.from({
+          scheme: EFFECTIVE_CONFIG_SCHEME,
+          path: '/a.md (effective rumdl config).toml',
+          query: vscode.Uri.file(path.join(testDir, 'a.md')).toString(),
+        })
+      );
+
+      expect(text).to.match(/^line-length = 70 +# /m);
+      expect(text).to.include('# Problem: Rule option defaults are not listed');
+    });
+  });
+
+  suite('renderEffectiveConfig', () => {
+    test('renders TOML with a source comment and link for every value', async () => {
+      write('.rumdl.toml', '[MD013]\nline-length = 70\n');
+      const config = await resolveEffectiveConfig(path.join(testDir, 'a.md'), {
+        env: {},
+        homeDir: testDir,
+        settings: [{ setting: 'rumdl.rules.disable', value: ['MD033'], scope: 'User settings' }],
+      });
+
+      const { text, links } = renderEffectiveConfig(config, testDir);
+      const lines = text.split('\n');
+      const md013 = lines.indexOf('[MD013]');
+
+      expect(lines[0]).to.equal('# Effective rumdl configuration for a.md');
+      expect(lines).to.include('# Config file: .rumdl.toml');
+      expect(lines[md013 + 1]).to.match(/^line-length = 70 +# \.rumdl\.toml:2$/);
+      expect(lines.some(l => /^flavor = "standard" +# default$/.test(l))).to.be.true;
+      expect(lines.some(l => /^# rumdl\.rules\.disable = \["MD033"\] +# User settings$/.test(l))).to
+        .be.true;
+
+      const [link] = links;
+      expect(link).to.include({ line: md013 + 1, targetLine: 1 });
+      expect(lines[link.line].substring(link.start, link.end)).to.equal('.rumdl.toml:2');
+    });
+  });
+});
@@ -55,9 +55,11 @@ suite('Formatter Registration Regression (issue #118)', () => {
     );
   });
 
-  test('no production source registers a client-side document formatter', () => {
+  test('no production source registers a client-side Markdown formatter', () => {
     // Walk src/, excluding the test tree, and ensure none of the production .ts files
-    // call vscode.languages.registerDocumentFormattingEditProvider directly.
+    // call vscode.languages.registerDocumentFormattingEditProvider directly, except
+    // the formatter of rumdl's own TOML config files, which the LSP server does not format.
+    const configFormatter = 'src/diagnostics/configDiagnostics.ts';
     const offenders: string[] = [];
 
     const walk = (dir: string): void => {
@@ -74,8 +76,14 @@ suite('Formatter Registration Regression (issue #118)', () => {
           continue;
         }
         const contents = fs.readFileSync(full, 'utf8');
-        if (/registerDocumentFormattingEditProvider\s*\(/.test(contents)) {
-          offenders.push(path.relative(repoRoot, full));
+        const relative = path.relative(repoRoot, full).split(path.sep).join('/');
+        const registrations = contents.match(/registerDocumentFormattingEditProvider\s*\(/g) ?? [];
+        const allowed =
+          relative === configFormatter &&
+          registrations.length === 1 &&
+          /registerDocumentFormattingEditProvider\(\s*RUMDL_CONFIG_FILE_SELECTOR,/.test(contents);
+        if (registrations.length > 0 && !allowed) {
+          offenders.push(relative);
         }
       }
     };
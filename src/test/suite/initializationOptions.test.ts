@@ -1,6 +1,10 @@
 import { expect } from '../helper';
-import { buildInitializationOptions } from '../../client';
-import { RumdlConfig } from '../../configuration';
+import {
+  buildInitializationOptions,
+  buildSettingsNotification,
+  classifySettingsChange,
+} from '../../client';
+import { DEFAULT_LINT_SCHEMES, RumdlConfig } from '../../configuration';
 
 /**
  * Tests for LSP initialization options format.
@@ -23,7 +27,7 @@ function makeConfig(overrides: Partial<RumdlConfig> = {}): RumdlConfig {
   return {
     enable: true,
     fixOnSave: false,
-    lint: { run: 'onType' },
+    lint: { run: 'onType', schemes: DEFAULT_LINT_SCHEMES },
     configPath: undefined,
     rules: { enable: [], disable: [] },
     server: { path: undefined, logLevel: 'info' },
@@ -31,6 +35,12 @@ function makeConfig(overrides: Partial<RumdlConfig> = {}): RumdlConfig {
     diagnostics: { deduplicate: true },
     linkCompletions: { enable: true, contentRoots: [] },
     linkNavigation: { enable: true },
+    config: {
+      checkFilePatterns: true,
+      showUnsetDefaults: false,
+      scanDepth: 5,
+      scanExclude: '**/{node_modules,.git}/**',
+    },
     ...overrides,
   };
 }
@@ -181,3 +191,39 @@ suite('Initialization Options Tests', () => {
     expect(options.enableLinkNavigation).to.be.false;
   });
 });
+
+suite('Settings Change Tests', () => {
+  // Classify a change of exactly `changed`, matching sections the way
+  // ConfigurationChangeEvent.affectsConfiguration does
+  const classify = (...changed: string[]) =>
+    classifySettingsChange(section =>
+      changed.some(setting => setting === section || setting.startsWith(`${section}.`))
+    );
+
+  test('restarts for the binary, its logging and the pull schedule', () => {
+    expect(classify('rumdl.server.path')).to.equal('restart');
+    expect(classify('rumdl.trace.server', 'rumdl.rules.disable')).to.equal('restart');
+    expect(classify('rumdl.lint.run')).to.equal('restart');
+  });
+
+  test('sends the initialization options live', () => {
+    expect(classify('rumdl.rules.disable')).to.equal('live');
+    expect(classify('rumdl.configPath', 'rumdl.linkCompletions.contentRoots')).to.equal('live');
+  });
+
+  test('sends the initialization options at the top of settings', () => {
+    const options = buildInitializationOptions(
+      makeConfig({ rules: { enable: [], disable: ['MD013'] }, fixOnSave: true })
+    );
+    // The shape rumdl 0.1.86 and later apply to a running server
+    const params = buildSettingsNotification(options);
+
+    expect(params.settings).to.equal(options);
+    expect(params.settings).to.include({ enableAutoFix: true });
+    expect(params.settings.disableRules).to.deep.equal(['MD013']);
+  });
+
+  test('leaves the server alone for extension-side settings', () => {
+    expect(classify('rumdl.diagnostics.deduplicate', 'rumdl.config.scanDepth')).to.equal('none');
+  });
+});
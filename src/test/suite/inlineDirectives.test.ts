@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { expect, fakeDocument } from '../helper';
+import {
+  InlineDirectiveCompletionProvider,
+  findDirectiveRules,
+  findUnknownDirectiveRules,
+} from '../../inlineDirectives';
+
+// Labels offered at the end of `line`
+function completions(line: string): string[] | undefined {
+  const items = new InlineDirectiveCompletionProvider().provideCompletionItems(
+    fakeDocument('/project/README.md', line),
+    new vscode.Position(0, line.length)
+  ) as vscode.CompletionItem[] | undefined;
+  return items?.map(item => String(item.label));
+}
+
+suite('Inline Directives Tests', () => {
+  test('finds the rules of rumdl and markdownlint comments', () => {
+    const text = [
+      '<!-- rumdl-disable MD013 line-length -->',
+      'Text <!-- markdownlint-disable-next-line no-inline-html,MD033 --> more',
+      '<!-- rumdl-enable -->',
+      '<!-- rumdl-configure-file { "MD013": false } -->',
+    ].join('\n');
+
+    expect(
+      findDirectiveRules(text).map(r => `${r.line}:${r.start}-${r.end} ${r.name}`)
+    ).to.deep.equal([
+      '0:19-24 MD013',
+      '0:25-36 line-length',
+      '1:41-55 no-inline-html',
+      '1:56-61 MD033',
+    ]);
+  });
+
+  test('skips comments inside fenced code blocks', () => {
+    const text = [
+      '```markdown',
+      '<!-- rumdl-disable MD999 -->',
+      '```',
+      '<!-- rumdl-disable MD998 -->',
+    ];
+
+    expect(findDirectiveRules(text.join('\n')).map(r => r.name)).to.deep.equal(['MD998']);
+  });
+
+  test('reports unknown rule names with the closest known one', () => {
+    const text = '<!-- rumdl-disable-line MD0133 no-inlin-html Md033 bogus-name-here -->';
+
+    expect(findUnknownDirectiveRules(text).map(r => [r.name, r.suggestion])).to.deep.equal([
+      ['MD0133', 'MD003'],
+      ['no-inlin-html', 'no-inline-html'],
+      ['bogus-name-here', undefined],
+    ]);
+  });
+
+  test('completes rule names inside an open directive only', () => {
+    expect(completions('Some text <!-- ')).to.be.undefined;
+    expect(completions('<!-- rumdl-disable MD013 --> ')).to.be.undefined;
+
+    const labels = completions('<!-- markdownlint-disable MD013 ');
+    expect(labels).to.include('MD033');
+    expect(labels).to.include('no-inline-html');
+    expect(labels).not.to.include('MD013');
+    expect(labels).not.to.include('line-length');
+  });
+});
@@ -1,6 +1,6 @@
 import { expect } from '../helper';
 import { buildDiagnosticPullOptions } from '../../client';
-import { RumdlConfig } from '../../configuration';
+import { DEFAULT_LINT_SCHEMES, RumdlConfig } from '../../configuration';
 
 /**
  * Tests for the diagnostic pull schedule `rumdl.lint.run` selects.
@@ -13,7 +13,7 @@ function makeConfig(run: 'onType' | 'onSave'): RumdlConfig {
   return {
     enable: true,
     fixOnSave: false,
-    lint: { run },
+    lint: { run, schemes: DEFAULT_LINT_SCHEMES },
     configPath: undefined,
     rules: { enable: [], disable: [] },
     server: { path: undefined, logLevel: 'info' },
@@ -21,6 +21,12 @@ function makeConfig(run: 'onType' | 'onSave'): RumdlConfig {
     diagnostics: { deduplicate: true },
     linkCompletions: { enable: true, contentRoots: [] },
     linkNavigation: { enable: true },
+    config: {
+      checkFilePatterns: true,
+      showUnsetDefaults: false,
+      scanDepth: 5,
+      scanExclude: '**/{node_modules,.git}/**',
+    },
   };
 }
 
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { expect, fakeDocument } from '../helper';
+import { ConfigValidator, RuleOptionSource, ValidationError } from '../../configValidator';
+import { MarkdownlintConfigValidator } from '../../markdownlintConfigValidator';
+
+const source: RuleOptionSource = {
+  getRuleOptions: ruleCode =>
+    ({
+      MD013: { 'line-length': 80, 'code-blocks': true, strict: false },
+    })[ruleCode],
+};
+
+function problems(content: string, fileName: string): string[] {
+  return MarkdownlintConfigValidator.validate(content, fileName, source).errors.map(
+    e => `${e.line}:${e.column} ${e.message}`
+  );
+}
+
+function quickFixes(content: string, fileName: string, error: ValidationError) {
+  const lines = content.split('\n');
+  const document = fakeDocument(`/tmp/${fileName}`, content);
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(error.line, error.column, error.line, lines[error.line].length),
+    error.message,
+    error.severity
+  );
+  return ConfigValidator.getQuickFixes(document, diagnostic).map(fix => {
+    const [edit] = fix.edit!.get(document.uri);
+    const line = lines[edit.range.start.line];
+    return (
+      line.substring(0, edit.range.start.character) +
+      edit.newText +
+      line.substring(edit.range.end.character)
+    );
+  });
+}
+
+suite('MarkdownlintConfigValidator Tests', () => {
+  test('recognises the markdownlint config files rumdl reads', () => {
+    expect(MarkdownlintConfigValidator.isMarkdownlintConfig('/p/.markdownlint.json')).to.be.true;
+    expect(MarkdownlintConfigValidator.isMarkdownlintConfig('/p/.markdownlint.yml')).to.be.true;
+    expect(MarkdownlintConfigValidator.isMarkdownlintConfig('/p/.markdownlint-cli2.jsonc')).to.be
+      .false;
+  });
+
+  test('accepts rules by code and name, with booleans or options', () => {
+    const json =
+      '{\n  "default": true,\n  "MD013": { "line_length": 100 },\n  "no-bare-urls": false\n}';
+    const yaml = 'default: true\nline-length:\n  code_blocks: false\nMD033: false\n';
+
+    expect(problems(json, '.markdownlint.json')).to.be.empty;
+    expect(problems(yaml, '.markdownlint.yaml')).to.be.empty;
+    expect(problems('', '.markdownlint.yml')).to.be.empty;
+  });
+
+  suite('parse errors', () => {
+    test('reports comments in strict JSON and suggests .jsonc', () => {
+      const content = '{\n  // wrap later\n  "MD013": false\n}';
+
+      expect(problems(content, '.markdownlint.json')).to.deep.equal([
+        '1:2 Comments are not allowed in .markdownlint.json; rename it to .markdownlint.jsonc to use them',
+      ]);
+      expect(problems(content, '.markdownlint.jsonc')).to.be.empty;
+    });
+
+    test('reports trailing commas in strict JSON', () => {
+      expect(problems('{\n  "MD013": false,\n}', '.markdownlint.json')).to.deep.equal([
+        '2:0 Trailing commas are not allowed in .markdownlint.json',
+      ]);
+    });
+
+    test('accepts trailing commas in .jsonc but warns that rumdl skips the file', () => {
+      const content = '{\n  "MD013": false,\n  "MD033": { "allowed_elements": ["br",] },\n}';
+      const result = MarkdownlintConfigValidator.validate(content, '.markdownlint.jsonc');
+
+      expect(result.errors.map(e => [e.line, e.column, e.severity])).to.deep.equal([
+        [2, 39, vscode.DiagnosticSeverity.Warning],
+        [3, 0, vscode.DiagnosticSeverity.Warning],
+      ]);
+      expect(result.errors[0].message).to.contain('trailing comma');
+      expect(MarkdownlintConfigValidator.readSettings(content, '.markdownlint.jsonc')).to.be
+        .undefined;
+    });
+
+    test('reports other JSON errors at their position', () => {
+      expect(problems('{\n  "MD013" false\n}', '.markdownlint.json')).to.deep.equal([
+        '1:10 Invalid JSON: colon expected',
+      ]);
+    });
+
+    test('reports YAML errors at their position', () => {
+      const [error] = problems('MD013:\n  strict: [true\nMD033: false\n', '.markdownlint.yaml');
+
+      expect(error).to.match(/^\d+:\d+ Invalid YAML: /);
+      expect(error).not.to.match(/at line/);
+    });
+
+    test('requires an object at the top level', () => {
+      expect(problems('- MD013\n', '.markdownlint.yaml')).to.deep.equal([
+        '0:0 A markdownlint config must be an object of rule settings',
+      ]);
+    });
+  });
+
+  suite('rules', () => {
+    test('flags unknown rules with a suggestion the quick fix applies', () => {
+      const content = '{\n  "MD01": false,\n  "line-lenght": false\n}';
+      const result = MarkdownlintConfigValidator.validate(content, '.markdownlint.json');
+
+      expect(result.errors.map(e => `${e.line}:${e.column} ${e.message}`)).to.deep.equal([
+        "1:2 Unknown rule 'MD01'. Did you mean 'MD001'?",
+        "2:2 Unknown rule 'line-lenght'. Did you mean 'line-length'?",
+      ]);
+      expect(result.errors.every(e => e.severity === vscode.DiagnosticSeverity.Warning)).to.be.true;
+      expect(quickFixes(content, '.markdownlint.json', result.errors[1])).to.deep.equal([
+        '  "line-length": false',
+      ]);
+    });
+
+    test('explains removed rules and tags, which rumdl ignores', () => {
+      expect(problems('MD002: false\nheadings: false\n', '.markdownlint.yaml')).to.deep.equal([
+        '0:0 Rule MD002 was removed from markdownlint and is not supported by rumdl',
+        "1:0 rumdl does not support markdownlint tags; list the rules in 'headings' individually",
+      ]);
+    });
+
+    test('warns that extends is not followed', () => {
+      expect(problems('extends: base.yaml\n', '.markdownlint.yaml').join()).to.match(
+        /does not follow 'extends'/
+      );
+    });
+
+    test('requires rule values to be booleans or objects', () => {
+      expect(problems('{ "MD013": "warning", "default": 1 }', '.markdownlint.json')).to.deep.equal([
+        "0:2 Rule 'MD013' must be true, false or an object of options",
+        "0:22 Property 'default' must be true or false",
+      ]);
+    });
+  });
+
+  suite('rule options', () => {
+    test('flags options rumdl does not support, at the option key', () => {
+      const content = 'MD013:\n  line_length: 100\n  stern: true\n';
+
+      expect(problems(content, '.markdownlint.yaml')).to.deep.equal([
+        "2:2 Unknown option 'stern' for rule MD013. Valid options: line-length, code-blocks, strict",
+      ]);
+    });
+
+    test('quick fixes put the default back without touching the rest of the line', () => {
+      const content = '{\n  "MD013": { "line_length": "wide", "strict": 1 }\n}';
+      const result = MarkdownlintConfigValidator.validate(content, '.markdownlint.json', source);
+
+      expect(result.errors.map(e => e.message)).to.deep.equal([
+        "Option 'line_length' for rule MD013 must be an integer (default: 80)",
+        "Option 'strict' for rule MD013 must be true or false (default: false)",
+      ]);
+      expect(quickFixes(content, '.markdownlint.json', result.errors[0])).to.deep.equal([
+        '  "MD013": { "line_length": 80, "strict": 1 }',
+      ]);
+      expect(quickFixes(content, '.markdownlint.json', result.errors[1])).to.deep.equal([
+        '  "MD013": { "line_length": "wide", "strict": true }',
+        '  "MD013": { "line_length": "wide", "strict": false }',
+      ]);
+    });
+  });
+});
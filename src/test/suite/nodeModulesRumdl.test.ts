@@ -23,8 +23,8 @@ import { BundledToolsManager } from '../../bundledTools';
  * coupling visible rather than hidden behind `as any`.
  */
 type BundledToolsManagerInternal = {
-  resolveConfiguredRumdlPath(configuredPath: string): string;
-  getWorkspaceNodeModulesRumdlPath(): string | null;
+  resolveConfiguredRumdlPath(configuredPath: string, folder?: vscode.WorkspaceFolder): string;
+  getWorkspaceNodeModulesRumdlPath(folder?: vscode.WorkspaceFolder): string | null;
   buildNodeModulesCandidates(
     workspaceRoot: string,
     platform: NodeJS.Platform,
@@ -143,6 +143,15 @@ suite('NodeModules Rumdl Detection Tests', () => {
     expect(result).to.equal(path.resolve(workspaceRoot, '.venv', 'bin', 'rumdl'));
   });
 
+  test('configured relative executable path resolves against the given folder', () => {
+    stubWorkspace([path.join(tmpDir, 'first'), path.join(tmpDir, 'second')]);
+    const second = vscode.workspace.workspaceFolders![1];
+
+    const result = internal.resolveConfiguredRumdlPath(path.join('bin', 'rumdl'), second);
+
+    expect(result).to.equal(path.resolve(tmpDir, 'second', 'bin', 'rumdl'));
+  });
+
   test('configured command name remains unresolved for PATH lookup', () => {
     stubWorkspace([tmpDir]);
 
@@ -271,6 +280,21 @@ suite('NodeModules Rumdl Detection Tests', () => {
     }
   });
 
+  test('only the given folder is searched for its server', () => {
+    const secondDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rumdl-test4-'));
+    try {
+      stubWorkspace([tmpDir, secondDir]);
+      const [first, second] = vscode.workspace.workspaceFolders!;
+
+      mkfile(nativePackagePath(tmpDir));
+
+      expect(internal.getWorkspaceNodeModulesRumdlPath(first)).to.equal(nativePackagePath(tmpDir));
+      expect(internal.getWorkspaceNodeModulesRumdlPath(second)).to.be.null;
+    } finally {
+      fs.rmSync(secondDir, { recursive: true, force: true });
+    }
+  });
+
   // -------------------------------------------------------------------------
   // f) getBestRumdlPath resolution order
   //    configured > venv > node_modules > system PATH > bundled
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { expect } from '../helper';
+import {
+  CheckWarning,
+  cellFindings,
+  cellFixEdits,
+  joinCells,
+  notebookFindings,
+  parseCheckOutput,
+} from '../../notebookCells';
+
+// A warning as `rumdl check --output-format json` reports it
+function warning(rule: string, line: number, fix?: CheckWarning['fix']): CheckWarning {
+  return { line, column: 1, rule, message: `${rule} finding`, severity: 'warning', fix };
+}
+
+// Output of `rumdl check --stdin --output-format json` 0.2.55 for
+// '# Title\n\nIntro   \n\n### Details'
+const CHECK_OUTPUT = JSON.stringify([
+  {
+    file: 'analysis.md',
+    line: 3,
+    column: 6,
+    rule: 'MD009',
+    message: '3 trailing spaces found',
+    severity: 'warning',
+    fixable: true,
+    fix: { range: { start: 14, end: 17 }, replacement: '' },
+  },
+  {
+    file: 'analysis.md',
+    line: 5,
+    column: 1,
+    rule: 'MD001',
+    message: 'Expected heading level 2, but found heading level 3',
+    severity: 'error',
+    fixable: true,
+    fix: { range: { start: 19, end: 30 }, replacement: '## Details' },
+  },
+  {
+    file: 'analysis.md',
+    line: 5,
+    column: 12,
+    rule: 'MD047',
+    message: 'File should end with a single newline character',
+    severity: 'warning',
+    fixable: true,
+    fix: { range: { start: 30, end: 30 }, replacement: '\n' },
+  },
+]);
+
+suite('Notebook Cells Tests', () => {
+  test('finds the cell of a line of the joined notebook', () => {
+    const joined = joinCells(['# Title\n\nIntro', '### Details']);
+
+    expect(joined.text).to.equal('# Title\n\nIntro\n\n### Details');
+    const findings = notebookFindings(joined, [
+      warning('MD001', 5),
+      // Not a rule about the whole notebook
+      warning('MD013', 3),
+    ]);
+
+    expect([...findings.keys()]).to.deep.equal([1]);
+    const [finding] = findings.get(1)!;
+    expect(finding.range.start.line).to.equal(0);
+    expect(finding.range.end.character).to.equal('### Details'.length);
+    expect(finding.code).to.equal('MD001');
+    expect(finding.source).to.equal('rumdl');
+  });
+
+  test('reads the warnings of rumdl check', () => {
+    const warnings = parseCheckOutput(CHECK_OUTPUT);
+
+    expect(warnings?.map(w => w.rule)).to.deep.equal(['MD009', 'MD001', 'MD047']);
+    expect(warnings?.[1].fix).to.deep.equal({
+      range: { start: 19, end: 30 },
+      replacement: '## Details',
+    });
+    expect(parseCheckOutput('[]')).to.deep.equal([]);
+    expect(parseCheckOutput('error: no such file')).to.be.undefined;
+    expect(parseCheckOutput('{"warnings":[]}')).to.be.undefined;
+    expect(parseCheckOutput('[{"line":"3","rule":"MD001"}]')).to.be.undefined;
+  });
+
+  test('drops the findings a lone cell gets wrong', () => {
+    const finding = (code: string) => {
+      const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), code);
+      diagnostic.source = 'rumdl';
+      diagnostic.code = code;
+      return diagnostic;
+    };
+    const findings = ['MD041', 'MD047', 'MD001', 'MD013'].map(finding);
+    const cell = vscode.Uri.from({ scheme: 'vscode-notebook-cell', path: '/nb.ipynb' });
+
+    expect(cellFindings(cell, findings).map(f => f.code)).to.deep.equal(['MD013']);
+    expect(cellFindings(vscode.Uri.file('/README.md'), findings)).to.have.length(4);
+  });
+
+  test('turns fixes of the joined notebook into edits of its cells', () => {
+    // 'é' takes two bytes, so byte offsets after it are one more than characters
+    const joined = joinCells(['# Café', '###  Menu']);
+    const edits = cellFixEdits(joined, [
+      // '###  Menu' is bytes 9..18 of '# Café\n\n###  Menu'
+      warning('MD001', 3, { range: { start: 9, end: 18 }, replacement: '## Menu' }),
+      // Overlaps the first fix
+      warning('MD019', 3, { range: { start: 12, end: 14 }, replacement: ' ' }),
+      // A newline at the end of the notebook is not a cell's business
+      warning('MD047', 3, { range: { start: 18, end: 18 }, replacement: '\n' }),
+      // Spans the blank line between the cells
+      warning('MD012', 1, { range: { start: 7, end: 9 }, replacement: '' }),
+    ]);
+
+    expect(edits).to.have.length(1);
+    expect(edits[0].index).to.equal(1);
+    expect(edits[0].range.start.character).to.equal(0);
+    expect(edits[0].range.end.character).to.equal('###  Menu'.length);
+    expect(edits[0].newText).to.equal('## Menu');
+  });
+});
@@ -0,0 +1,113 @@
+import { expect, findBundledRumdl } from '../helper';
+import { RuleCatalog, parseRuleCatalog } from '../../ruleCatalog';
+
+// Trimmed output of `rumdl rule -o json` and `rumdl config --defaults --output json`.
+const RULES_JSON = JSON.stringify([
+  {
+    code: 'MD013',
+    name: 'line-length',
+    aliases: [],
+    summary: 'Line length should not be excessive',
+    category: 'whitespace',
+    fix: 'Fix is always available.',
+    fix_availability: 'Always',
+    url: 'https://rumdl.dev/md013/',
+  },
+  {
+    code: 'MD025',
+    name: 'single-title',
+    aliases: ['single-h1'],
+    summary: 'Multiple top-level headings in the same document',
+    category: 'heading',
+    fix_availability: 'Unfixable',
+  },
+]);
+
+const DEFAULTS_JSON = JSON.stringify({
+  global: { 'line-length': 80 },
+  'per-file-ignores': {},
+  MD013: { 'line-length': 80, 'code-blocks': true, 'reflow-mode': 'default' },
+});
+
+suite('Rule Catalog Tests', () => {
+  test('combines rule metadata with the defaults of its options', () => {
+    const catalog = parseRuleCatalog(RULES_JSON, DEFAULTS_JSON);
+
+    const md013 = catalog.get('MD013');
+    expect(md013?.name).to.equal('line-length');
+    expect(md013?.summary).to.equal('Line length should not be excessive');
+    expect(md013?.fixAvailability).to.equal('Always');
+    expect(md013?.url).to.equal('https://rumdl.dev/md013/');
+    expect(md013?.options).to.deep.equal({
+      'line-length': 80,
+      'code-blocks': true,
+      'reflow-mode': 'default',
+    });
+  });
+
+  test('leaves the options of a rule without a defaults section unknown', () => {
+    const catalog = parseRuleCatalog(RULES_JSON, DEFAULTS_JSON);
+
+    expect(catalog.get('MD025')?.options).to.be.undefined;
+    expect(catalog.get('MD025')?.aliases).to.deep.equal(['single-h1']);
+    expect(catalog.get('MD025')?.url).to.be.undefined;
+  });
+
+  test('reads rule sections nested under rules', () => {
+    const nested = JSON.stringify({ rules: { MD013: { 'line-length': 100 } } });
+
+    const catalog = parseRuleCatalog(RULES_JSON, nested);
+
+    expect(catalog.get('MD013')?.options).to.deep.equal({ 'line-length': 100 });
+  });
+
+  test('does not invent rules that only appear in the defaults', () => {
+    const catalog = parseRuleCatalog(RULES_JSON, DEFAULTS_JSON);
+
+    expect([...catalog.keys()]).to.deep.equal(['MD013', 'MD025']);
+  });
+
+  test('asks the binary about the values it has not judged yet', async function () {
+    const rumdl = findBundledRumdl();
+    if (!rumdl) {
+      this.skip();
+      return;
+    }
+    this.timeout(20000);
+    const catalog = await RuleCatalog.forBinary(rumdl);
+    expect(catalog).to.not.be.undefined;
+
+    expect(catalog!.getValueProblem('MD003', 'style', 'bogus')).to.be.undefined;
+    catalog!.getValueProblem('MD003', 'style', 'atx');
+    catalog!.getValueProblem('MD046', 'style', 'fenced');
+    expect(catalog!.hasPendingProbes()).to.be.true;
+
+    expect(await catalog!.probePending()).to.be.true;
+    expect(catalog!.hasPendingProbes()).to.be.false;
+    expect(catalog!.getValueProblem('MD003', 'style', 'bogus')).to.contain('bogus');
+    expect(catalog!.getValueProblem('MD003', 'style', 'atx')).to.be.undefined;
+    expect(catalog!.getValueProblem('MD046', 'style', 'fenced')).to.be.undefined;
+    expect(catalog!.hasPendingProbes()).to.be.false;
+  });
+
+  test('asks the binary about option names its defaults leave out', async function () {
+    const rumdl = findBundledRumdl();
+    if (!rumdl) {
+      this.skip();
+      return;
+    }
+    this.timeout(20000);
+    const catalog = await RuleCatalog.forBinary(rumdl);
+
+    // Aliases rumdl accepts, and a typo it warns about
+    expect(catalog!.isKnownOption('MD013', 'enable-reflow')).to.be.undefined;
+    catalog!.isKnownOption('MD033', 'allowed');
+    catalog!.isKnownOption('MD013', 'line-lenght');
+
+    expect(await catalog!.probePending()).to.be.true;
+    expect(catalog!.isKnownOption('MD013', 'enable-reflow')).to.be.true;
+    expect(catalog!.isKnownOption('MD033', 'allowed')).to.be.true;
+    expect(catalog!.isKnownOption('MD013', 'line-lenght')).to.be.false;
+    expect(catalog!.hasPendingProbes()).to.be.false;
+  });
+});
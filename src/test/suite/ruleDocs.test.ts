@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expect } from '../helper';
+import { resolveEffectiveConfig } from '../../effectiveConfig';
+import {
+  EXPLAIN_RULE_COMMAND,
+  formatRuleDocumentation,
+  linkRuleDocumentation,
+  parseRuleDocumentation,
+  ruleOptionRows,
+} from '../../ruleDocs';
+
+// Trimmed output of `rumdl rule -o json --explain`; only MD013 has its docs built in
+const RULES_JSON = JSON.stringify([
+  {
+    code: 'MD013',
+    name: 'line-length',
+    aliases: [],
+    summary: 'Line length should not be excessive',
+    category: 'whitespace',
+    fix: 'Fix is always available.',
+    fix_availability: 'Always',
+    url: 'https://rumdl.dev/md013/',
+    explanation: '# MD013 - Line length\n\nKeeps lines short.',
+  },
+  {
+    code: 'MD025',
+    name: 'single-title',
+    aliases: ['single-h1'],
+    summary: 'Multiple top-level headings in the same document',
+    category: 'heading',
+    fix: 'Fix is not available.',
+    url: 'https://rumdl.dev/md025/',
+  },
+]);
+
+suite('Rule Docs Tests', () => {
+  test('uses the documentation the binary ships', () => {
+    const docs = parseRuleDocumentation(RULES_JSON);
+
+    expect(formatRuleDocumentation(docs.get('MD013')!)).to.equal(
+      '# MD013 - Line length\n\nKeeps lines short.'
+    );
+  });
+
+  test('builds a page from the metadata when the binary has no documentation', () => {
+    const page = formatRuleDocumentation(parseRuleDocumentation(RULES_JSON).get('MD025')!);
+
+    expect(page).to.contain('# MD025 · single-title');
+    expect(page).to.contain('Multiple top-level headings in the same document');
+    expect(page).to.contain('**Aliases:** `single-h1`');
+    expect(page).to.contain('reports no explanation for this rule');
+    expect(page).to.contain('[https://rumdl.dev/md025/](https://rumdl.dev/md025/)');
+  });
+
+  test('lists every option with its default and the line that sets it', async () => {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rumdl-rule-docs-'));
+    try {
+      const configFile = path.join(testDir, '.rumdl.toml');
+      fs.writeFileSync(configFile, '[MD013]\nline-length = 120\nstrict = true\n');
+      const defaults = { 'line-length': 80, 'code-blocks': true };
+      const config = await resolveEffectiveConfig(path.join(testDir, 'README.md'), {
+        env: {},
+        homeDir: testDir,
+        ruleOptions: { getRuleOptions: () => defaults },
+      });
+
+      expect(ruleOptionRows('MD013', defaults, config)).to.deep.equal([
+        { name: 'code-blocks', default: true, value: true, source: undefined },
+        { name: 'line-length', default: 80, value: 120, source: { file: configFile, line: 1 } },
+        { name: 'strict', default: undefined, value: true, source: { file: configFile, line: 2 } },
+      ]);
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test('links the code of rumdl findings to the rule documentation', () => {
+    const diagnostic = (source: string) => {
+      const result = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), 'Line too long');
+      result.source = source;
+      result.code = 'MD013';
+      return result;
+    };
+    const finding = diagnostic('rumdl');
+    const other = diagnostic('cSpell');
+
+    linkRuleDocumentation([finding, other]);
+
+    const code = finding.code as { value: string; target: vscode.Uri };
+    expect(code.value).to.equal('MD013');
+    expect(code.target.scheme).to.equal('command');
+    expect(code.target.path).to.equal(EXPLAIN_RULE_COMMAND);
+    expect(JSON.parse(code.target.query)).to.deep.equal(['MD013']);
+    expect(other.code).to.equal('MD013');
+  });
+});
@@ -0,0 +1,98 @@
+import { parse } from 'smol-toml';
+import { expect } from '../helper';
+import { EffectiveConfig } from '../../effectiveConfig';
+import { effectiveRuleLists, ruleToggleEdits } from '../../ruleExplorer';
+import { DEFAULT_CONFIG_CONTENT } from '../../commands';
+import { isRuleEnabled } from '../../ruleSettings';
+import { applyTextEdits } from '../../utils';
+
+// An effective config with the given [global] values and rumdl.rules settings
+function configWith(
+  global: Record<string, string[]>,
+  settings: Record<string, string[]> = {}
+): EffectiveConfig {
+  return {
+    filePath: '/project/README.md',
+    chain: [],
+    global: new Map(
+      Object.entries(global).map(([key, value]) => [key, { value, sources: [] }] as const)
+    ),
+    rules: new Map(),
+    perFileIgnores: [],
+    settings: Object.entries(settings).map(([setting, value]) => ({
+      setting,
+      value,
+      scope: 'Workspace settings',
+    })),
+    problems: [],
+  };
+}
+
+suite('Rule Explorer Tests', () => {
+  test('enables every rule no list leaves out', () => {
+    const lists = effectiveRuleLists(configWith({ disable: ['line-length'] }));
+
+    expect(isRuleEnabled('MD001', lists)).to.be.true;
+    expect(isRuleEnabled('MD013', lists)).to.be.false;
+    expect(isRuleEnabled('MD013', effectiveRuleLists(configWith({ disable: ['ALL'] })))).to.be
+      .false;
+  });
+
+  test('combines the enable lists of the config and the settings', () => {
+    const config = configWith(
+      { enable: ['MD001'], 'extend-enable': ['MD013'] },
+      { 'rumdl.rules.enable': ['MD033'], 'rumdl.rules.disable': ['MD013'] }
+    );
+    const lists = effectiveRuleLists(config);
+
+    // The setting replaces the config's enable list, which extend-enable extends
+    expect(isRuleEnabled('MD001', lists)).to.be.false;
+    expect(isRuleEnabled('MD033', lists)).to.be.true;
+    expect(isRuleEnabled('MD013', lists)).to.be.false;
+    // extend-enable alone changes nothing
+    expect(effectiveRuleLists(configWith({ 'extend-enable': ['MD013'] })).enable).to.be.empty;
+  });
+
+  test('turns a rule off by adding it to disable', () => {
+    const content = '[global]\ndisable = ["MD033"]\n';
+
+    expect(
+      applyTextEdits(content, ruleToggleEdits(content, false, 'MD013', false, false))
+    ).to.equal('[global]\ndisable = ["MD033", "MD013"]\n');
+  });
+
+  test('turns a rule on by taking it out of the disable lists', () => {
+    const content =
+      '[global]\nenable = ["MD001"]\ndisable = ["MD013"]\nextend-disable = ["line-length"]\n';
+
+    expect(applyTextEdits(content, ruleToggleEdits(content, false, 'MD013', true, false))).to.equal(
+      '[global]\nenable = ["MD001"]\ndisable = []\nextend-disable = []\n'
+    );
+    expect(applyTextEdits(content, ruleToggleEdits(content, false, 'MD013', true, true))).to.equal(
+      '[global]\nenable = ["MD001"]\ndisable = []\nextend-disable = []\nextend-enable = ["MD013"]\n'
+    );
+  });
+
+  test('creates a config file that turns the rule off in [global]', () => {
+    const created = applyTextEdits(
+      DEFAULT_CONFIG_CONTENT,
+      ruleToggleEdits(DEFAULT_CONFIG_CONTENT, false, 'MD013', false, false)
+    );
+    const global = created.substring(created.indexOf('[global]'), created.indexOf('[MD013]'));
+
+    expect(global).to.include('disable = ["MD013"]');
+    expect((parse(created).global as { disable: string[] }).disable).to.deep.equal(['MD013']);
+  });
+
+  test('creates a config file that adds the rule to extend-enable in [global]', () => {
+    const created = applyTextEdits(
+      DEFAULT_CONFIG_CONTENT,
+      ruleToggleEdits(DEFAULT_CONFIG_CONTENT, false, 'MD013', true, true)
+    );
+
+    expect(created.indexOf('extend-enable = ["MD013"]')).to.be.within(
+      created.indexOf('[global]'),
+      created.indexOf('[MD013]')
+    );
+  });
+});
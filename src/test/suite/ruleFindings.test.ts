@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { expect } from '../helper';
+import { collectRuleFindings, describeFindings } from '../../ruleFindings';
+
+function diagnostic(code: vscode.Diagnostic['code'], source = 'rumdl'): vscode.Diagnostic {
+  const result = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), 'finding');
+  result.code = code;
+  result.source = source;
+  return result;
+}
+
+suite('Rule Findings Tests', () => {
+  const readme = vscode.Uri.file('/project/README.md');
+  const guide = vscode.Uri.file('/project/docs/guide.md');
+  const outside = vscode.Uri.file('/other/notes.md');
+
+  test('groups rumdl findings by rule code, whatever the form of the code', () => {
+    const findings = collectRuleFindings([
+      [readme, [diagnostic('MD013'), diagnostic({ value: 'MD013', target: readme })]],
+      [guide, [diagnostic('MD033', 'rumdl Language Server'), diagnostic('MD013')]],
+    ]);
+
+    expect([...findings.keys()].sort()).to.deep.equal(['MD013', 'MD033']);
+    expect(findings.get('MD013')!.map(finding => finding.uri.fsPath)).to.deep.equal([
+      readme.fsPath,
+      readme.fsPath,
+      guide.fsPath,
+    ]);
+  });
+
+  test('ignores other sources and diagnostics without a rule code', () => {
+    const findings = collectRuleFindings([
+      [
+        readme,
+        [diagnostic('MD013', 'markdownlint'), diagnostic(undefined), diagnostic('unknown-key')],
+      ],
+    ]);
+
+    expect(findings.size).to.equal(0);
+  });
+
+  test('keeps only files under the given directory', () => {
+    const findings = collectRuleFindings(
+      [
+        [guide, [diagnostic('MD013')]],
+        [outside, [diagnostic('MD013')]],
+      ],
+      '/project'
+    );
+
+    expect(findings.get('MD013')!.map(finding => finding.uri.fsPath)).to.deep.equal([guide.fsPath]);
+  });
+
+  test('describes the number of findings and files', () => {
+    const finding = (uri: vscode.Uri) => ({ uri, diagnostic: diagnostic('MD013') });
+
+    expect(describeFindings([])).to.equal('No findings');
+    expect(describeFindings([finding(readme)])).to.equal('1 finding in 1 file');
+    expect(describeFindings([finding(readme), finding(readme)])).to.equal('2 findings in 1 file');
+    expect(describeFindings([finding(readme), finding(guide), finding(guide)])).to.equal(
+      '3 findings in 2 files'
+    );
+  });
+});
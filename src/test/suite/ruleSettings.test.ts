@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { expect, fakeDocument } from '../helper';
+import { ConfigurationManager, RumdlConfig } from '../../configuration';
+import {
+  RuleLists,
+  applicableCodeActions,
+  applyDocumentRules,
+  fixArguments,
+  widestRuleLists,
+} from '../../ruleSettings';
+
+suite('Rule Settings Tests', () => {
+  let sandbox: sinon.SinonSandbox;
+
+  setup(() => {
+    sandbox = sinon.createSandbox();
+  });
+
+  teardown(() => {
+    sandbox.restore();
+  });
+
+  function finding(code: string): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), code);
+    diagnostic.source = 'rumdl';
+    diagnostic.code = code;
+    return diagnostic;
+  }
+
+  // Settings where `prompt` documents have their own rule lists
+  function stubLanguageRules(plain: RuleLists, prompt: RuleLists): void {
+    sandbox.stub(ConfigurationManager, 'getConfiguration').callsFake(scope => {
+      const languageId = scope && 'languageId' in scope ? scope.languageId : undefined;
+      return { rules: languageId === 'prompt' ? prompt : plain } as RumdlConfig;
+    });
+  }
+
+  test('runs every rule that one of the languages runs', () => {
+    const lists = widestRuleLists([
+      { enable: [], disable: ['MD013', 'MD041'] },
+      { enable: [], disable: ['line-length', 'MD033'] },
+    ]);
+
+    expect(lists).to.deep.equal({ enable: [], disable: ['MD013'] });
+    expect(
+      widestRuleLists([
+        { enable: ['MD001'], disable: ['ALL'] },
+        { enable: ['MD013'], disable: [] },
+      ])
+    ).to.deep.equal({ enable: ['MD001', 'MD013'], disable: [] });
+  });
+
+  test('drops the findings of rules the language of a document turns off', () => {
+    stubLanguageRules({ enable: [], disable: [] }, { enable: [], disable: ['first-line-heading'] });
+    const uri = vscode.Uri.file('/project/agent.prompt.md');
+    sandbox.stub(vscode.workspace, 'textDocuments').get(() => [fakeDocument(uri, '', 'prompt')]);
+
+    const kept = applyDocumentRules(uri, [finding('MD041'), finding('MD013')], {
+      enable: [],
+      disable: [],
+    });
+
+    expect(kept.map(diagnostic => diagnostic.code)).to.deep.equal(['MD013']);
+  });
+
+  test('keeps the findings of documents without their own settings', () => {
+    stubLanguageRules({ enable: [], disable: [] }, { enable: [], disable: ['MD041'] });
+    const findings = [finding('MD041')];
+
+    expect(
+      applyDocumentRules(vscode.Uri.file('/project/README.md'), findings, {
+        enable: [],
+        disable: [],
+      })
+    ).to.equal(findings);
+  });
+
+  test('drops the quick fixes of rules the language of a document turns off', () => {
+    const fix = (...codes: string[]) => {
+      const action = new vscode.CodeAction('Fix', vscode.CodeActionKind.QuickFix);
+      action.diagnostics = codes.map(finding);
+      return action;
+    };
+    const lineLength = fix('MD013');
+    const both = fix('MD041', 'MD013');
+    const fixAll = new vscode.CodeAction('Fix all', vscode.CodeActionKind.SourceFixAll);
+
+    const kept = applicableCodeActions([fix('MD041'), lineLength, both, fixAll], {
+      enable: [],
+      disable: ['first-line-heading'],
+    });
+
+    expect(kept).to.deep.equal([lineLength, both, fixAll]);
+  });
+
+  test('fixes a document from stdin with its own rule lists', () => {
+    const document = fakeDocument('/project/agent.prompt.md');
+
+    expect(
+      fixArguments(
+        document,
+        { enable: ['MD001', 'MD013'], disable: ['MD041'] },
+        { configPath: '/project/.rumdl.toml' }
+      )
+    ).to.deep.equal([
+      'fmt',
+      '--stdin',
+      '--silent',
+      '--enable',
+      'MD001,MD013',
+      '--disable',
+      'MD041',
+      '--config',
+      '/project/.rumdl.toml',
+      '--stdin-filename',
+      document.uri.fsPath,
+    ]);
+    expect(
+      fixArguments(
+        fakeDocument(vscode.Uri.parse('vscode-vfs://github/org/repo/README.md')),
+        { enable: [], disable: [] },
+        { configPath: '/project/.rumdl.toml', noConfig: true }
+      )
+    ).to.deep.equal(['fmt', '--stdin', '--silent', '--no-config']);
+  });
+});
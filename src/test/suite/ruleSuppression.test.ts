@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { expect, fakeDocument } from '../helper';
+import {
+  IGNORE_RULE_IN_CONFIG_COMMAND,
+  RuleSuppressionCodeActionProvider,
+  disableFileEdit,
+  disableNextLineEdit,
+  ignoreRuleInConfig,
+} from '../../ruleSuppression';
+
+// The lines of `text` once `edit` is applied
+function applyEdit(text: string, edit: vscode.TextEdit | undefined): string | undefined {
+  if (!edit) {
+    return undefined;
+  }
+  const lines = text.split('\n');
+  const offset = (position: vscode.Position) =>
+    lines.slice(0, position.line).reduce((n, line) => n + line.length + 1, 0) + position.character;
+  return (
+    text.substring(0, offset(edit.range.start)) +
+    edit.newText +
+    text.substring(offset(edit.range.end))
+  );
+}
+
+suite('Rule Suppression Tests', () => {
+  test('disables a rule for the next line, inside any blockquote', () => {
+    const text = '# Title\n\n> A very long quoted line\n';
+
+    expect(applyEdit(text, disableNextLineEdit(text.split('\n'), 2, 'MD013'))).to.equal(
+      '# Title\n\n> <!-- rumdl-disable-next-line MD013 -->\n> A very long quoted line\n'
+    );
+  });
+
+  test('adds the rule to a disable-next-line comment already above the line', () => {
+    const text = '<!-- rumdl-disable-next-line MD033 -->\n<b>long</b>\n';
+
+    expect(applyEdit(text, disableNextLineEdit(text.split('\n'), 1, 'MD013'))).to.equal(
+      '<!-- rumdl-disable-next-line MD033 MD013 -->\n<b>long</b>\n'
+    );
+  });
+
+  test('does not disable lines inside fenced code', () => {
+    const lines = ['```text', 'long line', '```'];
+
+    expect(disableNextLineEdit(lines, 0, 'MD040')).not.to.be.undefined;
+    expect(disableNextLineEdit(lines, 1, 'MD013')).to.be.undefined;
+  });
+
+  test('disables a rule for the file after any front matter', () => {
+    const text = '---\ntitle: Page\n---\n# Page\n';
+
+    expect(applyEdit(text, disableFileEdit(text.split('\n'), 'MD013'))).to.equal(
+      '---\ntitle: Page\n---\n<!-- rumdl-disable-file MD013 -->\n# Page\n'
+    );
+
+    const disabled = '<!-- rumdl-disable-file MD033 -->\n# Page\n';
+    expect(applyEdit(disabled, disableFileEdit(disabled.split('\n'), 'MD013'))).to.equal(
+      '<!-- rumdl-disable-file MD033 MD013 -->\n# Page\n'
+    );
+  });
+
+  suite('ignore in config', () => {
+    let sandbox: sinon.SinonSandbox;
+    let testDir: string;
+    let applyEdit: sinon.SinonStub;
+
+    setup(() => {
+      sandbox = sinon.createSandbox();
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rumdl-suppression-'));
+      fs.mkdirSync(path.join(testDir, '.git'));
+      fs.mkdirSync(path.join(testDir, 'docs'));
+      applyEdit = sandbox.stub(vscode.workspace, 'applyEdit').resolves(true);
+    });
+
+    teardown(() => {
+      sandbox.restore();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('offers a command, so the config is only read once it is chosen', () => {
+      const uri = vscode.Uri.file(path.join(testDir, 'docs', 'a.md'));
+      const document = fakeDocument(uri, '<b>x</b>\n');
+      const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 8), 'Inline HTML');
+      diagnostic.source = 'rumdl';
+      diagnostic.code = 'MD033';
+
+      const actions = new RuleSuppressionCodeActionProvider().provideCodeActions(
+        document,
+        diagnostic.range,
+        { diagnostics: [diagnostic], only: undefined, triggerKind: 1 }
+      );
+      const ignore = actions.find(
+        action => action.command?.command === IGNORE_RULE_IN_CONFIG_COMMAND
+      );
+
+      expect(ignore?.title).to.equal('Ignore MD033 for this file in the rumdl config');
+      expect(ignore?.command?.arguments).to.deep.equal(['MD033', uri]);
+      expect(ignore?.edit).to.be.undefined;
+    });
+
+    test('adds the file to the per-file-ignores of the config that applies', async () => {
+      const config = path.join(testDir, '.rumdl.toml');
+      fs.writeFileSync(config, '[MD013]\nline-length = 70\n');
+
+      await ignoreRuleInConfig('MD033', vscode.Uri.file(path.join(testDir, 'docs', 'a.md')));
+
+      const edit = applyEdit.firstCall.args[0] as vscode.WorkspaceEdit;
+      const [textEdit] = edit.get(vscode.Uri.file(config));
+      expect(textEdit.newText).to.include('"docs/a.md" = ["MD033"]');
+    });
+
+    test('explains why a markdownlint config cannot take the entry', async () => {
+      fs.writeFileSync(path.join(testDir, '.markdownlint.json'), '{}');
+      const message = sandbox.stub(vscode.window, 'showInformationMessage').resolves(undefined);
+
+      await ignoreRuleInConfig('MD033', vscode.Uri.file(path.join(testDir, 'docs', 'a.md')));
+
+      expect(applyEdit.called).to.be.false;
+      expect(message.firstCall.args[0]).to.equal(
+        '.markdownlint.json applies to this file, and has no per-file-ignores'
+      );
+    });
+  });
+});
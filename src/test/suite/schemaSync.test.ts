@@ -2,7 +2,15 @@ import * as assert from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
-import { GLOBAL_PROPERTIES } from '../../configSchema';
+import {
+  CODE_BLOCK_TOOLS_PROPERTIES,
+  GLOBAL_PROPERTIES,
+  LANGUAGE_TOOL_PROPERTIES,
+  NORMALIZE_LANGUAGE_VALUES,
+  ON_ERROR_VALUES,
+  ON_MISSING_VALUES,
+  TOOL_DEFINITION_PROPERTIES,
+} from '../../configSchema';
 
 // Helper to find the correct rumdl binary for the current platform
 function findRumdlBinary(): string | null {
@@ -70,6 +78,26 @@ suite('Schema Sync Test Suite', () => {
     );
   });
 
+  test('TypeScript code-block-tools constants should match the JSON schema', () => {
+    const schemaPath = path.join(__dirname, '../../../schemas/rumdl.schema.json');
+    const defs = JSON.parse(fs.readFileSync(schemaPath, 'utf-8')).$defs;
+    const constants = (name: string) =>
+      (defs[name].oneOf as { const: string }[]).map(option => option.const);
+
+    assert.deepStrictEqual(ON_ERROR_VALUES, constants('OnError'));
+    assert.deepStrictEqual(ON_MISSING_VALUES, constants('OnMissing'));
+    assert.deepStrictEqual(NORMALIZE_LANGUAGE_VALUES, constants('NormalizeLanguage'));
+    assert.deepStrictEqual(
+      CODE_BLOCK_TOOLS_PROPERTIES,
+      Object.keys(defs.CodeBlockToolsConfig.properties)
+    );
+    assert.deepStrictEqual(
+      LANGUAGE_TOOL_PROPERTIES,
+      Object.keys(defs.LanguageToolConfig.properties)
+    );
+    assert.deepStrictEqual(TOOL_DEFINITION_PROPERTIES, Object.keys(defs.ToolDefinition.properties));
+  });
+
   test('Generated TypeScript config should have kebab-case properties', () => {
     // Verify that GLOBAL_PROPERTIES from the generated configSchema.ts has expected properties
     // rumdl uses kebab-case like Ruff
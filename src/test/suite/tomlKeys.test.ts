@@ -0,0 +1,56 @@
+import { expect } from '../helper';
+import { locateTomlKeys, rumdlKeyPath } from '../../tomlKeys';
+
+// `path@line:column` per key, with D for dotted and I for inline keys
+function keys(content: string): string[] {
+  return locateTomlKeys(content).map(
+    key =>
+      `${key.path.join('/')}@${key.line}:${key.column}` +
+      (key.dotted ? 'D' : '') +
+      (key.inline ? 'I' : '')
+  );
+}
+
+suite('TOML Keys Tests', () => {
+  test('locates keys under table headers', () => {
+    const content = ['top = 1', '', '[tool.rumdl] # config', '  line-length = 100'].join('\n');
+
+    expect(keys(content)).to.deep.equal(['top@0:0', 'tool/rumdl/line-length@3:2']);
+  });
+
+  test('locates dotted, quoted and inline table keys', () => {
+    const content = [
+      '[tool]',
+      'rumdl.MD013 = { line-length = 100, "code.blocks" = [1, 2] }',
+      "'rumdl'.flavor = 'gfm'",
+    ].join('\n');
+
+    expect(keys(content)).to.deep.equal([
+      'tool/rumdl/MD013@1:0D',
+      'tool/rumdl/MD013/line-length@1:16I',
+      'tool/rumdl/MD013/code.blocks@1:35I',
+      'tool/rumdl/flavor@2:0D',
+    ]);
+  });
+
+  test('skips strings, arrays and arrays of tables', () => {
+    const content = [
+      'text = """',
+      'fake = 1',
+      '"""',
+      'list = [{ inner = 1 }, "a = b"]',
+      '[[item]]',
+      'name = "x"',
+      '[after]',
+      'key = 1',
+    ].join('\n');
+
+    expect(keys(content)).to.deep.equal(['text@0:0', 'list@3:0', 'after/key@7:0']);
+  });
+
+  test('gives the path below tool.rumdl in pyproject.toml', () => {
+    expect(rumdlKeyPath(['tool', 'rumdl', 'MD013'], true)).to.deep.equal(['MD013']);
+    expect(rumdlKeyPath(['tool', 'black', 'line-length'], true)).to.be.undefined;
+    expect(rumdlKeyPath(['MD013'], false)).to.deep.equal(['MD013']);
+  });
+});
@@ -51,4 +51,23 @@ suite('Utils Tests', () => {
       expect(utils.isSupportedDocument(makeDoc('plaintext'))).to.be.false;
     });
   });
+
+  test('compares the version rumdl reports with a minimum', () => {
+    expect(utils.isRumdlVersionAtLeast('rumdl 0.2.55', '0.0.171')).to.be.true;
+    expect(utils.isRumdlVersionAtLeast('rumdl 0.0.171', '0.0.171')).to.be.true;
+    expect(utils.isRumdlVersionAtLeast('rumdl 0.0.99', '0.0.171')).to.be.false;
+    expect(utils.isRumdlVersionAtLeast(null, '0.0.171')).to.be.false;
+  });
+
+  test('runRumdl resolves when the binary exits without reading its input', async () => {
+    const result = await utils.runRumdl(process.execPath, ['-e', 'process.exit(3)'], {
+      input: 'x'.repeat(1024 * 1024),
+    });
+
+    expect(result?.code).to.equal(3);
+  });
+
+  test('runRumdl resolves to null when the binary cannot be started', async () => {
+    expect(await utils.runRumdl('/nonexistent/rumdl', ['--version'])).to.be.null;
+  });
 });
@@ -0,0 +1,271 @@
+/**
+ * Where a key is set in a TOML document. Keys are located however they are
+ * spelled: under a table header, as a dotted key, or inside an inline table.
+ */
+export interface TomlKeyLocation {
+  /** Full path of the key from the document root, e.g. ['tool', 'rumdl', 'MD013', 'line-length'] */
+  path: string[];
+  line: number;
+  column: number;
+  /** Where its value starts */
+  valueLine: number;
+  valueColumn: number;
+  /** Whether the key is written with dots (`global.line-length = 100`) */
+  dotted: boolean;
+  /** Whether the key is inside an inline table (`MD013 = { line-length = 100 }`) */
+  inline: boolean;
+}
+
+/**
+ * Locate every key of a TOML document, in document order, with the path it
+ * has in the parsed document. Keys of array-of-tables entries and of inline
+ * tables inside arrays have no single path and are skipped. The document is
+ * expected to be valid TOML; scanning stops early on anything else.
+ */
+export function locateTomlKeys(content: string): TomlKeyLocation[] {
+  return new TomlKeyScanner(content).scan();
+}
+
+/**
+ * The path of a key below the table rumdl reads its config from: the
+ * document root, or [tool.rumdl] in pyproject.toml. Undefined for keys
+ * outside it.
+ */
+export function rumdlKeyPath(path: string[], isPyproject: boolean): string[] | undefined {
+  if (!isPyproject) {
+    return path;
+  }
+  return path[0] === 'tool' && path[1] === 'rumdl' ? path.slice(2) : undefined;
+}
+
+class TomlKeyScanner {
+  private index = 0;
+  private readonly lineStarts: number[] = [0];
+  private readonly locations: TomlKeyLocation[] = [];
+
+  constructor(private readonly content: string) {
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  scan(): TomlKeyLocation[] {
+    // The table keys are added to; undefined inside an array of tables
+    let table: string[] | undefined = [];
+    for (;;) {
+      this.skipTrivia();
+      if (this.index >= this.content.length) {
+        break;
+      }
+
+      const start = this.index;
+      if (this.content[this.index] === '[') {
+        const arrayOfTables = this.content[this.index + 1] === '[';
+        this.index += arrayOfTables ? 2 : 1;
+        const path = this.readKey();
+        table = arrayOfTables ? undefined : path;
+      } else {
+        this.readEntry(table, false);
+      }
+      this.skipToLineEnd();
+      if (this.index === start) {
+        break;
+      }
+    }
+    return this.locations;
+  }
+
+  /**
+   * Read `key = value`, recording the key when `table` is known.
+   */
+  private readEntry(table: string[] | undefined, inline: boolean): boolean {
+    const keyStart = this.index;
+    const key = this.readKey();
+    this.skipSpaces();
+    if (key.length === 0 || this.content[this.index] !== '=') {
+      return false;
+    }
+    this.index++;
+    this.skipSpaces();
+
+    const path = table && [...table, ...key];
+    if (path) {
+      const keyAt = this.position(keyStart);
+      const valueAt = this.position(this.index);
+      this.locations.push({
+        path,
+        line: keyAt.line,
+        column: keyAt.column,
+        valueLine: valueAt.line,
+        valueColumn: valueAt.column,
+        dotted: key.length > 1,
+        inline,
+      });
+    }
+    this.readValue(path);
+    return true;
+  }
+
+  /**
+   * Read a bare, quoted or dotted key, returning its parts.
+   */
+  private readKey(): string[] {
+    const parts: string[] = [];
+    for (;;) {
+      this.skipSpaces();
+      const char = this.content[this.index];
+      let part: string | undefined;
+      if (char === '"') {
+        part = this.unescape(this.readString('"'));
+      } else if (char === "'") {
+        part = this.readString("'").slice(1, -1);
+      } else {
+        const bare = /^[A-Za-z0-9_-]+/.exec(this.content.substring(this.index, this.index + 256));
+        if (bare) {
+          part = bare[0];
+          this.index += part.length;
+        }
+      }
+      if (part === undefined) {
+        return parts;
+      }
+      parts.push(part);
+      this.skipSpaces();
+      if (this.content[this.index] !== '.') {
+        return parts;
+      }
+      this.index++;
+    }
+  }
+
+  /**
+   * Skip a value; the keys of an inline table are recorded below `path`.
+   */
+  private readValue(path: string[] | undefined): void {
+    const char = this.content[this.index];
+    if (char === '"' || char === "'") {
+      this.readString(char);
+    } else if (char === '[') {
+      this.index++;
+      for (;;) {
+        this.skipTrivia();
+        if (this.index >= this.content.length || this.content[this.index] === ']') {
+          break;
+        }
+        const start = this.index;
+        this.readValue(undefined);
+        this.skipTrivia();
+        if (this.content[this.index] === ',') {
+          this.index++;
+        } else if (this.index === start) {
+          break;
+        }
+      }
+      this.index++;
+    } else if (char === '{') {
+      this.index++;
+      for (;;) {
+        this.skipTrivia();
+        if (this.index >= this.content.length || this.content[this.index] === '}') {
+          break;
+        }
+        if (!this.readEntry(path, true)) {
+          break;
+        }
+        this.skipTrivia();
+        if (this.content[this.index] === ',') {
+          this.index++;
+        }
+      }
+      this.index++;
+    } else {
+      // Numbers, booleans and dates end at a separator, comment or line end
+      while (this.index < this.content.length && !/[,\]}#\n]/.test(this.content[this.index])) {
+        this.index++;
+      }
+    }
+  }
+
+  /**
+   * Read a basic or literal string, single- or multi-line, returning it as
+   * written.
+   */
+  private readString(quote: string): string {
+    const start = this.index;
+    const multiline = this.content.startsWith(quote.repeat(3), this.index);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    this.index += delimiter.length;
+    while (this.index < this.content.length) {
+      const char = this.content[this.index];
+      if (quote === '"' && char === '\\') {
+        this.index += 2;
+      } else if (this.content.startsWith(delimiter, this.index)) {
+        this.index += delimiter.length;
+        // A multi-line string may end in up to two more quotes
+        while (multiline && this.content[this.index] === quote) {
+          this.index++;
+        }
+        break;
+      } else if (!multiline && char === '\n') {
+        break;
+      } else {
+        this.index++;
+      }
+    }
+    return this.content.substring(start, this.index);
+  }
+
+  private unescape(literal: string): string {
+    try {
+      return JSON.parse(literal) as string;
+    } catch {
+      return literal.slice(1, -1);
+    }
+  }
+
+  private skipSpaces(): void {
+    while (this.content[this.index] === ' ' || this.content[this.index] === '\t') {
+      this.index++;
+    }
+  }
+
+  /**
+   * Skip whitespace, line breaks and comments.
+   */
+  private skipTrivia(): void {
+    while (this.index < this.content.length) {
+      const char = this.content[this.index];
+      if (char === '#') {
+        while (this.index < this.content.length && this.content[this.index] !== '\n') {
+          this.index++;
+        }
+      } else if (/[ \t\r\n]/.test(char)) {
+        this.index++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private skipToLineEnd(): void {
+    while (this.index < this.content.length && this.content[this.index] !== '\n') {
+      this.index++;
+    }
+  }
+
+  private position(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low, column: offset - this.lineStarts[low] };
+  }
+}
@@ -92,6 +92,27 @@ export class Logger {
   }
 }
 
+/**
+ * The text of a document once `edits`, which must not overlap, are applied
+ * to it.
+ */
+export function applyTextEdits(text: string, edits: readonly vscode.TextEdit[]): string {
+  const lines = text.split('\n');
+  const offset = (position: vscode.Position) =>
+    lines.slice(0, position.line).reduce((total, line) => total + line.length + 1, 0) +
+    position.character;
+  // Last first, so the offsets of the earlier edits still hold
+  return [...edits]
+    .sort((a, b) => offset(b.range.start) - offset(a.range.start))
+    .reduce(
+      (result, edit) =>
+        result.substring(0, offset(edit.range.start)) +
+        edit.newText +
+        result.substring(offset(edit.range.end)),
+      text
+    );
+}
+
 export function showErrorMessage(
   message: string,
   ...actions: string[]
@@ -242,6 +263,92 @@ export async function getRumdlVersion(rumdlPath?: string, cwd?: string): Promise
   }
 }
 
+/**
+ * Whether `version`, as printed by `rumdl --version` (e.g. `rumdl 0.2.55`),
+ * is `minimum` or later. An unknown version is not.
+ */
+export function isRumdlVersionAtLeast(version: string | null, minimum: string): boolean {
+  const parse = (text: string) =>
+    text
+      .match(/(\d+)\.(\d+)\.(\d+)/)
+      ?.slice(1)
+      .map(Number);
+  const actual = version ? parse(version) : undefined;
+  const wanted = parse(minimum);
+  if (!actual || !wanted) {
+    return false;
+  }
+  const index = actual.findIndex((part, i) => part !== wanted[i]);
+  return index === -1 || actual[index] > wanted[index];
+}
+
+/** Output of a finished rumdl invocation. */
+export interface RumdlRunResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run the rumdl binary with `args` and collect its output. `input` is written
+ * to stdin (which is always closed, so `--stdin` invocations terminate).
+ * Resolves to null when the process cannot be spawned or does not finish
+ * within `timeoutMs`.
+ */
+export async function runRumdl(
+  rumdlPath: string,
+  args: string[],
+  options: { cwd?: string; input?: string; timeoutMs?: number } = {}
+): Promise<RumdlRunResult | null> {
+  if (!rumdlPath || rumdlPath.trim() === '') {
+    return null;
+  }
+
+  try {
+    const { spawn } = await import('child_process');
+    const spawnCwd = resolveCheckCwd(options.cwd);
+    return new Promise(resolve => {
+      const child = spawn(rumdlPath, args, { stdio: 'pipe', cwd: spawnCwd });
+      let stdout = '';
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        child.kill();
+        resolve(null);
+      }, options.timeoutMs ?? 5000);
+
+      child.stdout?.on('data', data => {
+        stdout += data.toString();
+      });
+
+      child.stderr?.on('data', data => {
+        stderr += data.toString();
+      });
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        Logger.debug(`Process error for "${rumdlPath} ${args.join(' ')}": ${error.message}`);
+        resolve(null);
+      });
+
+      // 'close' rather than 'exit': it fires once stdout has been drained
+      child.on('close', code => {
+        clearTimeout(timer);
+        resolve({ code, stdout, stderr });
+      });
+
+      // A process that exits before reading all of its input breaks the pipe
+      child.stdin?.on('error', error => {
+        Logger.debug(`Could not write to "${rumdlPath} ${args.join(' ')}": ${error.message}`);
+      });
+      child.stdin?.end(options.input ?? '');
+    });
+  } catch (error) {
+    Logger.error(`Failed to run rumdl ${args.join(' ')}`, error as Error);
+    return null;
+  }
+}
+
 export function debounce<T extends (...args: unknown[]) => unknown>(
   func: T,
   wait: number
@@ -162,3 +162,49 @@ export class WorkspaceUtils {
     return `${size.toFixed(1)} ${units[unitIndex]}`;
   }
 }
+
+/** Schemes of documents with a path on the local filesystem: files, and notebook cells */
+export const LOCAL_SCHEMES = ['file', 'vscode-notebook-cell'];
+
+/** Whether a document has a path on the local filesystem */
+export function isLocalFile(uri: vscode.Uri): boolean {
+  return LOCAL_SCHEMES.includes(uri.scheme);
+}
+
+/**
+ * The folder whose server owns a file, or a notebook cell in one: the
+ * outermost workspace folder that contains it, so a folder nested in another
+ * shares its server. Undefined for files outside every folder, and for
+ * other schemes.
+ */
+export function owningFolder(
+  uri: vscode.Uri,
+  folders: readonly vscode.WorkspaceFolder[]
+): vscode.WorkspaceFolder | undefined {
+  if (!isLocalFile(uri)) {
+    return undefined;
+  }
+  return outermostFolders(folders).find(folder => {
+    const relative = path.relative(folder.uri.fsPath, uri.fsPath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
+}
+
+/**
+ * The workspace folders that are not inside another one; each gets a language server.
+ */
+export function outermostFolders(
+  folders: readonly vscode.WorkspaceFolder[]
+): vscode.WorkspaceFolder[] {
+  return folders.filter(
+    folder =>
+      folder.uri.scheme === 'file' &&
+      !folders.some(other => {
+        if (other === folder || other.uri.scheme !== 'file') {
+          return false;
+        }
+        const relative = path.relative(other.uri.fsPath, folder.uri.fsPath);
+        return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+      })
+  );
+}